@@ -0,0 +1,48 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('sync_jobs', (table) => {
+    table.increments('id').primary();
+    table.string('job_type').notNullable(); // e.g. 'character_sync'
+    table.jsonb('payload').notNullable().defaultTo('{}');
+    // Identifies the unit of work so the same character isn't queued twice while pending/running
+    table.string('dedupe_key').nullable();
+    table.string('status').notNullable().defaultTo('pending'); // pending | running | completed | dead
+    table.integer('attempts').notNullable().defaultTo(0);
+    table.integer('max_attempts').notNullable().defaultTo(5);
+    table.timestamp('run_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('locked_at').nullable();
+    table.string('locked_by').nullable();
+    table.text('last_error').nullable();
+    table.timestamp('completed_at').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['status', 'run_at'], 'idx_sync_jobs_status_run_at');
+    table.index('job_type', 'idx_sync_jobs_job_type');
+  });
+
+  // Only one live (pending or running) job per dedupe key
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_sync_jobs_active_dedupe_key
+    ON sync_jobs (dedupe_key)
+    WHERE status IN ('pending', 'running');
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER update_sync_jobs_updated_at
+    BEFORE UPDATE ON sync_jobs
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('sync_jobs');
+};
@@ -0,0 +1,44 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('sync_runs', (table) => {
+    table.increments('id').primary();
+    table.integer('guild_id').unsigned().notNullable();
+    table.foreign('guild_id').references('guilds.id').onDelete('CASCADE');
+    table.string('trigger').notNullable().defaultTo('scheduled'); // scheduled | manual
+    table.string('status').notNullable().defaultTo('running'); // running | succeeded | failed
+    table.timestamp('started_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('finished_at').nullable();
+    table.integer('duration_ms').nullable();
+    table.text('error').nullable();
+
+    table.index(['guild_id', 'started_at'], 'idx_sync_runs_guild_id_started_at');
+  });
+
+  await knex.schema.createTable('sync_run_steps', (table) => {
+    table.increments('id').primary();
+    table.integer('sync_run_id').unsigned().notNullable();
+    table.foreign('sync_run_id').references('sync_runs.id').onDelete('CASCADE');
+    table.string('step').notNullable(); // core | members | ranks | characters
+    table.string('status').notNullable().defaultTo('running'); // running | succeeded | failed
+    table.timestamp('started_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('finished_at').nullable();
+    table.integer('duration_ms').nullable();
+    table.text('error').nullable();
+    // Step-specific counters, e.g. { queued, succeeded, unavailable, failed } for characters
+    table.jsonb('details').notNullable().defaultTo('{}');
+
+    table.unique(['sync_run_id', 'step']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('sync_run_steps');
+  await knex.schema.dropTableIfExists('sync_runs');
+};
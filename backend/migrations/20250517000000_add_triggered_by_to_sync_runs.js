@@ -0,0 +1,24 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.alterTable('sync_runs', (table) => {
+    // User who requested an on-demand sync; null for scheduled runs
+    table.integer('triggered_by').unsigned().nullable();
+    table.foreign('triggered_by').references('users.id').onDelete('SET NULL');
+    table.index(['guild_id', 'trigger', 'started_at'], 'idx_sync_runs_guild_trigger_started_at');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('sync_runs', (table) => {
+    table.dropIndex(['guild_id', 'trigger', 'started_at'], 'idx_sync_runs_guild_trigger_started_at');
+    table.dropForeign(['triggered_by']);
+    table.dropColumn('triggered_by');
+  });
+};
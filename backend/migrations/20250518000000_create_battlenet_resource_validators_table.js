@@ -0,0 +1,35 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('battlenet_resource_validators', (table) => {
+    table.increments('id').primary();
+    table.string('resource_type').notNullable(); // character | guild | guild_roster
+    // Region/realm/name identifying the resource, e.g. 'eu/argent-dawn/thrall'
+    table.string('resource_key').notNullable();
+    table.string('etag').nullable();
+    table.string('last_modified').nullable(); // Raw Last-Modified header, echoed back as If-Modified-Since
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.unique(['resource_type', 'resource_key'], {
+      indexName: 'idx_battlenet_resource_validators_type_key',
+    });
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_battlenet_resource_validators_updated_at
+    BEFORE UPDATE ON battlenet_resource_validators
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('battlenet_resource_validators');
+};
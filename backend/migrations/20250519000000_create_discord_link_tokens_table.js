@@ -0,0 +1,26 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('discord_link_tokens', (table) => {
+    table.increments('id').primary();
+    // SHA-256 of the token sent to the user; the raw token is never stored
+    table.string('token_hash', 64).notNullable().unique();
+    table.string('discord_id', 255).notNullable();
+    table.string('discord_username', 255).notNullable();
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index('discord_id', 'idx_discord_link_tokens_discord_id');
+    table.index('expires_at', 'idx_discord_link_tokens_expires_at');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('discord_link_tokens');
+};
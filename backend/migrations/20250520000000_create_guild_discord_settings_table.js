@@ -0,0 +1,35 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('guild_discord_settings', (table) => {
+    table.increments('id').primary();
+    table.integer('guild_id').unsigned().notNullable().unique();
+    table.foreign('guild_id').references('guilds.id').onDelete('CASCADE');
+    table.string('discord_guild_id', 32).nullable(); // Discord server (snowflake) the WoW guild uses
+    table.string('event_channel_id', 32).nullable(); // Text channel event threads are created in
+    // Minutes before an event starts at which reminders go out, e.g. {1440, 60}
+    table.specificType('reminder_lead_times_minutes', 'integer[]').notNullable().defaultTo('{1440}');
+    table.integer('thread_auto_archive_minutes').notNullable().defaultTo(1440); // 60 | 1440 | 4320 | 10080
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index('discord_guild_id', 'idx_guild_discord_settings_discord_guild_id');
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_guild_discord_settings_updated_at
+    BEFORE UPDATE ON guild_discord_settings
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('guild_discord_settings');
+};
@@ -0,0 +1,57 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Per-event reminder offsets; NULL uses the lead times of the guild's Discord settings
+  await knex.schema.alterTable('events', (table) => {
+    table.specificType('reminder_offsets_minutes', 'integer[]').nullable();
+  });
+
+  await knex.schema.createTable('user_reminder_preferences', (table) => {
+    table.integer('user_id').unsigned().primary();
+    table.foreign('user_id').references('users.id').onDelete('CASCADE');
+    table.boolean('signup_reminders').notNullable().defaultTo(true); // "You haven't signed up yet" DMs
+    table.boolean('starting_soon').notNullable().defaultTo(true);    // Pings for confirmed attendees
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_user_reminder_preferences_updated_at
+    BEFORE UPDATE ON user_reminder_preferences
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+
+  await knex.schema.createTable('reminder_deliveries', (table) => {
+    table.increments('id').primary();
+    table.integer('event_id').unsigned().notNullable();
+    table.foreign('event_id').references('events.id').onDelete('CASCADE');
+    table.integer('user_id').unsigned().notNullable();
+    table.foreign('user_id').references('users.id').onDelete('CASCADE');
+    table.string('kind').notNullable(); // signup_reminder | starting_soon
+    table.integer('offset_minutes').notNullable(); // Lead time the reminder was sent for
+    table.string('status').notNullable().defaultTo('sending'); // sending | sent | failed
+    table.text('error').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('sent_at').nullable();
+
+    // One row per reminder: inserting it is how a run claims the right to send it
+    table.unique(['event_id', 'user_id', 'kind', 'offset_minutes'], {
+      indexName: 'idx_reminder_deliveries_unique',
+    });
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('reminder_deliveries');
+  await knex.schema.dropTableIfExists('user_reminder_preferences');
+  await knex.schema.alterTable('events', (table) => {
+    table.dropColumn('reminder_offsets_minutes');
+  });
+};
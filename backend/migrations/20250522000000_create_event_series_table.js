@@ -0,0 +1,72 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('event_series', (table) => {
+    table.increments('id').primary();
+    table.integer('guild_id').unsigned().notNullable();
+    table.foreign('guild_id').references('guilds.id').onDelete('CASCADE');
+    table.integer('created_by').unsigned().nullable();
+    table.foreign('created_by').references('users.id').onDelete('SET NULL');
+
+    // Template copied into every generated occurrence
+    table.string('title').notNullable();
+    table.text('description');
+    table.string('event_type').notNullable();
+    table.integer('max_participants');
+    table.jsonb('event_details');
+    table.specificType('reminder_offsets_minutes', 'integer[]').nullable();
+
+    // Recurrence rule, evaluated as wall-clock time in the series' timezone
+    table.string('timezone').notNullable().defaultTo('UTC'); // IANA name, e.g. Europe/Paris
+    table.date('start_date').notNullable();                  // First day the series can occur on
+    table.string('start_time_local', 5).notNullable();       // HH:MM
+    table.integer('duration_minutes').notNullable();
+    table.specificType('weekdays', 'integer[]').notNullable(); // 0 = Sunday ... 6 = Saturday
+    table.integer('interval_weeks').notNullable().defaultTo(1);
+    table.date('until_date').nullable();        // Last day the series can occur on
+    table.integer('occurrence_count').nullable(); // Total number of occurrences
+
+    table.timestamp('generated_until').nullable(); // Occurrences exist up to this instant
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index('guild_id');
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_event_series_updated_at
+    BEFORE UPDATE ON event_series
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+
+  await knex.schema.alterTable('events', (table) => {
+    table.integer('series_id').unsigned().nullable();
+    table.foreign('series_id').references('event_series.id').onDelete('SET NULL');
+    // Start time the rule generated; identifies the occurrence even after it is moved
+    table.timestamp('series_occurrence_start').nullable();
+    // Set when the occurrence was edited on its own; series-wide edits leave it alone
+    table.boolean('is_series_exception').notNullable().defaultTo(false);
+
+    table.unique(['series_id', 'series_occurrence_start'], {
+      indexName: 'idx_events_series_occurrence_unique',
+    });
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('events', (table) => {
+    table.dropUnique(['series_id', 'series_occurrence_start'], 'idx_events_series_occurrence_unique');
+    table.dropForeign(['series_id']);
+    table.dropColumn('is_series_exception');
+    table.dropColumn('series_occurrence_start');
+    table.dropColumn('series_id');
+  });
+  await knex.schema.dropTableIfExists('event_series');
+};
@@ -0,0 +1,84 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Secret tokens calendar apps use instead of a login; only a SHA-256 hash is stored
+  await knex.schema.createTable('calendar_feed_tokens', (table) => {
+    table.increments('id').primary();
+    table.integer('user_id').unsigned().notNullable();
+    table.foreign('user_id').references('users.id').onDelete('CASCADE');
+    table.integer('guild_id').unsigned().nullable(); // NULL = the user's own sign-ups
+    table.foreign('guild_id').references('guilds.id').onDelete('CASCADE');
+    table.string('token_hash', 64).notNullable().unique();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('last_used_at').nullable();
+
+    table.index('user_id');
+  });
+
+  // Deleted events stay in feeds for a while as STATUS:CANCELLED so calendars drop them
+  await knex.schema.createTable('event_cancellations', (table) => {
+    table.increments('id').primary();
+    table.integer('event_id').notNullable(); // No FK, the event row is gone
+    table.integer('guild_id').unsigned().notNullable();
+    table.foreign('guild_id').references('guilds.id').onDelete('CASCADE');
+    table.string('title').notNullable();
+    table.text('description');
+    table.timestamp('start_time').notNullable();
+    table.timestamp('end_time').notNullable();
+    table.integer('ical_sequence').notNullable().defaultTo(0);
+    table.specificType('subscriber_user_ids', 'integer[]').notNullable().defaultTo('{}');
+    table.timestamp('event_created_at').nullable();
+    table.timestamp('cancelled_at').defaultTo(knex.fn.now());
+
+    table.index(['guild_id', 'cancelled_at']);
+  });
+
+  // Revision number calendar apps use to tell an edited event from a stale copy
+  await knex.schema.alterTable('events', (table) => {
+    table.integer('ical_sequence').notNullable().defaultTo(0);
+  });
+
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION bump_event_ical_sequence()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF (NEW.title, NEW.description, NEW.start_time, NEW.end_time)
+         IS DISTINCT FROM (OLD.title, OLD.description, OLD.start_time, OLD.end_time) THEN
+        NEW.ical_sequence = OLD.ical_sequence + 1;
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER bump_events_ical_sequence
+    BEFORE UPDATE ON events
+    FOR EACH ROW
+    EXECUTE PROCEDURE bump_event_ical_sequence();
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER update_events_updated_at
+    BEFORE UPDATE ON events
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.raw('DROP TRIGGER IF EXISTS update_events_updated_at ON events');
+  await knex.raw('DROP TRIGGER IF EXISTS bump_events_ical_sequence ON events');
+  await knex.raw('DROP FUNCTION IF EXISTS bump_event_ical_sequence()');
+  await knex.schema.alterTable('events', (table) => {
+    table.dropColumn('ical_sequence');
+  });
+  await knex.schema.dropTableIfExists('event_cancellations');
+  await knex.schema.dropTableIfExists('calendar_feed_tokens');
+};
@@ -0,0 +1,23 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Confirmed sign-ups that did not fit the role slots or the participant cap.
+  // NULL = seated; otherwise the time the sign-up joined the waitlist (arrival order).
+  await knex.schema.alterTable('event_subscriptions', (table) => {
+    table.timestamp('waitlisted_at').nullable();
+    table.index(['event_id', 'waitlisted_at']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('event_subscriptions', (table) => {
+    table.dropIndex(['event_id', 'waitlisted_at']);
+    table.dropColumn('waitlisted_at');
+  });
+};
@@ -0,0 +1,65 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Publication state of an event's lineup; one row once officers started picking
+  await knex.schema.createTable('event_lineups', (table) => {
+    table.integer('event_id').primary();
+    table.foreign('event_id').references('events.id').onDelete('CASCADE');
+    table.timestamp('published_at').nullable();
+    table.integer('published_by').unsigned().nullable();
+    table.foreign('published_by').references('users.id').onDelete('SET NULL');
+    table.timestamps(true, true);
+  });
+
+  // Officer picks per sign-up, kept apart from the player's own RSVP status.
+  // published_* hold what participants were last shown.
+  await knex.schema.createTable('event_lineup_entries', (table) => {
+    table.increments('id').primary();
+    table.integer('event_id').notNullable();
+    table.foreign('event_id').references('events.id').onDelete('CASCADE');
+    table.integer('subscription_id').notNullable().unique();
+    table.foreign('subscription_id').references('event_subscriptions.id').onDelete('CASCADE');
+    table.enum('selection', ['In', 'Bench', 'Standby']).nullable();
+    table.integer('group_number').nullable(); // 1-8, only for "In"
+    table.enum('published_selection', ['In', 'Bench', 'Standby']).nullable();
+    table.integer('published_group_number').nullable();
+    table.integer('updated_by').unsigned().nullable();
+    table.foreign('updated_by').references('users.id').onDelete('SET NULL');
+    table.timestamps(true, true);
+
+    table.index('event_id');
+  });
+
+  await knex.raw(`
+    ALTER TABLE event_lineup_entries
+    ADD CONSTRAINT event_lineup_entries_group_number_check
+    CHECK (group_number IS NULL OR group_number BETWEEN 1 AND 8)
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER update_event_lineups_updated_at
+    BEFORE UPDATE ON event_lineups
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER update_event_lineup_entries_updated_at
+    BEFORE UPDATE ON event_lineup_entries
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.raw('DROP TRIGGER IF EXISTS update_event_lineup_entries_updated_at ON event_lineup_entries');
+  await knex.raw('DROP TRIGGER IF EXISTS update_event_lineups_updated_at ON event_lineups');
+  await knex.schema.dropTableIfExists('event_lineup_entries');
+  await knex.schema.dropTableIfExists('event_lineups');
+};
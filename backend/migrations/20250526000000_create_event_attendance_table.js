@@ -0,0 +1,39 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Who actually showed up, recorded by officers once an event started.
+  // Keyed by character so records survive withdrawn sign-ups.
+  await knex.schema.createTable('event_attendance', (table) => {
+    table.increments('id').primary();
+    table.integer('event_id').notNullable();
+    table.foreign('event_id').references('events.id').onDelete('CASCADE');
+    table.integer('character_id').unsigned().notNullable();
+    table.foreign('character_id').references('characters.id').onDelete('CASCADE');
+    table.enum('status', ['present', 'late', 'absent', 'excused', 'benched']).notNullable();
+    table.string('note', 200).nullable();
+    table.integer('recorded_by').unsigned().nullable();
+    table.foreign('recorded_by').references('users.id').onDelete('SET NULL');
+    table.timestamps(true, true);
+
+    table.unique(['event_id', 'character_id']);
+    table.index('character_id');
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_event_attendance_updated_at
+    BEFORE UPDATE ON event_attendance
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.raw('DROP TRIGGER IF EXISTS update_event_attendance_updated_at ON event_attendance');
+  await knex.schema.dropTableIfExists('event_attendance');
+};
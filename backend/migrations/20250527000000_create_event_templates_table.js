@@ -0,0 +1,61 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Reusable event settings; copied into the create form or into a recurring series
+  await knex.schema.createTable('event_templates', (table) => {
+    table.increments('id').primary();
+    table.integer('guild_id').unsigned().notNullable();
+    table.foreign('guild_id').references('guilds.id').onDelete('CASCADE');
+    table.string('name', 100).notNullable();
+    table.string('title', 100).notNullable();
+    table.text('description');
+    table.string('event_type').notNullable();
+    table.integer('duration_minutes').notNullable();
+    table.integer('max_participants');
+    table.jsonb('event_details');
+    table.specificType('reminder_offsets_minutes', 'integer[]').nullable();
+    table.boolean('is_default').notNullable().defaultTo(false); // Preselected for its event type
+    table.integer('created_by').unsigned().nullable();
+    table.foreign('created_by').references('users.id').onDelete('SET NULL');
+    table.timestamps(true, true);
+
+    table.unique(['guild_id', 'name']);
+  });
+
+  // At most one default template per guild and event type
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_event_templates_default_per_type
+    ON event_templates (guild_id, event_type)
+    WHERE is_default
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER update_event_templates_updated_at
+    BEFORE UPDATE ON event_templates
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+
+  // Series created from a template follow later edits of it
+  await knex.schema.alterTable('event_series', (table) => {
+    table.integer('template_id').unsigned().nullable();
+    table.foreign('template_id').references('event_templates.id').onDelete('SET NULL');
+    table.index('template_id');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('event_series', (table) => {
+    table.dropForeign(['template_id']);
+    table.dropIndex('template_id');
+    table.dropColumn('template_id');
+  });
+  await knex.raw('DROP TRIGGER IF EXISTS update_event_templates_updated_at ON event_templates');
+  await knex.schema.dropTableIfExists('event_templates');
+};
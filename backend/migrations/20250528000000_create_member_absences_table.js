@@ -0,0 +1,40 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Date ranges a player is away, across every guild they are in
+  await knex.schema.createTable('member_absences', (table) => {
+    table.increments('id').primary();
+    table.integer('user_id').unsigned().notNullable();
+    table.foreign('user_id').references('users.id').onDelete('CASCADE');
+    table.date('start_date').notNullable(); // First day away
+    table.date('end_date').notNullable();   // Last day away
+    table.string('reason', 200).nullable();
+    table.timestamps(true, true);
+
+    table.index(['user_id', 'end_date']);
+    table.index(['start_date', 'end_date']);
+  });
+
+  await knex.raw(`
+    ALTER TABLE member_absences
+    ADD CONSTRAINT member_absences_range_check CHECK (end_date >= start_date)
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER update_member_absences_updated_at
+    BEFORE UPDATE ON member_absences
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.raw('DROP TRIGGER IF EXISTS update_member_absences_updated_at ON member_absences');
+  await knex.schema.dropTableIfExists('member_absences');
+};
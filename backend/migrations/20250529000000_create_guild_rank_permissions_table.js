@@ -0,0 +1,35 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // What each Battle.net rank of a guild may manage; the guild master can always do everything
+  await knex.schema.createTable('guild_rank_permissions', (table) => {
+    table.increments('id').primary();
+    table.integer('guild_id').unsigned().notNullable();
+    table.foreign('guild_id').references('guilds.id').onDelete('CASCADE');
+    table.integer('rank_id').notNullable(); // Battle.net rank index, as in guild_ranks.rank_id
+    table.specificType('capabilities', 'text[]').notNullable().defaultTo('{}');
+    table.integer('updated_by').unsigned().nullable();
+    table.foreign('updated_by').references('users.id').onDelete('SET NULL');
+    table.timestamps(true, true);
+
+    table.unique(['guild_id', 'rank_id']);
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_guild_rank_permissions_updated_at
+    BEFORE UPDATE ON guild_rank_permissions
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.raw('DROP TRIGGER IF EXISTS update_guild_rank_permissions_updated_at ON guild_rank_permissions');
+  await knex.schema.dropTableIfExists('guild_rank_permissions');
+};
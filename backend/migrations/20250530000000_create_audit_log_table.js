@@ -0,0 +1,33 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Who changed what in a guild; rows are only ever inserted
+  await knex.schema.createTable('audit_log', (table) => {
+    table.increments('id').primary();
+    table.integer('guild_id').unsigned().nullable(); // Null for account-wide actions such as role changes
+    table.foreign('guild_id').references('guilds.id').onDelete('CASCADE');
+    table.integer('actor_id').unsigned().nullable();
+    table.foreign('actor_id').references('users.id').onDelete('SET NULL');
+    table.string('action', 50).notNullable();      // e.g. rank.rename, roster.delete
+    table.string('target_type', 30).notNullable(); // e.g. rank, roster, event
+    table.string('target_id', 50).nullable();
+    table.string('target_label', 200).nullable();  // Readable name of the target when it was changed
+    table.jsonb('before').nullable();              // Changed fields only; null when the target was created
+    table.jsonb('after').nullable();               // Changed fields only; null when the target was deleted
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+    table.index(['guild_id', 'created_at']);
+    table.index(['guild_id', 'action']);
+    table.index(['actor_id']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('audit_log');
+};
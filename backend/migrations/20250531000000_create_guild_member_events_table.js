@@ -0,0 +1,31 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Roster changes seen by the guild member sync; rows are only ever inserted
+  await knex.schema.createTable('guild_member_events', (table) => {
+    table.increments('id').primary();
+    table.integer('guild_id').unsigned().notNullable();
+    table.foreign('guild_id').references('guilds.id').onDelete('CASCADE');
+    table.integer('character_id').unsigned().nullable();
+    table.foreign('character_id').references('characters.id').onDelete('SET NULL');
+    table.string('character_name', 50).notNullable(); // Name at the time of the event
+    table.string('realm', 100).nullable();
+    table.string('event_type', 20).notNullable();     // joined, left, rejoined, rank_changed, renamed, level_milestone
+    table.string('old_value', 50).nullable();         // e.g. previous rank, name or level
+    table.string('new_value', 50).nullable();
+    table.timestamp('occurred_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+    table.index(['guild_id', 'occurred_at']);
+    table.index(['character_id', 'occurred_at']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('guild_member_events');
+};
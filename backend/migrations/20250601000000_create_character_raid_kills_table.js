@@ -0,0 +1,34 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Raid bosses killed per character and difficulty; replaced on every character sync
+  await knex.schema.createTable('character_raid_kills', (table) => {
+    table.increments('id').primary();
+    table.integer('character_id').unsigned().notNullable();
+    table.foreign('character_id').references('characters.id').onDelete('CASCADE');
+    table.integer('expansion_id').notNullable();
+    table.string('expansion_name', 100).notNullable();
+    table.integer('instance_id').notNullable();
+    table.string('instance_name', 100).notNullable();
+    table.string('difficulty', 10).notNullable();                // LFR, NORMAL, HEROIC or MYTHIC
+    table.integer('encounter_id').notNullable();
+    table.string('encounter_name', 100).notNullable();
+    table.integer('instance_encounter_count').notNullable();     // Bosses in the raid on this difficulty
+    table.integer('completed_count').notNullable().defaultTo(1);
+    table.timestamp('last_kill_at', { useTz: true }).nullable();
+    table.timestamp('synced_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+    table.unique(['character_id', 'instance_id', 'difficulty', 'encounter_id']);
+    table.index(['instance_id', 'difficulty']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('character_raid_kills');
+};
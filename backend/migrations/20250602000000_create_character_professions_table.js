@@ -0,0 +1,32 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Primary profession tiers per character; replaced on every character sync
+  await knex.schema.createTable('character_professions', (table) => {
+    table.increments('id').primary();
+    table.integer('character_id').unsigned().notNullable();
+    table.foreign('character_id').references('characters.id').onDelete('CASCADE');
+    table.integer('profession_id').notNullable();
+    table.string('profession_name', 100).notNullable();
+    table.integer('tier_id').notNullable();
+    table.string('tier_name', 100).notNullable();
+    table.string('expansion', 100).notNullable();                 // e.g. "Khaz Algar", or "Classic"
+    table.integer('skill_points').notNullable();
+    table.integer('max_skill_points').notNullable();
+    table.jsonb('known_recipes').notNullable().defaultTo('[]');   // [{ id, name }]
+    table.timestamp('synced_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+    table.unique(['character_id', 'tier_id']);
+    table.index(['profession_id', 'expansion']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('character_professions');
+};
@@ -0,0 +1,31 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // One row per character and day, overwritten by later syncs that day.
+  // Thinned to one row per week after 90 days and dropped after two years.
+  await knex.schema.createTable('character_snapshots', (table) => {
+    table.increments('id').primary();
+    table.integer('character_id').unsigned().notNullable();
+    table.foreign('character_id').references('characters.id').onDelete('CASCADE');
+    table.date('snapshot_date').notNullable();
+    table.integer('level').nullable();
+    table.integer('equipped_item_level').nullable();
+    table.integer('average_item_level').nullable();
+    table.decimal('mythic_rating', 7, 1).nullable();
+    table.integer('achievement_points').nullable();
+    table.timestamp('recorded_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+    table.unique(['character_id', 'snapshot_date']);
+    table.index('snapshot_date');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('character_snapshots');
+};
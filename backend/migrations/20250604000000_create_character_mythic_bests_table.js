@@ -0,0 +1,28 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Highest timed key per character and dungeon in the current Mythic+ season; replaced on every character sync
+  await knex.schema.createTable('character_mythic_bests', (table) => {
+    table.increments('id').primary();
+    table.integer('character_id').unsigned().notNullable();
+    table.foreign('character_id').references('characters.id').onDelete('CASCADE');
+    table.integer('season_id').notNullable();
+    table.integer('dungeon_id').notNullable();
+    table.string('dungeon_name', 100).notNullable();
+    table.integer('keystone_level').notNullable();
+    table.timestamp('completed_at', { useTz: true }).notNullable();
+    table.timestamp('synced_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+    table.unique(['character_id', 'dungeon_id']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('character_mythic_bests');
+};
@@ -0,0 +1,74 @@
+import { Request, Response } from "express";
+import { CreateAbsenceRequest } from "../../../shared/types/api/absence.js";
+import { refreshEventSignups } from "../modules/discord/eventSync.js";
+import * as AbsenceService from "../services/absence.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+import {
+  createNotFoundError,
+  createValidationError,
+} from "../utils/error-factory.js";
+
+/**
+ * GET /api/auth/absences
+ * Absences of the current user that are not over yet.
+ */
+export const listAbsences = asyncHandler(
+  async (req: Request, res: Response) => {
+    const absences = await AbsenceService.listAbsences(req.user!.id);
+    res.status(200).json({ success: true, data: absences });
+  },
+);
+
+/**
+ * POST /api/auth/absences
+ * Records a date range the current user is away and declines their sign-ups
+ * for events starting during it.
+ */
+export const createAbsence = asyncHandler(
+  async (req: Request, res: Response) => {
+    const input = req.body as CreateAbsenceRequest;
+    const problem = AbsenceService.findInvalidAbsence(input);
+    if (problem) {
+      throw createValidationError(problem, { endDate: problem }, input, req);
+    }
+
+    const result = await AbsenceService.createAbsence(req.user!.id, input);
+    for (const eventId of result.declinedEventIds) {
+      void refreshEventSignups(eventId);
+    }
+    res.status(201).json({ success: true, data: result });
+  },
+);
+
+/**
+ * DELETE /api/auth/absences/:absenceId
+ * Removes an absence of the current user.
+ */
+export const deleteAbsence = asyncHandler(
+  async (req: Request, res: Response) => {
+    const absenceId = parseInt(req.params.absenceId, 10);
+    const deleted = await AbsenceService.deleteAbsence(req.user!.id, absenceId);
+    if (!deleted) {
+      throw createNotFoundError("Absence", absenceId, req);
+    }
+    res.status(200).json({
+      success: true,
+      data: { message: "Absence removed." },
+    });
+  },
+);
+
+/**
+ * GET /api/guilds/:guildId/absences?week=YYYY-MM-DD
+ * Members of a guild who are away during the week of the given day (manage_attendance permission).
+ */
+export const getGuildAbsences = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const week = (req.query.week as string | undefined) ??
+      new Date().toISOString().slice(0, 10);
+
+    const absences = await AbsenceService.getGuildWeekAbsences(guildId, week);
+    res.status(200).json({ success: true, data: absences });
+  },
+);
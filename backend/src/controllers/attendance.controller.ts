@@ -0,0 +1,68 @@
+import { Request, Response } from "express";
+import { RecordAttendanceRequest } from "../../../shared/types/api/attendance.js";
+import * as AttendanceService from "../services/attendance.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+import {
+  createNotFoundError,
+  createValidationError,
+} from "../utils/error-factory.js";
+
+const DEFAULT_WINDOW_WEEKS = 8;
+
+/**
+ * GET /api/events/:eventId/attendance
+ * The event's confirmed sign-ups with their attendance records (manage_attendance permission).
+ */
+export const getEventAttendance = asyncHandler(
+  async (req: Request, res: Response) => {
+    const eventId = parseInt(req.params.eventId, 10);
+    const attendance = await AttendanceService.getEventAttendance(eventId);
+    if (!attendance) {
+      throw createNotFoundError("Event", eventId, req);
+    }
+    res.status(200).json({ success: true, data: attendance });
+  },
+);
+
+/**
+ * PUT /api/events/:eventId/attendance
+ * Records who was present, late, absent, excused or benched (manage_attendance permission).
+ */
+export const recordEventAttendance = asyncHandler(
+  async (req: Request, res: Response) => {
+    const eventId = parseInt(req.params.eventId, 10);
+    const { records } = req.body as RecordAttendanceRequest;
+
+    const current = await AttendanceService.getEventAttendance(eventId);
+    if (!current) {
+      throw createNotFoundError("Event", eventId, req);
+    }
+    const problem = AttendanceService.findInvalidRecord(current, records);
+    if (problem) {
+      throw createValidationError(problem, { records: problem }, records, req);
+    }
+
+    await AttendanceService.recordEventAttendance(eventId, records, req.user!.id);
+    const attendance = await AttendanceService.getEventAttendance(eventId);
+    res.status(200).json({ success: true, data: attendance });
+  },
+);
+
+/**
+ * GET /api/guilds/:guildId/attendance?weeks=4|8|12
+ * Attendance percentage per character and per main over the last weeks.
+ */
+export const getGuildAttendance = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const weeks = req.query.weeks
+      ? parseInt(req.query.weeks as string, 10)
+      : DEFAULT_WINDOW_WEEKS;
+
+    const report = await AttendanceService.getGuildAttendanceReport(
+      guildId,
+      weeks,
+    );
+    res.status(200).json({ success: true, data: report });
+  },
+);
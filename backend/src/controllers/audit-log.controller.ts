@@ -0,0 +1,28 @@
+import { Request, Response } from "express";
+import {
+  AuditAction,
+  AuditTargetType,
+} from "../../../shared/types/api/audit.js";
+import * as AuditLogService from "../services/audit-log.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+
+const parseOptionalInt = (value: unknown): number | undefined =>
+  value === undefined ? undefined : parseInt(value as string, 10);
+
+/**
+ * GET /api/guilds/:guildId/audit-log?page=&limit=&action=&actorId=&targetType=
+ * Recorded officer actions of a guild, newest first. Requires Guild Master auth.
+ */
+export const getGuildAuditLog = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const auditLog = await AuditLogService.getGuildAuditLog(guildId, {
+      page: parseOptionalInt(req.query.page),
+      limit: parseOptionalInt(req.query.limit),
+      action: req.query.action as AuditAction | undefined,
+      actorId: parseOptionalInt(req.query.actorId),
+      targetType: req.query.targetType as AuditTargetType | undefined,
+    });
+    res.status(200).json({ success: true, data: auditLog });
+  },
+);
@@ -15,7 +15,9 @@ import config from "../config/index.js"; // Assuming index.js is the entry point
 import userModel from "../models/user.model.js";
 import { BattleNetApiClientEnhanced } from "../services/battlenet-api-client-enhanced.js";
 import { OnboardingService } from "../services/onboarding.service.js"; // Import OnboardingService
-import { retrieveTokenDetails } from "../modules/discord/discordTokenStore.js"; // Import for Discord link verification
+import * as ReminderPreferencesService from "../services/reminder-preferences.service.js";
+import { recordAudit } from "../services/audit-log.service.js";
+import { consumeToken, peekToken } from "../modules/discord/discordTokenStore.js"; // Import for Discord link verification
 import { AppError, asyncHandler } from "../utils/error-handler.js";
 import logger from "../utils/logger.js"; // Import the logger
 // import axios from "axios"; // Not used
@@ -432,12 +434,24 @@ export default {
       throw new AppError("Insufficient permissions", 403);
     }
 
+    const previousUser = await userModel.findById(userId);
     const updatedUser = await userModel.updateRole(userId, role as UserRole);
 
     if (!updatedUser) {
       throw new AppError("User not found", 404);
     }
 
+    await recordAudit({
+      guildId: null,
+      actorId: req.user.id,
+      action: "user.role_change",
+      targetType: "user",
+      targetId: updatedUser.id,
+      targetLabel: updatedUser.battletag,
+      before: { role: previousUser?.role ?? null },
+      after: { role: updatedUser.role },
+    });
+
     // Cast to UserWithTokens and don't return sensitive data
     const userWithTokens = updatedUser as UserWithTokens;
     const { access_token, refresh_token, ...safeUser } = userWithTokens;
@@ -460,13 +474,37 @@ export default {
       });
     }
 
-    // Import retrieveTokenDetails if not already imported at the top
-    // Assuming it's imported or available in scope. If not, add:
-    // import { retrieveTokenDetails } from '../modules/discord/discordTokenStore.js';
-    const tokenDetails = retrieveTokenDetails(token); // Assuming retrieveTokenDetails is imported/available
+    // Validate against the token before redeeming it, so a rejected link leaves it usable
+    const pendingLink = await peekToken(token);
+
+    if (!pendingLink) {
+      logger.warn({ userId }, "Discord link attempt with invalid/expired token.");
+      return res.status(400).json({
+        success: false,
+        message: "Invalid or expired link token.",
+      });
+    }
+
+    // discord_id is unique: the account has to be unlinked from its current owner first
+    const currentOwner = await userModel.findOne({
+      discord_id: pendingLink.discordId,
+    });
+    if (currentOwner && currentOwner.id !== userId) {
+      logger.warn(
+        { userId, discordId: pendingLink.discordId, ownerId: currentOwner.id },
+        "Discord link attempt for an account already linked to another user.",
+      );
+      return res.status(409).json({
+        success: false,
+        message:
+          "This Discord account is already linked to another profile. Unlink it there first.",
+      });
+    }
+
+    const tokenDetails = await consumeToken(token);
 
     if (!tokenDetails) {
-      logger.warn(`Discord link attempt with invalid/expired token: ${token}`);
+      logger.warn({ userId }, "Discord link token was redeemed by a concurrent request.");
       return res.status(400).json({
         success: false,
         message: "Invalid or expired link token.",
@@ -497,4 +535,55 @@ export default {
       });
     }
   }),
+
+  unlinkDiscord: asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError("User not authenticated", 401);
+    }
+    const userId = req.user.id;
+
+    // req.user is the JWT payload, which carries no Discord fields
+    const user = await userModel.findById(userId);
+    if (!user) {
+      throw new AppError("User not found", 404);
+    }
+    if (!user.discord_id) {
+      throw new AppError("No Discord account is linked to this profile", 400);
+    }
+
+    await userModel.update(userId, {
+      discord_id: null,
+      discord_username: null,
+    });
+    logger.info({ userId }, "Unlinked Discord account");
+
+    res.json({
+      success: true,
+      data: { message: "Discord account unlinked." },
+    });
+  }),
+
+  getReminderPreferences: asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError("User not authenticated", 401);
+    }
+
+    const preferences = await ReminderPreferencesService.getReminderPreferences(
+      req.user.id,
+    );
+    res.json({ success: true, data: preferences });
+  }),
+
+  updateReminderPreferences: asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError("User not authenticated", 401);
+    }
+
+    const preferences = await ReminderPreferencesService.saveReminderPreferences(
+      req.user.id,
+      req.body,
+    );
+    logger.info({ userId: req.user.id, preferences }, "Updated reminder preferences");
+    res.json({ success: true, data: preferences });
+  }),
 };
@@ -0,0 +1,149 @@
+import { Request, Response } from "express";
+import {
+  CreateCalendarFeedRequest,
+  CreatedCalendarFeed,
+} from "../../../shared/types/api/calendar.js";
+import * as CalendarFeedService from "../services/calendar-feed.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+import {
+  createForbiddenError,
+  createNotFoundError,
+  createUnauthorizedError,
+  createValidationError,
+} from "../utils/error-factory.js";
+
+const FEED_TOKEN_ERROR = "Invalid or revoked calendar feed token.";
+
+const sendCalendar = (res: Response, filename: string, body: string) => {
+  res
+    .status(200)
+    .type("text/calendar; charset=utf-8")
+    .set("Content-Disposition", `inline; filename="${filename}"`)
+    .set("Cache-Control", "private, max-age=300")
+    .send(body);
+};
+
+// Calendar apps cannot send the JWT, so feeds authenticate with ?token=
+const readFeedToken = (req: Request): string => {
+  const token = req.query.token;
+  if (typeof token !== "string" || token.length === 0) {
+    throw createUnauthorizedError("A calendar feed token is required.", req);
+  }
+  return token;
+};
+
+/**
+ * GET /api/events/guild/:guildId/calendar.ics?token=
+ * iCalendar feed of a guild's events, for members holding a feed token of that guild.
+ */
+export const getGuildCalendarFeed = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const feedToken = await CalendarFeedService.authenticateFeedToken(
+      readFeedToken(req),
+    );
+    if (!feedToken || feedToken.guild_id !== guildId) {
+      throw createUnauthorizedError(FEED_TOKEN_ERROR, req);
+    }
+    // Members who left the guild lose access without revoking the token themselves
+    if (!(await CalendarFeedService.isGuildMember(feedToken.user_id, guildId))) {
+      throw createForbiddenError("You are no longer a member of this guild.", req);
+    }
+
+    const calendar = await CalendarFeedService.buildGuildCalendar(guildId);
+    if (calendar === null) {
+      throw createNotFoundError("Guild", guildId, req);
+    }
+    sendCalendar(res, `guild-${guildId}.ics`, calendar);
+  },
+);
+
+/**
+ * GET /api/events/me/calendar.ics?token=
+ * iCalendar feed of the events the token's user signed up for.
+ */
+export const getUserCalendarFeed = asyncHandler(
+  async (req: Request, res: Response) => {
+    const feedToken = await CalendarFeedService.authenticateFeedToken(
+      readFeedToken(req),
+    );
+    if (!feedToken || feedToken.guild_id !== null) {
+      throw createUnauthorizedError(FEED_TOKEN_ERROR, req);
+    }
+
+    const calendar = await CalendarFeedService.buildUserCalendar(
+      feedToken.user_id,
+    );
+    sendCalendar(res, "my-events.ics", calendar);
+  },
+);
+
+/**
+ * GET /api/events/calendar-feeds
+ * The current user's calendar feeds. Tokens are never returned again.
+ */
+export const listCalendarFeeds = asyncHandler(
+  async (req: Request, res: Response) => {
+    const feeds = await CalendarFeedService.listCalendarFeeds(req.user!.id);
+    res.status(200).json({ success: true, data: feeds });
+  },
+);
+
+/**
+ * POST /api/events/calendar-feeds
+ * Creates a feed URL for a guild (or for the user's sign-ups when guildId is null).
+ * Any earlier URL for the same feed stops working.
+ */
+export const createCalendarFeed = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { guildId } = req.body as CreateCalendarFeedRequest;
+    const userId = req.user!.id;
+
+    if (
+      guildId !== null &&
+      !(await CalendarFeedService.isGuildMember(userId, guildId))
+    ) {
+      throw createValidationError(
+        "You can only subscribe to the calendar of a guild you are a member of.",
+        { guildId: "Not a member of this guild" },
+        guildId,
+        req,
+      );
+    }
+
+    const { feed, token } = await CalendarFeedService.createCalendarFeed(
+      userId,
+      guildId,
+    );
+    const path = guildId === null
+      ? "/api/events/me/calendar.ics"
+      : `/api/events/guild/${guildId}/calendar.ics`;
+    const data: CreatedCalendarFeed = {
+      ...feed,
+      url: `${req.protocol}://${req.get("host")}${path}?token=${token}`,
+    };
+
+    res.status(201).json({ success: true, data });
+  },
+);
+
+/**
+ * DELETE /api/events/calendar-feeds/:feedId
+ * Revokes a calendar feed URL of the current user.
+ */
+export const revokeCalendarFeed = asyncHandler(
+  async (req: Request, res: Response) => {
+    const feedId = parseInt(req.params.feedId, 10);
+    const revoked = await CalendarFeedService.revokeCalendarFeed(
+      req.user!.id,
+      feedId,
+    );
+    if (!revoked) {
+      throw createNotFoundError("Calendar feed", feedId, req);
+    }
+    res.status(200).json({
+      success: true,
+      data: { message: "Calendar feed revoked." },
+    });
+  },
+);
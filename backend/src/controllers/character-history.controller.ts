@@ -0,0 +1,28 @@
+import { Request, Response } from "express";
+import * as CharacterHistoryService from "../services/character-history.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+import { createNotFoundError } from "../utils/error-factory.js";
+
+const DEFAULT_HISTORY_DAYS = 90;
+
+/**
+ * GET /api/characters/:characterId/history?days=
+ * Item level, Mythic+ rating, level and achievement points of a character over time.
+ */
+export const getCharacterHistory = asyncHandler(
+  async (req: Request, res: Response) => {
+    const characterId = parseInt(req.params.characterId, 10);
+    const days = req.query.days === undefined
+      ? DEFAULT_HISTORY_DAYS
+      : parseInt(req.query.days as string, 10);
+
+    const history = await CharacterHistoryService.getCharacterHistory(
+      characterId,
+      days,
+    );
+    if (!history) {
+      throw createNotFoundError("Character", characterId, req);
+    }
+    res.status(200).json({ success: true, data: history });
+  },
+);
@@ -0,0 +1,107 @@
+import { Request, Response } from "express";
+import { SaveEventTemplateRequest } from "../../../shared/types/api/template.js";
+import * as EventTemplateService from "../services/event-template.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+import {
+  createNotFoundError,
+  createValidationError,
+} from "../utils/error-factory.js";
+
+const parseIds = (req: Request) => ({
+  guildId: parseInt(req.params.guildId, 10),
+  templateId: req.params.templateId
+    ? parseInt(req.params.templateId, 10)
+    : null,
+});
+
+const assertValidTemplate = async (
+  req: Request,
+  guildId: number,
+  templateId: number | null,
+) => {
+  const input = req.body as SaveEventTemplateRequest;
+  const problem = await EventTemplateService.findInvalidTemplate(
+    guildId,
+    input,
+    templateId,
+  );
+  if (problem) {
+    throw createValidationError(problem, { name: problem }, input.name, req);
+  }
+  return input;
+};
+
+/**
+ * GET /api/guilds/:guildId/event-templates
+ * Event templates of a guild, defaults first.
+ */
+export const getEventTemplates = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { guildId } = parseIds(req);
+    const templates = await EventTemplateService.getEventTemplates(guildId);
+    res.status(200).json({ success: true, data: templates });
+  },
+);
+
+/**
+ * POST /api/guilds/:guildId/event-templates
+ * Create an event template. Requires the manage_events permission.
+ */
+export const createEventTemplate = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { guildId } = parseIds(req);
+    const input = await assertValidTemplate(req, guildId, null);
+
+    const template = await EventTemplateService.saveEventTemplate(
+      guildId,
+      input,
+      req.user!.id,
+    );
+    res.status(201).json({ success: true, data: template });
+  },
+);
+
+/**
+ * PUT /api/guilds/:guildId/event-templates/:templateId
+ * Replace an event template. Recurring series created from it use the new
+ * values for occurrences generated from now on. Requires the manage_events permission.
+ */
+export const updateEventTemplate = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { guildId, templateId } = parseIds(req);
+    const input = await assertValidTemplate(req, guildId, templateId);
+
+    const template = await EventTemplateService.saveEventTemplate(
+      guildId,
+      input,
+      req.user!.id,
+      templateId,
+    );
+    if (!template) {
+      throw createNotFoundError("Event template", templateId!, req);
+    }
+    res.status(200).json({ success: true, data: template });
+  },
+);
+
+/**
+ * DELETE /api/guilds/:guildId/event-templates/:templateId
+ * Delete an event template. Requires the manage_events permission.
+ */
+export const deleteEventTemplate = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { guildId, templateId } = parseIds(req);
+
+    const deleted = await EventTemplateService.deleteEventTemplate(
+      guildId,
+      templateId!,
+    );
+    if (!deleted) {
+      throw createNotFoundError("Event template", templateId!, req);
+    }
+    res.status(200).json({
+      success: true,
+      data: { message: "Event template deleted." },
+    });
+  },
+);
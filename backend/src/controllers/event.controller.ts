@@ -2,15 +2,45 @@ import { Request, Response, NextFunction } from "express";
 import { AppError, asyncHandler } from "../utils/error-handler.js";
 import eventModel from "../models/event.model.js";
 import subscriptionModel from "../models/subscription.model.js";
+import * as userModel from "../models/user.model.js";
 
 // Import specific types for better type references
 import { ErrorCode } from "../../../shared/types/utils/errors.js";
-import type { Event, EventFormValues, EventSubscription } from "../../../shared/types/models/event.js";
+import type {
+  Event,
+  EventEditScope,
+  EventFormValues,
+  EventSubscription,
+} from "../../../shared/types/models/event.js";
 import type { ApiResponse } from "../../../shared/types/api/responses.js";
+import type { EventComposition } from "../../../shared/types/api/composition.js";
+import type {
+  EventLineup,
+  SaveLineupRequest,
+} from "../../../shared/types/api/lineup.js";
 import { UserRole } from "../../../shared/types/enums/user.js";
+import { GuildCapability } from "../../../shared/types/enums/guild.js";
 import type { UserWithTokens } from "../../../shared/types/models/user.js";
-import { postEventToDiscord } from "../modules/discord/eventIntegration.js";
+import {
+  announceLineupInDiscord,
+  markEventCancelledInDiscord,
+  refreshEventSignups,
+  syncEventToDiscord,
+} from "../modules/discord/eventSync.js";
+import * as AbsenceService from "../services/absence.service.js";
+import * as EventLineupService from "../services/event-lineup.service.js";
+import * as EventSeriesService from "../services/event-series.service.js";
+import * as EventTemplateService from "../services/event-template.service.js";
+import { hasGuildCapability } from "../services/guild-permission.service.js";
+import { recordAudit } from "../services/audit-log.service.js";
+import {
+  getEventComposition,
+  rebalanceEventSignups,
+  removeEventSubscription,
+  saveEventSubscription,
+} from "../services/event-subscription.service.js";
 import logger from "../utils/logger.js";
+import { assertValidTimezone } from "../utils/recurrence.js";
 
 interface EventRequest extends Request {
   body: EventFormValues;
@@ -18,10 +48,25 @@ interface EventRequest extends Request {
 }
 
 interface SubscriptionRequest extends Request {
-  body: Omit<EventSubscription, "id" | "event_id" | "user_id">;
+  // user_id lets an officer change the sign-up of another member
+  body: Omit<EventSubscription, "id" | "event_id" | "user_id"> & {
+    user_id?: number;
+  };
   user: UserWithTokens; // Use the correct type
 }
 
+// The fields of an event shown in the audit log
+const auditedEventFields = (event: Event) => ({
+  title: event.title,
+  description: event.description,
+  event_type: event.event_type,
+  start_time: event.start_time,
+  end_time: event.end_time,
+  max_participants: event.max_participants,
+  event_details: event.event_details,
+  reminder_offsets_minutes: event.reminder_offsets_minutes,
+});
+
 export default {
   getEventById: asyncHandler(
     async (
@@ -73,22 +118,69 @@ export default {
         });
       }
 
+      const { recurrence, template_id: templateId, ...values } = req.body;
+
+      if (
+        templateId &&
+        !(await EventTemplateService.findEventTemplate(values.guild_id, templateId))
+      ) {
+        throw new AppError("Event template not found in this guild", 400, {
+          code: ErrorCode.VALIDATION_ERROR,
+          request: req,
+        });
+      }
+
+      if (recurrence) {
+        try {
+          assertValidTimezone(recurrence.timezone);
+        } catch {
+          throw new AppError(`Unknown timezone: ${recurrence.timezone}`, 400, {
+            code: ErrorCode.VALIDATION_ERROR,
+            request: req,
+          });
+        }
+
+        const occurrences = await EventSeriesService.createEventSeries(
+          values,
+          recurrence,
+          req.user.id,
+          templateId ?? null,
+        );
+        if (occurrences.length === 0) {
+          throw new AppError(
+            "The recurrence rule does not produce any upcoming events",
+            400,
+            { code: ErrorCode.VALIDATION_ERROR, request: req },
+          );
+        }
+
+        logger.info(
+          `Event series ${occurrences[0].series_id} created with ${occurrences.length} occurrences, triggering Discord posts.`,
+        );
+        for (const occurrence of occurrences) {
+          void syncEventToDiscord(occurrence.id);
+        }
+
+        res.status(201).json({
+          success: true,
+          data: occurrences[0],
+        });
+        return;
+      }
+
       const eventData: EventFormValues & { created_by: number } = {
-        ...req.body,
+        ...values,
         created_by: req.user.id,
-        event_details: req.body.event_details || {},
+        event_details: values.event_details || {},
       };
 
       const event = await eventModel.create(eventData);
 
       if (event) {
+        // Members away that day show up as Declined rather than missing
+        await AbsenceService.declineAbsentMembers([event.id]);
         logger.info(`Event ${event.id} created, triggering Discord post.`);
-        postEventToDiscord(event).catch((err: unknown) => {
-          logger.error(
-            { err, eventId: event.id },
-            "Error triggering postEventToDiscord after creation (background task)",
-          );
-        });
+        void syncEventToDiscord(event.id);
       }
 
       if (!event) {
@@ -122,9 +214,17 @@ export default {
         });
       }
 
-      // Authorization: ADMIN can update any event, USER can only update their own
+      // Authorization: ADMIN can update any event, USER can update their own
+      // and those of their guild if their rank may manage events
       if (req.user.role === UserRole.USER) {
-        if (existingEvent.created_by !== req.user.id) {
+        if (
+          existingEvent.created_by !== req.user.id &&
+          !(await hasGuildCapability(
+            existingEvent.guild_id,
+            req.user.id,
+            GuildCapability.MANAGE_EVENTS,
+          ))
+        ) {
           throw new AppError(
             "Forbidden: You do not have permission to update this event",
             403,
@@ -137,18 +237,20 @@ export default {
       }
       // If ADMIN, bypass ownership check
 
-      const updatedEvent = await eventModel.update(parseInt(eventId), req.body);
+      // Recurrence rules are set when creating an event; edits only pick a scope
+      const { recurrence: _recurrence, ...changes } = req.body;
+      const scope = (req.query.scope as EventEditScope | undefined) ?? "this";
+
+      const { event: updatedEvent, updatedEvents } = await EventSeriesService
+        .updateEventInScope(existingEvent, changes, scope);
 
-      if (updatedEvent) {
+      for (const changedEvent of updatedEvents) {
+        // A higher cap or more role slots can seat people from the waitlist
+        await rebalanceEventSignups(changedEvent.id);
         logger.info(
-          `Event ${updatedEvent.id} updated, triggering Discord post.`,
+          `Event ${changedEvent.id} updated, syncing Discord post.`,
         );
-        postEventToDiscord(updatedEvent).catch((err: unknown) => {
-          logger.error(
-            { err, eventId: updatedEvent.id },
-            "Error triggering postEventToDiscord after update (background task)",
-          );
-        });
+        void syncEventToDiscord(changedEvent.id);
       }
 
       if (!updatedEvent) {
@@ -158,6 +260,19 @@ export default {
         });
       }
 
+      await recordAudit({
+        guildId: existingEvent.guild_id,
+        actorId: req.user.id,
+        action: "event.update",
+        targetType: "event",
+        targetId: existingEvent.id,
+        targetLabel: scope === "this"
+          ? updatedEvent.title
+          : `${updatedEvent.title} (${updatedEvents.length} occurrences)`,
+        before: auditedEventFields(existingEvent),
+        after: auditedEventFields(updatedEvent),
+      });
+
       res.json({
         success: true,
         data: updatedEvent,
@@ -182,9 +297,17 @@ export default {
         });
       }
 
-      // Authorization: ADMIN can delete any event, USER can only delete their own
+      // Authorization: ADMIN can delete any event, USER can delete their own
+      // and those of their guild if their rank may manage events
       if (req.user.role === UserRole.USER) {
-        if (existingEvent.created_by !== req.user.id) {
+        if (
+          existingEvent.created_by !== req.user.id &&
+          !(await hasGuildCapability(
+            existingEvent.guild_id,
+            req.user.id,
+            GuildCapability.MANAGE_EVENTS,
+          ))
+        ) {
           throw new AppError(
             "Forbidden: You do not have permission to delete this event",
             403,
@@ -206,6 +329,19 @@ export default {
         });
       }
 
+      // The row is gone, so the cancelled post is rendered from the pre-delete snapshot
+      void markEventCancelledInDiscord(existingEvent);
+
+      await recordAudit({
+        guildId: existingEvent.guild_id,
+        actorId: req.user.id,
+        action: "event.delete",
+        targetType: "event",
+        targetId: existingEvent.id,
+        targetLabel: existingEvent.title,
+        before: auditedEventFields(existingEvent),
+      });
+
       res.json({
         success: true,
         data: deletedEvent,
@@ -233,20 +369,15 @@ export default {
         });
       }
 
-      const subscriptionData: Omit<EventSubscription, "id"> = {
-        event_id: parseInt(eventId),
-        user_id: req.user.id,
-        ...req.body,
-      };
-
-      const subscription = await subscriptionModel.create(subscriptionData);
+      // Seats the sign-up, or puts it on the waitlist when its role or the event is full
+      const { subscription } = await saveEventSubscription(
+        parseInt(eventId),
+        req.user.id,
+        req.body.character_id,
+        req.body.status,
+      );
 
-      if (!subscription) {
-        throw new AppError("Failed to create subscription", 500, {
-          code: ErrorCode.DATABASE_ERROR,
-          request: req,
-        });
-      }
+      void refreshEventSignups(parseInt(eventId));
 
       res.status(201).json({
         success: true,
@@ -262,10 +393,39 @@ export default {
       _next: NextFunction,
     ) => {
       const { eventId } = req.params;
+      const targetUserId = req.body.user_id
+        ? Number(req.body.user_id)
+        : req.user.id;
+      const onBehalf = targetUserId !== req.user.id;
+
+      const event = onBehalf
+        ? await eventModel.findById(parseInt(eventId))
+        : null;
+      if (onBehalf) {
+        if (!event) {
+          throw new AppError("Event not found", 404, {
+            code: ErrorCode.NOT_FOUND,
+            request: req,
+          });
+        }
+        if (
+          !(await hasGuildCapability(
+            event.guild_id,
+            req.user.id,
+            GuildCapability.MANAGE_EVENTS,
+          ))
+        ) {
+          throw new AppError(
+            "Forbidden: Your guild rank is not allowed to change other members' sign-ups",
+            403,
+            { code: ErrorCode.FORBIDDEN, request: req },
+          );
+        }
+      }
 
       const existingSubscription = await subscriptionModel.findByEventAndUser(
         parseInt(eventId),
-        req.user.id,
+        targetUserId,
       );
 
       if (!existingSubscription) {
@@ -275,21 +435,39 @@ export default {
         });
       }
 
-      const updatedSubscription = await subscriptionModel.update(
-        existingSubscription.id,
-        req.body,
+      // Declining frees the seat for the next person waiting in that role
+      const { subscription } = await saveEventSubscription(
+        parseInt(eventId),
+        targetUserId,
+        req.body.character_id ?? existingSubscription.character_id,
+        req.body.status ?? existingSubscription.status,
       );
 
-      if (!updatedSubscription) {
-        throw new AppError("Failed to update subscription", 500, {
-          code: ErrorCode.DATABASE_ERROR,
-          request: req,
+      void refreshEventSignups(parseInt(eventId));
+
+      if (event) {
+        const member = await userModel.findById(targetUserId);
+        await recordAudit({
+          guildId: event.guild_id,
+          actorId: req.user.id,
+          action: "rsvp.update_on_behalf",
+          targetType: "event_subscription",
+          targetId: existingSubscription.id,
+          targetLabel: `${member?.battletag ?? `User ${targetUserId}`} · ${event.title}`,
+          before: {
+            status: existingSubscription.status,
+            character_id: existingSubscription.character_id,
+          },
+          after: {
+            status: subscription.status,
+            character_id: subscription.character_id,
+          },
         });
       }
 
       res.json({
         success: true,
-        data: updatedSubscription,
+        data: subscription,
       });
     },
   ),
@@ -313,6 +491,98 @@ export default {
     },
   ), // Closing the getEventSubscribers function definition
 
+  getEventLineup: asyncHandler(
+    async (
+      req: Request<{ eventId: string }>,
+      res: Response<ApiResponse<EventLineup>>,
+      _next: NextFunction,
+    ) => {
+      const { eventId } = req.params;
+
+      const lineup = await EventLineupService.getEventLineup(parseInt(eventId));
+
+      if (!lineup) {
+        throw new AppError("Event not found", 404, {
+          code: ErrorCode.NOT_FOUND,
+          request: req,
+        });
+      }
+
+      res.json({
+        success: true,
+        data: lineup,
+      });
+    },
+  ),
+
+  saveEventLineup: asyncHandler(
+    async (
+      req: Request<{ eventId: string }, unknown, SaveLineupRequest> & {
+        user: { id: number };
+      },
+      res: Response<ApiResponse<EventLineup>>,
+      _next: NextFunction,
+    ) => {
+      const eventId = parseInt(req.params.eventId);
+      const { assignments } = req.body;
+
+      const current = await EventLineupService.getEventLineup(eventId);
+      if (!current) {
+        throw new AppError("Event not found", 404, {
+          code: ErrorCode.NOT_FOUND,
+          request: req,
+        });
+      }
+
+      const problem = EventLineupService.findInvalidAssignment(
+        current.members,
+        assignments,
+      );
+      if (problem) {
+        throw new AppError(problem, 400, {
+          code: ErrorCode.VALIDATION_ERROR,
+          request: req,
+        });
+      }
+
+      await EventLineupService.saveEventLineup(eventId, assignments, req.user.id);
+      const lineup = await EventLineupService.getEventLineup(eventId);
+
+      res.json({
+        success: true,
+        data: lineup!,
+      });
+    },
+  ),
+
+  publishEventLineup: asyncHandler(
+    async (
+      req: Request<{ eventId: string }> & { user: { id: number } },
+      res: Response<ApiResponse<EventLineup>>,
+      _next: NextFunction,
+    ) => {
+      const eventId = parseInt(req.params.eventId);
+
+      await EventLineupService.publishEventLineup(eventId, req.user.id);
+      const lineup = await EventLineupService.getEventLineup(eventId);
+
+      if (!lineup) {
+        throw new AppError("Event not found", 404, {
+          code: ErrorCode.NOT_FOUND,
+          request: req,
+        });
+      }
+
+      // Participants learn about the lineup in the event's Discord thread
+      void announceLineupInDiscord(eventId);
+
+      res.json({
+        success: true,
+        data: lineup,
+      });
+    },
+  ),
+
   unsubscribeFromEvent: asyncHandler(
     async (
       req: Request<{ eventId: string }> & { user: { id: number } },
@@ -322,30 +592,44 @@ export default {
       const { eventId } = req.params;
       const userId = req.user.id;
 
-      const existingSubscription = await subscriptionModel.findByEventAndUser(
-        parseInt(eventId),
-        userId,
-      );
+      const removed = await removeEventSubscription(parseInt(eventId), userId);
 
-      if (!existingSubscription) {
+      if (!removed) {
         throw new AppError("Subscription not found", 404, {
           code: ErrorCode.NOT_FOUND,
           request: req,
         });
       }
 
-      const deleted = await subscriptionModel.delete(existingSubscription.id);
+      void refreshEventSignups(parseInt(eventId));
 
-      if (!deleted) {
-        throw new AppError("Failed to delete subscription", 500, {
-          code: ErrorCode.DATABASE_ERROR,
+      res.json({
+        success: true,
+        data: { message: "Successfully unsubscribed from event" },
+      });
+    },
+  ),
+
+  getEventComposition: asyncHandler(
+    async (
+      req: Request<{ eventId: string }>,
+      res: Response<ApiResponse<EventComposition>>,
+      _next: NextFunction,
+    ) => {
+      const { eventId } = req.params;
+
+      const composition = await getEventComposition(parseInt(eventId));
+
+      if (!composition) {
+        throw new AppError("Event not found", 404, {
+          code: ErrorCode.NOT_FOUND,
           request: req,
         });
       }
 
       res.json({
         success: true,
-        data: { message: "Successfully unsubscribed from event" },
+        data: composition,
       });
     },
   ),
@@ -0,0 +1,24 @@
+import { Request, Response } from "express";
+import * as GearAuditService from "../services/gear-audit.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+import { createNotFoundError } from "../utils/error-factory.js";
+
+/**
+ * GET /api/guilds/:guildId/gear-audit?rosterId=
+ * Missing enchants, empty sockets, low item level items and tier pieces of
+ * the guild's current members, optionally limited to one roster.
+ */
+export const getGuildGearAudit = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const rosterId = req.query.rosterId === undefined
+      ? undefined
+      : parseInt(req.query.rosterId as string, 10);
+
+    const audit = await GearAuditService.getGuildGearAudit(guildId, rosterId);
+    if (!audit) {
+      throw createNotFoundError("Roster", rosterId!, req);
+    }
+    res.status(200).json({ success: true, data: audit });
+  },
+);
@@ -0,0 +1,136 @@
+import { Request, Response } from "express";
+import { UpdateGuildDiscordSettingsRequest } from "../../../shared/types/api/discord.js";
+import { ErrorCode } from "../../../shared/types/utils/errors.js";
+import { registerCommandsForDiscordGuild } from "../modules/discord/commandHandler.js";
+import { findEventChannelProblem } from "../modules/discord/eventIntegration.js";
+import * as GuildDiscordSettingsService from "../services/guild-discord-settings.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+import {
+  createAppError,
+  createNotFoundError,
+  createValidationError,
+} from "../utils/error-factory.js";
+
+const parseGuildId = (req: Request): number => {
+  const guildId = parseInt(req.params.guildId, 10);
+  if (isNaN(guildId)) {
+    throw createValidationError(
+      "Invalid Guild ID.",
+      { guildId: "Must be a valid integer" },
+      guildId,
+      req,
+    );
+  }
+  return guildId;
+};
+
+/**
+ * GET /api/guilds/:guildId/discord-settings
+ * Discord server, event channel, reminder lead times and thread archiving for a guild.
+ */
+export const getGuildDiscordSettings = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseGuildId(req);
+
+    const settings = await GuildDiscordSettingsService.getGuildDiscordSettings(
+      guildId,
+    );
+    if (!settings) {
+      throw createNotFoundError("Guild", guildId, req);
+    }
+
+    res.status(200).json({ success: true, data: settings });
+  },
+);
+
+/**
+ * PUT /api/guilds/:guildId/discord-settings
+ * Create or replace the Discord settings of a guild. Requires Guild Master auth.
+ * Rejects a Discord server already linked to another guild.
+ * Registers the slash commands when a new Discord server is linked.
+ */
+export const updateGuildDiscordSettings = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseGuildId(req);
+    const input = req.body as UpdateGuildDiscordSettingsRequest;
+
+    if (input.eventChannelId && !input.discordGuildId) {
+      throw createValidationError(
+        "A Discord server ID is required when an event channel is set.",
+        { discordGuildId: "Required when eventChannelId is set" },
+        input.discordGuildId,
+        req,
+      );
+    }
+    if (
+      input.discordGuildId &&
+      await GuildDiscordSettingsService.isDiscordServerClaimedByOtherGuild(
+        input.discordGuildId,
+        guildId,
+      )
+    ) {
+      throw createAppError(
+        "This Discord server is already linked to another guild.",
+        ErrorCode.CONFLICT,
+        { discordGuildId: input.discordGuildId },
+        req,
+      );
+    }
+    if (input.discordGuildId && input.eventChannelId) {
+      const problem = await findEventChannelProblem(
+        input.discordGuildId,
+        input.eventChannelId,
+      );
+      if (problem) {
+        throw createValidationError(
+          problem,
+          { eventChannelId: problem },
+          input.eventChannelId,
+          req,
+        );
+      }
+    }
+
+    const previous = await GuildDiscordSettingsService.getGuildDiscordSettings(
+      guildId,
+    );
+    const settings = await GuildDiscordSettingsService.saveGuildDiscordSettings(
+      guildId,
+      input,
+    );
+    if (!previous || !settings) {
+      throw createNotFoundError("Guild", guildId, req);
+    }
+
+    if (
+      settings.discordGuildId &&
+      settings.discordGuildId !== previous.discordGuildId
+    ) {
+      void registerCommandsForDiscordGuild(settings.discordGuildId);
+    }
+
+    res.status(200).json({ success: true, data: settings });
+  },
+);
+
+/**
+ * DELETE /api/guilds/:guildId/discord-settings
+ * Remove the Discord settings of a guild, reverting it to the defaults. Requires Guild Master auth.
+ */
+export const deleteGuildDiscordSettings = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseGuildId(req);
+
+    const deleted = await GuildDiscordSettingsService.deleteGuildDiscordSettings(
+      guildId,
+    );
+    if (!deleted) {
+      throw createNotFoundError("Discord settings", guildId, req);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { message: "Discord settings removed." },
+    });
+  },
+);
@@ -0,0 +1,48 @@
+import { Request, Response } from "express";
+import {
+  GuildMemberEventQuery,
+  GuildMemberEventType,
+} from "../../../shared/types/api/member-event.js";
+import * as GuildMemberEventService from "../services/guild-member-event.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+
+const parseOptionalInt = (value: unknown): number | undefined =>
+  value === undefined ? undefined : parseInt(value as string, 10);
+
+const parseEventQuery = (req: Request): GuildMemberEventQuery => ({
+  page: parseOptionalInt(req.query.page),
+  limit: parseOptionalInt(req.query.limit),
+  eventType: req.query.eventType as GuildMemberEventType | undefined,
+});
+
+/**
+ * GET /api/guilds/:guildId/member-events?page=&limit=&eventType=
+ * Joins, leaves, rank changes, renames and level milestones of a guild's members, newest first.
+ */
+export const getGuildMemberEvents = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const events = await GuildMemberEventService.getGuildMemberEvents(
+      guildId,
+      parseEventQuery(req),
+    );
+    res.status(200).json({ success: true, data: events });
+  },
+);
+
+/**
+ * GET /api/guilds/:guildId/member-events/:characterId?page=&limit=&eventType=
+ * The history of one character within a guild, newest first.
+ */
+export const getCharacterMemberEvents = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const characterId = parseInt(req.params.characterId, 10);
+    const events = await GuildMemberEventService.getCharacterMemberEvents(
+      guildId,
+      characterId,
+      parseEventQuery(req),
+    );
+    res.status(200).json({ success: true, data: events });
+  },
+);
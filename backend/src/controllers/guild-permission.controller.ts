@@ -0,0 +1,68 @@
+import { Request, Response } from "express";
+import { UpdateGuildPermissionsRequest } from "../../../shared/types/api/permission.js";
+import * as GuildPermissionService from "../services/guild-permission.service.js";
+import { recordAudit } from "../services/audit-log.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+import { createValidationError } from "../utils/error-factory.js";
+
+/**
+ * GET /api/guilds/:guildId/permissions
+ * Capabilities per rank of a guild, and what the current user may manage.
+ */
+export const getGuildPermissions = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const permissions = await GuildPermissionService.getGuildPermissions(
+      guildId,
+      req.user!.id,
+    );
+    res.status(200).json({ success: true, data: permissions });
+  },
+);
+
+/**
+ * PUT /api/guilds/:guildId/permissions
+ * Replace the capabilities per rank. Requires Guild Master auth.
+ */
+export const updateGuildPermissions = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const input = req.body as UpdateGuildPermissionsRequest;
+    const problem = await GuildPermissionService.findInvalidPermissions(
+      guildId,
+      input,
+    );
+    if (problem) {
+      throw createValidationError(problem, { ranks: problem }, input.ranks, req);
+    }
+
+    const previous = await GuildPermissionService.getGuildPermissions(
+      guildId,
+      req.user!.id,
+    );
+    const permissions = await GuildPermissionService.updateGuildPermissions(
+      guildId,
+      input,
+      req.user!.id,
+    );
+
+    // One field per rank name, so the entry lists only the ranks that changed
+    const capabilitiesByRank = (ranks: typeof permissions.ranks) =>
+      Object.fromEntries(
+        ranks
+          .filter((rank) => !rank.isGuildMaster)
+          .map((rank) => [rank.rankName, rank.capabilities]),
+      );
+    await recordAudit({
+      guildId,
+      actorId: req.user!.id,
+      action: "permissions.update",
+      targetType: "guild",
+      targetId: guildId,
+      targetLabel: "Rank permissions",
+      before: capabilitiesByRank(previous.ranks),
+      after: capabilitiesByRank(permissions.ranks),
+    });
+    res.status(200).json({ success: true, data: permissions });
+  },
+);
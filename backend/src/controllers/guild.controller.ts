@@ -10,6 +10,7 @@ import * as guildMemberModel from "../models/guild_member.model.js";
 import * as rankModel from "../models/rank.model.js";
 import * as userModel from "../models/user.model.js";
 import * as guildService from "../services/guild.service.js";
+import { recordAudit } from "../services/audit-log.service.js";
 import { asyncHandler } from "../utils/error-handler.js";
 import {
   createNotFoundError,
@@ -637,6 +638,11 @@ export default {
       throw createNotFoundError("Guild", parseInt(guildId), req);
     }
 
+    const previousRank = await rankModel.findOne({
+      guild_id: parseInt(guildId),
+      rank_id: parseInt(rankId),
+    });
+
     // This interacts only with the DB rankModel, so it should be fine.
     const updatedRank = await rankModel.setGuildRank(
       parseInt(guildId),
@@ -644,6 +650,17 @@ export default {
       rank_name,
     );
 
+    await recordAudit({
+      guildId: parseInt(guildId),
+      actorId: req.user!.id,
+      action: "rank.rename",
+      targetType: "rank",
+      targetId: parseInt(rankId),
+      targetLabel: rank_name,
+      before: { rank_name: previousRank?.rank_name ?? null },
+      after: { rank_name },
+    });
+
     res.json({
       success: true,
       data: updatedRank,
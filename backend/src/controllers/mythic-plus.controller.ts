@@ -0,0 +1,36 @@
+import { Request, Response } from "express";
+import * as MythicPlusService from "../services/mythic-plus.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+import { createNotFoundError } from "../utils/error-factory.js";
+
+/**
+ * GET /api/guilds/:guildId/mythic-plus
+ * Rating, highest timed key per dungeon and runs this reset of the guild's members.
+ */
+export const getGuildMythicPlusLeaderboard = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const leaderboard = await MythicPlusService.getGuildMythicPlusLeaderboard(
+      guildId,
+    );
+    if (!leaderboard) {
+      throw createNotFoundError("Guild", guildId, req);
+    }
+    res.status(200).json({ success: true, data: leaderboard });
+  },
+);
+
+/**
+ * GET /api/guilds/:guildId/mythic-plus/vault
+ * Mains with and without a vault-level key since the weekly reset.
+ */
+export const getGuildMythicPlusVault = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const vault = await MythicPlusService.getGuildMythicPlusVault(guildId);
+    if (!vault) {
+      throw createNotFoundError("Guild", guildId, req);
+    }
+    res.status(200).json({ success: true, data: vault });
+  },
+);
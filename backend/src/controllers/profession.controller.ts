@@ -0,0 +1,24 @@
+import { Request, Response } from "express";
+import * as ProfessionService from "../services/profession.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+
+/**
+ * GET /api/guilds/:guildId/professions?search=&professionId=&expansion=
+ * Profession tiers, skill and matching known recipes of the guild's members.
+ */
+export const getGuildProfessionDirectory = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const directory = await ProfessionService.getGuildProfessionDirectory(
+      guildId,
+      {
+        search: req.query.search as string | undefined,
+        professionId: req.query.professionId === undefined
+          ? undefined
+          : parseInt(req.query.professionId as string, 10),
+        expansion: req.query.expansion as string | undefined,
+      },
+    );
+    res.status(200).json({ success: true, data: directory });
+  },
+);
@@ -0,0 +1,17 @@
+import { Request, Response } from "express";
+import * as RaidProgressionService from "../services/raid-progression.service.js";
+import { asyncHandler } from "../utils/error-handler.js";
+
+/**
+ * GET /api/guilds/:guildId/raid-progression
+ * Bosses killed by the guild's mains per raid and difficulty in the newest expansion.
+ */
+export const getGuildRaidProgression = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    const progression = await RaidProgressionService.getGuildRaidProgression(
+      guildId,
+    );
+    res.status(200).json({ success: true, data: progression });
+  },
+);
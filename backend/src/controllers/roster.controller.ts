@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import * as RosterService from "../services/roster.service.js";
+import { recordAudit } from "../services/audit-log.service.js";
 
 // Import specific types for better type references
 import type { RosterMemberAddition } from "../../../shared/types/api/roster.js";
@@ -12,6 +13,19 @@ import {
   createAppError
 } from "../utils/error-factory.js";
 
+// Set by the roster permission middleware
+const rosterGuildId = (req: Request): number => {
+  if (req.guildId === undefined) {
+    throw createAppError(
+      "Roster guild was not resolved for this request.",
+      ErrorCode.INTERNAL_ERROR,
+      undefined,
+      req,
+    );
+  }
+  return req.guildId;
+};
+
 // === Guild-Specific Roster Controllers ===
 
 /**
@@ -35,7 +49,7 @@ export const getGuildRosters = asyncHandler(async (req: Request, res: Response)
 
 /**
  * POST /api/guilds/:guildId/rosters
- * Create a new roster for the guild. Requires Guild Master auth.
+ * Create a new roster for the guild. Requires the manage_rosters permission.
  * Body: { name: string }
  */
 export const createGuildRoster = asyncHandler(async (req: Request, res: Response) => {
@@ -60,11 +74,21 @@ export const createGuildRoster = asyncHandler(async (req: Request, res: Response
     );
   }
 
-  // Authorization (isGuildMaster) is handled by middleware in the route definition
+  // Authorization (manage_rosters) is handled by middleware in the route definition
   const newRoster = await RosterService.createGuildRoster(
     guildId,
     name.trim(),
   );
+
+  await recordAudit({
+    guildId,
+    actorId: req.user!.id,
+    action: "roster.create",
+    targetType: "roster",
+    targetId: newRoster.id,
+    targetLabel: newRoster.name,
+    after: { name: newRoster.name },
+  });
   
   res.status(201).json({ success: true, data: newRoster });
 });
@@ -101,7 +125,7 @@ export const getRosterDetails = asyncHandler(async (req: Request, res: Response)
 
 /**
  * PUT /api/rosters/:rosterId
- * Update roster details. Requires Guild Master auth for the roster's guild.
+ * Update roster details. Requires the manage_rosters permission in the roster's guild.
  * Body: { name: string }
  */
 export const updateRosterDetails = asyncHandler(async (req: Request, res: Response) => {
@@ -126,8 +150,9 @@ export const updateRosterDetails = asyncHandler(async (req: Request, res: Respon
     );
   }
 
-  // Authorization (isGuildMaster for the roster's guild) should be handled by middleware.
+  // Authorization (manage_rosters in the roster's guild) should be handled by middleware.
   // The middleware will need to fetch the roster, get its guildId, and then check master status.
+  const previousRoster = await RosterService.getRosterById(rosterId);
   const updatedRoster = await RosterService.updateRoster(
     rosterId,
     name.trim(),
@@ -136,13 +161,24 @@ export const updateRosterDetails = asyncHandler(async (req: Request, res: Respon
   if (!updatedRoster) {
     throw createNotFoundError("Roster", rosterId, req);
   }
+
+  await recordAudit({
+    guildId: updatedRoster.guildId,
+    actorId: req.user!.id,
+    action: "roster.update",
+    targetType: "roster",
+    targetId: rosterId,
+    targetLabel: updatedRoster.name,
+    before: { name: previousRoster?.name ?? null },
+    after: { name: updatedRoster.name },
+  });
   
   res.status(200).json({ success: true, data: updatedRoster });
 });
 
 /**
  * DELETE /api/rosters/:rosterId
- * Delete a roster. Requires Guild Master auth for the roster's guild.
+ * Delete a roster. Requires the manage_rosters permission in the roster's guild.
  */
 export const deleteRoster = asyncHandler(async (req: Request, res: Response) => {
   const rosterId = parseInt(req.params.rosterId, 10);
@@ -155,12 +191,27 @@ export const deleteRoster = asyncHandler(async (req: Request, res: Response) =>
     );
   }
 
-  // Authorization (isGuildMaster for the roster's guild) handled by middleware.
+  // Authorization (manage_rosters in the roster's guild) handled by middleware.
+  const roster = await RosterService.getRosterById(rosterId);
+  const members = await RosterService.getRosterMembers(rosterId);
   const success = await RosterService.deleteRoster(rosterId);
   if (!success) {
     // This might happen if the roster was already deleted between auth check and service call
     throw createNotFoundError("Roster", rosterId, req);
   }
+
+  await recordAudit({
+    guildId: rosterGuildId(req),
+    actorId: req.user!.id,
+    action: "roster.delete",
+    targetType: "roster",
+    targetId: rosterId,
+    targetLabel: roster?.name ?? null,
+    before: {
+      name: roster?.name ?? null,
+      members: members.map((member) => member.name),
+    },
+  });
   
   res.status(204).send(); // No content on successful deletion
 });
@@ -169,7 +220,7 @@ export const deleteRoster = asyncHandler(async (req: Request, res: Response) =>
 
 /**
  * POST /api/rosters/:rosterId/members
- * Add members to a roster. Requires Guild Master auth for the roster's guild.
+ * Add members to a roster. Requires the manage_rosters permission in the roster's guild.
  * Body: { additions: RosterMemberAddition[] }
  */
 export const addRosterMembers = asyncHandler(async (req: Request, res: Response) => {
@@ -239,9 +290,9 @@ export const addRosterMembers = asyncHandler(async (req: Request, res: Response)
     }
   }
 
-  // Authorization (isGuildMaster for the roster's guild) handled by middleware.
+  // Authorization (manage_rosters in the roster's guild) handled by middleware.
   // Need the guildId for the service function. Middleware should fetch roster and attach guildId to req.
-  const guildId = (req as any).guildId; // Assuming middleware attaches guildId
+  const guildId = rosterGuildId(req);
   if (!guildId) {
     logger.error(
       "Guild ID missing from request after authorization middleware in addRosterMembers",
@@ -254,18 +305,38 @@ export const addRosterMembers = asyncHandler(async (req: Request, res: Response)
     );
   }
 
+  const previousIds = new Set(
+    (await RosterService.getRosterMembers(rosterId)).map((member) =>
+      member.characterId
+    ),
+  );
   const updatedMembers = await RosterService.addRosterMembers(
     rosterId,
     additions as RosterMemberAddition[],
     guildId,
   );
+
+  const added = updatedMembers.filter((member) =>
+    !previousIds.has(member.characterId)
+  );
+  if (added.length > 0) {
+    await recordAudit({
+      guildId,
+      actorId: req.user!.id,
+      action: "roster.members_add",
+      targetType: "roster",
+      targetId: rosterId,
+      targetLabel: (await RosterService.getRosterById(rosterId))?.name ?? null,
+      after: { members: added.map((member) => member.name) },
+    });
+  }
   
   res.status(200).json({ success: true, data: updatedMembers });
 });
 
 /**
  * PUT /api/rosters/:rosterId/members/:characterId
- * Update a specific member's assigned role. Requires Guild Master auth.
+ * Update a specific member's assigned role. Requires the manage_rosters permission.
  * Body: { role: string | null }
  */
 export const updateRosterMember = asyncHandler(async (req: Request, res: Response) => {
@@ -294,7 +365,11 @@ export const updateRosterMember = asyncHandler(async (req: Request, res: Respons
     );
   }
 
-  // Authorization (isGuildMaster for the roster's guild) handled by middleware.
+  // Authorization (manage_rosters in the roster's guild) handled by middleware.
+  const previousMember = await RosterService.getRosterMember(
+    rosterId,
+    characterId,
+  );
   const updatedMember = await RosterService.updateRosterMemberRole(
     rosterId,
     characterId,
@@ -304,13 +379,24 @@ export const updateRosterMember = asyncHandler(async (req: Request, res: Respons
   if (!updatedMember) {
     throw createNotFoundError("Roster member", `${rosterId}-${characterId}`, req);
   }
+
+  await recordAudit({
+    guildId: rosterGuildId(req),
+    actorId: req.user!.id,
+    action: "roster.member_update",
+    targetType: "roster_member",
+    targetId: `${rosterId}-${characterId}`,
+    targetLabel: updatedMember.name,
+    before: { role: previousMember?.role ?? null },
+    after: { role: updatedMember.role },
+  });
   
   res.status(200).json({ success: true, data: updatedMember });
 });
 
 /**
  * DELETE /api/rosters/:rosterId/members/:characterId
- * Remove a specific member from the roster. Requires Guild Master auth.
+ * Remove a specific member from the roster. Requires the manage_rosters permission.
  */
 export const removeRosterMember = asyncHandler(async (req: Request, res: Response) => {
   // Add detailed logging
@@ -337,7 +423,8 @@ export const removeRosterMember = asyncHandler(async (req: Request, res: Respons
     );
   }
 
-  // Authorization (isGuildMaster for the roster's guild) handled by middleware.
+  // Authorization (manage_rosters in the roster's guild) handled by middleware.
+  const member = await RosterService.getRosterMember(rosterId, characterId);
   const success = await RosterService.removeRosterMember(
     rosterId,
     characterId,
@@ -346,6 +433,16 @@ export const removeRosterMember = asyncHandler(async (req: Request, res: Respons
   if (!success) {
     throw createNotFoundError("Roster member", `${rosterId}-${characterId}`, req);
   }
+
+  await recordAudit({
+    guildId: rosterGuildId(req),
+    actorId: req.user!.id,
+    action: "roster.member_remove",
+    targetType: "roster_member",
+    targetId: `${rosterId}-${characterId}`,
+    targetLabel: member?.name ?? null,
+    before: { name: member?.name ?? null, role: member?.role ?? null },
+  });
   
   res.status(204).send(); // No content on successful deletion
 });
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { Request, Response } from "express";
+import * as GuildSyncService from "../services/guild-sync.service.js";
+import * as SyncStatusService from "../services/sync-status.service.js";
+import { ErrorCode } from "../../../shared/types/utils/errors.js";
+import { asyncHandler } from "../utils/error-handler.js";
+import {
+  createAppError,
+  createNotFoundError,
+  createRateLimitError,
+  createValidationError,
+} from "../utils/error-factory.js";
+
+/**
+ * GET /api/guilds/:guildId/sync-status
+ * Recent sync runs (with per-step outcome) and queued character jobs for a guild.
+ */
+export const getGuildSyncStatus = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    if (isNaN(guildId)) {
+      throw createValidationError(
+        "Invalid Guild ID.",
+        { guildId: "Must be a valid integer" },
+        guildId,
+        req,
+      );
+    }
+
+    const status = await SyncStatusService.getGuildSyncStatus(guildId);
+    if (!status) {
+      throw createNotFoundError("Guild", guildId, req);
+    }
+
+    res.status(200).json({ success: true, data: status });
+  },
+);
+
+/**
+ * POST /api/guilds/:guildId/sync
+ * Start an on-demand sync of the guild. Requires Guild Master auth.
+ * Responds 202 with the run ID; poll GET /sync-status for progress.
+ */
+export const requestGuildSync = asyncHandler(
+  async (req: Request, res: Response) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    if (isNaN(guildId)) {
+      throw createValidationError(
+        "Invalid Guild ID.",
+        { guildId: "Must be a valid integer" },
+        guildId,
+        req,
+      );
+    }
+
+    const userId = (req.user as { id: number }).id;
+    const outcome = await GuildSyncService.requestGuildSync(guildId, userId);
+
+    switch (outcome.status) {
+      case "not_found":
+        throw createNotFoundError("Guild", guildId, req);
+      case "in_progress":
+        throw createAppError(
+          "A sync is already running for this guild.",
+          ErrorCode.CONFLICT,
+          { syncRunId: outcome.syncRunId, startedAt: outcome.startedAt },
+          req,
+        );
+      case "cooldown":
+        res.setHeader("Retry-After", String(outcome.retryAfterSeconds));
+        throw createRateLimitError(
+          "This guild was synced recently. Please wait before requesting another sync.",
+          {
+            retryAfterSeconds: outcome.retryAfterSeconds,
+            nextAllowedAt: outcome.nextAllowedAt,
+          },
+          req,
+        );
+      case "started":
+        res.status(202).json({ success: true, data: outcome.result });
+    }
+  },
+);
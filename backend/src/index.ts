@@ -11,12 +11,14 @@ import path from "path";
 import pg from "pg"; // Import pg
 import config from "./config/index.js";
 import { runSync, SyncDependencies } from "./jobs/battlenet-sync/index.js";
-import characterModelInstance from "./models/character.model.js";
-import guildModelInstance from "./models/guild.model.js";
-import guildMemberModelInstance from "./models/guild_member.model.js";
-import rankModelInstance from "./models/rank.model.js";
-import userModelInstance from "./models/user.model.js";
-import { BattleNetApiClientEnhanced } from "./services/battlenet-api-client-enhanced.js";
+import {
+  scheduleSyncQueueCleanupJob,
+  startCharacterSyncWorker,
+} from "./jobs/battlenet-sync/character-sync-queue.js";
+import { scheduleCharacterSnapshotPruneJob } from "./jobs/battlenet-sync/character-snapshots.js";
+import { syncDependencies } from "./jobs/battlenet-sync/sync-dependencies.js";
+import { scheduleEventSeriesGenerationJob } from "./jobs/event-series-generator.js";
+import guildDiscordSettingsModel from "./models/guild_discord_settings.model.js";
 import logger from "./utils/logger.js"; // Import the logger
 
 import {
@@ -27,9 +29,11 @@ import {
   attachCommandListener,
   registerCommands,
 } from "./modules/discord/commandHandler.js";
+import { attachRsvpListener } from "./modules/discord/rsvpHandler.js";
 // logger is already imported
 import { scheduleReminderJob } from "./modules/discord/reminderService.js";
 import { scheduleThreadCleanupJob } from "./modules/discord/threadCleanupService.js";
+import { scheduleLinkTokenPurgeJob } from "./modules/discord/discordTokenStore.js";
 
 import { registerValidatedRoutes } from "./routes/validated/index.js";
 import {
@@ -150,11 +154,10 @@ async function startDiscordBot() {
   logger.info("Attempting to initialize Discord Bot...");
   const token = process.env.DISCORD_BOT_TOKEN;
   const clientId = process.env.DISCORD_CLIENT_ID;
-  const guildId = process.env.DISCORD_GUILD_ID;
 
-  if (!token || !clientId || !guildId) {
+  if (!token || !clientId) {
     logger.error(
-      "Missing required Discord environment variables (DISCORD_BOT_TOKEN, DISCORD_CLIENT_ID, DISCORD_GUILD_ID). Bot initialization skipped.",
+      "Missing required Discord environment variables (DISCORD_BOT_TOKEN, DISCORD_CLIENT_ID). Bot initialization skipped.",
     );
     return;
   }
@@ -165,8 +168,18 @@ async function startDiscordBot() {
     // A more robust solution might involve waiting for the 'ready' event explicitly here
     await new Promise((resolve) => setTimeout(resolve, 2000)); // Simple 2-second delay
 
-    await registerCommands(clientId, guildId, token);
+    // Every Discord server linked in guild settings, plus the legacy single-server setup
+    const discordGuildIds = new Set(
+      await guildDiscordSettingsModel.findConfiguredDiscordGuildIds(),
+    );
+    if (process.env.DISCORD_GUILD_ID) {
+      discordGuildIds.add(process.env.DISCORD_GUILD_ID);
+    }
+    for (const discordGuildId of discordGuildIds) {
+      await registerCommands(clientId, discordGuildId, token);
+    }
     attachCommandListener(discordClient);
+    attachRsvpListener(discordClient);
     logger.info("Discord Bot Initialized and Listener Attached.");
   } catch (error) {
     logger.error({ err: error }, "Failed to initialize Discord Bot");
@@ -183,15 +196,8 @@ logger.info(
   `[Scheduler] Using sync schedule: "${syncSchedule}" (Default: "${defaultSyncSchedule}")`,
 );
 
-// Instantiate dependencies for the sync job
-const dependencies: SyncDependencies = {
-  apiClient: new BattleNetApiClientEnhanced(),
-  guildModel: guildModelInstance,
-  userModel: userModelInstance,
-  guildMemberModel: guildMemberModelInstance,
-  rankModel: rankModelInstance,
-  characterModel: characterModelInstance,
-};
+// Dependencies for the sync job, shared with on-demand guild syncs
+const dependencies: SyncDependencies = syncDependencies;
 
 const syncJob = schedule.scheduleJob(syncSchedule, async () => {
   logger.info(
@@ -210,6 +216,13 @@ const syncJob = schedule.scheduleJob(syncSchedule, async () => {
 });
 scheduleThreadCleanupJob();
 scheduleReminderJob();
+scheduleSyncQueueCleanupJob();
+scheduleCharacterSnapshotPruneJob();
+scheduleLinkTokenPurgeJob();
+scheduleEventSeriesGenerationJob();
+
+// Drain queued per-character syncs in the background
+startCharacterSyncWorker(dependencies);
 logger.info(
   `[Scheduler] Next sync job scheduled for: ${syncJob.nextInvocation()}`,
 );
@@ -0,0 +1,69 @@
+import { DbCharacter } from "../../../../shared/types/guild.js";
+import { BattleNetRegion } from "../../../../shared/types/user.js";
+import characterMythicBestModel from "../../models/character_mythic_best.model.js";
+import { BattleNetApiClientEnhanced } from "../../services/battlenet-api-client-enhanced.js";
+import { BattleNetMythicKeystoneBestRun } from "../../types/battlenet-api.types.js";
+import { EnhancedCharacterData } from "../../types/enhanced-character.js";
+import { AppError } from "../../utils/error-handler.js";
+import logger from "../../utils/logger.js";
+import { bestTimedRunPerDungeon, currentMythicSeasonId } from "../../utils/mythic-plus.js";
+import { createSlug } from "../../utils/slugify.js";
+import { withTransaction } from "../../utils/transaction.js";
+
+/**
+ * Stores a character's highest timed key per dungeon in the current Mythic+
+ * season. The season comes from the keystone profile synced with the character;
+ * a failure is logged and never fails the character sync.
+ */
+export async function syncCharacterMythicBests(
+  apiClient: BattleNetApiClientEnhanced,
+  character: Pick<DbCharacter, "id" | "name" | "realm" | "region">,
+  mythicKeystone: EnhancedCharacterData["mythicKeystone"],
+): Promise<void> {
+  const realmSlug = createSlug(character.realm);
+  const characterNameLower = character.name.toLowerCase();
+  const logContext = {
+    charId: character.id,
+    charName: character.name,
+    realmSlug,
+    region: character.region,
+  };
+
+  const seasonId = currentMythicSeasonId(mythicKeystone);
+  let runs: BattleNetMythicKeystoneBestRun[] = [];
+  if (seasonId !== null) {
+    try {
+      runs = await apiClient.getCharacterMythicKeystoneSeason(
+        realmSlug,
+        characterNameLower,
+        character.region as BattleNetRegion,
+        seasonId,
+      );
+    } catch (error: unknown) {
+      if (!(error instanceof AppError && error.status === 404)) {
+        logger.error(
+          { err: error, ...logContext, seasonId },
+          `[SyncService][MythicBests] Failed to fetch the Mythic+ season. Keeping the stored bests.`,
+        );
+        return;
+      }
+      // No run in the current season yet
+    }
+  }
+
+  const bests = bestTimedRunPerDungeon(runs);
+  try {
+    await withTransaction((client) =>
+      characterMythicBestModel.replaceForCharacter(character.id, seasonId ?? 0, bests, client)
+    );
+    logger.debug(
+      { ...logContext, seasonId, bestCount: bests.length },
+      `[SyncService][MythicBests] Stored ${bests.length} Mythic+ season bests.`,
+    );
+  } catch (error: unknown) {
+    logger.error(
+      { err: error, ...logContext },
+      `[SyncService][MythicBests] Failed to store Mythic+ season bests.`,
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { DbCharacter } from "../../../../shared/types/guild.js";
+import characterProfessionModel from "../../models/character_profession.model.js";
+import { BattleNetProfessions } from "../../types/battlenet-api.types.js";
+import logger from "../../utils/logger.js";
+import { normalizeProfessions } from "../../utils/professions.js";
+import { withTransaction } from "../../utils/transaction.js";
+
+/**
+ * Stores a character's profession tiers for the crafting directory. The
+ * professions come with the character payload, so nothing is fetched here;
+ * a failure is logged and never fails the character sync.
+ */
+export async function syncCharacterProfessions(
+  character: Pick<DbCharacter, "id" | "name">,
+  professions: BattleNetProfessions | null | undefined,
+): Promise<void> {
+  const logContext = { charId: character.id, charName: character.name };
+
+  if (!professions) {
+    // The professions request failed; keep what is stored
+    return;
+  }
+
+  const tiers = normalizeProfessions(professions.primaries);
+  try {
+    await withTransaction((client) =>
+      characterProfessionModel.replaceForCharacter(character.id, tiers, client)
+    );
+    logger.debug(
+      { ...logContext, tierCount: tiers.length },
+      `[SyncService][Professions] Stored ${tiers.length} profession tiers.`,
+    );
+  } catch (error: unknown) {
+    logger.error(
+      { err: error, ...logContext },
+      `[SyncService][Professions] Failed to store profession tiers.`,
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { DbCharacter } from "../../../../shared/types/guild.js";
+import { BattleNetRegion } from "../../../../shared/types/user.js";
+import characterRaidKillModel from "../../models/character_raid_kill.model.js";
+import { BattleNetApiClientEnhanced } from "../../services/battlenet-api-client-enhanced.js";
+import { BattleNetRaidKill } from "../../types/battlenet-api.types.js";
+import { AppError } from "../../utils/error-handler.js";
+import logger from "../../utils/logger.js";
+import { createSlug } from "../../utils/slugify.js";
+import { withTransaction } from "../../utils/transaction.js";
+
+/**
+ * Stores the raid bosses a character has killed. Raid progress is an extra on
+ * top of the profile, so a failure is logged and never fails the character sync.
+ */
+export async function syncCharacterRaidKills(
+  apiClient: BattleNetApiClientEnhanced,
+  character: Pick<DbCharacter, "id" | "name" | "realm" | "region">,
+): Promise<void> {
+  const realmSlug = createSlug(character.realm);
+  const characterNameLower = character.name.toLowerCase();
+  const logContext = {
+    charId: character.id,
+    charName: character.name,
+    realmSlug,
+    region: character.region,
+  };
+
+  let kills: BattleNetRaidKill[];
+  try {
+    kills = await apiClient.getCharacterRaidEncounters(
+      realmSlug,
+      characterNameLower,
+      character.region as BattleNetRegion,
+    );
+  } catch (error: unknown) {
+    if (error instanceof AppError && error.status === 404) {
+      // Characters that never set foot in a raid have no encounters resource
+      kills = [];
+    } else {
+      logger.error(
+        { err: error, ...logContext },
+        `[SyncService][RaidKills] Failed to fetch raid encounters. Keeping the stored kills.`,
+      );
+      return;
+    }
+  }
+
+  try {
+    await withTransaction((client) =>
+      characterRaidKillModel.replaceForCharacter(character.id, kills, client)
+    );
+    logger.debug(
+      { ...logContext, killCount: kills.length },
+      `[SyncService][RaidKills] Stored ${kills.length} raid boss kills.`,
+    );
+  } catch (error: unknown) {
+    logger.error(
+      { err: error, ...logContext },
+      `[SyncService][RaidKills] Failed to store raid boss kills.`,
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import schedule from "node-schedule";
+import characterSnapshotModel from "../../models/character_snapshot.model.js";
+import {
+  DAILY_RETENTION_DAYS,
+  MAX_RETENTION_DAYS,
+  SnapshotMetrics,
+  snapshotDateDaysAgo,
+  toSnapshotDate,
+} from "../../utils/character-snapshots.js";
+import logger from "../../utils/logger.js";
+
+/**
+ * Writes today's progression snapshot of a character. Snapshots are an extra
+ * on top of the profile, so a failure is logged and never fails the character sync.
+ */
+export async function recordCharacterSnapshot(
+  characterId: number,
+  metrics: SnapshotMetrics,
+): Promise<void> {
+  try {
+    await characterSnapshotModel.upsertForDate(
+      characterId,
+      toSnapshotDate(new Date()),
+      metrics,
+    );
+  } catch (error: unknown) {
+    logger.error(
+      { err: error, charId: characterId },
+      `[SyncService][Snapshots] Failed to record character snapshot.`,
+    );
+  }
+}
+
+/**
+ * Schedules a daily thinning of old snapshots to one per week and removal of
+ * the expired ones.
+ */
+export function scheduleCharacterSnapshotPruneJob() {
+  const defaultSchedule = "45 3 * * *"; // Every day at 03:45
+  const cronSchedule = process.env.CHARACTER_SNAPSHOT_PRUNE_CRON_SCHEDULE ||
+    defaultSchedule;
+  logger.info(
+    `[Scheduler] Using character snapshot prune schedule: "${cronSchedule}" (Default: "${defaultSchedule}")`,
+  );
+
+  schedule.scheduleJob(cronSchedule, async () => {
+    try {
+      const deleted = await characterSnapshotModel.prune(
+        snapshotDateDaysAgo(MAX_RETENTION_DAYS),
+        snapshotDateDaysAgo(DAILY_RETENTION_DAYS),
+      );
+      logger.info(
+        { deleted },
+        "[CharacterSnapshots] Pruned character snapshots",
+      );
+    } catch (error) {
+      logger.error(
+        { err: error },
+        "[CharacterSnapshots] Failed to prune character snapshots",
+      );
+    }
+  });
+}
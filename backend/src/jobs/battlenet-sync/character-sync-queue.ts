@@ -0,0 +1,212 @@
+// Durable queue for per-character Battle.net syncs, backed by the sync_jobs table
+
+import os from "node:os";
+import process from "node:process";
+import schedule from "node-schedule";
+import { DbCharacter } from "../../../../shared/types/guild.js";
+import { DbSyncJob } from "../../../../shared/types/db/models/sync.js";
+import syncJobModel from "../../models/sync_job.model.js";
+import logger from "../../utils/logger.js";
+import { syncCharacter } from "./character-sync.js";
+import { reportCharacterSyncOutcome } from "./sync-run-reporter.js";
+import type { SyncDependencies } from "./index.js";
+
+const JOB_TYPE = "character_sync";
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const STALE_LOCK_MS = 15 * 60 * 1000;
+const COMPLETED_RETENTION_DAYS = 7;
+// Dead jobs are kept longer so they can be inspected or requeued
+const DEAD_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Exponential backoff for a job that has failed `attempts` times:
+ * 30s, 1m, 2m, 4m, ... capped at one hour.
+ */
+export function computeRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(attempts - 1, 0);
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Adds a sync job for each character. Characters that already have a
+ * pending or running job are skipped.
+ * @returns The number of jobs enqueued.
+ */
+export async function enqueueCharacterSyncs(
+  characters: DbCharacter[],
+  context: { guildId: number; syncRunId?: number | null },
+): Promise<number> {
+  return syncJobModel.enqueueMany(
+    JOB_TYPE,
+    characters.map((character) => ({
+      payload: {
+        characterId: character.id,
+        guildId: context.guildId,
+        syncRunId: context.syncRunId ?? null,
+      },
+      dedupeKey: `${JOB_TYPE}:${character.id}`,
+      maxAttempts: MAX_ATTEMPTS,
+    })),
+  );
+}
+
+/**
+ * Runs a single claimed job and records its outcome in the queue.
+ */
+async function processCharacterSyncJob(
+  dependencies: SyncDependencies,
+  job: DbSyncJob,
+): Promise<void> {
+  const characterId = Number(job.payload.characterId);
+  const syncRunId = job.payload.syncRunId
+    ? Number(job.payload.syncRunId)
+    : null;
+  const logContext = { jobId: job.id, characterId, attempt: job.attempts };
+
+  try {
+    const character = await dependencies.characterModel.findById(characterId);
+    if (character) {
+      await syncCharacter(
+        dependencies.apiClient,
+        dependencies.characterModel,
+        dependencies.guildMemberModel,
+        dependencies.guildModel,
+        character,
+        syncRunId,
+      );
+    } else {
+      logger.warn(
+        logContext,
+        "[CharacterSyncQueue] Character no longer exists, dropping job.",
+      );
+      await reportCharacterSyncOutcome(syncRunId, "unavailable");
+    }
+    await syncJobModel.markCompleted(job.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = await syncJobModel.markFailed(
+      job,
+      message,
+      computeRetryDelayMs(job.attempts),
+    );
+    if (status === "dead") {
+      await reportCharacterSyncOutcome(syncRunId, "failed");
+      logger.error(
+        { ...logContext, err: error },
+        "[CharacterSyncQueue] Job exhausted its attempts, moved to dead-letter.",
+      );
+    } else {
+      logger.warn(
+        { ...logContext, err: error },
+        "[CharacterSyncQueue] Job failed, scheduled for retry.",
+      );
+    }
+  }
+}
+
+/**
+ * Starts the worker loop that drains character sync jobs.
+ * Concurrency and idle poll interval are read from
+ * CHARACTER_SYNC_WORKER_CONCURRENCY and CHARACTER_SYNC_WORKER_POLL_MS.
+ * @returns A function that stops the worker after its current batch.
+ */
+export function startCharacterSyncWorker(
+  dependencies: SyncDependencies,
+): () => void {
+  const concurrency = Number(process.env.CHARACTER_SYNC_WORKER_CONCURRENCY) ||
+    10;
+  const pollIntervalMs = Number(process.env.CHARACTER_SYNC_WORKER_POLL_MS) ||
+    5000;
+  const workerId = `${os.hostname()}-${process.pid}`;
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  logger.info(
+    { workerId, concurrency, pollIntervalMs },
+    "[CharacterSyncQueue] Starting character sync worker",
+  );
+
+  const tick = async () => {
+    let claimed = 0;
+    try {
+      const released = await syncJobModel.releaseStaleJobs(STALE_LOCK_MS);
+      if (released > 0) {
+        logger.warn(
+          { released },
+          "[CharacterSyncQueue] Released jobs with expired worker locks.",
+        );
+      }
+
+      const jobs = await syncJobModel.claimBatch(
+        JOB_TYPE,
+        workerId,
+        concurrency,
+      );
+      claimed = jobs.length;
+      if (claimed > 0) {
+        logger.debug(
+          { workerId, claimed },
+          "[CharacterSyncQueue] Claimed character sync jobs",
+        );
+        await Promise.allSettled(
+          jobs.map((job) => processCharacterSyncJob(dependencies, job)),
+        );
+      }
+    } catch (error) {
+      logger.error(
+        { err: error, workerId },
+        "[CharacterSyncQueue] Worker iteration failed",
+      );
+    }
+
+    if (!stopped) {
+      // Keep draining while there is work, otherwise wait for the next poll
+      timer = setTimeout(tick, claimed > 0 ? 0 : pollIntervalMs);
+    }
+  };
+
+  timer = setTimeout(tick, 0);
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Schedules a daily purge of completed jobs older than a week and of
+ * dead-lettered jobs older than a month.
+ */
+export function scheduleSyncQueueCleanupJob() {
+  const defaultSchedule = "30 3 * * *"; // Every day at 03:30
+  const cronSchedule = process.env.SYNC_QUEUE_CLEANUP_CRON_SCHEDULE ||
+    defaultSchedule;
+  logger.info(
+    `[Scheduler] Using sync queue cleanup schedule: "${cronSchedule}" (Default: "${defaultSchedule}")`,
+  );
+
+  schedule.scheduleJob(cronSchedule, async () => {
+    try {
+      const deleted = await syncJobModel.deleteCompletedBefore(
+        new Date(Date.now() - COMPLETED_RETENTION_DAYS * DAY_MS),
+      );
+      const deletedDead = await syncJobModel.deleteDeadBefore(
+        new Date(Date.now() - DEAD_RETENTION_DAYS * DAY_MS),
+      );
+      logger.info(
+        { deleted, deletedDead },
+        "[CharacterSyncQueue] Purged completed and dead sync jobs",
+      );
+    } catch (error) {
+      logger.error(
+        { err: error },
+        "[CharacterSyncQueue] Failed to purge sync jobs",
+      );
+    }
+  });
+}
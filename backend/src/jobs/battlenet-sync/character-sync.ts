@@ -1,11 +1,65 @@
+import axios from "axios";
 import { DbCharacter, DbGuildMember } from "../../../../shared/types/guild.js";
 import { BattleNetRegion } from "../../../../shared/types/user.js";
 import { CharacterModel } from "../../models/character.model.js";
 import { GuildMemberModel } from "../../models/guild_member.model.js";
 import { BattleNetApiClientEnhanced } from "../../services/battlenet-api-client-enhanced.js";
+import { EnhancedCharacterData } from "../../types/enhanced-character.js";
+import { buildSnapshotMetrics } from "../../utils/character-snapshots.js";
+import { AppError } from "../../utils/error-handler.js";
 import logger from "../../utils/logger.js";
 import { createSlug } from "../../utils/slugify.js";
+import { syncCharacterMythicBests } from "./character-mythic-bests.js";
 import { prepareCharacterUpdatePayload } from "./character-payload.js";
+import { syncCharacterProfessions } from "./character-professions.js";
+import { recordCharacterSnapshot } from "./character-snapshots.js";
+import { syncCharacterRaidKills } from "./character-raid-kills.js";
+import { reportCharacterSyncOutcome } from "./sync-run-reporter.js";
+
+const TRANSIENT_NETWORK_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+];
+
+const isTransientStatus = (status: number | undefined): boolean =>
+  status === 429 || (status !== undefined && status >= 500);
+
+/**
+ * Whether a retry could succeed: rate limits, server errors and network
+ * failures. Anything else would fail the same way on every attempt.
+ */
+function isTransientSyncError(error: unknown): boolean {
+  if (error instanceof AppError) {
+    return isTransientStatus(error.status);
+  }
+  if (axios.isAxiosError(error)) {
+    return !error.response || isTransientStatus(error.response.status);
+  }
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && TRANSIENT_NETWORK_CODES.includes(code);
+}
+
+/**
+ * Runs an extra built on top of the synced profile (raid kills, professions,
+ * snapshots). A failure is logged and never changes the character's outcome.
+ */
+async function runSyncExtra(
+  name: string,
+  logContext: Record<string, unknown>,
+  extra: () => Promise<void>,
+): Promise<void> {
+  try {
+    await extra();
+  } catch (error: unknown) {
+    logger.error(
+      { err: error, ...logContext },
+      `[SyncService] ${name} failed; the character sync continues without it.`,
+    );
+  }
+}
 
 export async function syncCharacter(
   apiClient: BattleNetApiClientEnhanced,
@@ -13,6 +67,7 @@ export async function syncCharacter(
   guildMemberModel: GuildMemberModel,
   guildModel: any,
   character: DbCharacter,
+  syncRunId?: number | null,
 ): Promise<void> {
   const jobId =
     `char-sync-${character.region}-${character.realm}-${character.name}`;
@@ -33,6 +88,7 @@ export async function syncCharacter(
       logContext,
       `[SyncService] Skipping sync for unavailable character ${character.name}.`,
     );
+    await reportCharacterSyncOutcome(syncRunId, "unavailable");
     return;
   }
 
@@ -41,12 +97,48 @@ export async function syncCharacter(
     const characterNameLower = character.name.toLowerCase();
     const region = character.region as BattleNetRegion;
 
-    const enhancedDataResult = await apiClient.getEnhancedCharacterData(
+    const conditionalResult = await apiClient.getEnhancedCharacterDataIfModified(
       realmSlug,
       characterNameLower,
       region,
     );
 
+    if (conditionalResult.notModified && character.profile_json) {
+      await characterModel.update(character.id, {
+        last_synced_at: new Date().toISOString(),
+      });
+      // Nothing changed, but the day still gets its snapshot
+      await runSyncExtra("Snapshot", logContext, () =>
+        recordCharacterSnapshot(
+          character.id,
+          buildSnapshotMetrics(
+            { ...character.profile_json, level: character.level },
+            character.mythic_profile_json?.current_mythic_rating?.rating,
+          ),
+        )
+      );
+      logger.info(
+        logContext,
+        `[SyncService] Character ${character.name} unchanged on Battle.net (304). Skipped update.`,
+      );
+      await reportCharacterSyncOutcome(syncRunId, "unchanged");
+      return;
+    }
+
+    let enhancedDataResult: EnhancedCharacterData | null;
+    let commitValidators: (() => Promise<void>) | null = null;
+    if (conditionalResult.notModified) {
+      // Validators outlived the stored payload; fetch it again in full
+      enhancedDataResult = await apiClient.getEnhancedCharacterData(
+        realmSlug,
+        characterNameLower,
+        region,
+      );
+    } else {
+      enhancedDataResult = conditionalResult.data;
+      commitValidators = conditionalResult.commitValidators;
+    }
+
     if (enhancedDataResult === null) {
       logger.warn(
         logContext,
@@ -95,6 +187,7 @@ export async function syncCharacter(
           `[SyncService] Failed to mark character ${character.name} or memberships as unavailable after 404/null result.`,
         );
       }
+      await reportCharacterSyncOutcome(syncRunId, "unavailable");
       return;
     }
 
@@ -156,6 +249,29 @@ export async function syncCharacter(
         `[SyncService] Character ${character.name} is guildless according to BNet, skipping member record update.`,
       );
     }
+    // Only remember the validators once the fresh payload is stored
+    await commitValidators?.();
+
+    const syncedData = enhancedDataResult;
+    await runSyncExtra("Raid kill sync", logContext, () =>
+      syncCharacterRaidKills(apiClient, character)
+    );
+    await runSyncExtra("Mythic+ season sync", logContext, () =>
+      syncCharacterMythicBests(apiClient, character, syncedData.mythicKeystone)
+    );
+    await runSyncExtra("Profession sync", logContext, () =>
+      syncCharacterProfessions(character, syncedData.professions)
+    );
+    await runSyncExtra("Snapshot", logContext, () =>
+      recordCharacterSnapshot(
+        character.id,
+        buildSnapshotMetrics(
+          syncedData,
+          syncedData.mythicKeystone?.current_mythic_rating?.rating,
+        ),
+      )
+    );
+    await reportCharacterSyncOutcome(syncRunId, "succeeded");
   } catch (error: unknown) {
     logger.error(
       { err: error, ...logContext },
@@ -171,5 +287,11 @@ export async function syncCharacter(
         `[SyncService] Failed to update last_synced_at after error for character ${character.name}.`,
       );
     }
+    if (isTransientSyncError(error)) {
+      // Surface the failure so the sync queue can retry or dead-letter the job
+      throw error;
+    }
+    // Retrying would fail the same way; count it as failed and let the job complete
+    await reportCharacterSyncOutcome(syncRunId, "failed");
   }
 }
@@ -11,6 +11,11 @@ import { GuildModel } from "../../models/guild.model.js";
 import logger from "../../utils/logger.js";
 import { createSlug } from "../../utils/slugify.js";
 import axios from "axios";
+import {
+  completeSyncStep,
+  failSyncStep,
+  startSyncStep,
+} from "./sync-run-reporter.js";
 
 export async function updateCoreGuildData(
   guildModel: GuildModel,
@@ -98,6 +103,14 @@ export async function updateCoreGuildData(
   }
 }
 
+type SyncGuildResult =
+  | {
+    success: true;
+    bnetGuildData: BattleNetGuild;
+    bnetGuildRoster: BattleNetGuildRoster;
+  }
+  | { success: false; error: string };
+
 /**
  * Fetches core guild and roster data from Battle.net, updates core guild data, and returns the results.
  * No longer performs member or rank sync; those are handled by the orchestrator.
@@ -106,6 +119,7 @@ export async function updateCoreGuildData(
  * @param guildModel - Guild model for DB operations
  * @param userModel - User model for DB operations
  * @param guild - The guild to sync
+ * @param syncRunId - Optional sync run to record the 'core' step against
  * @returns An object indicating success and containing fetched data, or failure and error info
  */
 export async function syncGuild(
@@ -113,14 +127,31 @@ export async function syncGuild(
   guildModel: GuildModel,
   userModel: UserModel,
   guild: DbGuild,
-): Promise<
-  | {
-    success: true;
-    bnetGuildData: BattleNetGuild;
-    bnetGuildRoster: BattleNetGuildRoster;
+  syncRunId?: number | null,
+): Promise<SyncGuildResult> {
+  const stepId = await startSyncStep(syncRunId, "core");
+  const result = await fetchAndUpdateCoreGuild(
+    apiClient,
+    guildModel,
+    userModel,
+    guild,
+  );
+  if (result.success) {
+    await completeSyncStep(stepId, {
+      rosterSize: result.bnetGuildRoster.members.length,
+    });
+  } else {
+    await failSyncStep(stepId, result.error);
   }
-  | { success: false; error: string }
-> {
+  return result;
+}
+
+async function fetchAndUpdateCoreGuild(
+  apiClient: BattleNetApiClientEnhanced,
+  guildModel: GuildModel,
+  userModel: UserModel,
+  guild: DbGuild,
+): Promise<SyncGuildResult> {
   const guildIdentifier = `${guild.name} (${guild.realm} - ${guild.region})`;
   const logContext = {
     guildId: guild.id,
@@ -139,16 +170,34 @@ export async function syncGuild(
     const region = guild.region as BattleNetRegion;
 
     let bnetGuildData: BattleNetGuild;
+    let commitGuildValidators: (() => Promise<void>) | null = null;
     try {
       logger.debug(
         logContext,
         `[SyncService] Fetching core guild data from Battle.net for ${guildIdentifier}.`,
       );
-      bnetGuildData = await apiClient.getGuildData(
+      const guildResult = await apiClient.getGuildDataIfModified(
         realmSlug,
         guildNameSlug,
         region,
       );
+      if (!guildResult.notModified) {
+        bnetGuildData = guildResult.data;
+        commitGuildValidators = guildResult.commitValidators;
+      } else if (guild.guild_data_json) {
+        bnetGuildData = guild.guild_data_json;
+        logger.debug(
+          logContext,
+          `[SyncService] Core guild data not modified (304), reusing stored data.`,
+        );
+      } else {
+        // Validators outlived the stored payload; fetch it again in full
+        bnetGuildData = await apiClient.getGuildData(
+          realmSlug,
+          guildNameSlug,
+          region,
+        );
+      }
       logger.debug(
         logContext,
         `[SyncService] Successfully fetched core guild data.`,
@@ -173,16 +222,34 @@ export async function syncGuild(
     }
 
     let bnetGuildRoster: BattleNetGuildRoster;
+    let commitRosterValidators: (() => Promise<void>) | null = null;
     try {
       logger.debug(
         logContext,
         `[SyncService] Fetching guild roster data from Battle.net for ${guildIdentifier}.`,
       );
-      bnetGuildRoster = await apiClient.getGuildRoster(
+      const rosterResult = await apiClient.getGuildRosterIfModified(
         region,
         realmSlug,
         guildNameSlug,
       );
+      if (!rosterResult.notModified) {
+        bnetGuildRoster = rosterResult.data;
+        commitRosterValidators = rosterResult.commitValidators;
+      } else if (guild.roster_json) {
+        bnetGuildRoster = guild.roster_json;
+        logger.debug(
+          logContext,
+          `[SyncService] Guild roster not modified (304), reusing stored roster.`,
+        );
+      } else {
+        // Validators outlived the stored payload; fetch it again in full
+        bnetGuildRoster = await apiClient.getGuildRoster(
+          region,
+          realmSlug,
+          guildNameSlug,
+        );
+      }
       logger.debug(
         { ...logContext, rosterSize: bnetGuildRoster.members.length },
         `[SyncService] Successfully fetched guild roster with ${bnetGuildRoster.members.length} members.`,
@@ -216,6 +283,9 @@ export async function syncGuild(
       bnetGuildData,
       bnetGuildRoster,
     );
+    // Only remember the validators once the fresh payloads are stored
+    await commitGuildValidators?.();
+    await commitRosterValidators?.();
 
     logger.info(
       logContext,
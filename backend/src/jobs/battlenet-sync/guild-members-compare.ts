@@ -2,6 +2,7 @@ import {
   BattleNetGuildMember,
   DbCharacter,
 } from "../../../../shared/types/guild.js";
+import { GuildMemberEventType } from "../../../../shared/types/api/member-event.js";
 
 export type GuildMemberComparisonRow = {
   id: number;
@@ -10,14 +11,47 @@ export type GuildMemberComparisonRow = {
   realm: string | null;
   rank: number;
   is_available: boolean | null;
+  left_at: Date | null;
+  member_data_json: BattleNetGuildMember | null;
 };
 
+/**
+ * What the compare needs to know about a member already stored for the guild
+ */
+export type ExistingGuildMember = {
+  id: number;
+  character_id: number | null;
+  rank: number;
+  character_name?: string | null;
+  left_at?: Date | null; // Set while the member is out of the guild
+  member_data_json?: BattleNetGuildMember | null; // Roster entry of the previous sync
+};
+
+/**
+ * A roster change to record. `key` is the name-realm key of the roster member,
+ * used to find the ID of characters created during the sync; null for members
+ * who left.
+ */
+export type GuildMemberEventDraft = {
+  key: string | null;
+  characterId: number | null;
+  characterName: string;
+  realm: string | null;
+  eventType: GuildMemberEventType;
+  oldValue: string | null;
+  newValue: string | null;
+};
+
+const LEVEL_MILESTONE_STEP = 10;
+
+// Whether a level-up crossed a multiple of LEVEL_MILESTONE_STEP
+const reachedLevelMilestone = (oldLevel: number, newLevel: number): boolean =>
+  Math.floor(newLevel / LEVEL_MILESTONE_STEP) >
+    Math.floor(oldLevel / LEVEL_MILESTONE_STEP);
+
 export function compareGuildMembers(
   rosterMembersMap: Map<string, BattleNetGuildMember>,
-  existingMembersMap: Map<
-    string,
-    { id: number; character_id: number | null; rank: number }
-  >,
+  existingMembersMap: Map<string, ExistingGuildMember>,
   existingCharacterMap: Map<string, number>,
   region: string,
   // guildId: number, // Not used in this function
@@ -28,9 +62,11 @@ export function compareGuildMembers(
     rank?: number;
     characterId?: number;
     bnetMemberData?: BattleNetGuildMember;
+    rejoined?: boolean;
   }[];
   memberIdsToDeactivate: number[];
   charactersToCreate: Partial<DbCharacter>[];
+  memberEvents: GuildMemberEventDraft[];
 } {
   const membersToAdd: {
     rosterMember: BattleNetGuildMember;
@@ -41,10 +77,15 @@ export function compareGuildMembers(
     rank?: number;
     characterId?: number;
     bnetMemberData?: BattleNetGuildMember;
+    rejoined?: boolean;
   }[] = [];
   const memberIdsToDeactivate: number[] = [];
   const charactersToCreate: Partial<DbCharacter>[] = [];
+  const memberEvents: GuildMemberEventDraft[] = [];
+  const newMemberKeys: string[] = [];
   const processedExistingMemberKeys = new Set(existingMembersMap.keys());
+  // The first sync of a guild imports its roster; nobody "joined" then
+  const isInitialImport = existingMembersMap.size === 0;
 
   for (const [key, rosterMember] of rosterMembersMap.entries()) {
     const existingMember = existingMembersMap.get(key);
@@ -56,12 +97,55 @@ export function compareGuildMembers(
         rank?: number;
         characterId?: number;
         bnetMemberData?: BattleNetGuildMember;
+        rejoined?: boolean;
       } = {};
       let needsUpdate = false;
+      const eventBase = {
+        key,
+        characterId: existingMember.character_id ?? existingCharacterId ?? null,
+        characterName: rosterMember.character.name,
+        realm: rosterMember.character.realm.slug,
+      };
+
+      if (existingMember.left_at) {
+        memberUpdatePayload.rejoined = true;
+        needsUpdate = true;
+        memberEvents.push({
+          ...eventBase,
+          eventType: "rejoined",
+          oldValue: null,
+          newValue: null,
+        });
+      }
 
       if (existingMember.rank !== rosterMember.rank) {
         memberUpdatePayload.rank = rosterMember.rank;
         needsUpdate = true;
+        memberEvents.push({
+          ...eventBase,
+          eventType: "rank_changed",
+          oldValue: String(existingMember.rank),
+          newValue: String(rosterMember.rank),
+        });
+      }
+
+      const previousLevel = existingMember.member_data_json?.character?.level;
+      const currentLevel = rosterMember.character.level;
+      if (
+        typeof previousLevel === "number" &&
+        typeof currentLevel === "number" &&
+        previousLevel !== currentLevel
+      ) {
+        // Keep the stored roster entry current so the next sync compares against it
+        needsUpdate = true;
+        if (reachedLevelMilestone(previousLevel, currentLevel)) {
+          memberEvents.push({
+            ...eventBase,
+            eventType: "level_milestone",
+            oldValue: String(previousLevel),
+            newValue: String(currentLevel),
+          });
+        }
       }
 
       if (!existingMember.character_id && existingCharacterId) {
@@ -76,6 +160,7 @@ export function compareGuildMembers(
         });
       }
     } else {
+      newMemberKeys.push(key);
       if (existingCharacterId) {
         membersToAdd.push({ rosterMember, characterId: existingCharacterId });
       } else {
@@ -91,17 +176,65 @@ export function compareGuildMembers(
     }
   }
 
+  // Members who left earlier stay out; only the ones gone since the last sync leave now
+  const departedMembers = new Map<number, ExistingGuildMember>();
   for (const key of processedExistingMemberKeys) {
     const memberToDeactivate = existingMembersMap.get(key);
-    if (memberToDeactivate) {
+    if (memberToDeactivate && !memberToDeactivate.left_at) {
       memberIdsToDeactivate.push(memberToDeactivate.id);
+      departedMembers.set(memberToDeactivate.id, memberToDeactivate);
     }
   }
 
+  // A new name whose Battle.net character ID just left the roster is a rename
+  for (const key of newMemberKeys) {
+    const rosterMember = rosterMembersMap.get(key)!;
+    const previous = [...departedMembers.values()].find((member) =>
+      member.member_data_json?.character?.id === rosterMember.character.id
+    );
+    if (previous) {
+      departedMembers.delete(previous.id);
+      memberEvents.push({
+        key,
+        characterId: existingCharacterMap.get(key) ?? null,
+        characterName: rosterMember.character.name,
+        realm: rosterMember.character.realm.slug,
+        eventType: "renamed",
+        oldValue: previous.character_name ??
+          previous.member_data_json?.character?.name ?? null,
+        newValue: rosterMember.character.name,
+      });
+    } else if (!isInitialImport) {
+      memberEvents.push({
+        key,
+        characterId: existingCharacterMap.get(key) ?? null,
+        characterName: rosterMember.character.name,
+        realm: rosterMember.character.realm.slug,
+        eventType: "joined",
+        oldValue: null,
+        newValue: String(rosterMember.rank),
+      });
+    }
+  }
+
+  for (const member of departedMembers.values()) {
+    const character = member.member_data_json?.character;
+    memberEvents.push({
+      key: null,
+      characterId: member.character_id,
+      characterName: member.character_name ?? character?.name ?? "Unknown",
+      realm: character?.realm?.slug ?? null,
+      eventType: "left",
+      oldValue: String(member.rank),
+      newValue: null,
+    });
+  }
+
   return {
     membersToAdd,
     membersToUpdate,
     memberIdsToDeactivate: memberIdsToDeactivate,
     charactersToCreate,
+    memberEvents,
   };
 }
@@ -7,10 +7,17 @@ import { withTransaction } from "../../utils/transaction.js";
 import logger from "../../utils/logger.js";
 import { GuildMemberModel } from "../../models/guild_member.model.js";
 import { CharacterModel } from "../../models/character.model.js";
+import guildMemberEventModel from "../../models/guild_member_event.model.js";
 import {
   compareGuildMembers,
+  ExistingGuildMember,
   GuildMemberComparisonRow,
 } from "./guild-members-compare.js";
+import {
+  completeSyncStep,
+  failSyncStep,
+  startSyncStep,
+} from "./sync-run-reporter.js";
 
 export async function syncGuildMembersTable(
   guildMemberModel: GuildMemberModel,
@@ -18,6 +25,7 @@ export async function syncGuildMembersTable(
   guildId: number,
   bnetRoster: BattleNetGuildRoster,
   region: BattleNetRegion,
+  syncRunId?: number | null,
 ): Promise<void> {
   const rosterSize = bnetRoster.members.length;
   const logContext = { guildId, rosterSize };
@@ -25,9 +33,10 @@ export async function syncGuildMembersTable(
     logContext,
     `[SyncService] Starting guild_members table sync. Roster size: ${rosterSize}`,
   );
+  const stepId = await startSyncStep(syncRunId, "members");
 
   try {
-    await withTransaction(async (client) => {
+    const stepDetails = await withTransaction(async (client) => {
       logger.debug(
         logContext,
         "[SyncService] Beginning transaction for guild member sync.",
@@ -40,6 +49,8 @@ export async function syncGuildMembersTable(
           gm.character_name,
           gm.is_available,
           gm.rank,
+          gm.left_at,
+          gm.member_data_json,
           c.realm
         FROM
           guild_members gm
@@ -50,15 +61,7 @@ export async function syncGuildMembersTable(
         [guildId],
       );
 
-      const existingMembersMap = new Map<
-        string,
-        {
-          id: number;
-          character_id: number | null;
-          rank: number;
-          is_available: boolean | null;
-        }
-      >();
+      const existingMembersMap = new Map<string, ExistingGuildMember>();
       existingMembersResult.rows.forEach((row: GuildMemberComparisonRow) => {
         if (row.character_name && row.realm) {
           const key =
@@ -67,7 +70,9 @@ export async function syncGuildMembersTable(
             id: row.id,
             character_id: row.character_id,
             rank: row.rank,
-            is_available: row.is_available,
+            character_name: row.character_name,
+            left_at: row.left_at,
+            member_data_json: row.member_data_json,
           });
         } else {
           logger.warn(
@@ -129,6 +134,7 @@ export async function syncGuildMembersTable(
         membersToUpdate,
         memberIdsToDeactivate,
         charactersToCreate,
+        memberEvents,
       } = compareGuildMembers(
         rosterMembersMap,
         existingMembersMap,
@@ -272,9 +278,10 @@ export async function syncGuildMembersTable(
         const updatesWithAvailability = membersToUpdate.map((update) => ({
           memberId: update.memberId,
           rank: update.rank,
-          character_id: update.characterId,
-          member_data_json: update.bnetMemberData,
-          is_available: true,
+          characterId: update.characterId,
+          memberData: update.bnetMemberData,
+          isAvailable: true,
+          ...(update.rejoined ? { left_at: null } : {}),
         }));
         try {
           await guildMemberModel.bulkUpdate(updatesWithAvailability);
@@ -300,7 +307,7 @@ export async function syncGuildMembersTable(
           memberId: number,
         ) => ({
           memberId: memberId,
-          is_available: false,
+          isAvailable: false,
           left_at: new Date(), // Add the left_at timestamp
         }));
         try {
@@ -318,16 +325,46 @@ export async function syncGuildMembersTable(
         }
       }
 
+      if (memberEvents.length > 0) {
+        await guildMemberEventModel.createMany(
+          memberEvents.map((event) => ({
+            guild_id: guildId,
+            character_id: event.characterId ??
+              (event.key ? createdCharacterMap.get(event.key) : undefined) ??
+              null,
+            character_name: event.characterName,
+            realm: event.realm,
+            event_type: event.eventType,
+            old_value: event.oldValue,
+            new_value: event.newValue,
+          })),
+          client,
+        );
+        logger.info(
+          { ...logContext, count: memberEvents.length },
+          `[SyncService] Recorded ${memberEvents.length} member history events.`,
+        );
+      }
+
       logger.info(
         logContext,
         `[SyncService] Successfully finished guild_members table sync. Committing transaction.`,
       );
+
+      return {
+        added: newMembersData.length,
+        updated: membersToUpdate.length,
+        deactivated: memberIdsToDeactivate.length,
+        events: memberEvents.length,
+      };
     });
+    await completeSyncStep(stepId, stepDetails);
   } catch (error: unknown) {
     logger.error(
       { err: error, ...logContext },
       `[SyncService] Transaction failed during guild members table sync. Changes rolled back.`,
     );
+    await failSyncStep(stepId, error);
     throw new Error(
       `Error syncing guild members table for guild ${guildId}: ${
         error instanceof Error ? error.message : String(error)
@@ -2,14 +2,21 @@ import { BattleNetGuildRoster } from "../../../../shared/types/guild.js";
 import { RankModel } from "../../models/rank.model.js";
 import type { GuildRank } from "../../../../shared/types/guild.js";
 import logger from "../../utils/logger.js";
+import {
+  completeSyncStep,
+  failSyncStep,
+  startSyncStep,
+} from "./sync-run-reporter.js";
 
 export async function syncGuildRanks(
   rankModel: RankModel,
   guildId: number,
   bnetRoster: BattleNetGuildRoster,
+  syncRunId?: number | null,
 ): Promise<void> {
   const logContext = { guildId };
   logger.info(logContext, `[SyncService] Starting rank sync.`);
+  const stepId = await startSyncStep(syncRunId, "ranks");
   try {
     const rankCounts: { [key: number]: number } = {};
     const rosterRankIds = new Set<number>();
@@ -131,11 +138,16 @@ export async function syncGuildRanks(
     });
 
     logger.info(logContext, `[SyncService] Finished rank sync.`);
+    await completeSyncStep(stepId, {
+      ranks: rosterRankIds.size,
+      failedUpdates: results.filter((r) => r.status === "rejected").length,
+    });
   } catch (error: unknown) {
     logger.error(
       { err: error, ...logContext },
       `[SyncService] Critical error during rank sync setup.`,
     );
+    await failSyncStep(stepId, error);
     throw error; // Re-throw the error
   }
 }
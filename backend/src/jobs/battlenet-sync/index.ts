@@ -10,7 +10,14 @@ import { RankModel } from "../../models/rank.model.js";
 import logger from "../../utils/logger.js";
 import { BattleNetApiClientEnhanced } from "../../services/battlenet-api-client-enhanced.js";
 import { CharacterModel, parseRegionFromHref } from "../../models/character.model.js"; // Import parseRegionFromHref
-import { syncCharacter } from "./character-sync.js";
+import { enqueueCharacterSyncs } from "./character-sync-queue.js";
+import {
+  failSyncStep,
+  finishSyncRun,
+  setQueuedCharacterCount,
+  startSyncRun,
+  startSyncStep,
+} from "./sync-run-reporter.js";
 
 import pLimit from "p-limit";
 import { DateTime } from "luxon"; // Import DateTime for time comparisons
@@ -21,6 +28,7 @@ import {
   DbGuild,
 } from "../../../../shared/types/guild.js"; // Import guild types
 import { BattleNetRegion } from "../../../../shared/types/user.js";
+import { SyncRunTrigger } from "../../../../shared/types/db/models/sync.js";
 
 export interface SyncDependencies {
   apiClient: BattleNetApiClientEnhanced;
@@ -35,24 +43,45 @@ export interface SyncDependencies {
  * Orchestrates the sync process for a single guild:
  * 1. Calls syncGuild to fetch and update core guild info.
  * 2. If successful, syncs members and ranks.
- * 3. Handles and logs errors at each stage.
+ * 3. Queues outdated characters for the character sync worker.
+ * 4. Handles and logs errors at each stage.
+ * Each run and its steps are recorded in sync_runs/sync_run_steps; callers that
+ * have already opened a run (e.g. on-demand syncs) pass its ID in `options`.
+ * Otherwise a run is opened here, and the sync is skipped if the guild already has one in progress.
+ * The run stays open until the worker has reported on every queued character.
  */
 export async function orchestrateGuildSync(
   dependencies: SyncDependencies,
   guild: DbGuild,
+  options: { trigger?: SyncRunTrigger; syncRunId?: number | null } = {},
 ): Promise<void> {
+  let syncRunId = options.syncRunId;
+  if (!syncRunId) {
+    const start = await startSyncRun(guild.id, options.trigger ?? "scheduled");
+    if (!start.started) {
+      logger.info(
+        { guildId: guild.id },
+        "[BattleNetSync] Guild already has a sync in progress, skipping",
+      );
+      return;
+    }
+    syncRunId = start.syncRunId;
+  }
+
   // Step 1: Sync core guild info
   const result = await syncGuild(
     dependencies.apiClient,
     dependencies.guildModel,
     dependencies.userModel,
     guild,
+    syncRunId,
   );
   if (!result.success) {
     logger.error(
       { guildId: guild.id, error: result.error },
       "[BattleNetSync] Guild core sync failed",
     );
+    await finishSyncRun(syncRunId, result.error);
     return;
   }
 
@@ -66,22 +95,23 @@ export async function orchestrateGuildSync(
       guild.id,
       bnetGuildRoster,
       guild.region as BattleNetRegion,
+      syncRunId,
     );
     // Step 3: Sync ranks
     await syncGuildRanks(
       dependencies.rankModel,
       guild.id,
       bnetGuildRoster,
+      syncRunId,
     );
 
-    // Start Step 4: Sync individual characters
+    // Step 4: Queue individual character syncs for the background worker
     logger.info(
       { guildId: guild.id },
-      "[BattleNetSync] Starting individual character sync for guild",
+      "[BattleNetSync] Queueing individual character syncs for guild",
     );
 
-    // TODO: Syncing all characters sequentially within the main guild sync can be slow and API-intensive.
-    // This should ideally be moved to a background job queue in the future.
+    let characterStepId: number | null = null;
     try {
       const eightHoursAgo = DateTime.now().minus({ hours: 8 });
       const charactersToSync: DbCharacter[] = [];
@@ -122,63 +152,36 @@ export async function orchestrateGuildSync(
         }
       }
 
+      // The step stays open until the worker has reported on every queued character
+      characterStepId = await startSyncStep(syncRunId, "characters");
+
+      // Jobs are durable: a restart mid-guild picks up where the worker left off
+      const enqueued = await enqueueCharacterSyncs(charactersToSync, {
+        guildId: guild.id,
+        syncRunId,
+      });
+      const closesWhenDrained = characterStepId !== null &&
+        await setQueuedCharacterCount(syncRunId, enqueued);
+      if (!closesWhenDrained) {
+        await finishSyncRun(syncRunId);
+      }
+
       logger.info(
         {
           guildId: guild.id,
           count: charactersToSync.length,
+          enqueued,
           totalRoster: bnetGuildRoster.members.length,
         },
-        "[BattleNetSync] Filtered characters for individual sync",
-      );
-
-      const characterSyncLimit = pLimit(10); // Limit to 10 concurrent character syncs per guild
-
-      const characterSyncPromises = charactersToSync.map((character) =>
-        characterSyncLimit(() =>
-          // The enhanced client implements all methods of the standard client
-          syncCharacter(
-            dependencies.apiClient,
-            dependencies.characterModel,
-            dependencies.guildMemberModel,
-            dependencies.guildModel,
-            character // Pass the DbCharacter object
-          )
-        ).catch((charErr) => {
-          logger.error(
-            {
-              characterId: character.id,
-              characterName: character.name,
-              error: charErr,
-            },
-            "[BattleNetSync] Error syncing individual character",
-          );
-          return { status: "rejected", reason: charErr, character };
-        })
-      );
-
-      const results = await Promise.allSettled(characterSyncPromises);
-
-      // Process results - syncCharacter already handles its internal logic (updates, logging)
-      // We primarily log here for overall status and any unhandled errors from the catch above
-      results.forEach((result) => {
-        if (result.status === "rejected") {
-          // Error was already logged in the catch block above
-          // If we returned the character in the catch, we could log character details here too
-        } else {
-          // Fulfilled promises mean syncCharacter completed (either successfully or marked unavailable)
-          // syncCharacter logs success/unavailable status internally
-        }
-      });
-
-      logger.info(
-        { guildId: guild.id },
-        "[BattleNetSync] Completed individual character sync for guild",
+        "[BattleNetSync] Queued characters for individual sync",
       );
     } catch (charSyncErr) {
       logger.error(
         { guildId: guild.id, error: charSyncErr },
-        "[BattleNetSync] Error during individual character sync orchestration",
+        "[BattleNetSync] Error while queueing individual character syncs",
       );
+      await failSyncStep(characterStepId, charSyncErr);
+      await finishSyncRun(syncRunId, charSyncErr);
     }
 
     logger.info(
@@ -190,6 +193,7 @@ export async function orchestrateGuildSync(
       { guildId: guild.id, error: err },
       "[BattleNetSync] Error during member or rank sync",
     );
+    await finishSyncRun(syncRunId, err);
   }
 }
 
@@ -0,0 +1,19 @@
+// Shared sync dependencies: the scheduler and on-demand guild syncs must use
+// the same API client so they draw from a single Bottleneck reservoir.
+
+import characterModelInstance from "../../models/character.model.js";
+import guildModelInstance from "../../models/guild.model.js";
+import guildMemberModelInstance from "../../models/guild_member.model.js";
+import rankModelInstance from "../../models/rank.model.js";
+import userModelInstance from "../../models/user.model.js";
+import { BattleNetApiClientEnhanced } from "../../services/battlenet-api-client-enhanced.js";
+import type { SyncDependencies } from "./index.js";
+
+export const syncDependencies: SyncDependencies = {
+  apiClient: new BattleNetApiClientEnhanced(),
+  guildModel: guildModelInstance,
+  userModel: userModelInstance,
+  guildMemberModel: guildMemberModelInstance,
+  rankModel: rankModelInstance,
+  characterModel: characterModelInstance,
+};
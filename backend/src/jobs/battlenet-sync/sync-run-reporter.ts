@@ -0,0 +1,166 @@
+// Records sync progress into sync_runs/sync_run_steps.
+// Reporting is best-effort: a failure to write history is logged and never aborts the sync itself.
+
+import {
+  SyncRunTrigger,
+  SyncStepName,
+} from "../../../../shared/types/db/models/sync.js";
+import syncRunModel, {
+  CharacterSyncOutcome,
+} from "../../models/sync_run.model.js";
+import logger from "../../utils/logger.js";
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// A run still marked 'running' after this long is assumed to have been abandoned
+export const STALE_SYNC_RUN_MINUTES = 30;
+
+export type SyncRunStart =
+  | { started: true; syncRunId: number | null }
+  | { started: false };
+
+/**
+ * Opens a run for the guild unless another one is still in progress.
+ * If the run cannot be recorded the sync goes ahead without history (syncRunId null).
+ */
+export async function startSyncRun(
+  guildId: number,
+  trigger: SyncRunTrigger,
+): Promise<SyncRunStart> {
+  try {
+    const run = await syncRunModel.startRunIfIdle(
+      guildId,
+      trigger,
+      null,
+      STALE_SYNC_RUN_MINUTES,
+    );
+    return run ? { started: true, syncRunId: run.id } : { started: false };
+  } catch (error) {
+    logger.warn(
+      { err: error, guildId },
+      "[SyncRunReporter] Failed to record sync run start",
+    );
+    return { started: true, syncRunId: null };
+  }
+}
+
+/**
+ * Closes a run with its final status.
+ */
+export async function finishSyncRun(
+  syncRunId: number | null | undefined,
+  error?: unknown,
+): Promise<void> {
+  if (!syncRunId) return;
+  try {
+    await syncRunModel.finishRun(
+      syncRunId,
+      error === undefined ? "succeeded" : "failed",
+      error === undefined ? null : errorMessage(error),
+    );
+  } catch (reportError) {
+    logger.warn(
+      { err: reportError, syncRunId },
+      "[SyncRunReporter] Failed to record sync run completion",
+    );
+  }
+}
+
+/**
+ * Opens a step within a run. A missing run ID turns reporting into a no-op.
+ * @returns The step ID, or null if nothing was recorded.
+ */
+export async function startSyncStep(
+  syncRunId: number | null | undefined,
+  step: SyncStepName,
+  details?: Record<string, number>,
+): Promise<number | null> {
+  if (!syncRunId) return null;
+  try {
+    const runStep = await syncRunModel.startStep(syncRunId, step, details);
+    return runStep.id;
+  } catch (error) {
+    logger.warn(
+      { err: error, syncRunId, step },
+      "[SyncRunReporter] Failed to record sync step start",
+    );
+    return null;
+  }
+}
+
+/**
+ * Marks a step as succeeded, merging in any counters.
+ */
+export async function completeSyncStep(
+  stepId: number | null,
+  details?: Record<string, number>,
+): Promise<void> {
+  if (!stepId) return;
+  try {
+    await syncRunModel.finishStep(stepId, "succeeded", null, details);
+  } catch (error) {
+    logger.warn(
+      { err: error, stepId },
+      "[SyncRunReporter] Failed to record sync step completion",
+    );
+  }
+}
+
+/**
+ * Marks a step as failed with the given error.
+ */
+export async function failSyncStep(
+  stepId: number | null,
+  error: unknown,
+): Promise<void> {
+  if (!stepId) return;
+  try {
+    await syncRunModel.finishStep(stepId, "failed", errorMessage(error));
+  } catch (reportError) {
+    logger.warn(
+      { err: reportError, stepId },
+      "[SyncRunReporter] Failed to record sync step failure",
+    );
+  }
+}
+
+/**
+ * Records how many character jobs were queued for the run's 'characters' step.
+ * @returns Whether the count was recorded, i.e. whether the step can close itself once drained.
+ */
+export async function setQueuedCharacterCount(
+  syncRunId: number | null | undefined,
+  queued: number,
+): Promise<boolean> {
+  if (!syncRunId) return false;
+  try {
+    await syncRunModel.setQueuedCharacters(syncRunId, queued);
+    return true;
+  } catch (error) {
+    logger.warn(
+      { err: error, syncRunId, queued },
+      "[SyncRunReporter] Failed to record queued character count",
+    );
+    return false;
+  }
+}
+
+/**
+ * Counts the final outcome of one queued character against the run's 'characters' step.
+ */
+export async function reportCharacterSyncOutcome(
+  syncRunId: number | null | undefined,
+  outcome: CharacterSyncOutcome,
+): Promise<void> {
+  if (!syncRunId) return;
+  try {
+    await syncRunModel.recordCharacterOutcome(syncRunId, outcome);
+  } catch (error) {
+    logger.warn(
+      { err: error, syncRunId, outcome },
+      "[SyncRunReporter] Failed to record character sync outcome",
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import schedule from "node-schedule";
+import process from "node:process";
+import { syncEventToDiscord } from "../modules/discord/eventSync.js";
+import {
+  generateDueOccurrences,
+  getSeriesWeeksAhead,
+} from "../services/event-series.service.js";
+import logger from "../utils/logger.js";
+
+let isRunning = false;
+
+/**
+ * Generates upcoming occurrences of recurring event series and posts them to Discord.
+ */
+async function runEventSeriesGeneration(): Promise<void> {
+  try {
+    const created = await generateDueOccurrences();
+    if (created.length > 0) {
+      logger.info(
+        `[EventSeriesJob] Created ${created.length} event occurrences (${getSeriesWeeksAhead()} weeks ahead).`,
+      );
+    }
+    for (const event of created) {
+      void syncEventToDiscord(event.id);
+    }
+  } catch (error) {
+    logger.error(
+      { err: error },
+      "[EventSeriesJob] Failed to generate event series occurrences",
+    );
+  }
+}
+
+/**
+ * Schedules the event series generator. How far ahead it generates comes from
+ * EVENT_SERIES_WEEKS_AHEAD, the schedule from EVENT_SERIES_CRON_SCHEDULE.
+ */
+export function scheduleEventSeriesGenerationJob(): void {
+  const defaultSchedule = "15 * * * *"; // Every hour at :15
+  const cronSchedule = process.env.EVENT_SERIES_CRON_SCHEDULE ||
+    defaultSchedule;
+  logger.info(
+    `[Scheduler] Using event series generation schedule: "${cronSchedule}" (Default: "${defaultSchedule}")`,
+  );
+
+  schedule.scheduleJob(cronSchedule, async () => {
+    if (isRunning) {
+      logger.warn(
+        "[Scheduler] Previous event series generation is still running, skipping this run.",
+      );
+      return;
+    }
+    isRunning = true;
+    try {
+      await runEventSeriesGeneration();
+    } finally {
+      isRunning = false;
+    }
+  });
+}
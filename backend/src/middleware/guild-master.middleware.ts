@@ -1,7 +1,7 @@
 import { NextFunction, Request, Response } from "express";
 import * as guildModel from "../models/guild.model.js";
 import { AppError } from "../utils/error-handler.js";
-import { verifyGuildLeadership } from "../services/guild-leadership.service.js";
+import { isUserGuildMaster } from "../services/guild-permission.service.js";
 
 /**
  * Middleware to check if the authenticated user is a guild master
@@ -22,8 +22,8 @@ export const isGuildMaster = async (
       throw new AppError("Guild not found", 404);
     }
 
-    // Use the verification service instead of direct API calls
-    const isGM = await verifyGuildLeadership(guildId, userId);
+    // Stored leader or a character holding the guild master rank
+    const isGM = await isUserGuildMaster(guildId, userId);
 
     if (!isGM) {
       return res.status(403).json({
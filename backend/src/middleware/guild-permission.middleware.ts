@@ -0,0 +1,99 @@
+import { NextFunction, Request, Response } from "express";
+import { GuildCapability } from "../../../shared/types/enums/guild.js";
+import eventModel from "../models/event.model.js";
+import * as guildModel from "../models/guild.model.js";
+import * as RosterService from "../services/roster.service.js";
+import { hasGuildCapability } from "../services/guild-permission.service.js";
+import {
+  createForbiddenError,
+  createNotFoundError,
+} from "../utils/error-factory.js";
+
+const CAPABILITY_LABELS: Record<GuildCapability, string> = {
+  [GuildCapability.MANAGE_EVENTS]: "manage events",
+  [GuildCapability.MANAGE_ROSTERS]: "manage rosters",
+  [GuildCapability.MANAGE_RANKS]: "manage ranks",
+  [GuildCapability.MANAGE_ATTENDANCE]: "manage attendance",
+};
+
+const assertCapability = async (
+  req: Request,
+  guildId: number,
+  capability: GuildCapability,
+): Promise<void> => {
+  const userId = (req.user as { id: number }).id;
+  if (!(await hasGuildCapability(guildId, userId, capability))) {
+    throw createForbiddenError(
+      `Your guild rank is not allowed to ${CAPABILITY_LABELS[capability]}`,
+      req,
+    );
+  }
+};
+
+/**
+ * Middleware factory: the authenticated user's rank in the guild
+ * (req.params.guildId) must grant the capability
+ */
+export const requireGuildCapability =
+  (capability: GuildCapability) =>
+  async (req: Request, _res: Response, next: NextFunction) => {
+    const guildId = parseInt(req.params.guildId, 10);
+    if (!(await guildModel.findById(guildId))) {
+      throw createNotFoundError("Guild", guildId, req);
+    }
+
+    await assertCapability(req, guildId, capability);
+    next();
+  };
+
+/**
+ * Middleware factory: like requireGuildCapability, for routes that take the guild
+ * in the request body (req.body.guild_id) rather than the path
+ */
+export const requireBodyGuildCapability =
+  (capability: GuildCapability) =>
+  async (req: Request, _res: Response, next: NextFunction) => {
+    const guildId = Number(req.body?.guild_id);
+    if (!(await guildModel.findById(guildId))) {
+      throw createNotFoundError("Guild", guildId, req);
+    }
+
+    await assertCapability(req, guildId, capability);
+    next();
+  };
+
+/**
+ * Middleware factory: the authenticated user's rank in the guild an event
+ * (req.params.eventId) belongs to must grant the capability
+ */
+export const requireEventCapability =
+  (capability: GuildCapability) =>
+  async (req: Request, _res: Response, next: NextFunction) => {
+    const eventId = parseInt(req.params.eventId, 10);
+    const event = await eventModel.findById(eventId);
+    if (!event) {
+      throw createNotFoundError("Event", eventId, req);
+    }
+
+    await assertCapability(req, event.guild_id, capability);
+    next();
+  };
+
+/**
+ * Middleware factory: the authenticated user's rank in the guild a roster
+ * (req.params.rosterId) belongs to must grant the capability.
+ * Attaches `guildId` to the request for the roster controllers.
+ */
+export const requireRosterCapability =
+  (capability: GuildCapability) =>
+  async (req: Request, _res: Response, next: NextFunction) => {
+    const rosterId = parseInt(req.params.rosterId, 10);
+    const roster = await RosterService.getRosterById(rosterId);
+    if (!roster) {
+      throw createNotFoundError("Roster", rosterId, req);
+    }
+
+    await assertCapability(req, roster.guildId, capability);
+    req.guildId = roster.guildId;
+    next();
+  };
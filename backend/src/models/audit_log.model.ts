@@ -0,0 +1,111 @@
+import { DbAuditLogEntry } from "../../../shared/types/db/models/audit.js";
+import { DbPaginatedResult, DbQueryCondition } from "../../../shared/types/db.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+export type AuditLogValues = Omit<DbAuditLogEntry, "id" | "created_at">;
+
+/**
+ * Equality filters of the guild audit log viewer
+ */
+export interface AuditLogFilters {
+  action?: string;
+  actor_id?: number;
+  target_type?: string;
+}
+
+export class AuditLogModel extends BaseModel<DbAuditLogEntry> {
+  constructor() {
+    super("audit_log");
+  }
+
+  async createEntry(
+    values: AuditLogValues,
+    client?: any,
+  ): Promise<DbAuditLogEntry> {
+    const dbClient = client || db;
+    try {
+      const result = await dbClient.query(
+        `INSERT INTO ${this.tableName}
+           (guild_id, actor_id, action, target_type, target_id, target_label, before, after)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          values.guild_id,
+          values.actor_id,
+          values.action,
+          values.target_type,
+          values.target_id,
+          values.target_label,
+          values.before === null ? null : JSON.stringify(values.before),
+          values.after === null ? null : JSON.stringify(values.after),
+        ],
+      );
+      return result.rows[0];
+    } catch (error) {
+      throw new AppError(
+        `Error writing audit log entry: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * One page of a guild's audit log, newest first
+   */
+  async findPageForGuild(
+    guildId: number,
+    filters: AuditLogFilters,
+    page: number,
+    limit: number,
+  ): Promise<DbPaginatedResult<DbAuditLogEntry>> {
+    const conditions: DbQueryCondition<DbAuditLogEntry> = { guild_id: guildId };
+    for (const [field, value] of Object.entries(filters)) {
+      if (value !== undefined) {
+        conditions[field] = value;
+      }
+    }
+
+    return this.findPaginated({
+      conditions,
+      sort: [
+        { field: "created_at", direction: "DESC" },
+        { field: "id", direction: "DESC" },
+      ],
+      pagination: { page, limit },
+    });
+  }
+
+  /**
+   * Battletags of the given users, by user ID
+   */
+  async findActorBattletags(userIds: number[]): Promise<Map<number, string>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+    try {
+      const result = await db.query(
+        "SELECT id, battletag FROM users WHERE id = ANY($1::int[])",
+        [userIds],
+      );
+      return new Map(
+        result.rows.map((row: { id: number; battletag: string }) => [
+          row.id,
+          row.battletag,
+        ]),
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error finding audit log actors: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new AuditLogModel();
@@ -0,0 +1,83 @@
+import {
+  BattleNetResourceType,
+  DbBattleNetResourceValidator,
+} from "../../../shared/types/db/models/sync.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import {
+  ResourceValidators,
+  ResourceValidatorStore,
+} from "../types/battlenet-api.types.js";
+import { AppError } from "../utils/error-handler.js";
+
+export class BattleNetResourceValidatorModel
+  extends BaseModel<DbBattleNetResourceValidator>
+  implements ResourceValidatorStore {
+  constructor() {
+    super("battlenet_resource_validators");
+  }
+
+  /**
+   * Returns the stored ETag / Last-Modified values for a resource, if any.
+   */
+  async findValidators(
+    resourceType: BattleNetResourceType,
+    resourceKey: string,
+  ): Promise<ResourceValidators | null> {
+    try {
+      const result = await db.query(
+        `SELECT etag, last_modified FROM ${this.tableName}
+         WHERE resource_type = $1 AND resource_key = $2`,
+        [resourceType, resourceKey],
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return null;
+      }
+      return { etag: row.etag, lastModified: row.last_modified };
+    } catch (error) {
+      throw new AppError(
+        `Error finding resource validators: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Stores the validators of the latest persisted version of a resource.
+   * A response without any validator clears the entry so the next request is unconditional.
+   */
+  async saveValidators(
+    resourceType: BattleNetResourceType,
+    resourceKey: string,
+    validators: ResourceValidators,
+  ): Promise<void> {
+    try {
+      if (!validators.etag && !validators.lastModified) {
+        await db.query(
+          `DELETE FROM ${this.tableName} WHERE resource_type = $1 AND resource_key = $2`,
+          [resourceType, resourceKey],
+        );
+        return;
+      }
+      await db.query(
+        `INSERT INTO ${this.tableName} (resource_type, resource_key, etag, last_modified)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (resource_type, resource_key)
+         DO UPDATE SET etag = EXCLUDED.etag, last_modified = EXCLUDED.last_modified`,
+        [resourceType, resourceKey, validators.etag, validators.lastModified],
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error saving resource validators: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new BattleNetResourceValidatorModel();
@@ -0,0 +1,109 @@
+import { DbCalendarFeedToken } from "../../../shared/types/db/models/calendar.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+import { withTransaction } from "../utils/transaction.js";
+
+export class CalendarFeedTokenModel extends BaseModel<DbCalendarFeedToken> {
+  constructor() {
+    super("calendar_feed_tokens");
+  }
+
+  /**
+   * Stores a feed token for a user, revoking the user's previous token for the
+   * same guild (or the previous personal token when guildId is null).
+   */
+  async replaceForUser(
+    userId: number,
+    guildId: number | null,
+    tokenHash: string,
+  ): Promise<DbCalendarFeedToken> {
+    try {
+      return await withTransaction(async (client) => {
+        await client.query(
+          `DELETE FROM ${this.tableName}
+           WHERE user_id = $1 AND guild_id IS NOT DISTINCT FROM $2`,
+          [userId, guildId],
+        );
+        const result = await client.query(
+          `INSERT INTO ${this.tableName} (user_id, guild_id, token_hash)
+           VALUES ($1, $2, $3)
+           RETURNING *`,
+          [userId, guildId, tokenHash],
+        );
+        return result.rows[0];
+      });
+    } catch (error) {
+      throw new AppError(
+        `Error storing calendar feed token: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Looks up a token by its hash and records that it was used.
+   */
+  async findAndTouch(tokenHash: string): Promise<DbCalendarFeedToken | null> {
+    try {
+      const result = await db.query(
+        `UPDATE ${this.tableName}
+         SET last_used_at = NOW()
+         WHERE token_hash = $1
+         RETURNING *`,
+        [tokenHash],
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      throw new AppError(
+        `Error finding calendar feed token: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  async findByUserId(userId: number): Promise<DbCalendarFeedToken[]> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM ${this.tableName}
+         WHERE user_id = $1
+         ORDER BY guild_id NULLS FIRST, created_at DESC`,
+        [userId],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding calendar feed tokens for user: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Revokes one of a user's feed tokens. Returns false if the user has no such token.
+   */
+  async deleteForUser(id: number, userId: number): Promise<boolean> {
+    try {
+      const result = await db.query(
+        `DELETE FROM ${this.tableName} WHERE id = $1 AND user_id = $2`,
+        [id, userId],
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      throw new AppError(
+        `Error revoking calendar feed token: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new CalendarFeedTokenModel();
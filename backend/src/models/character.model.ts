@@ -671,6 +671,41 @@ export class CharacterModel
       );
     }
   }
+
+  /**
+   * Characters currently in the guild with their guild rank, optionally
+   * limited to the members of one roster.
+   */
+  async findCurrentGuildMembers(
+    guildId: number,
+    rosterId?: number,
+  ): Promise<(DbCharacterEnhanced & { rank: number })[]> {
+    try {
+      const params: number[] = [guildId];
+      let rosterJoin = "";
+      if (rosterId !== undefined) {
+        params.push(rosterId);
+        rosterJoin =
+          "JOIN roster_members rm ON rm.character_id = c.id AND rm.roster_id = $2";
+      }
+      const result = await db.query(
+        `SELECT c.*, gm.rank
+        FROM characters c
+        JOIN guild_members gm ON c.id = gm.character_id
+        ${rosterJoin}
+        WHERE gm.guild_id = $1 AND gm.left_at IS NULL`,
+        params,
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding current guild members: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
 }
 
 const characterModel = new CharacterModel();
@@ -707,6 +742,8 @@ export const findByNameRealm = characterModel.findByNameRealm.bind(
 export const findByIds = characterModel.findByIds.bind(characterModel);
 export const findOutdatedCharacters = characterModel.findOutdatedCharacters
   .bind(characterModel);
+export const findCurrentGuildMembers = characterModel.findCurrentGuildMembers
+  .bind(characterModel);
 export const findAllByGuildId = characterModel.findAllByGuildId.bind(
   characterModel,
 );
@@ -0,0 +1,101 @@
+import { MythicPlusDungeonBest } from "../../../shared/types/api/mythic-plus.js";
+import { DbCharacterMythicBest } from "../../../shared/types/db/models/mythic-plus.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+const BEST_COLUMNS = 6;
+
+export class CharacterMythicBestModel extends BaseModel<DbCharacterMythicBest> {
+  constructor() {
+    super("character_mythic_bests");
+  }
+
+  /**
+   * Replaces every stored season best of a character with the given ones
+   */
+  async replaceForCharacter(
+    characterId: number,
+    seasonId: number,
+    bests: MythicPlusDungeonBest[],
+    client?: any,
+  ): Promise<void> {
+    const dbClient = client || db;
+    try {
+      await dbClient.query(
+        `DELETE FROM ${this.tableName} WHERE character_id = $1`,
+        [characterId],
+      );
+      if (bests.length === 0) {
+        return;
+      }
+
+      const params: any[] = [];
+      const rows = bests.map((best) => {
+        params.push(
+          characterId,
+          seasonId,
+          best.dungeonId,
+          best.dungeonName,
+          best.keystoneLevel,
+          new Date(best.completedAt),
+        );
+        const offset = params.length - BEST_COLUMNS;
+        return `(${
+          Array.from({ length: BEST_COLUMNS }, (_, i) => `$${offset + i + 1}`)
+            .join(", ")
+        })`;
+      });
+      await dbClient.query(
+        `INSERT INTO ${this.tableName}
+           (character_id, season_id, dungeon_id, dungeon_name, keystone_level, completed_at)
+         VALUES ${rows.join(", ")}
+         ON CONFLICT (character_id, dungeon_id) DO NOTHING`,
+        params,
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error replacing Mythic+ bests for character ${characterId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Stored season bests of the given characters, limited to those still in the guild,
+   * highest key first
+   */
+  async findForGuildCharacters(
+    guildId: number,
+    characterIds: number[],
+  ): Promise<DbCharacterMythicBest[]> {
+    if (characterIds.length === 0) {
+      return [];
+    }
+    try {
+      const result = await db.query(
+        `SELECT b.*
+         FROM ${this.tableName} b
+         JOIN guild_members gm
+           ON gm.character_id = b.character_id
+          AND gm.guild_id = $1
+          AND gm.left_at IS NULL
+         WHERE b.character_id = ANY($2::int[])
+         ORDER BY b.keystone_level DESC, b.dungeon_name`,
+        [guildId, characterIds],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding Mythic+ bests for guild ${guildId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new CharacterMythicBestModel();
@@ -0,0 +1,187 @@
+import { DbCharacterProfession } from "../../../shared/types/db/models/profession.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+import { ProfessionTierRow } from "../utils/professions.js";
+
+const PROFESSION_COLUMNS = 9;
+
+/**
+ * Filters of the guild crafting directory
+ */
+export interface ProfessionDirectoryFilters {
+  search?: string;
+  profession_id?: number;
+  expansion?: string;
+}
+
+/**
+ * A directory row: a profession tier joined with its character
+ */
+export interface ProfessionDirectoryRow
+  extends Omit<DbCharacterProfession, "known_recipes" | "synced_at"> {
+  character_name: string;
+  character_class: string;
+  realm: string;
+  known_recipe_count: number;
+  matching_recipes: string[];
+}
+
+// Escapes LIKE wildcards so the search is matched literally
+const toContainsPattern = (search: string): string =>
+  `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+
+export class CharacterProfessionModel extends BaseModel<DbCharacterProfession> {
+  constructor() {
+    super("character_professions");
+  }
+
+  /**
+   * Replaces every stored profession tier of a character with the given ones
+   */
+  async replaceForCharacter(
+    characterId: number,
+    tiers: ProfessionTierRow[],
+    client?: any,
+  ): Promise<void> {
+    const dbClient = client || db;
+    try {
+      await dbClient.query(
+        `DELETE FROM ${this.tableName} WHERE character_id = $1`,
+        [characterId],
+      );
+      if (tiers.length === 0) {
+        return;
+      }
+
+      const params: any[] = [];
+      const rows = tiers.map((tier) => {
+        params.push(
+          characterId,
+          tier.profession_id,
+          tier.profession_name,
+          tier.tier_id,
+          tier.tier_name,
+          tier.expansion,
+          tier.skill_points,
+          tier.max_skill_points,
+          JSON.stringify(tier.known_recipes),
+        );
+        const offset = params.length - PROFESSION_COLUMNS;
+        return `(${
+          Array.from({ length: PROFESSION_COLUMNS }, (_, i) => `$${offset + i + 1}`)
+            .join(", ")
+        })`;
+      });
+      await dbClient.query(
+        `INSERT INTO ${this.tableName}
+           (character_id, profession_id, profession_name, tier_id, tier_name, expansion,
+            skill_points, max_skill_points, known_recipes)
+         VALUES ${rows.join(", ")}
+         ON CONFLICT (character_id, tier_id) DO NOTHING`,
+        params,
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error replacing professions for character ${characterId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Profession tiers of the guild's current members. The search matches
+   * character, profession and recipe names; matching recipes are returned
+   * instead of the full recipe lists.
+   */
+  async findGuildDirectory(
+    guildId: number,
+    filters: ProfessionDirectoryFilters,
+  ): Promise<ProfessionDirectoryRow[]> {
+    const params: any[] = [guildId];
+    const conditions: string[] = [];
+    let recipeFilter = "FALSE";
+
+    if (filters.search) {
+      params.push(toContainsPattern(filters.search));
+      const pattern = `$${params.length}`;
+      recipeFilter = `r->>'name' ILIKE ${pattern}`;
+      conditions.push(
+        `(c.name ILIKE ${pattern} OR cp.profession_name ILIKE ${pattern} OR EXISTS (
+           SELECT 1 FROM jsonb_array_elements(cp.known_recipes) r WHERE ${recipeFilter}
+         ))`,
+      );
+    }
+    if (filters.profession_id !== undefined) {
+      params.push(filters.profession_id);
+      conditions.push(`cp.profession_id = $${params.length}`);
+    }
+    if (filters.expansion) {
+      params.push(filters.expansion);
+      conditions.push(`cp.expansion = $${params.length}`);
+    }
+
+    try {
+      const result = await db.query(
+        `SELECT cp.id, cp.character_id, cp.profession_id, cp.profession_name, cp.tier_id,
+                cp.tier_name, cp.expansion, cp.skill_points, cp.max_skill_points,
+                c.name AS character_name, c.class AS character_class, c.realm,
+                jsonb_array_length(cp.known_recipes) AS known_recipe_count,
+                COALESCE(
+                  (SELECT jsonb_agg(r->>'name' ORDER BY r->>'name')
+                   FROM jsonb_array_elements(cp.known_recipes) r
+                   WHERE ${recipeFilter}),
+                  '[]'::jsonb
+                ) AS matching_recipes
+         FROM ${this.tableName} cp
+         JOIN characters c ON c.id = cp.character_id
+         JOIN guild_members gm
+           ON gm.character_id = cp.character_id
+          AND gm.guild_id = $1
+          AND gm.left_at IS NULL
+         ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY cp.profession_name, cp.skill_points DESC, c.name`,
+        params,
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding professions for guild ${guildId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Distinct professions and expansions of the guild's current members
+   */
+  async findGuildFilterOptions(
+    guildId: number,
+  ): Promise<Pick<DbCharacterProfession, "profession_id" | "profession_name" | "expansion">[]> {
+    try {
+      const result = await db.query(
+        `SELECT DISTINCT cp.profession_id, cp.profession_name, cp.expansion
+         FROM ${this.tableName} cp
+         JOIN guild_members gm
+           ON gm.character_id = cp.character_id
+          AND gm.guild_id = $1
+          AND gm.left_at IS NULL`,
+        [guildId],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding profession filters for guild ${guildId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new CharacterProfessionModel();
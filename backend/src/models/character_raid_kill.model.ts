@@ -0,0 +1,104 @@
+import { DbCharacterRaidKill } from "../../../shared/types/db/models/raid.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { BattleNetRaidKill } from "../types/battlenet-api.types.js";
+import { AppError } from "../utils/error-handler.js";
+
+const KILL_COLUMNS = 11;
+
+export class CharacterRaidKillModel extends BaseModel<DbCharacterRaidKill> {
+  constructor() {
+    super("character_raid_kills");
+  }
+
+  /**
+   * Replaces every stored kill of a character with the given ones
+   */
+  async replaceForCharacter(
+    characterId: number,
+    kills: BattleNetRaidKill[],
+    client?: any,
+  ): Promise<void> {
+    const dbClient = client || db;
+    try {
+      await dbClient.query(
+        `DELETE FROM ${this.tableName} WHERE character_id = $1`,
+        [characterId],
+      );
+      if (kills.length === 0) {
+        return;
+      }
+
+      const params: any[] = [];
+      const rows = kills.map((kill) => {
+        params.push(
+          characterId,
+          kill.expansion_id,
+          kill.expansion_name,
+          kill.instance_id,
+          kill.instance_name,
+          kill.difficulty,
+          kill.encounter_id,
+          kill.encounter_name,
+          kill.instance_encounter_count,
+          kill.completed_count,
+          kill.last_kill_timestamp ? new Date(kill.last_kill_timestamp) : null,
+        );
+        const offset = params.length - KILL_COLUMNS;
+        return `(${
+          Array.from({ length: KILL_COLUMNS }, (_, i) => `$${offset + i + 1}`)
+            .join(", ")
+        })`;
+      });
+      await dbClient.query(
+        `INSERT INTO ${this.tableName}
+           (character_id, expansion_id, expansion_name, instance_id, instance_name, difficulty,
+            encounter_id, encounter_name, instance_encounter_count, completed_count, last_kill_at)
+         VALUES ${rows.join(", ")}
+         ON CONFLICT (character_id, instance_id, difficulty, encounter_id) DO NOTHING`,
+        params,
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error replacing raid kills for character ${characterId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Stored kills of the given characters, limited to those still in the guild
+   */
+  async findForGuildCharacters(
+    guildId: number,
+    characterIds: number[],
+  ): Promise<DbCharacterRaidKill[]> {
+    if (characterIds.length === 0) {
+      return [];
+    }
+    try {
+      const result = await db.query(
+        `SELECT k.*
+         FROM ${this.tableName} k
+         JOIN guild_members gm
+           ON gm.character_id = k.character_id
+          AND gm.guild_id = $1
+          AND gm.left_at IS NULL
+         WHERE k.character_id = ANY($2::int[])`,
+        [guildId, characterIds],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding raid kills for guild ${guildId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new CharacterRaidKillModel();
@@ -0,0 +1,116 @@
+import { DbCharacterSnapshot } from "../../../shared/types/db/models/snapshot.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { SnapshotMetrics } from "../utils/character-snapshots.js";
+import { AppError } from "../utils/error-handler.js";
+
+export class CharacterSnapshotModel extends BaseModel<DbCharacterSnapshot> {
+  constructor() {
+    super("character_snapshots");
+  }
+
+  /**
+   * Writes the snapshot of a character for a day, replacing an earlier one that day
+   */
+  async upsertForDate(
+    characterId: number,
+    snapshotDate: string,
+    metrics: SnapshotMetrics,
+    client?: any,
+  ): Promise<void> {
+    const dbClient = client || db;
+    try {
+      await dbClient.query(
+        `INSERT INTO ${this.tableName}
+           (character_id, snapshot_date, level, equipped_item_level, average_item_level,
+            mythic_rating, achievement_points)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (character_id, snapshot_date) DO UPDATE SET
+           level = EXCLUDED.level,
+           equipped_item_level = EXCLUDED.equipped_item_level,
+           average_item_level = EXCLUDED.average_item_level,
+           mythic_rating = EXCLUDED.mythic_rating,
+           achievement_points = EXCLUDED.achievement_points,
+           recorded_at = NOW()`,
+        [
+          characterId,
+          snapshotDate,
+          metrics.level,
+          metrics.equipped_item_level,
+          metrics.average_item_level,
+          metrics.mythic_rating,
+          metrics.achievement_points,
+        ],
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error writing snapshot for character ${characterId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Snapshots of a character from the given date on, oldest first
+   */
+  async findForCharacterSince(
+    characterId: number,
+    sinceDate: string,
+  ): Promise<DbCharacterSnapshot[]> {
+    try {
+      const result = await db.query(
+        `SELECT id, character_id, to_char(snapshot_date, 'YYYY-MM-DD') AS snapshot_date,
+                level, equipped_item_level, average_item_level, mythic_rating,
+                achievement_points, recorded_at
+         FROM ${this.tableName}
+         WHERE character_id = $1 AND snapshot_date >= $2
+         ORDER BY snapshot_date`,
+        [characterId, sinceDate],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding snapshots for character ${characterId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Drops snapshots before `expireBefore` and keeps only the last snapshot of
+   * each week before `weeklyBefore`. Returns how many rows were deleted.
+   */
+  async prune(expireBefore: string, weeklyBefore: string): Promise<number> {
+    try {
+      const expired = await db.query(
+        `DELETE FROM ${this.tableName} WHERE snapshot_date < $1`,
+        [expireBefore],
+      );
+      const thinned = await db.query(
+        `DELETE FROM ${this.tableName} s
+         WHERE s.snapshot_date < $1
+           AND EXISTS (
+             SELECT 1 FROM ${this.tableName} later
+             WHERE later.character_id = s.character_id
+               AND date_trunc('week', later.snapshot_date) = date_trunc('week', s.snapshot_date)
+               AND later.snapshot_date > s.snapshot_date
+           )`,
+        [weeklyBefore],
+      );
+      return (expired.rowCount ?? 0) + (thinned.rowCount ?? 0);
+    } catch (error) {
+      throw new AppError(
+        `Error pruning character snapshots: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new CharacterSnapshotModel();
@@ -0,0 +1,107 @@
+import { DbDiscordLinkToken } from "../../../shared/types/db/models/user.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+import { withTransaction } from "../utils/transaction.js";
+
+export class DiscordLinkTokenModel extends BaseModel<DbDiscordLinkToken> {
+  constructor() {
+    super("discord_link_tokens");
+  }
+
+  /**
+   * Stores a new link token for a Discord account, replacing any token
+   * still pending for that account so only the latest link works.
+   */
+  async replaceForDiscordAccount(
+    tokenHash: string,
+    discordId: string,
+    discordUsername: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    try {
+      await withTransaction(async (client) => {
+        await client.query(
+          `DELETE FROM ${this.tableName} WHERE discord_id = $1`,
+          [discordId],
+        );
+        await client.query(
+          `INSERT INTO ${this.tableName} (token_hash, discord_id, discord_username, expires_at)
+           VALUES ($1, $2, $3, $4)`,
+          [tokenHash, discordId, discordUsername, expiresAt.toISOString()],
+        );
+      });
+    } catch (error) {
+      throw new AppError(
+        `Error storing Discord link token: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Returns an unexpired token without redeeming it.
+   */
+  async findActive(tokenHash: string): Promise<DbDiscordLinkToken | null> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM ${this.tableName} WHERE token_hash = $1 AND expires_at > NOW()`,
+        [tokenHash],
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      throw new AppError(
+        `Error finding Discord link token: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Deletes and returns an unexpired token in a single statement, so concurrent
+   * requests (on any replica) can never redeem the same token twice.
+   */
+  async consume(tokenHash: string): Promise<DbDiscordLinkToken | null> {
+    try {
+      const result = await db.query(
+        `DELETE FROM ${this.tableName}
+         WHERE token_hash = $1 AND expires_at > NOW()
+         RETURNING *`,
+        [tokenHash],
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      throw new AppError(
+        `Error consuming Discord link token: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Removes expired tokens. Returns the number of rows deleted.
+   */
+  async deleteExpired(): Promise<number> {
+    try {
+      const result = await db.query(
+        `DELETE FROM ${this.tableName} WHERE expires_at <= NOW()`,
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      throw new AppError(
+        `Error deleting expired Discord link tokens: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new DiscordLinkTokenModel();
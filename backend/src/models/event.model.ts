@@ -1,6 +1,7 @@
 import { Event } from "../../../shared/types/index.js";
 import BaseModel from "../db/BaseModel.js";
 import db from "../db/db.js";
+import { TrackedClient } from "../db/db-types.js";
 import { AppError } from "../utils/error-handler.js";
 
 class EventModel extends BaseModel<Event> {
@@ -63,6 +64,119 @@ class EventModel extends BaseModel<Event> {
     }
   }
 
+  /**
+   * Find an event and lock its row until the transaction ends
+   */
+  async findByIdForUpdate(id: number, client: TrackedClient): Promise<Event | null> {
+    try {
+      const result = await client.query(
+        `SELECT * FROM ${this.tableName} WHERE id = $1 FOR UPDATE`,
+        [id],
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      throw new AppError(
+        `Error locking event: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Insert generated occurrences of a series. Occurrences that already exist
+   * are skipped, so generation can safely be retried.
+   */
+  async insertSeriesOccurrences(
+    occurrences: Partial<Event>[],
+    client?: any,
+  ): Promise<Event[]> {
+    const dbClient = client || db;
+    const inserted: Event[] = [];
+    try {
+      for (const occurrence of occurrences) {
+        const keys = Object.keys(occurrence) as (keyof Event)[];
+        const result = await dbClient.query(
+          `INSERT INTO ${this.tableName} (${keys.join(", ")})
+           VALUES (${keys.map((_, index) => `$${index + 1}`).join(", ")})
+           ON CONFLICT (series_id, series_occurrence_start) DO NOTHING
+           RETURNING *`,
+          keys.map((key) => occurrence[key]) as any[],
+        );
+        if (result.rows[0]) {
+          inserted.push(result.rows[0]);
+        }
+      }
+      return inserted;
+    } catch (error) {
+      throw new AppError(
+        `Error inserting series occurrences: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Occurrences of a series scheduled (by the series rule) at or after a time
+   */
+  async findSeriesOccurrencesFrom(
+    seriesId: number,
+    from: Date,
+    client?: any,
+  ): Promise<Event[]> {
+    const dbClient = client || db;
+    try {
+      const result = await dbClient.query(
+        `SELECT * FROM ${this.tableName}
+         WHERE series_id = $1 AND series_occurrence_start >= $2
+         ORDER BY series_occurrence_start ASC`,
+        [seriesId, from.toISOString()],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding series occurrences: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Update an event inside a transaction
+   */
+  async updateWithClient(
+    id: number,
+    values: Partial<Event>,
+    client: TrackedClient,
+  ): Promise<Event> {
+    try {
+      const keys = Object.keys(values) as (keyof Event)[];
+      const result = await client.query(
+        `UPDATE ${this.tableName}
+         SET ${keys.map((key, index) => `${key} = $${index + 2}`).join(", ")}
+         WHERE id = $1
+         RETURNING *`,
+        [
+          id,
+          ...keys.map((key) => values[key]),
+        ] as any[],
+      );
+      return result.rows[0];
+    } catch (error) {
+      throw new AppError(
+        `Error updating event: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
   /**
    * Delete an event with all its subscriptions
    */
@@ -74,13 +188,31 @@ class EventModel extends BaseModel<Event> {
       try {
         await client.query("BEGIN");
 
-        // First delete all subscriptions for this event
+        // Keep a cancellation record so calendar feeds can tell subscribers
+        await client.query(
+          `INSERT INTO event_cancellations
+             (event_id, guild_id, title, description, start_time, end_time,
+              ical_sequence, subscriber_user_ids, event_created_at)
+           SELECT e.id, e.guild_id, e.title, e.description, e.start_time, e.end_time,
+                  e.ical_sequence + 1,
+                  COALESCE(
+                    (SELECT array_agg(es.user_id) FROM event_subscriptions es
+                     WHERE es.event_id = e.id AND es.status <> 'Declined'),
+                    '{}'
+                  ),
+                  e.created_at
+           FROM ${this.tableName} e
+           WHERE e.id = $1`,
+          [id],
+        );
+
+        // Then delete all subscriptions for this event
         await client.query(
           "DELETE FROM event_subscriptions WHERE event_id = $1",
           [id],
         );
 
-        // Then delete the event itself
+        // Finally delete the event itself
         const result = await client.query(
           `DELETE FROM ${this.tableName} WHERE id = $1 RETURNING *`,
           [id],
@@ -0,0 +1,128 @@
+import { DbEventAttendance } from "../../../shared/types/db/models/event.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+/**
+ * A character on an event's attendance sheet
+ */
+export interface AttendanceSheetRow {
+  character_id: number;
+  character_name: string;
+  character_class: string;
+  character_role: string | null;
+  user_id: number | null;
+  status: string | null;
+  note: string | null;
+  on_absence: boolean;
+}
+
+export interface AttendanceValues {
+  character_id: number;
+  status: string;
+  note: string | null;
+}
+
+export class EventAttendanceModel extends BaseModel<DbEventAttendance> {
+  constructor() {
+    super("event_attendance");
+  }
+
+  /**
+   * Confirmed sign-ups of an event plus every character already recorded,
+   * with their attendance record if any and whether the player is away that day
+   */
+  async findSheetByEventId(eventId: number): Promise<AttendanceSheetRow[]> {
+    try {
+      const result = await db.query(
+        `SELECT c.id as character_id, c.name as character_name, c.class as character_class,
+                c.role as character_role, c.user_id, ea.status, ea.note,
+                EXISTS (
+                  SELECT 1 FROM member_absences ma
+                  JOIN events e ON e.id = $1
+                  WHERE ma.user_id = c.user_id
+                    AND e.start_time >= ma.start_date
+                    AND e.start_time < ma.end_date + 1
+                ) as on_absence
+         FROM characters c
+         LEFT JOIN ${this.tableName} ea ON ea.character_id = c.id AND ea.event_id = $1
+         WHERE ea.id IS NOT NULL
+            OR c.id IN (
+              SELECT character_id FROM event_subscriptions
+              WHERE event_id = $1 AND status = 'Confirmed'
+            )
+         ORDER BY c.name ASC`,
+        [eventId],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding attendance sheet: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Insert or replace attendance records of an event
+   */
+  async upsertRecords(
+    eventId: number,
+    records: AttendanceValues[],
+    recordedBy: number,
+    client?: any,
+  ): Promise<void> {
+    const dbClient = client || db;
+    try {
+      for (const record of records) {
+        await dbClient.query(
+          `INSERT INTO ${this.tableName} (event_id, character_id, status, note, recorded_by)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (event_id, character_id) DO UPDATE
+           SET status = EXCLUDED.status,
+               note = EXCLUDED.note,
+               recorded_by = EXCLUDED.recorded_by`,
+          [eventId, record.character_id, record.status, record.note, recordedBy],
+        );
+      }
+    } catch (error) {
+      throw new AppError(
+        `Error recording attendance: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Attendance records of a guild's events that started in a time range
+   */
+  async findByGuildIdBetween(
+    guildId: number,
+    from: Date,
+    to: Date,
+  ): Promise<Pick<DbEventAttendance, "event_id" | "character_id" | "status">[]> {
+    try {
+      const result = await db.query(
+        `SELECT ea.event_id, ea.character_id, ea.status
+         FROM ${this.tableName} ea
+         JOIN events e ON e.id = ea.event_id
+         WHERE e.guild_id = $1 AND e.start_time >= $2 AND e.start_time <= $3`,
+        [guildId, from.toISOString(), to.toISOString()],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding guild attendance: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new EventAttendanceModel();
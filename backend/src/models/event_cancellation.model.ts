@@ -0,0 +1,62 @@
+import { DbEventCancellation } from "../../../shared/types/db/models/calendar.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+export class EventCancellationModel extends BaseModel<DbEventCancellation> {
+  constructor() {
+    super("event_cancellations");
+  }
+
+  /**
+   * Events of a guild deleted since a given time
+   */
+  async findByGuildIdSince(
+    guildId: number,
+    since: Date,
+  ): Promise<DbEventCancellation[]> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM ${this.tableName}
+         WHERE guild_id = $1 AND cancelled_at >= $2
+         ORDER BY start_time ASC`,
+        [guildId, since.toISOString()],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding cancelled events by guild ID: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Deleted events a user was signed up for, since a given time
+   */
+  async findBySubscriberSince(
+    userId: number,
+    since: Date,
+  ): Promise<DbEventCancellation[]> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM ${this.tableName}
+         WHERE $1 = ANY(subscriber_user_ids) AND cancelled_at >= $2
+         ORDER BY start_time ASC`,
+        [userId, since.toISOString()],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding cancelled events by subscriber: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new EventCancellationModel();
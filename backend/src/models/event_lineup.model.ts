@@ -0,0 +1,172 @@
+import {
+  DbEventLineup,
+  DbEventLineupEntry,
+} from "../../../shared/types/db/models/event.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+/**
+ * A sign-up of an event with its lineup pick, if any
+ */
+export interface LineupMemberRow {
+  subscription_id: number;
+  user_id: number;
+  battletag: string;
+  discord_id: string | null;
+  character_id: number;
+  character_name: string;
+  character_class: string;
+  character_role: string | null;
+  status: string;
+  waitlisted_at: string | null;
+  selection: string | null;
+  group_number: number | null;
+  published_selection: string | null;
+  published_group_number: number | null;
+}
+
+export interface LineupEntryValues {
+  subscription_id: number;
+  selection: string | null;
+  group_number: number | null;
+}
+
+export class EventLineupModel extends BaseModel<DbEventLineupEntry> {
+  constructor() {
+    super("event_lineup_entries");
+  }
+
+  /**
+   * Every sign-up of an event with its draft and published pick
+   */
+  async findMembersByEventId(eventId: number): Promise<LineupMemberRow[]> {
+    try {
+      const result = await db.query(
+        `SELECT es.id as subscription_id, es.user_id, u.battletag, u.discord_id,
+                es.character_id, c.name as character_name, c.class as character_class,
+                c.role as character_role, es.status, es.waitlisted_at,
+                le.selection, le.group_number, le.published_selection, le.published_group_number
+         FROM event_subscriptions es
+         JOIN users u ON es.user_id = u.id
+         JOIN characters c ON es.character_id = c.id
+         LEFT JOIN ${this.tableName} le ON le.subscription_id = es.id
+         WHERE es.event_id = $1
+         ORDER BY es.id ASC`,
+        [eventId],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding lineup members: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Publication state of an event's lineup
+   */
+  async findLineupByEventId(eventId: number): Promise<DbEventLineup | null> {
+    try {
+      const result = await db.query(
+        "SELECT * FROM event_lineups WHERE event_id = $1",
+        [eventId],
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      throw new AppError(
+        `Error finding event lineup: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Insert or replace the draft picks of some sign-ups; published picks are kept
+   */
+  async upsertEntries(
+    eventId: number,
+    entries: LineupEntryValues[],
+    updatedBy: number,
+    client?: any,
+  ): Promise<void> {
+    const dbClient = client || db;
+    try {
+      for (const entry of entries) {
+        await dbClient.query(
+          `INSERT INTO ${this.tableName}
+             (event_id, subscription_id, selection, group_number, updated_by)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (subscription_id) DO UPDATE
+           SET selection = EXCLUDED.selection,
+               group_number = EXCLUDED.group_number,
+               updated_by = EXCLUDED.updated_by`,
+          [
+            eventId,
+            entry.subscription_id,
+            entry.selection,
+            entry.group_number,
+            updatedBy,
+          ],
+        );
+      }
+    } catch (error) {
+      throw new AppError(
+        `Error saving lineup entries: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Makes the draft picks the published lineup and records who published it
+   */
+  async publish(
+    eventId: number,
+    publishedBy: number,
+    client?: any,
+  ): Promise<DbEventLineup> {
+    const dbClient = client || db;
+    try {
+      await dbClient.query(
+        `UPDATE ${this.tableName}
+         SET published_selection = selection,
+             published_group_number = group_number
+         WHERE event_id = $1`,
+        [eventId],
+      );
+      // Sign-ups that were unpicked in the draft no longer need a row
+      await dbClient.query(
+        `DELETE FROM ${this.tableName}
+         WHERE event_id = $1 AND selection IS NULL`,
+        [eventId],
+      );
+      const result = await dbClient.query(
+        `INSERT INTO event_lineups (event_id, published_at, published_by)
+         VALUES ($1, NOW(), $2)
+         ON CONFLICT (event_id) DO UPDATE
+         SET published_at = EXCLUDED.published_at,
+             published_by = EXCLUDED.published_by
+         RETURNING *`,
+        [eventId, publishedBy],
+      );
+      return result.rows[0];
+    } catch (error) {
+      throw new AppError(
+        `Error publishing event lineup: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new EventLineupModel();
@@ -0,0 +1,176 @@
+import { DbEventSeries } from "../../../shared/types/db/models/event.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+export type EventSeriesValues = Omit<
+  DbEventSeries,
+  "id" | "created_at" | "updated_at"
+>;
+
+// pg parses DATE columns into local-midnight Date objects; the recurrence code works on YYYY-MM-DD
+const toDateString = (value: string | Date | null): string | null => {
+  if (!(value instanceof Date)) {
+    return value;
+  }
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${
+    pad(value.getDate())
+  }`;
+};
+
+const normalizeRow = (row: DbEventSeries): DbEventSeries => ({
+  ...row,
+  start_date: toDateString(row.start_date) as string,
+  until_date: toDateString(row.until_date),
+});
+
+export class EventSeriesModel extends BaseModel<DbEventSeries> {
+  constructor() {
+    super("event_series");
+  }
+
+  async findById(id: number): Promise<DbEventSeries | null> {
+    const row = await super.findById(id);
+    return row ? normalizeRow(row) : null;
+  }
+
+  /**
+   * Inserts a series, optionally inside a transaction.
+   */
+  async createSeries(
+    values: EventSeriesValues,
+    client?: any,
+  ): Promise<DbEventSeries> {
+    const dbClient = client || db;
+    try {
+      const keys = Object.keys(values) as (keyof EventSeriesValues)[];
+      const result = await dbClient.query(
+        `INSERT INTO ${this.tableName} (${keys.join(", ")})
+         VALUES (${keys.map((_, index) => `$${index + 1}`).join(", ")})
+         RETURNING *`,
+        keys.map((key) => values[key]) as any[],
+      );
+      return normalizeRow(result.rows[0]);
+    } catch (error) {
+      throw new AppError(
+        `Error creating event series: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Updates a series, optionally inside a transaction.
+   */
+  async updateSeries(
+    id: number,
+    values: Partial<EventSeriesValues>,
+    client?: any,
+  ): Promise<DbEventSeries> {
+    const dbClient = client || db;
+    try {
+      const keys = Object.keys(values) as (keyof EventSeriesValues)[];
+      if (keys.length === 0) {
+        const current = await dbClient.query(
+          `SELECT * FROM ${this.tableName} WHERE id = $1`,
+          [id],
+        );
+        return normalizeRow(current.rows[0]);
+      }
+      const result = await dbClient.query(
+        `UPDATE ${this.tableName}
+         SET ${keys.map((key, index) => `${key} = $${index + 2}`).join(", ")}
+         WHERE id = $1
+         RETURNING *`,
+        [
+          id,
+          ...keys.map((key) => values[key]),
+        ] as any[],
+      );
+      return normalizeRow(result.rows[0]);
+    } catch (error) {
+      throw new AppError(
+        `Error updating event series: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Copies a template's values into every series that follows it, so occurrences
+   * generated from now on use them. Returns the number of series updated.
+   */
+  async applyTemplate(
+    templateId: number,
+    values: Pick<
+      EventSeriesValues,
+      | "title"
+      | "description"
+      | "event_type"
+      | "max_participants"
+      | "event_details"
+      | "reminder_offsets_minutes"
+      | "duration_minutes"
+    >,
+    client?: any,
+  ): Promise<number> {
+    const dbClient = client || db;
+    try {
+      const result = await dbClient.query(
+        `UPDATE ${this.tableName}
+         SET title = $2, description = $3, event_type = $4, max_participants = $5,
+             event_details = $6, reminder_offsets_minutes = $7, duration_minutes = $8
+         WHERE template_id = $1`,
+        [
+          templateId,
+          values.title,
+          values.description,
+          values.event_type,
+          values.max_participants,
+          values.event_details,
+          values.reminder_offsets_minutes,
+          values.duration_minutes,
+        ],
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      throw new AppError(
+        `Error applying event template to series: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Series whose occurrences have not been generated up to the horizon yet.
+   * Series that ended before today are skipped.
+   */
+  async findDueForGeneration(horizon: Date): Promise<DbEventSeries[]> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM ${this.tableName}
+         WHERE (generated_until IS NULL OR generated_until < $1)
+           AND (until_date IS NULL OR until_date >= CURRENT_DATE)
+         ORDER BY id ASC`,
+        [horizon.toISOString()],
+      );
+      return result.rows.map(normalizeRow);
+    } catch (error) {
+      throw new AppError(
+        `Error finding event series due for generation: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new EventSeriesModel();
@@ -0,0 +1,154 @@
+import { DbEventTemplate } from "../../../shared/types/db/models/event.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+export type EventTemplateValues = Omit<
+  DbEventTemplate,
+  "id" | "guild_id" | "created_by" | "created_at" | "updated_at"
+>;
+
+const TEMPLATE_COLUMNS: (keyof EventTemplateValues)[] = [
+  "name",
+  "title",
+  "description",
+  "event_type",
+  "duration_minutes",
+  "max_participants",
+  "event_details",
+  "reminder_offsets_minutes",
+  "is_default",
+];
+
+export class EventTemplateModel extends BaseModel<DbEventTemplate> {
+  constructor() {
+    super("event_templates");
+  }
+
+  /**
+   * Templates of a guild, defaults first, then by name
+   */
+  async findByGuildId(guildId: number): Promise<DbEventTemplate[]> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM ${this.tableName}
+         WHERE guild_id = $1
+         ORDER BY is_default DESC, name ASC`,
+        [guildId],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding event templates: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * A template of a guild, or null if it belongs to another guild
+   */
+  async findByIdInGuild(
+    id: number,
+    guildId: number,
+  ): Promise<DbEventTemplate | null> {
+    try {
+      return await this.findOne({ id, guild_id: guildId });
+    } catch (error) {
+      throw new AppError(
+        `Error finding event template: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Inserts a template, optionally inside a transaction.
+   */
+  async createTemplate(
+    guildId: number,
+    values: EventTemplateValues,
+    createdBy: number,
+    client?: any,
+  ): Promise<DbEventTemplate> {
+    const dbClient = client || db;
+    try {
+      const result = await dbClient.query(
+        `INSERT INTO ${this.tableName} (guild_id, created_by, ${TEMPLATE_COLUMNS.join(", ")})
+         VALUES ($1, $2, ${TEMPLATE_COLUMNS.map((_, index) => `$${index + 3}`).join(", ")})
+         RETURNING *`,
+        [guildId, createdBy, ...TEMPLATE_COLUMNS.map((key) => values[key])],
+      );
+      return result.rows[0];
+    } catch (error) {
+      throw new AppError(
+        `Error creating event template: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Replaces the values of a template, optionally inside a transaction.
+   */
+  async updateTemplate(
+    id: number,
+    values: EventTemplateValues,
+    client?: any,
+  ): Promise<DbEventTemplate> {
+    const dbClient = client || db;
+    try {
+      const result = await dbClient.query(
+        `UPDATE ${this.tableName}
+         SET ${TEMPLATE_COLUMNS.map((key, index) => `${key} = $${index + 2}`).join(", ")}
+         WHERE id = $1
+         RETURNING *`,
+        [id, ...TEMPLATE_COLUMNS.map((key) => values[key])],
+      );
+      return result.rows[0];
+    } catch (error) {
+      throw new AppError(
+        `Error updating event template: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Unmarks the default template of an event type, except the given template
+   */
+  async clearDefault(
+    guildId: number,
+    eventType: DbEventTemplate["event_type"],
+    exceptId: number | null,
+    client?: any,
+  ): Promise<void> {
+    const dbClient = client || db;
+    try {
+      await dbClient.query(
+        `UPDATE ${this.tableName}
+         SET is_default = false
+         WHERE guild_id = $1 AND event_type = $2 AND is_default
+           AND ($3::int IS NULL OR id <> $3)`,
+        [guildId, eventType, exceptId],
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error clearing default event template: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new EventTemplateModel();
@@ -0,0 +1,140 @@
+import {
+  DbGuildDiscordSettings,
+  ThreadAutoArchiveMinutes,
+} from "../../../shared/types/db/models/discord.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+export interface GuildDiscordSettingsValues {
+  discord_guild_id: string | null;
+  event_channel_id: string | null;
+  reminder_lead_times_minutes: number[];
+  thread_auto_archive_minutes: ThreadAutoArchiveMinutes;
+}
+
+export class GuildDiscordSettingsModel
+  extends BaseModel<DbGuildDiscordSettings> {
+  constructor() {
+    super("guild_discord_settings");
+  }
+
+  async findByGuildId(guildId: number): Promise<DbGuildDiscordSettings | null> {
+    try {
+      return await this.findOne({ guild_id: guildId });
+    } catch (error) {
+      throw new AppError(
+        `Error finding Discord settings for guild: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Whether a guild other than `guildId` has already linked this Discord server.
+   */
+  async isDiscordGuildClaimedByOther(
+    discordGuildId: string,
+    guildId: number,
+  ): Promise<boolean> {
+    try {
+      const result = await db.query(
+        `SELECT 1 FROM ${this.tableName}
+         WHERE discord_guild_id = $1 AND guild_id <> $2
+         LIMIT 1`,
+        [discordGuildId, guildId],
+      );
+      return result.rows.length > 0;
+    } catch (error) {
+      throw new AppError(
+        `Error checking Discord server ownership: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Creates or replaces the Discord settings of a guild.
+   */
+  async upsertForGuild(
+    guildId: number,
+    values: GuildDiscordSettingsValues,
+  ): Promise<DbGuildDiscordSettings> {
+    try {
+      const result = await db.query(
+        `INSERT INTO ${this.tableName}
+           (guild_id, discord_guild_id, event_channel_id, reminder_lead_times_minutes, thread_auto_archive_minutes)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (guild_id) DO UPDATE SET
+           discord_guild_id = EXCLUDED.discord_guild_id,
+           event_channel_id = EXCLUDED.event_channel_id,
+           reminder_lead_times_minutes = EXCLUDED.reminder_lead_times_minutes,
+           thread_auto_archive_minutes = EXCLUDED.thread_auto_archive_minutes
+         RETURNING *`,
+        [
+          guildId,
+          values.discord_guild_id,
+          values.event_channel_id,
+          values.reminder_lead_times_minutes,
+          values.thread_auto_archive_minutes,
+        ],
+      );
+      return result.rows[0];
+    } catch (error) {
+      throw new AppError(
+        `Error saving Discord settings for guild: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Removes the Discord settings of a guild. Returns false if there were none.
+   */
+  async deleteByGuildId(guildId: number): Promise<boolean> {
+    try {
+      const result = await db.query(
+        `DELETE FROM ${this.tableName} WHERE guild_id = $1`,
+        [guildId],
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      throw new AppError(
+        `Error deleting Discord settings for guild: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Discord server IDs configured by any guild, used to register slash commands.
+   */
+  async findConfiguredDiscordGuildIds(): Promise<string[]> {
+    try {
+      const result = await db.query(
+        `SELECT DISTINCT discord_guild_id FROM ${this.tableName}
+         WHERE discord_guild_id IS NOT NULL`,
+      );
+      return result.rows.map((row: { discord_guild_id: string }) =>
+        row.discord_guild_id
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error finding configured Discord servers: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new GuildDiscordSettingsModel();
@@ -0,0 +1,77 @@
+import { DbGuildMemberEvent } from "../../../shared/types/db/models/member-event.js";
+import { DbPaginatedResult, DbQueryCondition } from "../../../shared/types/db.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+export type GuildMemberEventValues = Omit<
+  DbGuildMemberEvent,
+  "id" | "occurred_at"
+>;
+
+export class GuildMemberEventModel extends BaseModel<DbGuildMemberEvent> {
+  constructor() {
+    super("guild_member_events");
+  }
+
+  async createMany(
+    values: GuildMemberEventValues[],
+    client?: any,
+  ): Promise<void> {
+    if (values.length === 0) {
+      return;
+    }
+    const dbClient = client || db;
+    try {
+      const params: any[] = [];
+      const rows = values.map((event) => {
+        params.push(
+          event.guild_id,
+          event.character_id,
+          event.character_name,
+          event.realm,
+          event.event_type,
+          event.old_value,
+          event.new_value,
+        );
+        const offset = params.length - 7;
+        return `(${
+          Array.from({ length: 7 }, (_, i) => `$${offset + i + 1}`).join(", ")
+        })`;
+      });
+      await dbClient.query(
+        `INSERT INTO ${this.tableName}
+           (guild_id, character_id, character_name, realm, event_type, old_value, new_value)
+         VALUES ${rows.join(", ")}`,
+        params,
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error writing guild member events: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * One page of member events matching the conditions, newest first
+   */
+  async findPage(
+    conditions: DbQueryCondition<DbGuildMemberEvent>,
+    page: number,
+    limit: number,
+  ): Promise<DbPaginatedResult<DbGuildMemberEvent>> {
+    return this.findPaginated({
+      conditions,
+      sort: [
+        { field: "occurred_at", direction: "DESC" },
+        { field: "id", direction: "DESC" },
+      ],
+      pagination: { page, limit },
+    });
+  }
+}
+
+export default new GuildMemberEventModel();
@@ -0,0 +1,86 @@
+import { DbGuildRankPermission } from "../../../shared/types/db/models/rank.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+export class GuildRankPermissionModel extends BaseModel<DbGuildRankPermission> {
+  constructor() {
+    super("guild_rank_permissions");
+  }
+
+  async findByGuildId(guildId: number): Promise<DbGuildRankPermission[]> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM ${this.tableName} WHERE guild_id = $1 ORDER BY rank_id ASC`,
+        [guildId],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding rank permissions: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Ranks the user's current characters hold in a guild
+   */
+  async findUserRankIds(guildId: number, userId: number): Promise<number[]> {
+    try {
+      const result = await db.query(
+        `SELECT DISTINCT gm.rank
+         FROM guild_members gm
+         JOIN characters c ON c.id = gm.character_id
+         WHERE gm.guild_id = $1
+           AND c.user_id = $2
+           AND gm.left_at IS NULL`,
+        [guildId, userId],
+      );
+      return result.rows.map((row: { rank: number }) => row.rank);
+    } catch (error) {
+      throw new AppError(
+        `Error finding user ranks: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Replaces the whole rank → capabilities mapping of a guild
+   */
+  async replaceForGuild(
+    guildId: number,
+    entries: { rank_id: number; capabilities: string[] }[],
+    updatedBy: number,
+    client?: any,
+  ): Promise<void> {
+    const dbClient = client || db;
+    try {
+      await dbClient.query(
+        `DELETE FROM ${this.tableName} WHERE guild_id = $1`,
+        [guildId],
+      );
+      for (const entry of entries) {
+        await dbClient.query(
+          `INSERT INTO ${this.tableName} (guild_id, rank_id, capabilities, updated_by)
+           VALUES ($1, $2, $3, $4)`,
+          [guildId, entry.rank_id, entry.capabilities, updatedBy],
+        );
+      }
+    } catch (error) {
+      throw new AppError(
+        `Error saving rank permissions: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new GuildRankPermissionModel();
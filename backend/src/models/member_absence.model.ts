@@ -0,0 +1,243 @@
+import { DbMemberAbsence } from "../../../shared/types/db/models/member.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+// DATE columns as YYYY-MM-DD strings; pg would parse them into local-midnight Date objects
+const ABSENCE_COLUMNS = `ma.id, ma.user_id,
+  to_char(ma.start_date, 'YYYY-MM-DD') AS start_date,
+  to_char(ma.end_date, 'YYYY-MM-DD') AS end_date,
+  ma.reason, ma.created_at, ma.updated_at`;
+
+/**
+ * An absence in a guild's weekly view
+ */
+export interface GuildAbsenceRow extends DbMemberAbsence {
+  battletag: string;
+  character_names: string[];
+}
+
+/**
+ * A sign-up that falls inside an absence
+ */
+export interface AbsentSignupRow {
+  event_id: number;
+  character_id: number;
+}
+
+export class MemberAbsenceModel extends BaseModel<DbMemberAbsence> {
+  constructor() {
+    super("member_absences");
+  }
+
+  /**
+   * Absences of a user that end on or after a date, earliest first
+   */
+  async findByUserIdFrom(
+    userId: number,
+    fromDate: string,
+  ): Promise<DbMemberAbsence[]> {
+    try {
+      const result = await db.query(
+        `SELECT ${ABSENCE_COLUMNS}
+         FROM ${this.tableName} ma
+         WHERE ma.user_id = $1 AND ma.end_date >= $2::date
+         ORDER BY ma.start_date ASC`,
+        [userId, fromDate],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding absences: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  async createAbsence(
+    values: Pick<DbMemberAbsence, "user_id" | "start_date" | "end_date" | "reason">,
+    client?: any,
+  ): Promise<DbMemberAbsence> {
+    const dbClient = client || db;
+    try {
+      const result = await dbClient.query(
+        `WITH inserted AS (
+           INSERT INTO ${this.tableName} (user_id, start_date, end_date, reason)
+           VALUES ($1, $2, $3, $4)
+           RETURNING *
+         )
+         SELECT ${ABSENCE_COLUMNS} FROM inserted ma`,
+        [values.user_id, values.start_date, values.end_date, values.reason],
+      );
+      return result.rows[0];
+    } catch (error) {
+      throw new AppError(
+        `Error creating absence: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Deletes an absence of a user. Returns false if the user has no such absence.
+   */
+  async deleteForUser(id: number, userId: number): Promise<boolean> {
+    try {
+      const result = await db.query(
+        `DELETE FROM ${this.tableName} WHERE id = $1 AND user_id = $2`,
+        [id, userId],
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      throw new AppError(
+        `Error deleting absence: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Absences overlapping a date range of players with a current member in the guild
+   */
+  async findForGuildBetween(
+    guildId: number,
+    fromDate: string,
+    toDate: string,
+  ): Promise<GuildAbsenceRow[]> {
+    try {
+      const result = await db.query(
+        `SELECT ${ABSENCE_COLUMNS}, u.battletag,
+                array_agg(DISTINCT c.name ORDER BY c.name) AS character_names
+         FROM ${this.tableName} ma
+         JOIN users u ON u.id = ma.user_id
+         JOIN characters c ON c.user_id = ma.user_id
+         JOIN guild_members gm ON gm.character_id = c.id
+           AND gm.guild_id = $1
+           AND gm.left_at IS NULL
+         WHERE ma.start_date <= $3::date AND ma.end_date >= $2::date
+         GROUP BY ma.id, u.battletag
+         ORDER BY ma.start_date ASC, u.battletag ASC`,
+        [guildId, fromDate, toDate],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding guild absences: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * A user's sign-ups that are not Declined yet, for events that have not
+   * started and start on one of the days of a date range
+   */
+  async findUpcomingSignupsBetween(
+    userId: number,
+    fromDate: string,
+    toDate: string,
+    client?: any,
+  ): Promise<AbsentSignupRow[]> {
+    const dbClient = client || db;
+    try {
+      const result = await dbClient.query(
+        `SELECT es.event_id, es.character_id
+         FROM event_subscriptions es
+         JOIN events e ON e.id = es.event_id
+         WHERE es.user_id = $1
+           AND es.status <> 'Declined'
+           AND e.start_time > NOW()
+           AND e.start_time >= $2::date
+           AND e.start_time < $3::date + 1
+         ORDER BY e.start_time ASC`,
+        [userId, fromDate, toDate],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding sign-ups during absence: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Whether a user is away on the day a given time falls on
+   */
+  async isUserAwayAt(
+    userId: number,
+    time: string,
+    client?: any,
+  ): Promise<boolean> {
+    const dbClient = client || db;
+    try {
+      const result = await dbClient.query(
+        `SELECT 1 FROM ${this.tableName}
+         WHERE user_id = $1
+           AND $2::timestamptz >= start_date
+           AND $2::timestamptz < end_date + 1
+         LIMIT 1`,
+        [userId, time],
+      );
+      return result.rows.length > 0;
+    } catch (error) {
+      throw new AppError(
+        `Error checking absence: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Adds a Declined sign-up to each event for current guild members who are
+   * away on the day it starts and have not signed up, using their main (or
+   * first) character in the guild. Returns the number of sign-ups added.
+   */
+  async declineAbsentMembers(eventIds: number[], client?: any): Promise<number> {
+    if (eventIds.length === 0) {
+      return 0;
+    }
+    const dbClient = client || db;
+    try {
+      const result = await dbClient.query(
+        `INSERT INTO event_subscriptions (event_id, user_id, character_id, status)
+         SELECT DISTINCT ON (e.id, c.user_id) e.id, c.user_id, c.id, 'Declined'
+         FROM events e
+         JOIN guild_members gm ON gm.guild_id = e.guild_id AND gm.left_at IS NULL
+         JOIN characters c ON c.id = gm.character_id AND c.user_id IS NOT NULL
+         JOIN ${this.tableName} ma ON ma.user_id = c.user_id
+           AND e.start_time >= ma.start_date
+           AND e.start_time < ma.end_date + 1
+         WHERE e.id = ANY($1::int[])
+           AND NOT EXISTS (
+             SELECT 1 FROM event_subscriptions es
+             WHERE es.event_id = e.id AND es.user_id = c.user_id
+           )
+         ORDER BY e.id, c.user_id, gm.is_main DESC NULLS LAST, c.id ASC`,
+        [eventIds],
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      throw new AppError(
+        `Error declining sign-ups of absent members: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new MemberAbsenceModel();
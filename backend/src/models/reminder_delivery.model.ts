@@ -0,0 +1,76 @@
+import {
+  DbReminderDelivery,
+  ReminderKind,
+} from "../../../shared/types/db/models/discord.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+export class ReminderDeliveryModel extends BaseModel<DbReminderDelivery> {
+  constructor() {
+    super("reminder_deliveries");
+  }
+
+  /**
+   * Claims a reminder before it is sent. Returns the delivery ID, or null if the
+   * reminder was already claimed (by an earlier run or another replica).
+   */
+  async claim(
+    eventId: number,
+    userId: number,
+    kind: ReminderKind,
+    offsetMinutes: number,
+  ): Promise<number | null> {
+    try {
+      const result = await db.query(
+        `INSERT INTO ${this.tableName} (event_id, user_id, kind, offset_minutes)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (event_id, user_id, kind, offset_minutes) DO NOTHING
+         RETURNING id`,
+        [eventId, userId, kind, offsetMinutes],
+      );
+      return result.rows[0]?.id ?? null;
+    } catch (error) {
+      throw new AppError(
+        `Error claiming reminder delivery: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  async markSent(id: number): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE ${this.tableName} SET status = 'sent', sent_at = NOW() WHERE id = $1`,
+        [id],
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error marking reminder delivery as sent: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  async markFailed(id: number, reason: string): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE ${this.tableName} SET status = 'failed', error = $2 WHERE id = $1`,
+        [id, reason],
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error marking reminder delivery as failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new ReminderDeliveryModel();
@@ -8,8 +8,20 @@ interface SubscriptionRow extends EventSubscription {
   character_name: string;
   character_class: string;
   character_role: string;
+  lineup_selection: string | null; // Published lineup pick
+  lineup_group: number | null;
 }
 
+interface SeatingRow {
+  id: number;
+  user_id: number;
+  status: string;
+  character_role: string | null;
+  waitlisted_at: string | null;
+}
+
+type SubscriptionValues = Partial<Omit<EventSubscription, "id">>;
+
 interface EventWithSubscription {
   id: number;
   status: string;
@@ -46,16 +58,19 @@ class SubscriptionModel extends BaseModel<EventSubscription> {
 
   /**
    * Find all subscribers for an event, with user and character information
+   * and their published lineup pick
    */
   async findByEventId(eventId: number): Promise<SubscriptionRow[]> {
     try {
       const result = await db.query(
-        `SELECT es.*, u.battletag, c.name as character_name, c.class as character_class, c.role as character_role
+        `SELECT es.*, u.battletag, c.name as character_name, c.class as character_class, c.role as character_role,
+                le.published_selection as lineup_selection, le.published_group_number as lineup_group
          FROM event_subscriptions es
          JOIN users u ON es.user_id = u.id
          JOIN characters c ON es.character_id = c.id
+         LEFT JOIN event_lineup_entries le ON le.subscription_id = es.id
          WHERE es.event_id = $1
-         ORDER BY es.status ASC, c.role ASC`,
+         ORDER BY es.status ASC, c.role ASC, es.waitlisted_at ASC NULLS FIRST, es.id ASC`,
         [eventId],
       );
       return result.rows as SubscriptionRow[];
@@ -69,6 +84,142 @@ class SubscriptionModel extends BaseModel<EventSubscription> {
     }
   }
 
+  /**
+   * Insert a subscription, optionally inside a transaction
+   */
+  async createSubscription(
+    values: SubscriptionValues,
+    client?: any,
+  ): Promise<EventSubscription> {
+    const dbClient = client || db;
+    try {
+      const keys = Object.keys(values) as (keyof SubscriptionValues)[];
+      const result = await dbClient.query(
+        `INSERT INTO ${this.tableName} (${keys.join(", ")})
+         VALUES (${keys.map((_, index) => `$${index + 1}`).join(", ")})
+         RETURNING *`,
+        keys.map((key) => values[key]) as any[],
+      );
+      return result.rows[0];
+    } catch (error) {
+      throw new AppError(
+        `Error creating subscription: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Update a subscription, optionally inside a transaction
+   */
+  async updateSubscription(
+    id: number,
+    values: SubscriptionValues,
+    client?: any,
+  ): Promise<EventSubscription> {
+    const dbClient = client || db;
+    try {
+      const keys = Object.keys(values) as (keyof SubscriptionValues)[];
+      const result = await dbClient.query(
+        `UPDATE ${this.tableName}
+         SET ${keys.map((key, index) => `${key} = $${index + 2}`).join(", ")}
+         WHERE id = $1
+         RETURNING *`,
+        [
+          id,
+          ...keys.map((key) => values[key]),
+        ] as any[],
+      );
+      return result.rows[0];
+    } catch (error) {
+      throw new AppError(
+        `Error updating subscription: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Delete a subscription, optionally inside a transaction
+   */
+  async deleteSubscription(id: number, client?: any): Promise<boolean> {
+    const dbClient = client || db;
+    try {
+      const result = await dbClient.query(
+        `DELETE FROM ${this.tableName} WHERE id = $1`,
+        [id],
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      throw new AppError(
+        `Error deleting subscription: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Confirmed sign-ups of an event with their character role: seated ones
+   * first, then the waitlist in arrival order
+   */
+  async findConfirmedSeating(
+    eventId: number,
+    client?: any,
+  ): Promise<SeatingRow[]> {
+    const dbClient = client || db;
+    try {
+      const result = await dbClient.query(
+        `SELECT es.id, es.user_id, es.status, c.role as character_role, es.waitlisted_at
+         FROM event_subscriptions es
+         JOIN characters c ON es.character_id = c.id
+         WHERE es.event_id = $1 AND es.status = 'Confirmed'
+         ORDER BY es.waitlisted_at ASC NULLS FIRST, es.id ASC`,
+        [eventId],
+      );
+      return result.rows as SeatingRow[];
+    } catch (error) {
+      throw new AppError(
+        `Error finding confirmed subscriptions: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Seat waitlisted subscriptions
+   */
+  async clearWaitlisted(ids: number[], client?: any): Promise<EventSubscription[]> {
+    const dbClient = client || db;
+    if (ids.length === 0) {
+      return [];
+    }
+    try {
+      const result = await dbClient.query(
+        `UPDATE ${this.tableName}
+         SET waitlisted_at = NULL
+         WHERE id = ANY($1::int[])
+         RETURNING *`,
+        [ids],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error promoting waitlisted subscriptions: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
   /**
    * Find all events a user is subscribed to
    */
@@ -95,17 +246,19 @@ class SubscriptionModel extends BaseModel<EventSubscription> {
   }
 
   /**
-   * Get subscriber count by status
+   * Get subscriber count by status. Waitlisted Confirmed sign-ups are counted
+   * under "Waitlisted" instead of "Confirmed".
    */
   async getSubscriberCountsByStatus(
     eventId: number,
   ): Promise<Record<string, number>> {
     try {
       const result = await db.query(
-        `SELECT status, COUNT(*) as count
+        `SELECT CASE WHEN waitlisted_at IS NULL THEN status ELSE 'Waitlisted' END as status,
+                COUNT(*) as count
          FROM event_subscriptions
          WHERE event_id = $1
-         GROUP BY status`,
+         GROUP BY 1`,
         [eventId],
       );
 
@@ -137,7 +290,7 @@ class SubscriptionModel extends BaseModel<EventSubscription> {
         `SELECT c.role as character_role, COUNT(*) as count
          FROM event_subscriptions es
          JOIN characters c ON es.character_id = c.id
-         WHERE es.event_id = $1 AND es.status = 'Confirmed'
+         WHERE es.event_id = $1 AND es.status = 'Confirmed' AND es.waitlisted_at IS NULL
          GROUP BY c.role`,
         [eventId],
       );
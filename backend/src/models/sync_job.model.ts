@@ -0,0 +1,315 @@
+import {
+  DbSyncJob,
+  SyncJobStatus,
+  SyncJobType,
+  SyncQueueDepth,
+} from "../../../shared/types/db/models/sync.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+export interface EnqueueSyncJobInput {
+  payload: Record<string, unknown>;
+  dedupeKey?: string | null;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export class SyncJobModel extends BaseModel<DbSyncJob> {
+  constructor() {
+    super("sync_jobs");
+  }
+
+  /**
+   * Enqueues a batch of jobs of the same type.
+   * Jobs whose dedupe key already has a pending or running job are skipped.
+   * @returns The number of jobs actually inserted.
+   */
+  async enqueueMany(
+    jobType: SyncJobType,
+    jobs: EnqueueSyncJobInput[],
+  ): Promise<number> {
+    if (jobs.length === 0) {
+      return 0;
+    }
+
+    try {
+      const values: unknown[] = [];
+      const placeholders = jobs.map((job, index) => {
+        const offset = index * 5;
+        values.push(
+          jobType,
+          JSON.stringify(job.payload),
+          job.dedupeKey ?? null,
+          job.maxAttempts ?? 5,
+          job.runAt ?? new Date(),
+        );
+        return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${
+          offset + 4
+        }, $${offset + 5})`;
+      });
+
+      const query = `
+        INSERT INTO ${this.tableName} (job_type, payload, dedupe_key, max_attempts, run_at)
+        VALUES ${placeholders.join(", ")}
+        ON CONFLICT (dedupe_key) WHERE status IN ('pending', 'running') DO NOTHING
+        RETURNING id
+      `;
+      const result = await db.query(query, values);
+      return result.rowCount ?? result.rows.length;
+    } catch (error) {
+      throw new AppError(
+        `Error enqueueing sync jobs: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Atomically claims up to `limit` due jobs for a worker.
+   * Uses SKIP LOCKED so several workers/replicas can drain the queue concurrently.
+   */
+  async claimBatch(
+    jobType: SyncJobType,
+    workerId: string,
+    limit: number,
+  ): Promise<DbSyncJob[]> {
+    try {
+      const query = `
+        UPDATE ${this.tableName}
+        SET status = 'running',
+            attempts = attempts + 1,
+            locked_at = NOW(),
+            locked_by = $2
+        WHERE id IN (
+          SELECT id
+          FROM ${this.tableName}
+          WHERE job_type = $1
+            AND status = 'pending'
+            AND run_at <= NOW()
+          ORDER BY run_at ASC, id ASC
+          LIMIT $3
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `;
+      const result = await db.query(query, [jobType, workerId, limit]);
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error claiming sync jobs: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Marks a claimed job as completed.
+   */
+  async markCompleted(jobId: number): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE ${this.tableName}
+         SET status = 'completed', completed_at = NOW(), locked_at = NULL, locked_by = NULL, last_error = NULL
+         WHERE id = $1`,
+        [jobId],
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error completing sync job: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Records a failed attempt. The job is rescheduled after `retryDelayMs`,
+   * or dead-lettered once it has used all of its attempts.
+   * @returns The resulting status of the job.
+   */
+  async markFailed(
+    job: DbSyncJob,
+    errorMessage: string,
+    retryDelayMs: number,
+  ): Promise<"pending" | "dead"> {
+    const status = job.attempts >= job.max_attempts ? "dead" : "pending";
+    try {
+      await db.query(
+        `UPDATE ${this.tableName}
+         SET status = $2,
+             last_error = $3,
+             run_at = NOW() + ($4::int * INTERVAL '1 millisecond'),
+             locked_at = NULL,
+             locked_by = NULL
+         WHERE id = $1`,
+        [job.id, status, errorMessage, retryDelayMs],
+      );
+      return status;
+    } catch (error) {
+      throw new AppError(
+        `Error recording sync job failure: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Returns jobs left in 'running' by a crashed worker to the queue.
+   * Jobs that already used all their attempts are dead-lettered instead.
+   * @returns The number of jobs recovered.
+   */
+  async releaseStaleJobs(staleAfterMs: number): Promise<number> {
+    try {
+      const result = await db.query(
+        `UPDATE ${this.tableName}
+         SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'pending' END,
+             last_error = COALESCE(last_error, 'Worker lock expired'),
+             locked_at = NULL,
+             locked_by = NULL
+         WHERE status = 'running'
+           AND locked_at < NOW() - ($1::int * INTERVAL '1 millisecond')`,
+        [staleAfterMs],
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      throw new AppError(
+        `Error releasing stale sync jobs: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Puts dead-lettered jobs back in the queue with a fresh attempt budget.
+   * @returns The number of jobs requeued.
+   */
+  async requeueDead(jobType?: SyncJobType): Promise<number> {
+    try {
+      // A live job with the same dedupe key would violate the partial unique index
+      const result = await db.query(
+        `UPDATE ${this.tableName} AS j
+         SET status = 'pending', attempts = 0, run_at = NOW(), last_error = NULL
+         WHERE j.status = 'dead'
+           AND ($1::text IS NULL OR j.job_type = $1)
+           AND NOT EXISTS (
+             SELECT 1 FROM ${this.tableName} AS live
+             WHERE live.dedupe_key = j.dedupe_key
+               AND live.status IN ('pending', 'running')
+           )`,
+        [jobType ?? null],
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      throw new AppError(
+        `Error requeueing dead sync jobs: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Deletes completed jobs older than the given date to keep the table small.
+   * @returns The number of jobs deleted.
+   */
+  async deleteCompletedBefore(before: Date): Promise<number> {
+    try {
+      const result = await db.query(
+        `DELETE FROM ${this.tableName} WHERE status = 'completed' AND completed_at < $1`,
+        [before],
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      throw new AppError(
+        `Error deleting completed sync jobs: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Deletes dead-lettered jobs that have not been touched since the given date.
+   * @returns The number of jobs deleted.
+   */
+  async deleteDeadBefore(before: Date): Promise<number> {
+    try {
+      const result = await db.query(
+        `DELETE FROM ${this.tableName} WHERE status = 'dead' AND updated_at < $1`,
+        [before],
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      throw new AppError(
+        `Error deleting dead sync jobs: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Counts unfinished and dead-lettered jobs queued on behalf of a guild.
+   */
+  async countOpenByGuild(
+    guildId: number,
+  ): Promise<{ status: SyncJobStatus; count: number }[]> {
+    try {
+      const result = await db.query(
+        `SELECT status, COUNT(*)::int AS count
+         FROM ${this.tableName}
+         WHERE payload->>'guildId' = $1::text
+           AND status IN ('pending', 'running', 'dead')
+         GROUP BY status`,
+        [guildId],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error counting guild sync jobs: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Counts jobs per type and status.
+   */
+  async getQueueDepth(): Promise<SyncQueueDepth[]> {
+    try {
+      const result = await db.query(
+        `SELECT job_type, status, COUNT(*)::int AS count
+         FROM ${this.tableName}
+         GROUP BY job_type, status
+         ORDER BY job_type, status`,
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error getting sync queue depth: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+const syncJobModel = new SyncJobModel();
+
+export default syncJobModel;
@@ -0,0 +1,345 @@
+import {
+  DbSyncRun,
+  DbSyncRunStep,
+  SyncRunStatus,
+  SyncRunTrigger,
+  SyncStepName,
+} from "../../../shared/types/db/models/sync.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+import { withTransaction } from "../utils/transaction.js";
+
+// First key of the two-part advisory lock taken while opening a run; the second is the guild ID
+const SYNC_RUN_LOCK_NAMESPACE = 7301;
+
+export type CharacterSyncOutcome =
+  | "succeeded"
+  | "unchanged"
+  | "unavailable"
+  | "failed";
+
+export class SyncRunModel extends BaseModel<DbSyncRun> {
+  constructor() {
+    super("sync_runs");
+  }
+
+  /**
+   * Opens a run only if the guild has no run in progress.
+   * Runs older than `staleAfterMinutes` are treated as abandoned (e.g. the process crashed).
+   * A per-guild advisory lock serialises concurrent callers, since the NOT EXISTS check alone
+   * cannot see a row inserted by a transaction that has not committed yet.
+   * @returns The new run, or null if another run is still active.
+   */
+  async startRunIfIdle(
+    guildId: number,
+    trigger: SyncRunTrigger,
+    triggeredBy: number | null,
+    staleAfterMinutes: number,
+  ): Promise<DbSyncRun | null> {
+    try {
+      return await withTransaction(async (client) => {
+        await client.query(
+          "SELECT pg_advisory_xact_lock($1::int, $2::int)",
+          [SYNC_RUN_LOCK_NAMESPACE, guildId],
+        );
+        const result = await client.query(
+          `INSERT INTO ${this.tableName} (guild_id, trigger, triggered_by)
+           SELECT $1, $2, $3
+           WHERE NOT EXISTS (
+             SELECT 1 FROM ${this.tableName}
+             WHERE guild_id = $1
+               AND status = 'running'
+               AND started_at > NOW() - ($4::int * INTERVAL '1 minute')
+           )
+           RETURNING *`,
+          [guildId, trigger, triggeredBy, staleAfterMinutes],
+        );
+        return result.rows[0] || null;
+      });
+    } catch (error) {
+      throw new AppError(
+        `Error starting sync run: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Finds the guild's run that is still in progress, ignoring abandoned ones.
+   */
+  async findActiveByGuild(
+    guildId: number,
+    staleAfterMinutes: number,
+  ): Promise<DbSyncRun | null> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM ${this.tableName}
+         WHERE guild_id = $1
+           AND status = 'running'
+           AND started_at > NOW() - ($2::int * INTERVAL '1 minute')
+         ORDER BY started_at DESC
+         LIMIT 1`,
+        [guildId, staleAfterMinutes],
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      throw new AppError(
+        `Error finding active sync run: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Finds the guild's most recent run for a trigger type.
+   */
+  async findLatestByGuildAndTrigger(
+    guildId: number,
+    trigger: SyncRunTrigger,
+  ): Promise<DbSyncRun | null> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM ${this.tableName}
+         WHERE guild_id = $1 AND trigger = $2
+         ORDER BY started_at DESC
+         LIMIT 1`,
+        [guildId, trigger],
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      throw new AppError(
+        `Error finding latest sync run: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Closes a run, recording its final status and duration.
+   */
+  async finishRun(
+    runId: number,
+    status: Exclude<SyncRunStatus, "running">,
+    errorMessage: string | null = null,
+  ): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE ${this.tableName}
+         SET status = $2,
+             error = $3,
+             finished_at = NOW(),
+             duration_ms = (EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000)::int
+         WHERE id = $1`,
+        [runId, status, errorMessage],
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error finishing sync run: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Opens a step within a run.
+   */
+  async startStep(
+    runId: number,
+    step: SyncStepName,
+    details: Record<string, number> = {},
+  ): Promise<DbSyncRunStep> {
+    try {
+      const result = await db.query(
+        `INSERT INTO sync_run_steps (sync_run_id, step, details)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (sync_run_id, step) DO UPDATE
+           SET status = 'running', started_at = NOW(), finished_at = NULL,
+               duration_ms = NULL, error = NULL, details = EXCLUDED.details
+         RETURNING *`,
+        [runId, step, JSON.stringify(details)],
+      );
+      return result.rows[0];
+    } catch (error) {
+      throw new AppError(
+        `Error starting sync run step: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Closes a step, merging any extra counters into its details.
+   */
+  async finishStep(
+    stepId: number,
+    status: Exclude<SyncRunStatus, "running">,
+    errorMessage: string | null = null,
+    details: Record<string, number> = {},
+  ): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE sync_run_steps
+         SET status = $2,
+             error = $3,
+             details = details || $4::jsonb,
+             finished_at = NOW(),
+             duration_ms = (EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000)::int
+         WHERE id = $1`,
+        [stepId, status, errorMessage, JSON.stringify(details)],
+      );
+    } catch (error) {
+      throw new AppError(
+        `Error finishing sync run step: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Records how many character jobs a run queued.
+   * Workers may already have reported outcomes, so the step (and run) is closed here if it is drained.
+   */
+  async setQueuedCharacters(runId: number, queued: number): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE sync_run_steps
+         SET details = jsonb_set(details, '{queued}', to_jsonb($2::int))
+         WHERE sync_run_id = $1 AND step = 'characters'`,
+        [runId, queued],
+      );
+      await this.closeCharacterStepIfDrained(runId);
+    } catch (error) {
+      throw new AppError(
+        `Error recording queued character count: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Counts a final character outcome against the run's 'characters' step.
+   */
+  async recordCharacterOutcome(
+    runId: number,
+    outcome: CharacterSyncOutcome,
+  ): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE sync_run_steps
+         SET details = jsonb_set(
+               details,
+               ARRAY[$2::text],
+               to_jsonb(COALESCE((details->>$2)::int, 0) + 1)
+             )
+         WHERE sync_run_id = $1 AND step = 'characters'`,
+        [runId, outcome],
+      );
+      await this.closeCharacterStepIfDrained(runId);
+    } catch (error) {
+      throw new AppError(
+        `Error recording character sync outcome: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Closes the 'characters' step once every queued character has reported in,
+   * and with it the run, which stays open until then so progress reflects the worker.
+   * Both are marked failed if any character ended up dead-lettered.
+   */
+  private async closeCharacterStepIfDrained(runId: number): Promise<void> {
+    await db.query(
+      `WITH closed_step AS (
+         UPDATE sync_run_steps
+         SET status = CASE WHEN COALESCE((details->>'failed')::int, 0) > 0 THEN 'failed' ELSE 'succeeded' END,
+             finished_at = NOW(),
+             duration_ms = (EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000)::int
+         WHERE sync_run_id = $1
+           AND step = 'characters'
+           AND status = 'running'
+           AND details ? 'queued'
+           AND COALESCE((details->>'succeeded')::int, 0)
+             + COALESCE((details->>'unchanged')::int, 0)
+             + COALESCE((details->>'unavailable')::int, 0)
+             + COALESCE((details->>'failed')::int, 0)
+             >= (details->>'queued')::int
+         RETURNING sync_run_id, status, details
+       )
+       UPDATE ${this.tableName} AS run
+       SET status = closed_step.status,
+           error = CASE WHEN closed_step.status = 'failed'
+             THEN (closed_step.details->>'failed') || ' character(s) failed to sync'
+             ELSE NULL END,
+           finished_at = NOW(),
+           duration_ms = (EXTRACT(EPOCH FROM (NOW() - run.started_at)) * 1000)::int
+       FROM closed_step
+       WHERE run.id = closed_step.sync_run_id AND run.status = 'running'`,
+      [runId],
+    );
+  }
+
+  /**
+   * Returns the most recent runs for a guild, newest first.
+   */
+  async findRecentByGuild(guildId: number, limit: number): Promise<DbSyncRun[]> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM ${this.tableName} WHERE guild_id = $1 ORDER BY started_at DESC, id DESC LIMIT $2`,
+        [guildId, limit],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding recent sync runs: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * Returns the steps belonging to the given runs.
+   */
+  async findStepsByRunIds(runIds: number[]): Promise<DbSyncRunStep[]> {
+    if (runIds.length === 0) {
+      return [];
+    }
+    try {
+      const result = await db.query(
+        `SELECT * FROM sync_run_steps WHERE sync_run_id = ANY($1::int[]) ORDER BY started_at ASC, id ASC`,
+        [runIds],
+      );
+      return result.rows;
+    } catch (error) {
+      throw new AppError(
+        `Error finding sync run steps: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+const syncRunModel = new SyncRunModel();
+
+export default syncRunModel;
@@ -0,0 +1,51 @@
+import { DbUserReminderPreferences } from "../../../shared/types/db/models/discord.js";
+import BaseModel from "../db/BaseModel.js";
+import db from "../db/db.js";
+import { AppError } from "../utils/error-handler.js";
+
+export class UserReminderPreferencesModel
+  extends BaseModel<DbUserReminderPreferences> {
+  constructor() {
+    super("user_reminder_preferences");
+  }
+
+  async findByUserId(userId: number): Promise<DbUserReminderPreferences | null> {
+    try {
+      return await this.findOne({ user_id: userId });
+    } catch (error) {
+      throw new AppError(
+        `Error finding reminder preferences: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+
+  async upsertForUser(
+    userId: number,
+    preferences: Pick<DbUserReminderPreferences, "signup_reminders" | "starting_soon">,
+  ): Promise<DbUserReminderPreferences> {
+    try {
+      const result = await db.query(
+        `INSERT INTO ${this.tableName} (user_id, signup_reminders, starting_soon)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (user_id) DO UPDATE SET
+           signup_reminders = EXCLUDED.signup_reminders,
+           starting_soon = EXCLUDED.starting_soon
+         RETURNING *`,
+        [userId, preferences.signup_reminders, preferences.starting_soon],
+      );
+      return result.rows[0];
+    } catch (error) {
+      throw new AppError(
+        `Error saving reminder preferences: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        500,
+      );
+    }
+  }
+}
+
+export default new UserReminderPreferencesModel();
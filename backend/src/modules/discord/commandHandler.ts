@@ -2,17 +2,17 @@ import {
   Client,
   Events,
   Interaction,
+  RepliableInteraction,
   REST,
   Routes,
-  SlashCommandBuilder,
 } from "discord.js";
-import crypto from "crypto";
+import process from "node:process";
 import logger from "../../utils/logger.js";
-import { storeToken } from "./discordTokenStore.js";
-import config from "../../config/index.js";
+import { getCommand, getCommandPayloads } from "./commandRegistry.js";
+import { DiscordCommandError } from "./commands/types.js";
 
 /**
- * Registers the /link-discord command for a specific guild using the Discord REST API.
+ * Registers every command from the command registry for a specific guild using the Discord REST API.
  * Throws an error if any required environment variable is missing.
  */
 export async function registerCommands(
@@ -26,14 +26,7 @@ export async function registerCommands(
     );
   }
 
-  const commands = [
-    new SlashCommandBuilder()
-      .setName("link-discord")
-      .setDescription(
-        "Links your Discord account to your WoW Guild Manager profile.",
-      )
-      .toJSON(),
-  ];
+  const commands = getCommandPayloads();
 
   const rest = new REST({ version: "10" }).setToken(token);
 
@@ -51,70 +44,93 @@ export async function registerCommands(
 }
 
 /**
- * Attaches a listener to the Discord client to handle the /link-discord command.
- * Replies with a placeholder message when the command is invoked.
+ * Registers the commands in one Discord server using the bot credentials from the environment.
+ * Called when a guild master links a new Discord server to their guild.
+ */
+export async function registerCommandsForDiscordGuild(
+  discordGuildId: string,
+): Promise<void> {
+  const clientId = process.env.DISCORD_CLIENT_ID;
+  const token = process.env.DISCORD_BOT_TOKEN;
+  if (!clientId || !token) {
+    logger.warn(
+      { discordGuildId },
+      "Discord bot credentials are not configured. Skipping command registration.",
+    );
+    return;
+  }
+  await registerCommands(clientId, discordGuildId, token);
+}
+
+/**
+ * Replies to the invoking user only, whether or not the interaction was already answered.
+ */
+export async function replyWithError(
+  interaction: RepliableInteraction,
+  content: string,
+): Promise<void> {
+  try {
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp({ content, ephemeral: true });
+    } else {
+      await interaction.reply({ content, ephemeral: true });
+    }
+  } catch (replyError) {
+    logger.error(
+      { err: replyError, interactionId: interaction.id },
+      "Failed to send error reply for Discord interaction",
+    );
+  }
+}
+
+/**
+ * Attaches a listener to the Discord client that dispatches slash commands
+ * and autocomplete requests to the matching registry entry.
+ * Command errors are reported back to the invoking user as ephemeral replies.
  */
 export function attachCommandListener(client: Client) {
   client.on(Events.InteractionCreate, async (interaction: Interaction) => {
-    if (!interaction.isChatInputCommand()) return;
-
-    if (interaction.commandName === "link-discord") {
+    if (interaction.isAutocomplete()) {
+      const command = getCommand(interaction.commandName);
+      if (!command?.autocomplete) return;
       try {
-        const token = crypto.randomBytes(32).toString("hex");
-        const discordId = interaction.user.id;
-        const discordUsername = interaction.user.tag;
-
-        // --- Temporary Storage Placeholder ---
-        // TODO: Implement proper temporary storage (e.g., Redis, temporary DB table)
-        storeToken(token, { discordId, discordUsername });
-        // -------------------------------------
+        await command.autocomplete(interaction);
+      } catch (error) {
+        logger.error(
+          { err: error, command: interaction.commandName },
+          "Error processing Discord autocomplete",
+        );
+      }
+      return;
+    }
 
-        const frontendUrl = config.server.frontendUrl; // Assumes config is imported and has this value
-        if (!frontendUrl) {
-          logger.error(
-            "FRONTEND_URL is not configured. Cannot generate linking URL.",
-          );
-          await interaction.reply({
-            content:
-              "An internal configuration error occurred. Please contact an administrator.",
-            ephemeral: true,
-          });
-          return;
-        }
-        const linkUrl = `${frontendUrl}/link-discord?token=${token}`; // Path on frontend to handle linking
+    if (!interaction.isChatInputCommand()) return;
 
-        const dmMessage =
-          `Please click this link while logged into the WoW Guild Manager website to link your account:\n${linkUrl}\n\nThis link is valid for a short time.`;
+    const command = getCommand(interaction.commandName);
+    if (!command) {
+      logger.warn(
+        { command: interaction.commandName },
+        "Received unknown Discord command",
+      );
+      await replyWithError(interaction, "This command is not available.");
+      return;
+    }
 
-        try {
-          await interaction.user.send(dmMessage);
-          await interaction.reply({
-            content:
-              "I have sent you a DM with instructions to link your account.",
-            ephemeral: true,
-          });
-        } catch (dmError) {
-          logger.error(
-            { err: dmError, discordId },
-            "Failed to send DM for account linking",
-          );
-          await interaction.reply({
-            content:
-              "I could not send you a DM. Please check if your DMs are enabled for this server and try again.",
-            ephemeral: true,
-          });
-        }
-      } catch (error) {
-        logger.error({ err: error }, "Error processing /link-discord command");
-        // Avoid replying again if DM error reply already happened
-        if (!interaction.replied && !interaction.deferred) {
-          await interaction.reply({
-            content:
-              "An unexpected error occurred while processing your request.",
-            ephemeral: true,
-          });
-        }
+    try {
+      await command.execute(interaction);
+    } catch (error) {
+      if (error instanceof DiscordCommandError) {
+        await replyWithError(interaction, error.message);
+        return;
       }
+      logger.error(
+        { err: error, command: interaction.commandName },
+        `Error processing /${interaction.commandName} command`,
+      );
+      await replyWithError(
+        interaction,
+        "An unexpected error occurred while processing your request.",
+      );
     }
   });
 }
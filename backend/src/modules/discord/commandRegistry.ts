@@ -0,0 +1,31 @@
+import { RESTPostAPIChatInputApplicationCommandsJSONBody } from "discord.js";
+import { eventsCommand } from "./commands/events.js";
+import { linkDiscordCommand } from "./commands/linkDiscord.js";
+import { mycharsCommand } from "./commands/mychars.js";
+import { rosterCommand } from "./commands/roster.js";
+import { signupCommand } from "./commands/signup.js";
+import { DiscordCommand } from "./commands/types.js";
+import { withdrawCommand } from "./commands/withdraw.js";
+
+/**
+ * Every slash command the bot registers and handles, keyed by name.
+ * Add new commands here; registration and dispatch both read from this map.
+ */
+const commandRegistry = new Map<string, DiscordCommand>(
+  [
+    linkDiscordCommand,
+    eventsCommand,
+    signupCommand,
+    withdrawCommand,
+    rosterCommand,
+    mycharsCommand,
+  ].map((command) => [command.name, command]),
+);
+
+export function getCommand(name: string): DiscordCommand | undefined {
+  return commandRegistry.get(name);
+}
+
+export function getCommandPayloads(): RESTPostAPIChatInputApplicationCommandsJSONBody[] {
+  return [...commandRegistry.values()].map((command) => command.data);
+}
@@ -0,0 +1,126 @@
+import { AutocompleteInteraction } from "discord.js";
+import { Event } from "../../../../../shared/types/event.js";
+import { DbUser } from "../../../../../shared/types/user.js";
+import eventModel from "../../../models/event.model.js";
+import guildMemberModel from "../../../models/guild_member.model.js";
+import userModel from "../../../models/user.model.js";
+import { DiscordCommandError } from "./types.js";
+
+// Discord caps autocomplete responses at 25 choices
+const AUTOCOMPLETE_LIMIT = 25;
+
+/**
+ * Resolves the app user linked to a Discord account (set by /link-discord + verifyDiscordLink).
+ */
+export async function requireLinkedUser(discordId: string): Promise<DbUser> {
+  const user = await userModel.findOne({ discord_id: discordId });
+  if (!user) {
+    throw new DiscordCommandError(
+      "Your Discord account is not linked yet. Use /link-discord first.",
+    );
+  }
+  return user;
+}
+
+/**
+ * Returns the IDs of guilds the user has at least one character in.
+ */
+export async function getUserGuildIds(userId: number): Promise<number[]> {
+  const characters = await userModel.getUserCharacters(userId);
+  if (characters.length === 0) {
+    return [];
+  }
+  const memberships = await guildMemberModel.findByCharacterIds(
+    characters.map((character) => character.id),
+  );
+  return [...new Set(memberships.map((member) => member.guild_id))];
+}
+
+/**
+ * Lists events that have not ended yet across the user's guilds, soonest first.
+ */
+export async function findUpcomingEventsForUser(
+  userId: number,
+): Promise<Event[]> {
+  const guildIds = await getUserGuildIds(userId);
+  const eventsByGuild = await Promise.all(
+    guildIds.map((guildId) => eventModel.findFutureEvents(guildId)),
+  );
+  return eventsByGuild
+    .flat()
+    .sort((a, b) =>
+      new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
+    );
+}
+
+/**
+ * Loads an event, making sure it belongs to one of the user's guilds.
+ * Events of other guilds are reported as not found rather than forbidden.
+ */
+export async function requireAccessibleEvent(
+  eventId: number,
+  userId: number,
+): Promise<Event> {
+  const [event, guildIds] = await Promise.all([
+    eventModel.findById(eventId),
+    getUserGuildIds(userId),
+  ]);
+  if (!event || !guildIds.includes(event.guild_id)) {
+    throw new DiscordCommandError(`Event #${eventId} was not found.`);
+  }
+  return event;
+}
+
+/**
+ * Loads an event the user can still sign up for: one of their guild's events
+ * that has not started yet, matching the website's RSVP rules.
+ */
+export async function requireSignupOpenEvent(
+  eventId: number,
+  userId: number,
+): Promise<Event> {
+  const event = await requireAccessibleEvent(eventId, userId);
+  if (new Date(event.start_time).getTime() <= Date.now()) {
+    throw new DiscordCommandError(
+      `**${event.title}** has already started; sign-ups are closed.`,
+    );
+  }
+  return event;
+}
+
+/**
+ * Formats a date as a Discord timestamp, rendered in each reader's local time zone.
+ * Style "f" is the full date and time, "R" is relative ("in 15 minutes").
+ */
+export function formatDiscordTime(isoDate: string, style: "f" | "R" = "f"): string {
+  return `<t:${Math.floor(new Date(isoDate).getTime() / 1000)}:${style}>`;
+}
+
+/**
+ * Suggests the user's upcoming events for an integer `event` option.
+ */
+export async function autocompleteUpcomingEvents(
+  interaction: AutocompleteInteraction,
+): Promise<void> {
+  const user = await userModel.findOne({ discord_id: interaction.user.id });
+  if (!user) {
+    await interaction.respond([]);
+    return;
+  }
+  const query = String(interaction.options.getFocused()).toLowerCase();
+  const events = await findUpcomingEventsForUser(user.id);
+  await interaction.respond(
+    events
+      .filter((event) =>
+        !query || event.title.toLowerCase().includes(query) ||
+        String(event.id).startsWith(query)
+      )
+      .slice(0, AUTOCOMPLETE_LIMIT)
+      .map((event) => ({
+        name: `#${event.id} ${event.title} (${
+          new Date(event.start_time).toUTCString()
+        })`.substring(0, 100),
+        value: event.id,
+      })),
+  );
+}
@@ -0,0 +1,58 @@
+import {
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import {
+  findUpcomingEventsForUser,
+  formatDiscordTime,
+  requireLinkedUser,
+} from "./commandContext.js";
+import { DiscordCommand } from "./types.js";
+
+const MAX_LISTED_EVENTS = 10;
+
+/**
+ * /events: lists upcoming events of the guilds the user's characters belong to.
+ */
+export const eventsCommand: DiscordCommand = {
+  name: "events",
+  data: new SlashCommandBuilder()
+    .setName("events")
+    .setDescription("Lists upcoming events for your guilds.")
+    .toJSON(),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    const user = await requireLinkedUser(interaction.user.id);
+    const events = await findUpcomingEventsForUser(user.id);
+
+    if (events.length === 0) {
+      await interaction.reply({
+        content: "There are no upcoming events for your guilds.",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const embed = new EmbedBuilder()
+      .setColor(0x0099FF)
+      .setTitle("Upcoming Events")
+      .setDescription(
+        events
+          .slice(0, MAX_LISTED_EVENTS)
+          .map((event) =>
+            `**#${event.id} ${event.title}** (${event.event_type})\n${
+              formatDiscordTime(event.start_time)
+            }`
+          )
+          .join("\n\n"),
+      )
+      .setFooter({
+        text: events.length > MAX_LISTED_EVENTS
+          ? `Showing ${MAX_LISTED_EVENTS} of ${events.length} events. Use /signup <event> to join.`
+          : "Use /signup <event> to join.",
+      });
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+  },
+};
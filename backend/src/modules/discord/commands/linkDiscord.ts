@@ -0,0 +1,59 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from "discord.js";
+import crypto from "crypto";
+import logger from "../../../utils/logger.js";
+import config from "../../../config/index.js";
+import { storeToken } from "../discordTokenStore.js";
+import { DiscordCommand, DiscordCommandError } from "./types.js";
+
+/**
+ * /link-discord: DMs the user a one-time URL that links their Discord account
+ * to their WoW Guild Manager profile.
+ */
+export const linkDiscordCommand: DiscordCommand = {
+  name: "link-discord",
+  data: new SlashCommandBuilder()
+    .setName("link-discord")
+    .setDescription(
+      "Links your Discord account to your WoW Guild Manager profile.",
+    )
+    .toJSON(),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    const frontendUrl = config.server.frontendUrl;
+    if (!frontendUrl) {
+      logger.error(
+        "FRONTEND_URL is not configured. Cannot generate linking URL.",
+      );
+      throw new DiscordCommandError(
+        "An internal configuration error occurred. Please contact an administrator.",
+      );
+    }
+
+    const token = crypto.randomBytes(32).toString("hex");
+    const discordId = interaction.user.id;
+    const discordUsername = interaction.user.tag;
+
+    await storeToken(token, { discordId, discordUsername });
+
+    const linkUrl = `${frontendUrl}/link-discord?token=${token}`; // Path on frontend to handle linking
+    const dmMessage =
+      `Please click this link while logged into the WoW Guild Manager website to link your account:\n${linkUrl}\n\nThis link is valid for a short time.`;
+
+    try {
+      await interaction.user.send(dmMessage);
+    } catch (dmError) {
+      logger.error(
+        { err: dmError, discordId },
+        "Failed to send DM for account linking",
+      );
+      throw new DiscordCommandError(
+        "I could not send you a DM. Please check if your DMs are enabled for this server and try again.",
+      );
+    }
+
+    await interaction.reply({
+      content: "I have sent you a DM with instructions to link your account.",
+      ephemeral: true,
+    });
+  },
+};
@@ -0,0 +1,50 @@
+import {
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import userModel from "../../../models/user.model.js";
+import { requireLinkedUser } from "./commandContext.js";
+import { DiscordCommand } from "./types.js";
+
+/**
+ * /mychars: lists the characters on the user's linked account.
+ */
+export const mycharsCommand: DiscordCommand = {
+  name: "mychars",
+  data: new SlashCommandBuilder()
+    .setName("mychars")
+    .setDescription("Lists the characters on your linked account.")
+    .toJSON(),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    const user = await requireLinkedUser(interaction.user.id);
+    const characters = await userModel.getUserCharacters(user.id);
+
+    if (characters.length === 0) {
+      await interaction.reply({
+        content:
+          "No characters found on your account. Sync your characters on the website first.",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const sorted = [...characters].sort((a, b) => b.level - a.level);
+    const embed = new EmbedBuilder()
+      .setColor(0x0099FF)
+      .setTitle(`Characters of ${user.battletag}`)
+      .setDescription(
+        sorted
+          .slice(0, 25)
+          .map((c) =>
+            `**${c.name}** - ${c.realm} · ${c.level} ${c.class}${
+              c.role ? ` (${c.role})` : ""
+            }`
+          )
+          .join("\n"),
+      );
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+  },
+};
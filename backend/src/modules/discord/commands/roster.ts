@@ -0,0 +1,96 @@
+import {
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import { EventSubscriptionStatus } from "../../../../../shared/types/event.js";
+import subscriptionModel from "../../../models/subscription.model.js";
+import {
+  autocompleteUpcomingEvents,
+  formatDiscordTime,
+  requireAccessibleEvent,
+  requireLinkedUser,
+} from "./commandContext.js";
+import { DiscordCommand } from "./types.js";
+
+const STATUS_ORDER: EventSubscriptionStatus[] = [
+  "Confirmed",
+  "Tentative",
+  "Declined",
+];
+
+// Embed field values are capped at 1024 characters
+const MAX_FIELD_LENGTH = 1024;
+
+/**
+ * /roster <event>: shows who signed up for an event, grouped by status.
+ */
+export const rosterCommand: DiscordCommand = {
+  name: "roster",
+  data: new SlashCommandBuilder()
+    .setName("roster")
+    .setDescription("Shows the sign-ups for an event.")
+    .addIntegerOption((option) =>
+      option.setName("event")
+        .setDescription("The event to show")
+        .setRequired(true)
+        .setAutocomplete(true)
+    )
+    .toJSON(),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    const user = await requireLinkedUser(interaction.user.id);
+    const event = await requireAccessibleEvent(
+      interaction.options.getInteger("event", true),
+      user.id,
+    );
+    const subscribers = await subscriptionModel.findByEventId(event.id);
+
+    const embed = new EmbedBuilder()
+      .setColor(0x0099FF)
+      .setTitle(`Roster: ${event.title}`)
+      .setDescription(
+        `${formatDiscordTime(event.start_time)} · ${subscribers.length} sign-up(s)`,
+      )
+      .setFooter({ text: `Event ID: ${event.id}` });
+
+    // Waitlisted Confirmed sign-ups get their own group, in arrival order
+    const groups = [
+      ...STATUS_ORDER.map((status) => ({
+        name: status,
+        members: subscribers.filter((subscriber) =>
+          subscriber.status === status && !subscriber.waitlisted_at
+        ),
+      })),
+      {
+        name: "Waitlist",
+        members: subscribers
+          .filter((subscriber) => subscriber.waitlisted_at)
+          .sort((a, b) =>
+            new Date(a.waitlisted_at!).getTime() -
+              new Date(b.waitlisted_at!).getTime() || a.id - b.id
+          ),
+      },
+    ];
+
+    for (const group of groups) {
+      const entries = group.members
+        .map((subscriber) =>
+          `${subscriber.character_name} (${subscriber.character_class}, ${
+            subscriber.character_role ?? "No role"
+          })`
+        );
+      if (entries.length === 0) continue;
+
+      let value = entries.join("\n");
+      if (value.length > MAX_FIELD_LENGTH) {
+        value = `${value.substring(0, MAX_FIELD_LENGTH - 4)}\n…`;
+      }
+      embed.addFields({ name: `${group.name} (${entries.length})`, value });
+    }
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+  },
+
+  autocomplete: autocompleteUpcomingEvents,
+};
@@ -0,0 +1,133 @@
+import {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+} from "discord.js";
+import { EventSubscriptionStatus } from "../../../../../shared/types/event.js";
+import { Character } from "../../../../../shared/types/guild.js";
+import userModel from "../../../models/user.model.js";
+import { saveEventSubscription } from "../../../services/event-subscription.service.js";
+import { formatAbsenceNotice, formatWaitlistNotice } from "../eventMessage.js";
+import {
+  autocompleteUpcomingEvents,
+  requireLinkedUser,
+  requireSignupOpenEvent,
+} from "./commandContext.js";
+import { refreshEventSignups } from "../eventSync.js";
+import { DiscordCommand, DiscordCommandError } from "./types.js";
+
+const SUBSCRIPTION_STATUSES: EventSubscriptionStatus[] = [
+  "Confirmed",
+  "Tentative",
+  "Declined",
+];
+
+/**
+ * Matches the `character` option against the user's characters.
+ * Autocomplete submits the character ID; typed input is matched by name.
+ */
+function resolveCharacter(characters: Character[], input: string): Character {
+  const needle = input.trim().toLowerCase();
+  const character = characters.find((c) => String(c.id) === needle) ??
+    characters.find((c) => c.name.toLowerCase() === needle);
+  if (!character) {
+    throw new DiscordCommandError(
+      `You have no character named "${input}". Use /mychars to see your characters.`,
+    );
+  }
+  return character;
+}
+
+/**
+ * /signup <event> <character> <status>: signs up for an event, or changes an existing sign-up.
+ */
+export const signupCommand: DiscordCommand = {
+  name: "signup",
+  data: new SlashCommandBuilder()
+    .setName("signup")
+    .setDescription("Signs up for an event with one of your characters.")
+    .addIntegerOption((option) =>
+      option.setName("event")
+        .setDescription("The event to sign up for")
+        .setRequired(true)
+        .setAutocomplete(true)
+    )
+    .addStringOption((option) =>
+      option.setName("character")
+        .setDescription("The character to bring")
+        .setRequired(true)
+        .setAutocomplete(true)
+    )
+    .addStringOption((option) =>
+      option.setName("status")
+        .setDescription("Your attendance")
+        .setRequired(true)
+        .addChoices(
+          ...SUBSCRIPTION_STATUSES.map((status) => ({
+            name: status,
+            value: status,
+          })),
+        )
+    )
+    .toJSON(),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    const user = await requireLinkedUser(interaction.user.id);
+    const event = await requireSignupOpenEvent(
+      interaction.options.getInteger("event", true),
+      user.id,
+    );
+    const characters = await userModel.getUserCharacters(user.id);
+    const character = resolveCharacter(
+      characters,
+      interaction.options.getString("character", true),
+    );
+    const status = interaction.options.getString(
+      "status",
+      true,
+    ) as EventSubscriptionStatus;
+
+    const { subscription, created, waitlistPosition, declinedForAbsence } =
+      await saveEventSubscription(
+        event.id,
+        user.id,
+        character.id,
+        status,
+      );
+
+    await interaction.reply({
+      content: `${
+        created ? "Signed up" : "Updated your sign-up"
+      } for **${event.title}** with **${character.name}** as **${subscription.status}**.${
+        formatWaitlistNotice(waitlistPosition)
+      }${formatAbsenceNotice(declinedForAbsence)}`,
+      ephemeral: true,
+    });
+    void refreshEventSignups(event.id);
+  },
+
+  async autocomplete(interaction: AutocompleteInteraction) {
+    const focused = interaction.options.getFocused(true);
+    if (focused.name === "event") {
+      await autocompleteUpcomingEvents(interaction);
+      return;
+    }
+
+    const user = await userModel.findOne({ discord_id: interaction.user.id });
+    if (!user) {
+      await interaction.respond([]);
+      return;
+    }
+    const query = focused.value.toLowerCase();
+    const characters = await userModel.getUserCharacters(user.id);
+    await interaction.respond(
+      characters
+        .filter((c) => c.name.toLowerCase().includes(query))
+        .slice(0, 25)
+        .map((c) => ({
+          name: `${c.name} - ${c.realm} (${c.class})`.substring(0, 100),
+          value: String(c.id),
+        })),
+    );
+  },
+};
@@ -0,0 +1,27 @@
+import {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+} from "discord.js";
+
+/**
+ * A slash command known to the command registry.
+ */
+export interface DiscordCommand {
+  name: string;
+  /** Payload sent to Discord when registering the command */
+  data: RESTPostAPIChatInputApplicationCommandsJSONBody;
+  execute(interaction: ChatInputCommandInteraction): Promise<void>;
+  autocomplete?(interaction: AutocompleteInteraction): Promise<void>;
+}
+
+/**
+ * An error whose message is safe to show to the invoking user.
+ * The command listener replies with it ephemerally instead of a generic failure.
+ */
+export class DiscordCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiscordCommandError";
+  }
+}
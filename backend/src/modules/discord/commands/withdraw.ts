@@ -0,0 +1,50 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from "discord.js";
+import { removeEventSubscription } from "../../../services/event-subscription.service.js";
+import {
+  autocompleteUpcomingEvents,
+  requireAccessibleEvent,
+  requireLinkedUser,
+} from "./commandContext.js";
+import { refreshEventSignups } from "../eventSync.js";
+import { DiscordCommand, DiscordCommandError } from "./types.js";
+
+/**
+ * /withdraw <event>: removes the user's sign-up from an event.
+ */
+export const withdrawCommand: DiscordCommand = {
+  name: "withdraw",
+  data: new SlashCommandBuilder()
+    .setName("withdraw")
+    .setDescription("Withdraws your sign-up from an event.")
+    .addIntegerOption((option) =>
+      option.setName("event")
+        .setDescription("The event to withdraw from")
+        .setRequired(true)
+        .setAutocomplete(true)
+    )
+    .toJSON(),
+
+  async execute(interaction: ChatInputCommandInteraction) {
+    const user = await requireLinkedUser(interaction.user.id);
+    const event = await requireAccessibleEvent(
+      interaction.options.getInteger("event", true),
+      user.id,
+    );
+
+    // Frees the seat for the next person on the waitlist
+    const removed = await removeEventSubscription(event.id, user.id);
+    if (!removed) {
+      throw new DiscordCommandError(
+        `You are not signed up for **${event.title}**.`,
+      );
+    }
+
+    await interaction.reply({
+      content: `You have withdrawn from **${event.title}**.`,
+      ephemeral: true,
+    });
+    void refreshEventSignups(event.id);
+  },
+
+  autocomplete: autocompleteUpcomingEvents,
+};
@@ -1,51 +1,102 @@
+import crypto from "crypto";
+import schedule from "node-schedule";
+import process from "node:process";
+import discordLinkTokenModel from "../../models/discord_link_token.model.js";
 import logger from "../../utils/logger.js";
 
-interface TokenDetails {
+// Link tokens live in the database so any backend replica can redeem them.
+// Only a SHA-256 hash is stored and nothing here ever logs the raw token.
+
+const TOKEN_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface LinkTokenDetails {
   discordId: string;
   discordUsername: string;
-  timestamp: number;
 }
 
-const tokenStore = new Map<string, TokenDetails>();
-const TOKEN_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
 
-export function storeToken(
+/**
+ * Stores a single-use link token for a Discord account.
+ * Issuing a new token invalidates any earlier one for the same account.
+ */
+export async function storeToken(
   token: string,
-  details: { discordId: string; discordUsername: string },
-): void {
-  const storeDetails: TokenDetails = { ...details, timestamp: Date.now() };
-  tokenStore.set(token, storeDetails);
-  logger.info(`Stored token ${token} for ${details.discordUsername}`);
-  // Optional: Add cleanup logic for very old tokens if needed
+  details: LinkTokenDetails,
+): Promise<void> {
+  await discordLinkTokenModel.replaceForDiscordAccount(
+    hashToken(token),
+    details.discordId,
+    details.discordUsername,
+    new Date(Date.now() + TOKEN_EXPIRY_MS),
+  );
+  logger.info(
+    { discordId: details.discordId },
+    `Stored Discord link token for ${details.discordUsername}`,
+  );
 }
 
-export function retrieveTokenDetails(
+/**
+ * Looks up a link token without redeeming it, so callers can validate the link first.
+ * Returns undefined if it is unknown, expired or already used.
+ */
+export async function peekToken(
   token: string,
-): { discordId: string; discordUsername: string } | undefined {
-  const details = tokenStore.get(token);
-  if (!details) {
-    logger.warn(`Token ${token} not found in store.`);
+): Promise<LinkTokenDetails | undefined> {
+  const row = await discordLinkTokenModel.findActive(hashToken(token));
+  if (!row) {
     return undefined;
   }
+  return {
+    discordId: row.discord_id,
+    discordUsername: row.discord_username,
+  };
+}
 
-  const now = Date.now();
-  if (now - details.timestamp > TOKEN_EXPIRY_MS) {
-    logger.warn(`Token ${token} expired.`);
-    tokenStore.delete(token); // Clean up expired token
+/**
+ * Redeems a link token. Returns undefined if it is unknown, expired or already used.
+ */
+export async function consumeToken(
+  token: string,
+): Promise<LinkTokenDetails | undefined> {
+  const row = await discordLinkTokenModel.consume(hashToken(token));
+  if (!row) {
+    logger.warn("Discord link token not found, expired or already used.");
     return undefined;
   }
 
-  tokenStore.delete(token); // Token is single-use, delete after retrieval
   logger.info(
-    `Retrieved and deleted token ${token} for ${details.discordUsername}`,
+    { discordId: row.discord_id },
+    `Consumed Discord link token for ${row.discord_username}`,
   );
   return {
-    discordId: details.discordId,
-    discordUsername: details.discordUsername,
+    discordId: row.discord_id,
+    discordUsername: row.discord_username,
   };
 }
 
-// Optional: Function to explicitly delete if needed elsewhere
-export function deleteToken(token: string): void {
-  tokenStore.delete(token);
+/**
+ * Schedules a periodic purge of expired link tokens.
+ * The schedule is configurable via DISCORD_LINK_TOKEN_PURGE_CRON_SCHEDULE.
+ */
+export function scheduleLinkTokenPurgeJob(): void {
+  const defaultSchedule = "*/30 * * * *"; // Every 30 minutes
+  const cronSchedule = process.env.DISCORD_LINK_TOKEN_PURGE_CRON_SCHEDULE ||
+    defaultSchedule;
+  logger.info(
+    `[Scheduler] Using Discord link token purge schedule: "${cronSchedule}" (Default: "${defaultSchedule}")`,
+  );
+
+  schedule.scheduleJob(cronSchedule, async () => {
+    try {
+      const deleted = await discordLinkTokenModel.deleteExpired();
+      logger.info({ deleted }, "[DiscordLinkTokens] Purged expired link tokens");
+    } catch (error) {
+      logger.error(
+        { err: error },
+        "[DiscordLinkTokens] Failed to purge expired link tokens",
+      );
+    }
+  });
 }
@@ -1,12 +1,43 @@
 import { client as discordClient } from "./discordClient.js";
 import logger from "../../utils/logger.js";
-import { EmbedBuilder, TextChannel } from "discord.js";
+import { TextChannel, ThreadAutoArchiveDuration } from "discord.js";
 import eventModelInstance from "../../models/event.model.js";
 import { Event } from "../../../../shared/types/event.js";
-import { process } from "../../utils/import-fixes.js";
+import { resolveEventDiscordSettings } from "../../services/guild-discord-settings.service.js";
+import { buildEventMessage, buildEventThreadName } from "./eventMessage.js";
 
 /**
- * Posts event details to Discord by creating a thread in the configured channel,
+ * Checks that a channel exists, is a text channel and belongs to the given Discord server.
+ * Returns a message describing the problem, or null if the channel can be used.
+ * Skips the check while the bot is offline so settings can still be saved.
+ */
+export async function findEventChannelProblem(
+  discordGuildId: string,
+  channelId: string,
+): Promise<string | null> {
+  if (!discordClient.isReady()) {
+    return null;
+  }
+  try {
+    const channel = await discordClient.channels.fetch(channelId);
+    if (!(channel instanceof TextChannel)) {
+      return "The event channel must be a text channel.";
+    }
+    if (channel.guildId !== discordGuildId) {
+      return "The event channel does not belong to that Discord server.";
+    }
+    return null;
+  } catch (error) {
+    logger.warn(
+      { err: error, channelId },
+      "Could not fetch Discord channel while validating guild settings",
+    );
+    return "The bot cannot see that channel. Check the ID and the bot's permissions.";
+  }
+}
+
+/**
+ * Posts event details to Discord by creating a thread in the guild's event channel,
  * posting an embed message, and updating the event record with Discord IDs.
  * @param event DbEvent - The event data to post.
  */
@@ -18,15 +49,16 @@ export async function postEventToDiscord(event: Event): Promise<void> {
     return;
   }
 
-  const channelId = process.env.DISCORD_EVENT_CHANNEL_ID;
-  if (!channelId) {
-    logger.error(
-      "DISCORD_EVENT_CHANNEL_ID environment variable not set. Cannot post event.",
-    );
-    return;
-  }
-
   try {
+    const settings = await resolveEventDiscordSettings(event);
+    const channelId = settings.eventChannelId;
+    if (!channelId) {
+      logger.info(
+        `No Discord event channel configured for guild ${event.guild_id}. Skipping post of event ${event.id}.`,
+      );
+      return;
+    }
+
     const channel = await discordClient.channels.fetch(channelId);
 
     if (!channel) {
@@ -42,42 +74,18 @@ export async function postEventToDiscord(event: Event): Promise<void> {
     }
 
     // --- Create Thread ---
-    const threadName = `Event: ${event.title || `Event ID ${event.id}`}`;
     const thread = await channel.threads.create({
-      name: threadName.substring(0, 100), // Max thread name length is 100
-      autoArchiveDuration: 1440, // 1 day (can be configured)
+      name: buildEventThreadName(event),
+      autoArchiveDuration: settings
+        .threadAutoArchiveMinutes as ThreadAutoArchiveDuration,
       reason: `Discussion thread for event ID ${event.id}`,
     });
     logger.info(
       `Created thread ${thread.id} for event ${event.id} in channel ${channelId}`,
     );
 
-    // --- Format Embed ---
-    const embed = new EmbedBuilder()
-      .setColor(0x0099FF)
-      .setTitle(event.title || "Upcoming Event")
-      .setDescription(event.description || "No description provided.")
-      .addFields(
-        {
-          name: "Date & Time",
-          value: event.start_time
-            ? new Date(event.start_time).toLocaleString("en-US", {
-              dateStyle: "full",
-              timeStyle: "short",
-            })
-            : "Not specified",
-        },
-        {
-          name: "Location",
-          value: event.event_details?.location || "Not specified",
-        },
-        // Add more fields as needed (e.g., sign-up link, organizer)
-      )
-      .setTimestamp(new Date())
-      .setFooter({ text: `Event ID: ${event.id}` });
-
     // --- Post Message ---
-    const message = await thread.send({ embeds: [embed] });
+    const message = await thread.send(await buildEventMessage(event));
     logger.info(`Posted event message ${message.id} to thread ${thread.id}`);
 
     // --- Update DB ---
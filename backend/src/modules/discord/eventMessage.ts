@@ -0,0 +1,258 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+} from "discord.js";
+import { Event, EventSubscriptionStatus } from "../../../../shared/types/event.js";
+import { LineupMemberRow } from "../../models/event_lineup.model.js";
+import subscriptionModel from "../../models/subscription.model.js";
+
+// Custom IDs carry the event so clicks can be handled without any in-memory state:
+//   rsvp:<eventId>:<status>       status button on the event post
+//   rsvp:<eventId>:character      "Choose character" button on the event post
+//   rsvp-char:<eventId>:<status>  ephemeral character select menu
+export const RSVP_BUTTON_PREFIX = "rsvp";
+export const RSVP_CHARACTER_SELECT_PREFIX = "rsvp-char";
+export const RSVP_CHOOSE_CHARACTER = "character";
+
+export const RSVP_STATUSES: EventSubscriptionStatus[] = [
+  "Confirmed",
+  "Tentative",
+  "Declined",
+];
+
+const RSVP_BUTTON_STYLES: Record<EventSubscriptionStatus, ButtonStyle> = {
+  Confirmed: ButtonStyle.Success,
+  Tentative: ButtonStyle.Primary,
+  Declined: ButtonStyle.Danger,
+};
+
+const ROLE_ORDER = ["Tank", "Healer", "DPS", "Support"];
+
+// Embed field values are capped at 1024 characters
+const MAX_FIELD_LENGTH = 1024;
+
+export interface EventMessagePayload {
+  embeds: EmbedBuilder[];
+  components: ActionRowBuilder<ButtonBuilder>[];
+}
+
+/**
+ * Parses a `<prefix>:<eventId>:<action>` custom ID. Returns null for foreign or malformed IDs.
+ */
+export function parseRsvpCustomId(
+  customId: string,
+): { prefix: string; eventId: number; action: string } | null {
+  const [prefix, rawEventId, action] = customId.split(":");
+  const eventId = Number(rawEventId);
+  if (
+    (prefix !== RSVP_BUTTON_PREFIX && prefix !== RSVP_CHARACTER_SELECT_PREFIX) ||
+    !Number.isInteger(eventId) || !action
+  ) {
+    return null;
+  }
+  return { prefix, eventId, action };
+}
+
+export function isRsvpStatus(value: string): value is EventSubscriptionStatus {
+  return (RSVP_STATUSES as string[]).includes(value);
+}
+
+const formatRoleCounts = (roleCounts: Record<string, number>): string => {
+  const roles = [
+    ...ROLE_ORDER.filter((role) => role in roleCounts),
+    ...Object.keys(roleCounts).filter((role) => !ROLE_ORDER.includes(role)),
+  ];
+  return roles.length > 0
+    ? roles.map((role) => `${role || "No role"}: ${roleCounts[role]}`).join(" · ")
+    : "Nobody yet";
+};
+
+/**
+ * Suffix for sign-up replies telling a waitlisted user where they stand.
+ */
+export function formatWaitlistNotice(waitlistPosition: number | null): string {
+  return waitlistPosition === null
+    ? ""
+    : ` The event is full for your role, so you are **#${waitlistPosition}** on the waitlist and will be moved in when a seat frees up.`;
+}
+
+/**
+ * Explains why a sign-up was saved as Declined when the user is away that day.
+ */
+export function formatAbsenceNotice(declinedForAbsence: boolean): string {
+  return declinedForAbsence
+    ? " You are marked as away that day, so your sign-up was recorded as **Declined**. Remove the absence on the website to sign up."
+    : "";
+}
+
+/**
+ * Builds the event post: details embed with live sign-up counts and the RSVP buttons.
+ */
+export async function buildEventMessage(
+  event: Event,
+): Promise<EventMessagePayload> {
+  const [roleCounts, statusCounts] = await Promise.all([
+    subscriptionModel.getSubscriberCountsByRole(event.id),
+    subscriptionModel.getSubscriberCountsByStatus(event.id),
+  ]);
+
+  const embed = new EmbedBuilder()
+    .setColor(0x0099FF)
+    .setTitle(event.title || "Upcoming Event")
+    .setDescription(event.description || "No description provided.")
+    .addFields(
+      {
+        name: "Date & Time",
+        value: event.start_time
+          ? new Date(event.start_time).toLocaleString("en-US", {
+            dateStyle: "full",
+            timeStyle: "short",
+          })
+          : "Not specified",
+      },
+      {
+        name: "Location",
+        value: event.event_details?.location || "Not specified",
+      },
+      {
+        name: `Confirmed (${statusCounts.Confirmed ?? 0})`,
+        value: formatRoleCounts(roleCounts),
+      },
+      {
+        name: "Tentative / Declined",
+        value: `${statusCounts.Tentative ?? 0} / ${statusCounts.Declined ?? 0}`,
+      },
+    )
+    .setTimestamp(new Date())
+    .setFooter({ text: `Event ID: ${event.id}` });
+
+  if (statusCounts.Waitlisted) {
+    embed.addFields({
+      name: "Waitlist",
+      value: `${statusCounts.Waitlisted} waiting for a free seat`,
+    });
+  }
+
+  const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    ...RSVP_STATUSES.map((status) =>
+      new ButtonBuilder()
+        .setCustomId(`${RSVP_BUTTON_PREFIX}:${event.id}:${status}`)
+        .setLabel(status)
+        .setStyle(RSVP_BUTTON_STYLES[status])
+    ),
+    new ButtonBuilder()
+      .setCustomId(`${RSVP_BUTTON_PREFIX}:${event.id}:${RSVP_CHOOSE_CHARACTER}`)
+      .setLabel("Choose character")
+      .setStyle(ButtonStyle.Secondary),
+  );
+
+  return { embeds: [embed], components: [buttons] };
+}
+
+/**
+ * Builds the final state of a deleted event's post: a cancellation notice without RSVP buttons.
+ */
+export function buildCancelledEventMessage(event: Event): EventMessagePayload {
+  const embed = new EmbedBuilder()
+    .setColor(0xED4245)
+    .setTitle(`Cancelled: ${event.title || "Event"}`.substring(0, 256))
+    .setDescription("This event has been cancelled. Sign-ups are closed.")
+    .addFields({
+      name: "Was scheduled for",
+      value: event.start_time
+        ? new Date(event.start_time).toLocaleString("en-US", {
+          dateStyle: "full",
+          timeStyle: "short",
+        })
+        : "Not specified",
+    })
+    .setTimestamp(new Date())
+    .setFooter({ text: `Event ID: ${event.id}` });
+
+  return { embeds: [embed], components: [] };
+}
+
+/**
+ * Name of the Discord thread holding an event's post (max 100 characters).
+ */
+export function buildEventThreadName(event: Event, cancelled = false): string {
+  const name = `${cancelled ? "[Cancelled] " : ""}Event: ${
+    event.title || `Event ID ${event.id}`
+  }`;
+  return name.substring(0, 100);
+}
+
+export interface LineupAnnouncementPayload {
+  content: string;
+  embeds: EmbedBuilder[];
+}
+
+const formatLineupMember = (member: LineupMemberRow): string =>
+  `${member.character_name} (${member.character_class}, ${
+    member.character_role ?? "No role"
+  })`;
+
+/**
+ * Builds the thread message announcing a published lineup: raid groups, then
+ * bench and standby, mentioning every picked player who linked Discord.
+ */
+export function buildLineupAnnouncement(
+  event: Event,
+  members: LineupMemberRow[],
+): LineupAnnouncementPayload {
+  const picked = members.filter((member) => member.published_selection);
+
+  const inByGroup = new Map<number | null, LineupMemberRow[]>();
+  picked
+    .filter((member) => member.published_selection === "In")
+    .forEach((member) => {
+      const group = member.published_group_number;
+      inByGroup.set(group, [...(inByGroup.get(group) ?? []), member]);
+    });
+
+  const fields = [
+    ...[...inByGroup.entries()]
+      .sort(([a], [b]) => (a ?? 99) - (b ?? 99))
+      .map(([group, groupMembers]) => ({
+        name: group === null ? "In (no group)" : `Group ${group}`,
+        members: groupMembers,
+      })),
+    ...["Bench", "Standby"].map((selection) => ({
+      name: selection,
+      members: picked.filter((member) => member.published_selection === selection),
+    })),
+  ].filter((field) => field.members.length > 0);
+
+  const embed = new EmbedBuilder()
+    .setColor(0x57F287)
+    .setTitle(`Lineup: ${event.title || "Event"}`.substring(0, 256))
+    .setDescription(
+      picked.length > 0
+        ? `${picked.filter((m) => m.published_selection === "In").length} player(s) in.`
+        : "Nobody has been picked yet.",
+    )
+    .addFields(
+      fields.map((field) => {
+        let value = field.members.map(formatLineupMember).join("\n");
+        if (value.length > MAX_FIELD_LENGTH) {
+          value = `${value.substring(0, MAX_FIELD_LENGTH - 4)}\n…`;
+        }
+        return { name: `${field.name} (${field.members.length})`, value, inline: true };
+      }),
+    )
+    .setTimestamp(new Date())
+    .setFooter({ text: `Event ID: ${event.id}` });
+
+  const mentions = picked
+    .filter((member) => member.discord_id)
+    .map((member) => `<@${member.discord_id}>`);
+
+  return {
+    content: mentions.length > 0
+      ? `The lineup is out! ${mentions.join(" ")}`.substring(0, 2000)
+      : "The lineup is out!",
+    embeds: [embed],
+  };
+}
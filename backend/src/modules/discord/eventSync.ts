@@ -0,0 +1,275 @@
+import { DiscordAPIError, Message, ThreadChannel } from "discord.js";
+import { Event } from "../../../../shared/types/event.js";
+import eventModelInstance from "../../models/event.model.js";
+import eventLineupModel from "../../models/event_lineup.model.js";
+import logger from "../../utils/logger.js";
+import { client as discordClient } from "./discordClient.js";
+import { postEventToDiscord } from "./eventIntegration.js";
+import {
+  buildCancelledEventMessage,
+  buildLineupAnnouncement,
+  buildEventMessage,
+  buildEventThreadName,
+} from "./eventMessage.js";
+
+/**
+ * Keeps an event's Discord post in line with the event and its sign-ups.
+ *
+ * Every operation re-renders the post from the current database state, so
+ * running it twice (or retrying after a failure) converges on the same result.
+ * Operations for the same event run one after another, and bursts of sign-up
+ * refreshes collapse into a single edit. All exports are fire-and-forget safe:
+ * they log failures instead of rejecting.
+ */
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Discord API error codes meaning the post is gone for good
+const UNKNOWN_CHANNEL = 10003;
+const UNKNOWN_MESSAGE = 10008;
+
+const eventQueues = new Map<number, Promise<void>>();
+const pendingRefreshes = new Map<number, Promise<void>>();
+
+const isMissingPostError = (error: unknown): boolean =>
+  error instanceof DiscordAPIError &&
+  (error.code === UNKNOWN_CHANNEL || error.code === UNKNOWN_MESSAGE);
+
+/**
+ * Retries transient failures (network errors, Discord 5xx) with exponential backoff.
+ * Client errors such as a deleted message or missing permissions are thrown immediately.
+ */
+async function withRetry<T>(label: string, operation: () => Promise<T>): Promise<T> {
+  for (let attempt = 1;; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const isClientError = error instanceof DiscordAPIError &&
+        error.status >= 400 && error.status < 500;
+      if (isClientError || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+      const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      logger.warn(
+        { err: error, attempt, delayMs },
+        `[EventSync] ${label} failed, retrying in ${delayMs}ms`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Runs a task after any earlier task for the same event, so edits never interleave.
+ */
+function enqueue(eventId: number, task: () => Promise<void>): Promise<void> {
+  const next = (eventQueues.get(eventId) ?? Promise.resolve()).then(task);
+  eventQueues.set(eventId, next);
+  next.finally(() => {
+    if (eventQueues.get(eventId) === next) {
+      eventQueues.delete(eventId);
+    }
+  });
+  return next;
+}
+
+/**
+ * Fetches the thread and message an event was posted to.
+ * Returns null if either was deleted on the Discord side.
+ */
+async function fetchEventPost(
+  event: Event,
+): Promise<{ thread: ThreadChannel; message: Message } | null> {
+  if (!event.discord_thread_id || !event.discord_message_id) {
+    return null;
+  }
+  try {
+    const channel = await withRetry(
+      `Fetching thread ${event.discord_thread_id}`,
+      () => discordClient.channels.fetch(event.discord_thread_id!),
+    );
+    if (!(channel instanceof ThreadChannel)) {
+      return null;
+    }
+    const message = await withRetry(
+      `Fetching message ${event.discord_message_id}`,
+      () => channel.messages.fetch(event.discord_message_id!),
+    );
+    return { thread: channel, message };
+  } catch (error) {
+    if (isMissingPostError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Edits the existing post of an event. Returns false if there is no post to edit.
+ */
+async function editEventPost(event: Event): Promise<boolean> {
+  const post = await fetchEventPost(event);
+  if (!post) {
+    return false;
+  }
+
+  const { thread, message } = post;
+  // Messages in archived threads cannot be edited
+  if (thread.archived) {
+    await withRetry(`Unarchiving thread ${thread.id}`, () => thread.setArchived(false));
+  }
+  const threadName = buildEventThreadName(event);
+  if (thread.name !== threadName) {
+    await withRetry(`Renaming thread ${thread.id}`, () => thread.setName(threadName));
+  }
+  const payload = await buildEventMessage(event);
+  await withRetry(`Editing message ${message.id}`, () => message.edit(payload));
+  return true;
+}
+
+/**
+ * Forgets Discord IDs of a post that no longer exists, so the next sync posts a new one.
+ */
+async function clearDiscordIds(eventId: number): Promise<void> {
+  await eventModelInstance.update(eventId, {
+    discord_thread_id: null,
+    discord_message_id: null,
+  });
+}
+
+/**
+ * Brings an event's Discord post up to date after the event was created or edited.
+ * Edits the existing post in place and only posts a new thread if there is none yet
+ * (or it was deleted on Discord).
+ */
+export function syncEventToDiscord(eventId: number): Promise<void> {
+  return enqueue(eventId, async () => {
+    try {
+      const event = await eventModelInstance.findById(eventId);
+      if (!event) {
+        return;
+      }
+      if (await editEventPost(event)) {
+        logger.info(`[EventSync] Updated Discord post for event ${eventId}`);
+        return;
+      }
+      if (event.discord_thread_id || event.discord_message_id) {
+        logger.warn(
+          `[EventSync] Discord post for event ${eventId} no longer exists, posting a new one.`,
+        );
+        await clearDiscordIds(eventId);
+      }
+      await postEventToDiscord(event);
+    } catch (error) {
+      logger.error(
+        { err: error, eventId },
+        "[EventSync] Failed to sync event to Discord",
+      );
+    }
+  });
+}
+
+/**
+ * Refreshes the sign-up counts on an event's post after a subscription changed.
+ * Never creates a post. Calls made while a refresh is already waiting share it.
+ */
+export function refreshEventSignups(eventId: number): Promise<void> {
+  const pending = pendingRefreshes.get(eventId);
+  if (pending) {
+    return pending;
+  }
+
+  const refresh = enqueue(eventId, async () => {
+    // Requests arriving from now on need a new render that includes their change
+    pendingRefreshes.delete(eventId);
+    try {
+      const event = await eventModelInstance.findById(eventId);
+      if (!event?.discord_thread_id || !event.discord_message_id) {
+        return;
+      }
+      if (!(await editEventPost(event))) {
+        logger.warn(
+          `[EventSync] Discord post for event ${eventId} no longer exists, clearing its IDs.`,
+        );
+        await clearDiscordIds(eventId);
+      }
+    } catch (error) {
+      logger.error(
+        { err: error, eventId },
+        "[EventSync] Failed to refresh event sign-ups on Discord",
+      );
+    }
+  });
+  pendingRefreshes.set(eventId, refresh);
+  return refresh;
+}
+
+/**
+ * Posts the published lineup in the event's thread, mentioning the picked players.
+ * Does nothing if the event has no Discord post.
+ */
+export function announceLineupInDiscord(eventId: number): Promise<void> {
+  return enqueue(eventId, async () => {
+    try {
+      const event = await eventModelInstance.findById(eventId);
+      if (!event) {
+        return;
+      }
+      const post = await fetchEventPost(event);
+      if (!post) {
+        logger.info(
+          `[EventSync] Event ${eventId} has no Discord post, lineup not announced.`,
+        );
+        return;
+      }
+      const { thread } = post;
+      if (thread.archived) {
+        await withRetry(`Unarchiving thread ${thread.id}`, () => thread.setArchived(false));
+      }
+      const members = await eventLineupModel.findMembersByEventId(eventId);
+      const payload = buildLineupAnnouncement(event, members);
+      await withRetry(`Announcing lineup in thread ${thread.id}`, () => thread.send(payload));
+      logger.info(`[EventSync] Announced lineup of event ${eventId} on Discord`);
+    } catch (error) {
+      logger.error(
+        { err: error, eventId },
+        "[EventSync] Failed to announce lineup on Discord",
+      );
+    }
+  });
+}
+
+/**
+ * Marks the post of a deleted event as cancelled, removes its RSVP buttons and archives the thread.
+ * Takes the event as it was before deletion, since the row no longer exists.
+ */
+export function markEventCancelledInDiscord(event: Event): Promise<void> {
+  return enqueue(event.id, async () => {
+    try {
+      const post = await fetchEventPost(event);
+      if (!post) {
+        return;
+      }
+      const { thread, message } = post;
+      if (thread.archived) {
+        await withRetry(`Unarchiving thread ${thread.id}`, () => thread.setArchived(false));
+      }
+      await withRetry(
+        `Editing message ${message.id}`,
+        () => message.edit(buildCancelledEventMessage(event)),
+      );
+      const threadName = buildEventThreadName(event, true);
+      if (thread.name !== threadName) {
+        await withRetry(`Renaming thread ${thread.id}`, () => thread.setName(threadName));
+      }
+      await withRetry(`Archiving thread ${thread.id}`, () => thread.setArchived(true));
+      logger.info(`[EventSync] Marked Discord post for event ${event.id} as cancelled`);
+    } catch (error) {
+      logger.error(
+        { err: error, eventId: event.id },
+        "[EventSync] Failed to mark event as cancelled on Discord",
+      );
+    }
+  });
+}
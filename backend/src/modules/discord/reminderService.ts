@@ -4,130 +4,266 @@ import schedule from "node-schedule";
 import db from "../../db/db.js"; // Custom PG Pool client
 import { EmbedBuilder, User as DiscordUser } from "discord.js";
 import { Event } from "../../../../shared/types/event.js";
-import process from "node:process"; // Use correct Event type
+import { ReminderKind } from "../../../../shared/types/db/models/discord.js";
+import process from "node:process";
+import reminderDeliveryModel from "../../models/reminder_delivery.model.js";
+import { resolveEventDiscordSettings } from "../../services/guild-discord-settings.service.js";
+import { formatDiscordTime } from "./commands/commandContext.js";
+
+// Longest reminder lead time a guild can configure (7 days)
+const MAX_REMINDER_LEAD_MINUTES = 10080;
+// Confirmed attendees are pinged this long before the event starts
+const STARTING_SOON_MINUTES = 15;
+// Simple delay between DMs to avoid hitting Discord rate limits too quickly
+const DM_DELAY_MS = 500;
+
+interface ReminderRecipient {
+  id: number;
+  discord_id: string;
+}
+
+let isRunning = false;
 
 /**
- * Finds upcoming events and sends Discord DM reminders to users
- * who have linked their Discord account but haven't subscribed to the event yet.
+ * Picks the reminder offset that is due now: the smallest configured offset the
+ * event is already within. Earlier offsets that were missed (e.g. the event was
+ * created an hour before it starts) are skipped instead of sent all at once.
  */
-async function sendEventReminders(): Promise<void> {
-  logger.info("[ReminderJob] Starting event reminder check...");
-  try {
-    // 1. Find upcoming events (e.g., starting within the next 24 hours) using raw SQL
-    const upcomingEventsQuery = `
-            SELECT * FROM events
-            WHERE start_time > NOW()
-            AND start_time <= NOW() + INTERVAL '24 hours'
-            ORDER BY start_time ASC;
-        `;
-    const upcomingEventsResult = await db.query(upcomingEventsQuery);
-    const upcomingEvents: Event[] = upcomingEventsResult.rows;
+function findDueOffset(
+  offsets: number[],
+  minutesUntilStart: number,
+): number | null {
+  const due = offsets.filter((offset) => minutesUntilStart <= offset);
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+// Players who are away on the day the event starts are not reminded
+const NOT_ON_ABSENCE = (userColumn: string, startTimeParam: string) => `
+       AND NOT EXISTS (
+         SELECT 1 FROM member_absences ma
+         WHERE ma.user_id = ${userColumn}
+           AND ${startTimeParam}::timestamptz >= ma.start_date
+           AND ${startTimeParam}::timestamptz < ma.end_date + 1
+       )`;
+
+/**
+ * Members of the event's guild with a linked Discord account who have not signed up,
+ * have not opted out, are not away and have not been reminded at this offset yet.
+ */
+async function findSignupReminderRecipients(
+  event: Event,
+  offsetMinutes: number,
+): Promise<ReminderRecipient[]> {
+  const result = await db.query(
+    `SELECT DISTINCT u.id, u.discord_id
+     FROM users u
+     JOIN characters c ON c.user_id = u.id
+     JOIN guild_members gm ON gm.character_id = c.id
+       AND gm.guild_id = $2
+       AND gm.left_at IS NULL
+     LEFT JOIN user_reminder_preferences p ON p.user_id = u.id
+     WHERE u.discord_id IS NOT NULL
+       AND COALESCE(p.signup_reminders, TRUE)
+       AND NOT EXISTS (
+         SELECT 1 FROM event_subscriptions es
+         WHERE es.event_id = $1 AND es.user_id = u.id
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM reminder_deliveries rd
+         WHERE rd.event_id = $1 AND rd.user_id = u.id
+           AND rd.kind = 'signup_reminder' AND rd.offset_minutes = $3
+       )${NOT_ON_ABSENCE("u.id", "$4")}`,
+    [event.id, event.guild_id, offsetMinutes, event.start_time],
+  );
+  return result.rows;
+}
+
+/**
+ * Confirmed attendees holding a roster seat (not waitlisted) with a linked Discord account
+ * who have not opted out, are not away and have not been pinged for this event yet.
+ */
+async function findStartingSoonRecipients(
+  event: Event,
+): Promise<ReminderRecipient[]> {
+  const result = await db.query(
+    `SELECT u.id, u.discord_id
+     FROM event_subscriptions es
+     JOIN users u ON u.id = es.user_id
+     LEFT JOIN user_reminder_preferences p ON p.user_id = u.id
+     WHERE es.event_id = $1
+       AND es.status = 'Confirmed'
+       AND es.waitlisted_at IS NULL
+       AND u.discord_id IS NOT NULL
+       AND COALESCE(p.starting_soon, TRUE)
+       AND NOT EXISTS (
+         SELECT 1 FROM reminder_deliveries rd
+         WHERE rd.event_id = $1 AND rd.user_id = u.id
+           AND rd.kind = 'starting_soon'
+       )${NOT_ON_ABSENCE("u.id", "$2")}`,
+    [event.id, event.start_time],
+  );
+  return result.rows;
+}
+
+const buildSignupReminderEmbed = (event: Event): EmbedBuilder =>
+  new EmbedBuilder()
+    .setColor(0xFFCC00) // A distinct reminder color (e.g., yellow/gold)
+    .setTitle(`🗓️ Event Reminder: ${event.title}`)
+    .setDescription(
+      `Just a friendly reminder about the upcoming event **${event.title}** that you haven't signed up for yet!`,
+    )
+    .addFields(
+      {
+        name: "Date & Time",
+        value: formatDiscordTime(event.start_time),
+        inline: true,
+      },
+      {
+        name: "Type",
+        value: event.event_type || "General Event",
+        inline: true,
+      },
+    )
+    .setTimestamp(new Date(event.start_time)) // Show event start time in embed timestamp
+    .setFooter({
+      text: `Event ID: ${event.id} | Manage reminders on the website`,
+    });
+
+const buildStartingSoonEmbed = (event: Event): EmbedBuilder =>
+  new EmbedBuilder()
+    .setColor(0x57F287)
+    .setTitle(`⏰ Starting soon: ${event.title}`)
+    .setDescription(
+      `**${event.title}** starts ${
+        formatDiscordTime(event.start_time, "R")
+      }. See you there!`,
+    )
+    .setTimestamp(new Date(event.start_time))
+    .setFooter({
+      text: `Event ID: ${event.id} | Manage reminders on the website`,
+    });
+
+/**
+ * Claims and sends one reminder DM. The claim makes sure each reminder is sent
+ * at most once, even with overlapping runs or several backend replicas.
+ */
+async function deliverReminder(
+  recipient: ReminderRecipient,
+  event: Event,
+  kind: ReminderKind,
+  offsetMinutes: number,
+  embed: EmbedBuilder,
+): Promise<void> {
+  const deliveryId = await reminderDeliveryModel.claim(
+    event.id,
+    recipient.id,
+    kind,
+    offsetMinutes,
+  );
+  if (deliveryId === null) {
+    return; // Already handled elsewhere
+  }
 
+  try {
+    // Fetch the Discord user object using the stored ID
+    const discordUser: DiscordUser = await discordClient.users.fetch(
+      recipient.discord_id,
+    );
+    await discordUser.send({ embeds: [embed] });
+    await reminderDeliveryModel.markSent(deliveryId);
     logger.info(
-      `[ReminderJob] Found ${upcomingEvents.length} upcoming events.`,
+      `[ReminderJob] Sent ${kind} DM to user ${recipient.id} for event ${event.id}`,
     );
-
-    if (upcomingEvents.length === 0) {
-      logger.info("[ReminderJob] No upcoming events requiring reminders.");
-      return;
+  } catch (dmError: any) {
+    await reminderDeliveryModel.markFailed(
+      deliveryId,
+      dmError?.message ?? String(dmError),
+    );
+    // Handle common Discord errors gracefully
+    if (dmError.code === 10013) { // Unknown User
+      logger.warn(
+        `[ReminderJob] Discord user ${recipient.discord_id} (DB User ID: ${recipient.id}) not found. Skipping.`,
+      );
+    } else if (dmError.code === 50007) { // Cannot send messages to this user
+      logger.warn(
+        `[ReminderJob] Cannot send DM to user ${recipient.discord_id} (DB User ID: ${recipient.id}). DMs likely disabled or bot blocked. Skipping.`,
+      );
+    } else {
+      logger.error({
+        message: "[ReminderJob] Error sending DM",
+        err: dmError,
+        userId: recipient.id,
+        discordId: recipient.discord_id,
+        eventId: event.id,
+      });
     }
+  }
 
-    for (const event of upcomingEvents) {
+  await new Promise((resolve) => setTimeout(resolve, DM_DELAY_MS));
+}
+
+/**
+ * Sends the reminders that are due for one event.
+ */
+async function processEventReminders(event: Event): Promise<void> {
+  const minutesUntilStart =
+    (new Date(event.start_time).getTime() - Date.now()) / 60000;
+
+  const settings = await resolveEventDiscordSettings(event);
+  const offsets = event.reminder_offsets_minutes ??
+    settings.reminderLeadTimesMinutes;
+  const dueOffset = findDueOffset(offsets, minutesUntilStart);
+  if (dueOffset !== null) {
+    const recipients = await findSignupReminderRecipients(event, dueOffset);
+    if (recipients.length > 0) {
       logger.info(
-        `[ReminderJob] Processing event ID: ${event.id} - ${event.title}`,
+        `[ReminderJob] Reminding ${recipients.length} members about event ${event.id} (${dueOffset} min before start).`,
       );
-      try {
-        // 2. Find users with discord_id who are NOT subscribed to this event using raw SQL
-        const usersToRemindQuery = `
-                    SELECT u.id, u.discord_id
-                    FROM users u
-                    WHERE u.discord_id IS NOT NULL
-                    AND NOT EXISTS (
-                        SELECT 1
-                        FROM event_subscriptions es
-                        WHERE es.user_id = u.id
-                        AND es.event_id = $1
-                    );
-                `;
-        const usersToRemindResult = await db.query(usersToRemindQuery, [
-          event.id,
-        ]);
-        const usersToRemind: { id: number; discord_id: string }[] =
-          usersToRemindResult.rows;
-
-        logger.info(
-          `[ReminderJob] Found ${usersToRemind.length} users to remind for event ${event.id}.`,
-        );
+    }
+    const embed = buildSignupReminderEmbed(event);
+    for (const recipient of recipients) {
+      await deliverReminder(recipient, event, "signup_reminder", dueOffset, embed);
+    }
+  }
+
+  if (minutesUntilStart <= STARTING_SOON_MINUTES) {
+    const recipients = await findStartingSoonRecipients(event);
+    const embed = buildStartingSoonEmbed(event);
+    for (const recipient of recipients) {
+      await deliverReminder(
+        recipient,
+        event,
+        "starting_soon",
+        STARTING_SOON_MINUTES,
+        embed,
+      );
+    }
+  }
+}
 
-        if (usersToRemind.length === 0) {
-          continue; // Skip to next event if no users need reminding
-        }
-
-        // 3. Send DMs
-        for (const user of usersToRemind) {
-          try {
-            // Fetch the Discord user object using the stored ID
-            const discordUser: DiscordUser = await discordClient.users.fetch(
-              user.discord_id,
-            );
-
-            // Create an embed message for the reminder
-            const embed = new EmbedBuilder()
-              .setColor(0xFFCC00) // A distinct reminder color (e.g., yellow/gold)
-              .setTitle(`🗓️ Event Reminder: ${event.title}`)
-              .setDescription(
-                `Just a friendly reminder about the upcoming event **${event.title}** that you haven't signed up for yet!`,
-              )
-              .addFields(
-                {
-                  name: "Date & Time",
-                  value: new Date(event.start_time).toLocaleString("en-US", {
-                    dateStyle: "full",
-                    timeStyle: "short",
-                  }),
-                  inline: true,
-                },
-                {
-                  name: "Type",
-                  value: event.event_type || "General Event",
-                  inline: true,
-                },
-                // TODO: Construct a real URL to the event page on your frontend
-                // { name: 'Details', value: `[Click here to view event](YOUR_FRONTEND_EVENT_URL/${event.id})` }
-              )
-              .setTimestamp(new Date(event.start_time)) // Show event start time in embed timestamp
-              .setFooter({ text: `Event ID: ${event.id} | Don't miss out!` });
-
-            // Send the embed message via DM
-            await discordUser.send({ embeds: [embed] });
-            logger.info(
-              `[ReminderJob] Sent reminder DM to user ${user.id} (Discord: ${user.discord_id}) for event ${event.id}`,
-            );
-
-            // Simple delay to avoid hitting Discord rate limits too quickly
-            await new Promise((resolve) => setTimeout(resolve, 500)); // 500ms delay between DMs
-          } catch (dmError: any) {
-            // Handle common Discord errors gracefully
-            if (dmError.code === 10013) { // Unknown User
-              logger.warn(
-                `[ReminderJob] Discord user ${user.discord_id} (DB User ID: ${user.id}) not found. Maybe they left the server or deleted their account? Skipping.`,
-              );
-            } else if (dmError.code === 50007) { // Cannot send messages to this user
-              logger.warn(
-                `[ReminderJob] Cannot send DM to user ${user.discord_id} (DB User ID: ${user.id}). DMs likely disabled or bot blocked. Skipping.`,
-              );
-            } else {
-              // Log other unexpected errors
-              logger.error({
-                message: "[ReminderJob] Error sending DM",
-                err: dmError,
-                userId: user.id,
-                discordId: user.discord_id,
-                eventId: event.id,
-              });
-            }
-          }
-        } // End user loop
+/**
+ * Sends due reminders for upcoming events:
+ * - sign-up reminders to guild members who have not signed up, at each configured offset
+ * - a "starting soon" ping to confirmed attendees
+ * Every delivery is recorded in reminder_deliveries, so reruns never send duplicates.
+ */
+async function sendEventReminders(): Promise<void> {
+  logger.info("[ReminderJob] Starting event reminder check...");
+  try {
+    // Events within the longest lead time any guild can configure;
+    // each event is then checked against its own offsets
+    const upcomingEventsResult = await db.query(
+      `SELECT * FROM events
+       WHERE start_time > NOW()
+       AND start_time <= NOW() + make_interval(mins => $1)
+       ORDER BY start_time ASC;`,
+      [MAX_REMINDER_LEAD_MINUTES],
+    );
+    const upcomingEvents: Event[] = upcomingEventsResult.rows;
+
+    for (const event of upcomingEvents) {
+      try {
+        await processEventReminders(event);
       } catch (eventProcessingError) {
         logger.error({
           message:
@@ -136,7 +272,7 @@ async function sendEventReminders(): Promise<void> {
           eventId: event.id,
         });
       }
-    } // End event loop
+    }
   } catch (error) {
     logger.error(
       { err: error },
@@ -149,22 +285,25 @@ async function sendEventReminders(): Promise<void> {
 
 /**
  * Schedules the event reminder job using node-schedule.
+ * It has to run often enough to honour the shortest offset, so the default is every 5 minutes.
  * The schedule is configurable via the REMINDER_JOB_CRON_SCHEDULE environment variable.
  */
 export function scheduleReminderJob(): void {
-  // Example: Run every day at 9:00 AM server time ('0 9 * * *')
-  // Fallback to 9 AM daily if the environment variable is not set
-  const cronSchedule = process.env.REMINDER_JOB_CRON_SCHEDULE || "0 9 * * *";
+  const cronSchedule = process.env.REMINDER_JOB_CRON_SCHEDULE || "*/5 * * * *";
   logger.info(
     `[Scheduler] Scheduling reminder job with schedule: "${cronSchedule}"`,
   );
 
   const job = schedule.scheduleJob(cronSchedule, () => {
-    logger.info(
-      `[Scheduler] Executing scheduled reminder job (Schedule: "${cronSchedule}")`,
-    );
+    if (isRunning) {
+      logger.warn(
+        "[Scheduler] Previous reminder job is still running, skipping this run.",
+      );
+      return;
+    }
     // Wrap in async IIFE to handle potential promise rejection from sendEventReminders
     (async () => {
+      isRunning = true;
       try {
         await sendEventReminders();
       } catch (jobError) {
@@ -174,6 +313,8 @@ export function scheduleReminderJob(): void {
           { err: jobError },
           "[Scheduler] Unexpected error running scheduled reminder job wrapper",
         );
+      } finally {
+        isRunning = false;
       }
     })();
   });
@@ -0,0 +1,206 @@
+import {
+  ActionRowBuilder,
+  ButtonInteraction,
+  Client,
+  Events,
+  Interaction,
+  StringSelectMenuBuilder,
+  StringSelectMenuInteraction,
+} from "discord.js";
+import {
+  Event,
+  EventSubscriptionStatus,
+} from "../../../../shared/types/event.js";
+import subscriptionModel from "../../models/subscription.model.js";
+import userModel from "../../models/user.model.js";
+import { saveEventSubscription } from "../../services/event-subscription.service.js";
+import logger from "../../utils/logger.js";
+import { replyWithError } from "./commandHandler.js";
+import {
+  requireLinkedUser,
+  requireSignupOpenEvent,
+} from "./commands/commandContext.js";
+import { DiscordCommandError } from "./commands/types.js";
+import {
+  formatAbsenceNotice,
+  formatWaitlistNotice,
+  isRsvpStatus,
+  parseRsvpCustomId,
+  RSVP_BUTTON_PREFIX,
+  RSVP_CHARACTER_SELECT_PREFIX,
+  RSVP_CHOOSE_CHARACTER,
+} from "./eventMessage.js";
+import { refreshEventSignups } from "./eventSync.js";
+
+// Discord caps select menus at 25 options
+const MAX_CHARACTER_OPTIONS = 25;
+
+/**
+ * Replies with an ephemeral select menu listing the user's characters.
+ */
+async function promptForCharacter(
+  interaction: ButtonInteraction,
+  event: Event,
+  userId: number,
+  status: EventSubscriptionStatus,
+): Promise<void> {
+  const characters = await userModel.getUserCharacters(userId);
+  if (characters.length === 0) {
+    throw new DiscordCommandError(
+      "No characters found on your account. Sync your characters on the website first.",
+    );
+  }
+
+  const select = new StringSelectMenuBuilder()
+    .setCustomId(`${RSVP_CHARACTER_SELECT_PREFIX}:${event.id}:${status}`)
+    .setPlaceholder("Choose a character")
+    .addOptions(
+      [...characters]
+        .sort((a, b) => b.level - a.level)
+        .slice(0, MAX_CHARACTER_OPTIONS)
+        .map((c) => ({
+          label: `${c.name} - ${c.realm}`.substring(0, 100),
+          description: `${c.level} ${c.class}${c.role ? ` (${c.role})` : ""}`
+            .substring(0, 100),
+          value: String(c.id),
+        })),
+    );
+
+  await interaction.reply({
+    content: `Which character are you bringing to **${event.title}** as **${status}**?`,
+    components: [
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(select),
+    ],
+    ephemeral: true,
+  });
+}
+
+/**
+ * Handles a status or "Choose character" button on an event post.
+ * Users with a single character (or an existing sign-up) are saved right away;
+ * everyone else is asked to pick a character first.
+ */
+async function handleRsvpButton(
+  interaction: ButtonInteraction,
+  eventId: number,
+  action: string,
+): Promise<void> {
+  const user = await requireLinkedUser(interaction.user.id);
+  const event = await requireSignupOpenEvent(eventId, user.id);
+  const existingSubscription = await subscriptionModel.findByEventAndUser(
+    event.id,
+    user.id,
+  );
+
+  if (action === RSVP_CHOOSE_CHARACTER) {
+    await promptForCharacter(
+      interaction,
+      event,
+      user.id,
+      existingSubscription?.status ?? "Confirmed",
+    );
+    return;
+  }
+  if (!isRsvpStatus(action)) {
+    throw new DiscordCommandError("This button is no longer supported.");
+  }
+
+  let characterId = existingSubscription?.character_id;
+  if (!characterId) {
+    const characters = await userModel.getUserCharacters(user.id);
+    if (characters.length !== 1) {
+      await promptForCharacter(interaction, event, user.id, action);
+      return;
+    }
+    characterId = characters[0].id;
+  }
+
+  const { subscription, waitlistPosition, declinedForAbsence } =
+    await saveEventSubscription(
+      event.id,
+      user.id,
+      characterId,
+      action,
+    );
+  await interaction.reply({
+    content: `You are **${subscription.status}** for **${event.title}**.${
+      formatWaitlistNotice(waitlistPosition)
+    }${formatAbsenceNotice(declinedForAbsence)}`,
+    ephemeral: true,
+  });
+  void refreshEventSignups(event.id);
+}
+
+/**
+ * Handles the ephemeral character select menu sent by promptForCharacter.
+ */
+async function handleCharacterSelect(
+  interaction: StringSelectMenuInteraction,
+  eventId: number,
+  status: string,
+): Promise<void> {
+  if (!isRsvpStatus(status)) {
+    throw new DiscordCommandError("This menu is no longer supported.");
+  }
+  const user = await requireLinkedUser(interaction.user.id);
+  const event = await requireSignupOpenEvent(eventId, user.id);
+
+  const characterId = Number(interaction.values[0]);
+  const characters = await userModel.getUserCharacters(user.id);
+  const character = characters.find((c) => c.id === characterId);
+  if (!character) {
+    throw new DiscordCommandError("That character is not on your account.");
+  }
+
+  const { subscription, waitlistPosition, declinedForAbsence } =
+    await saveEventSubscription(
+      event.id,
+      user.id,
+      character.id,
+      status,
+    );
+  await interaction.update({
+    content: `You are **${subscription.status}** for **${event.title}** with **${character.name}**.${
+      formatWaitlistNotice(waitlistPosition)
+    }${formatAbsenceNotice(declinedForAbsence)}`,
+    components: [],
+  });
+  void refreshEventSignups(event.id);
+}
+
+/**
+ * Attaches a listener that handles RSVP buttons and character menus on event posts.
+ * Errors are reported back to the clicking user as ephemeral replies.
+ */
+export function attachRsvpListener(client: Client) {
+  client.on(Events.InteractionCreate, async (interaction: Interaction) => {
+    if (!interaction.isButton() && !interaction.isStringSelectMenu()) return;
+
+    const parsed = parseRsvpCustomId(interaction.customId);
+    if (!parsed) return;
+
+    try {
+      if (interaction.isButton() && parsed.prefix === RSVP_BUTTON_PREFIX) {
+        await handleRsvpButton(interaction, parsed.eventId, parsed.action);
+      } else if (
+        interaction.isStringSelectMenu() &&
+        parsed.prefix === RSVP_CHARACTER_SELECT_PREFIX
+      ) {
+        await handleCharacterSelect(interaction, parsed.eventId, parsed.action);
+      }
+    } catch (error) {
+      if (error instanceof DiscordCommandError) {
+        await replyWithError(interaction, error.message);
+        return;
+      }
+      logger.error(
+        { err: error, customId: interaction.customId },
+        "Error processing Discord RSVP interaction",
+      );
+      await replyWithError(
+        interaction,
+        "An unexpected error occurred while saving your sign-up.",
+      );
+    }
+  });
+}
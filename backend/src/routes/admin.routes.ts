@@ -4,6 +4,7 @@ import { authenticateJWT } from "../middleware/auth.middleware.js";
 import { getValidationStats, resetValidationStats } from "../utils/validation-monitor.js";
 import { UserRole } from "../../../shared/types/user.js";
 import { asyncHandler } from "../utils/error-handler.js";
+import syncJobModel from "../models/sync_job.model.js";
 
 const router = Router();
 
@@ -50,4 +51,45 @@ router.post(
   })
 );
 
+// Admin-only route to check the background sync queue depth
+router.get(
+  "/sync-queue",
+  asyncHandler(async (req, res) => {
+    // Check if user is an admin
+    if (req.user?.role !== UserRole.ADMIN) {
+      return res.status(403).json({
+        success: false,
+        message: "Insufficient permissions. Admin role required.",
+      });
+    }
+
+    const depth = await syncJobModel.getQueueDepth();
+    return res.json({
+      success: true,
+      data: depth,
+    });
+  })
+);
+
+// Admin-only route to put dead-lettered sync jobs back in the queue
+router.post(
+  "/sync-queue/retry-dead",
+  asyncHandler(async (req, res) => {
+    // Check if user is an admin
+    if (req.user?.role !== UserRole.ADMIN) {
+      return res.status(403).json({
+        success: false,
+        message: "Insufficient permissions. Admin role required.",
+      });
+    }
+
+    const requeued = await syncJobModel.requeueDead();
+    return res.json({
+      success: true,
+      data: { requeued },
+      message: `${requeued} dead-lettered sync jobs have been requeued.`,
+    });
+  })
+);
+
 export default router;
\ No newline at end of file
@@ -1,5 +1,6 @@
 import express from "express";
 import authController from "../../controllers/auth.controller.js";
+import * as absenceController from "../../controllers/absence.controller.js";
 import { authenticateJWT, requireRole } from "../../middleware/auth.middleware.js";
 import { UserRole } from "../../../../shared/types/user.js";
 import { validate, ValidateTarget } from "../../middleware/validation.middleware.js";
@@ -8,7 +9,10 @@ import {
   callbackSchema,
   refreshTokenSchema,
   updateRoleSchema,
-  discordLinkSchema
+  discordLinkSchema,
+  reminderPreferencesSchema,
+  createAbsenceSchema,
+  absenceIdParamSchema
 } from "../../schemas/index.js";
 
 const router = express.Router();
@@ -53,4 +57,34 @@ router.get("/discord-link",
   authController.verifyDiscordLink
 );
 
+// Detach the linked Discord account so it can be re-linked
+router.delete("/discord-link", authenticateJWT, authController.unlinkDiscord);
+
+// Reminder DM opt-outs of the current user
+router.get("/reminder-preferences", authenticateJWT, authController.getReminderPreferences);
+
+router.put(
+  "/reminder-preferences",
+  authenticateJWT,
+  validate(reminderPreferencesSchema, ValidateTarget.BODY),
+  authController.updateReminderPreferences
+);
+
+// Date ranges the current user is away
+router.get("/absences", authenticateJWT, absenceController.listAbsences);
+
+router.post(
+  "/absences",
+  authenticateJWT,
+  validate(createAbsenceSchema, ValidateTarget.BODY),
+  absenceController.createAbsence
+);
+
+router.delete(
+  "/absences/:absenceId",
+  authenticateJWT,
+  validate(absenceIdParamSchema, ValidateTarget.PARAMS),
+  absenceController.deleteAbsence
+);
+
 export default router;
\ No newline at end of file
@@ -1,9 +1,11 @@
 import express from "express";
 import characterController from "../../controllers/character.controller.js";
+import * as characterHistoryController from "../../controllers/character-history.controller.js";
 import { authenticateJWT } from "../../middleware/auth.middleware.js";
 import { validate, ValidateTarget } from "../../middleware/validation.middleware.js";
 import {
   characterIdParamSchema,
+  characterHistoryQuerySchema,
   characterLookupParamsSchema,
   characterSyncSchema,
   characterSchema
@@ -24,6 +26,14 @@ router.get(
   characterController.getCharacterById
 );
 
+// Progression snapshots of a character (?days=, 90 by default)
+router.get(
+  "/:characterId/history",
+  validate(characterIdParamSchema, ValidateTarget.PARAMS),
+  validate(characterHistoryQuerySchema, ValidateTarget.QUERY),
+  characterHistoryController.getCharacterHistory
+);
+
 router.get(
   "/:region/:realm/:name",
   validate(characterLookupParamsSchema, ValidateTarget.PARAMS),
@@ -1,15 +1,30 @@
 import express from "express";
+import * as attendanceController from "../../controllers/attendance.controller.js";
+import * as calendarController from "../../controllers/calendar.controller.js";
 import eventController from "../../controllers/event.controller.js";
 import { authenticateJWT } from "../../middleware/auth.middleware.js";
+import {
+  requireBodyGuildCapability,
+  requireEventCapability,
+} from "../../middleware/guild-permission.middleware.js";
+import { asyncHandler } from "../../utils/error-handler.js";
 import { validate, ValidateTarget } from "../../middleware/validation.middleware.js";
 import {
   guildIdParamSchema,
   eventIdParamSchema,
   createEventSchema,
   updateEventSchema,
-  rsvpSchema
+  eventEditScopeQuerySchema,
+  rsvpSchema,
+  updateRsvpSchema,
+  saveLineupSchema,
+  recordAttendanceSchema,
+  calendarFeedQuerySchema,
+  calendarFeedIdParamSchema,
+  createCalendarFeedSchema
 } from "../../schemas/index.js";
 import { unwrapZodSchema } from "../../utils/zod-express.js";
+import { GuildCapability } from "../../../../shared/types/enums/guild.js";
 
 const router = express.Router();
 
@@ -21,6 +36,37 @@ router.get(
   eventController.getGuildEvents as express.RequestHandler
 );
 
+// iCalendar feeds; calendar apps authenticate with a feed token instead of the JWT
+router.get(
+  "/guild/:guildId/calendar.ics",
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  validate(calendarFeedQuerySchema, ValidateTarget.QUERY),
+  calendarController.getGuildCalendarFeed
+);
+
+router.get(
+  "/me/calendar.ics",
+  validate(calendarFeedQuerySchema, ValidateTarget.QUERY),
+  calendarController.getUserCalendarFeed
+);
+
+// Calendar feed URLs of the current user
+router.get("/calendar-feeds", authenticateJWT, calendarController.listCalendarFeeds);
+
+router.post(
+  "/calendar-feeds",
+  authenticateJWT,
+  validate(createCalendarFeedSchema, ValidateTarget.BODY),
+  calendarController.createCalendarFeed
+);
+
+router.delete(
+  "/calendar-feeds/:feedId",
+  authenticateJWT,
+  validate(calendarFeedIdParamSchema, ValidateTarget.PARAMS),
+  calendarController.revokeCalendarFeed
+);
+
 // Get a specific event by ID
 router.get(
   "/:eventId", 
@@ -34,14 +80,16 @@ router.post(
   "/",
   authenticateJWT,
   validate(unwrapZodSchema(createEventSchema), ValidateTarget.BODY),
+  asyncHandler(requireBodyGuildCapability(GuildCapability.MANAGE_EVENTS)),
   eventController.createEvent as express.RequestHandler
 );
 
-// Update an event
+// Update an event (?scope=this|following|all for occurrences of a recurring series)
 router.put(
   "/:eventId",
   authenticateJWT,
   validate(eventIdParamSchema, ValidateTarget.PARAMS),
+  validate(eventEditScopeQuerySchema, ValidateTarget.QUERY),
   validate(unwrapZodSchema(updateEventSchema), ValidateTarget.BODY),
   eventController.updateEvent as express.RequestHandler
 );
@@ -63,12 +111,12 @@ router.post(
   eventController.subscribeToEvent as express.RequestHandler
 );
 
-// Update subscription status
+// Update subscription status (user_id changes another member's sign-up - manage_events permission)
 router.put(
   "/:eventId/subscribe",
   authenticateJWT,
   validate(eventIdParamSchema, ValidateTarget.PARAMS),
-  validate(rsvpSchema, ValidateTarget.BODY),
+  validate(updateRsvpSchema, ValidateTarget.BODY),
   eventController.updateSubscription as express.RequestHandler
 );
 
@@ -80,6 +128,61 @@ router.get(
   eventController.getEventSubscribers as express.RequestHandler
 );
 
+// Get the lineup editor data of an event (manage_events permission)
+router.get(
+  "/:eventId/lineup",
+  authenticateJWT,
+  validate(eventIdParamSchema, ValidateTarget.PARAMS),
+  asyncHandler(requireEventCapability(GuildCapability.MANAGE_EVENTS)),
+  eventController.getEventLineup as express.RequestHandler
+);
+
+// Save draft lineup picks (manage_events permission)
+router.put(
+  "/:eventId/lineup",
+  authenticateJWT,
+  validate(eventIdParamSchema, ValidateTarget.PARAMS),
+  asyncHandler(requireEventCapability(GuildCapability.MANAGE_EVENTS)),
+  validate(saveLineupSchema, ValidateTarget.BODY),
+  eventController.saveEventLineup as express.RequestHandler
+);
+
+// Publish the lineup and announce it to participants (manage_events permission)
+router.post(
+  "/:eventId/lineup/publish",
+  authenticateJWT,
+  validate(eventIdParamSchema, ValidateTarget.PARAMS),
+  asyncHandler(requireEventCapability(GuildCapability.MANAGE_EVENTS)),
+  eventController.publishEventLineup as express.RequestHandler
+);
+
+// Get the attendance sheet of an event (manage_attendance permission)
+router.get(
+  "/:eventId/attendance",
+  authenticateJWT,
+  validate(eventIdParamSchema, ValidateTarget.PARAMS),
+  asyncHandler(requireEventCapability(GuildCapability.MANAGE_ATTENDANCE)),
+  attendanceController.getEventAttendance
+);
+
+// Record attendance once the event started (manage_attendance permission)
+router.put(
+  "/:eventId/attendance",
+  authenticateJWT,
+  validate(eventIdParamSchema, ValidateTarget.PARAMS),
+  asyncHandler(requireEventCapability(GuildCapability.MANAGE_ATTENDANCE)),
+  validate(recordAttendanceSchema, ValidateTarget.BODY),
+  attendanceController.recordEventAttendance
+);
+
+// Get the role composition and waitlist of an event
+router.get(
+  "/:eventId/composition",
+  authenticateJWT,
+  validate(eventIdParamSchema, ValidateTarget.PARAMS),
+  eventController.getEventComposition as express.RequestHandler
+);
+
 // Unsubscribe from an event
 router.delete(
   "/:eventId/subscribe",
@@ -1,8 +1,21 @@
 import express from "express";
 import guildController from "../../controllers/guild.controller.js";
 import * as rosterController from "../../controllers/roster.controller.js";
+import * as syncController from "../../controllers/sync.controller.js";
+import * as discordSettingsController from "../../controllers/guild-discord-settings.controller.js";
+import * as attendanceController from "../../controllers/attendance.controller.js";
+import * as eventTemplateController from "../../controllers/event-template.controller.js";
+import * as absenceController from "../../controllers/absence.controller.js";
+import * as guildPermissionController from "../../controllers/guild-permission.controller.js";
+import * as auditLogController from "../../controllers/audit-log.controller.js";
+import * as guildMemberEventController from "../../controllers/guild-member-event.controller.js";
+import * as raidProgressionController from "../../controllers/raid-progression.controller.js";
+import * as gearAuditController from "../../controllers/gear-audit.controller.js";
+import * as mythicPlusController from "../../controllers/mythic-plus.controller.js";
+import * as professionController from "../../controllers/profession.controller.js";
 import { authenticateJWT } from "../../middleware/auth.middleware.js";
 import { isGuildMaster } from "../../middleware/guild-master.middleware.js";
+import { requireGuildCapability } from "../../middleware/guild-permission.middleware.js";
 import { asyncHandler } from "../../utils/error-handler.js";
 import { validate, ValidateTarget } from "../../middleware/validation.middleware.js";
 import {
@@ -10,8 +23,20 @@ import {
   guildByNameParamsSchema,
   guildRankParamsSchema,
   updateRankNameSchema,
-  createRosterSchema
+  updateGuildDiscordSettingsSchema,
+  createRosterSchema,
+  guildAttendanceQuerySchema,
+  eventTemplateParamsSchema,
+  saveEventTemplateSchema,
+  guildAbsencesQuerySchema,
+  updateGuildPermissionsSchema,
+  guildAuditLogQuerySchema,
+  guildCharacterParamsSchema,
+  guildMemberEventsQuerySchema,
+  guildGearAuditQuerySchema,
+  guildProfessionsQuerySchema
 } from "../../schemas/index.js";
+import { GuildCapability } from "../../../../shared/types/enums/guild.js";
 
 const router = express.Router();
 
@@ -57,6 +82,86 @@ router.get(
   guildController.getGuildMemberActivity
 );
 
+// Member history: joins, leaves, rank changes, renames and level milestones
+router.get(
+  "/:guildId/member-events",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  validate(guildMemberEventsQuerySchema, ValidateTarget.QUERY),
+  guildMemberEventController.getGuildMemberEvents
+);
+
+// History of one character within the guild
+router.get(
+  "/:guildId/member-events/:characterId",
+  authenticateJWT,
+  validate(guildCharacterParamsSchema, ValidateTarget.PARAMS),
+  validate(guildMemberEventsQuerySchema, ValidateTarget.QUERY),
+  guildMemberEventController.getCharacterMemberEvents
+);
+
+// Raid progress of the guild's mains in the newest expansion
+router.get(
+  "/:guildId/raid-progression",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  raidProgressionController.getGuildRaidProgression
+);
+
+// Mythic+ leaderboard of the guild's members
+router.get(
+  "/:guildId/mythic-plus",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  mythicPlusController.getGuildMythicPlusLeaderboard
+);
+
+// Mains with and without a vault-level key this reset
+router.get(
+  "/:guildId/mythic-plus/vault",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  mythicPlusController.getGuildMythicPlusVault
+);
+
+// Crafting directory: professions, skill and known recipes of the guild's members
+router.get(
+  "/:guildId/professions",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  validate(guildProfessionsQuerySchema, ValidateTarget.QUERY),
+  professionController.getGuildProfessionDirectory
+);
+
+// Enchants, gems, item level outliers and tier pieces per member (protected - manage_rosters permission)
+router.get(
+  "/:guildId/gear-audit",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  validate(guildGearAuditQuerySchema, ValidateTarget.QUERY),
+  asyncHandler(requireGuildCapability(GuildCapability.MANAGE_ROSTERS)),
+  gearAuditController.getGuildGearAudit
+);
+
+// Attendance percentage per character and per main (?weeks=4|8|12)
+router.get(
+  "/:guildId/attendance",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  validate(guildAttendanceQuerySchema, ValidateTarget.QUERY),
+  attendanceController.getGuildAttendance
+);
+
+// Members away during a week (protected - manage_attendance permission)
+router.get(
+  "/:guildId/absences",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  validate(guildAbsencesQuerySchema, ValidateTarget.QUERY),
+  asyncHandler(requireGuildCapability(GuildCapability.MANAGE_ATTENDANCE)),
+  absenceController.getGuildAbsences
+);
+
 // Guild rank management
 router.get(
   "/:guildId/ranks", 
@@ -81,16 +186,127 @@ router.get(
   guildController.getGuildByName
 );
 
-// Update rank name (protected - only guild master)
+// Update rank name (protected - manage_ranks permission)
 router.put(
   "/:guildId/ranks/:rankId",
   authenticateJWT,
   validate(guildRankParamsSchema, ValidateTarget.PARAMS),
   validate(updateRankNameSchema, ValidateTarget.BODY),
-  asyncHandler(isGuildMaster),
+  asyncHandler(requireGuildCapability(GuildCapability.MANAGE_RANKS)),
   guildController.updateRankName
 );
 
+// Rank permissions and what the current user may manage
+router.get(
+  "/:guildId/permissions",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  guildPermissionController.getGuildPermissions
+);
+
+// Replace the rank permissions (protected - only guild master)
+router.put(
+  "/:guildId/permissions",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  validate(updateGuildPermissionsSchema, ValidateTarget.BODY),
+  asyncHandler(isGuildMaster),
+  guildPermissionController.updateGuildPermissions
+);
+
+// Recorded officer actions, newest first (protected - only guild master)
+router.get(
+  "/:guildId/audit-log",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  validate(guildAuditLogQuerySchema, ValidateTarget.QUERY),
+  asyncHandler(isGuildMaster),
+  auditLogController.getGuildAuditLog
+);
+
+// Sync history and queued character jobs (protected - only guild master)
+router.get(
+  "/:guildId/sync-status",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  asyncHandler(isGuildMaster),
+  syncController.getGuildSyncStatus
+);
+
+// Start an on-demand guild sync (protected - only guild master)
+router.post(
+  "/:guildId/sync",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  asyncHandler(isGuildMaster),
+  syncController.requestGuildSync
+);
+
+// Per-guild Discord configuration (protected - only guild master)
+router.get(
+  "/:guildId/discord-settings",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  asyncHandler(isGuildMaster),
+  discordSettingsController.getGuildDiscordSettings
+);
+
+router.put(
+  "/:guildId/discord-settings",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  validate(updateGuildDiscordSettingsSchema, ValidateTarget.BODY),
+  asyncHandler(isGuildMaster),
+  discordSettingsController.updateGuildDiscordSettings
+);
+
+router.delete(
+  "/:guildId/discord-settings",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  asyncHandler(isGuildMaster),
+  discordSettingsController.deleteGuildDiscordSettings
+);
+
+// --- Event Template Routes for a specific Guild ---
+
+// Get all event templates for a guild
+router.get(
+  "/:guildId/event-templates",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  eventTemplateController.getEventTemplates
+);
+
+// Create an event template (protected - manage_events permission)
+router.post(
+  "/:guildId/event-templates",
+  authenticateJWT,
+  validate(guildIdParamSchema, ValidateTarget.PARAMS),
+  validate(saveEventTemplateSchema, ValidateTarget.BODY),
+  asyncHandler(requireGuildCapability(GuildCapability.MANAGE_EVENTS)),
+  eventTemplateController.createEventTemplate
+);
+
+// Replace an event template (protected - manage_events permission)
+router.put(
+  "/:guildId/event-templates/:templateId",
+  authenticateJWT,
+  validate(eventTemplateParamsSchema, ValidateTarget.PARAMS),
+  validate(saveEventTemplateSchema, ValidateTarget.BODY),
+  asyncHandler(requireGuildCapability(GuildCapability.MANAGE_EVENTS)),
+  eventTemplateController.updateEventTemplate
+);
+
+// Delete an event template (protected - manage_events permission)
+router.delete(
+  "/:guildId/event-templates/:templateId",
+  authenticateJWT,
+  validate(eventTemplateParamsSchema, ValidateTarget.PARAMS),
+  asyncHandler(requireGuildCapability(GuildCapability.MANAGE_EVENTS)),
+  eventTemplateController.deleteEventTemplate
+);
+
 // --- Roster Routes for a specific Guild ---
 
 // Get all rosters for a guild
@@ -101,13 +317,13 @@ router.get(
   asyncHandler(rosterController.getGuildRosters)
 );
 
-// Create a new roster for a guild (protected - only guild master)
+// Create a new roster for a guild (protected - manage_rosters permission)
 router.post(
   "/:guildId/rosters",
   authenticateJWT,
   validate(guildIdParamSchema, ValidateTarget.PARAMS),
   validate(createRosterSchema, ValidateTarget.BODY),
-  asyncHandler(isGuildMaster),
+  asyncHandler(requireGuildCapability(GuildCapability.MANAGE_ROSTERS)),
   asyncHandler(rosterController.createGuildRoster)
 );
 
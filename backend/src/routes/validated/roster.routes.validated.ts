@@ -1,7 +1,7 @@
 import { Router } from "express";
 import * as rosterController from "../../controllers/roster.controller.js";
 import { authenticateJWT } from "../../middleware/auth.middleware.js";
-import { isRosterGuildMaster } from "../../middleware/roster-auth.middleware.js";
+import { requireRosterCapability } from "../../middleware/guild-permission.middleware.js";
 import { asyncHandler } from "../../utils/error-handler.js";
 import { validate, ValidateTarget } from "../../middleware/validation.middleware.js";
 import { z } from "zod";
@@ -12,6 +12,7 @@ import {
   addRosterMemberSchema,
   updateRosterMemberSchema
 } from "../../schemas/index.js";
+import { GuildCapability } from "../../../../shared/types/enums/guild.js";
 
 const router = Router();
 
@@ -29,7 +30,7 @@ router.put(
   authenticateJWT,
   validate(rosterIdParamSchema, ValidateTarget.PARAMS),
   validate(updateRosterSchema, ValidateTarget.BODY),
-  asyncHandler(isRosterGuildMaster),
+  asyncHandler(requireRosterCapability(GuildCapability.MANAGE_ROSTERS)),
   asyncHandler(rosterController.updateRosterDetails)
 );
 
@@ -38,7 +39,7 @@ router.delete(
   "/:rosterId",
   authenticateJWT,
   validate(rosterIdParamSchema, ValidateTarget.PARAMS),
-  asyncHandler(isRosterGuildMaster),
+  asyncHandler(requireRosterCapability(GuildCapability.MANAGE_ROSTERS)),
   asyncHandler(rosterController.deleteRoster)
 );
 
@@ -50,7 +51,7 @@ router.post(
   authenticateJWT,
   validate(rosterIdParamSchema, ValidateTarget.PARAMS),
   validate(addRosterMemberSchema, ValidateTarget.BODY),
-  asyncHandler(isRosterGuildMaster),
+  asyncHandler(requireRosterCapability(GuildCapability.MANAGE_ROSTERS)),
   asyncHandler(rosterController.addRosterMembers)
 );
 
@@ -66,7 +67,7 @@ router.put(
   authenticateJWT,
   validate(rosterMemberParamSchema, ValidateTarget.PARAMS),
   validate(updateRosterMemberSchema, ValidateTarget.BODY),
-  asyncHandler(isRosterGuildMaster),
+  asyncHandler(requireRosterCapability(GuildCapability.MANAGE_ROSTERS)),
   asyncHandler(rosterController.updateRosterMember)
 );
 
@@ -75,7 +76,7 @@ router.delete(
   "/:rosterId/members/:characterId",
   authenticateJWT,
   validate(rosterMemberParamSchema, ValidateTarget.PARAMS),
-  asyncHandler(isRosterGuildMaster),
+  asyncHandler(requireRosterCapability(GuildCapability.MANAGE_ROSTERS)),
   asyncHandler(rosterController.removeRosterMember)
 );
 
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { regionSchema } from './common.schema.js';
+import { idSchema, regionSchema } from './common.schema.js';
 import { UserRole } from '../../../shared/types/user.js';
 
 /**
@@ -39,4 +39,24 @@ export const updateRoleSchema = z.object({
 // Discord link validation
 export const discordLinkSchema = z.object({
   token: z.string().min(1, 'Discord link token is required'),
-});
\ No newline at end of file
+});
+// Reminder opt-out validation
+export const reminderPreferencesSchema = z.object({
+  signupReminders: z.boolean(),
+  startingSoon: z.boolean(),
+});
+
+// Days formatted as YYYY-MM-DD
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+// New absence of the current user; both days are included
+export const createAbsenceSchema = z.object({
+  startDate: isoDateSchema,
+  endDate: isoDateSchema,
+  reason: z.string().max(200, 'Reason cannot exceed 200 characters').nullable().optional(),
+});
+
+// Absence ID parameter validation
+export const absenceIdParamSchema = z.object({
+  absenceId: idSchema('Absence ID must be a positive integer'),
+});
@@ -10,6 +10,12 @@ export const characterIdParamSchema = z.object({
   characterId: idSchema('Character ID must be a positive integer'),
 });
 
+// Character history window (?days=, up to the two years snapshots are kept)
+export const characterHistoryQuerySchema = z.object({
+  days: z.string().regex(/^[1-9]\d*$/, 'Days must be a positive integer')
+    .refine((value) => Number(value) <= 730, 'Days cannot exceed 730').optional(),
+});
+
 // Character lookup parameters
 export const characterLookupParamsSchema = z.object({
   region: regionSchema,
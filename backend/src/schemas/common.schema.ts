@@ -69,4 +69,11 @@ export const characterNameSchema = z.string()
 // Assuming rankSchema is something like z.number().int().min(0).max(9)
 export const rankIdSchema = rankSchema.or(z.string().regex(/^[0-9]$/).transform(Number));
 
-export const booleanDefault = (defaultValue: boolean) => z.boolean().optional().default(defaultValue);
\ No newline at end of file
+export const booleanDefault = (defaultValue: boolean) => z.boolean().optional().default(defaultValue);
+
+// Reminder offsets in minutes before an event starts (5 minutes to 7 days)
+export const reminderOffsetsSchema = z.array(
+  z.number().int()
+    .min(5, 'Reminders must be at least 5 minutes before the event')
+    .max(10080, 'Reminders cannot be more than 7 days before the event'),
+).max(5, 'At most 5 reminder lead times are allowed');
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { idSchema, dateSchema } from './common.schema.js';
+import { idSchema, dateSchema, reminderOffsetsSchema } from './common.schema.js';
 
 /**
  * Event-related validation schemas
@@ -10,6 +10,29 @@ export const eventIdParamSchema = z.object({
   eventId: idSchema('Event ID must be a positive integer'),
 });
 
+// Weekly recurrence of a new event
+export const recurrenceRuleSchema = z.object({
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1, 'Pick at least one weekday'),
+  interval_weeks: z.number().int().min(1).max(52),
+  until_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be YYYY-MM-DD').nullable().optional(),
+  occurrence_count: z.number().int().min(1).max(520).nullable().optional(),
+  timezone: z.string().min(1, 'Timezone is required'),
+});
+
+// Which occurrences of a recurring event an update applies to
+export const eventEditScopeQuerySchema = z.object({
+  scope: z.enum(['this', 'following', 'all']).optional(),
+});
+
+// Role slots of an event; a role without a count only counts towards max_participants
+export const eventDetailsSchema = z.object({
+  required_roles: z.object({
+    tanks: z.number().int().min(0).optional(),
+    healers: z.number().int().min(0).optional(),
+    dps: z.number().int().min(0).optional(),
+  }).optional(),
+}).passthrough();
+
 // Create event validation
 export const createEventSchema = z.object({
   guild_id: idSchema('Guild ID must be a positive integer'),
@@ -30,14 +53,10 @@ export const createEventSchema = z.object({
     }).optional(),
     class_restrictions: z.array(z.string()).optional(),
   }).optional(),
-  is_recurring: z.boolean().optional().default(false),
-  recurrence_pattern: z.object({
-    frequency: z.enum(['daily', 'weekly', 'monthly']),
-    interval: z.number().int().positive(),
-    count: z.number().int().positive().optional(),
-    until: dateSchema.iso.optional(),
-    day_of_week: z.array(z.number().int().min(0).max(6)).optional(),
-  }).optional(),
+  event_details: eventDetailsSchema.optional(),
+  reminder_offsets_minutes: reminderOffsetsSchema.nullable().optional(),
+  recurrence: recurrenceRuleSchema.nullable().optional(),
+  template_id: idSchema('Template ID must be a positive integer').nullable().optional(),
 }).refine(
   (data) => {
     if (!data.start_time || !data.end_time) return true;
@@ -67,14 +86,8 @@ export const updateEventSchema = z.object({
     }).optional(),
     class_restrictions: z.array(z.string()).optional(),
   }).optional(),
-  is_recurring: z.boolean().optional(),
-  recurrence_pattern: z.object({
-    frequency: z.enum(['daily', 'weekly', 'monthly']),
-    interval: z.number().int().positive(),
-    count: z.number().int().positive().optional(),
-    until: dateSchema.iso.optional(),
-    day_of_week: z.array(z.number().int().min(0).max(6)).optional(),
-  }).optional(),
+  event_details: eventDetailsSchema.optional(),
+  reminder_offsets_minutes: reminderOffsetsSchema.nullable().optional(),
   status: z.enum(['scheduled', 'cancelled', 'completed']).optional(),
 }).refine(
   (data) => {
@@ -90,6 +103,44 @@ export const updateEventSchema = z.object({
 // RSVP validation
 export const rsvpSchema = z.object({
   character_id: idSchema('Character ID must be a positive integer'),
-  status: z.enum(['accepted', 'declined', 'tentative']),
+  status: z.enum(['Confirmed', 'Tentative', 'Declined']),
   note: z.string().max(200, 'Note cannot exceed 200 characters').optional(),
-});
\ No newline at end of file
+});
+
+// Changing a sign-up; officers who may manage events can pass another member's user_id
+export const updateRsvpSchema = rsvpSchema.extend({
+  user_id: idSchema('User ID must be a positive integer').optional(),
+});
+
+// Officer lineup picks; groups 1-8 only apply to players who are "In"
+export const saveLineupSchema = z.object({
+  assignments: z.array(z.object({
+    subscriptionId: idSchema('Subscription ID must be a positive integer'),
+    selection: z.enum(['In', 'Bench', 'Standby']).nullable(),
+    groupNumber: z.number().int().min(1).max(8).nullable(),
+  })).max(200, 'Too many lineup changes at once'),
+});
+
+// Attendance records of an event
+export const recordAttendanceSchema = z.object({
+  records: z.array(z.object({
+    characterId: idSchema('Character ID must be a positive integer'),
+    status: z.enum(['present', 'late', 'absent', 'excused', 'benched']),
+    note: z.string().max(200, 'Note cannot exceed 200 characters').nullable().optional(),
+  })).min(1, 'Record at least one character').max(200, 'Too many records at once'),
+});
+
+// Calendar feed token in the query string of .ics feeds
+export const calendarFeedQuerySchema = z.object({
+  token: z.string().min(1, 'A calendar feed token is required'),
+});
+
+// Calendar feed ID parameter validation
+export const calendarFeedIdParamSchema = z.object({
+  feedId: idSchema('Calendar feed ID must be a positive integer'),
+});
+
+// Create calendar feed validation; a null guild_id is the personal feed
+export const createCalendarFeedSchema = z.object({
+  guildId: idSchema('Guild ID must be a positive integer').nullable(),
+});
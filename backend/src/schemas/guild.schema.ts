@@ -1,5 +1,7 @@
 import { z } from 'zod';
-import { idSchema, regionSchema, slugSchema, rankIdSchema } from './common.schema.js';
+import { idSchema, regionSchema, slugSchema, rankIdSchema, reminderOffsetsSchema } from './common.schema.js';
+import { eventDetailsSchema } from './event.schema.js';
+import { GuildCapability } from '../../../shared/types/enums/guild.js';
 
 /**
  * Guild-related validation schemas
@@ -31,4 +33,110 @@ export const updateRankNameSchema = z.object({
     .refine(val => val.trim().length > 0, {
       message: 'Rank name cannot be empty or only whitespace',
     }),
-});
\ No newline at end of file
+});
+// Discord snowflake IDs are 17-20 digit strings
+const discordSnowflakeSchema = z.string()
+  .regex(/^\d{17,20}$/, 'Must be a Discord ID (17-20 digits)');
+
+// Update per-guild Discord settings validation
+export const updateGuildDiscordSettingsSchema = z.object({
+  discordGuildId: discordSnowflakeSchema.nullable(),
+  eventChannelId: discordSnowflakeSchema.nullable(),
+  reminderLeadTimesMinutes: reminderOffsetsSchema,
+  threadAutoArchiveMinutes: z.union([
+    z.literal(60),
+    z.literal(1440),
+    z.literal(4320),
+    z.literal(10080),
+  ], { errorMap: () => ({ message: 'Auto-archive must be one of: 60, 1440, 4320, 10080 minutes' }) }),
+});
+
+// Attendance report window in weeks (defaults to 8)
+export const guildAttendanceQuerySchema = z.object({
+  weeks: z.enum(['4', '8', '12'], {
+    errorMap: () => ({ message: 'Weeks must be one of: 4, 8, 12' }),
+  }).optional(),
+});
+
+// Event template route parameters validation
+export const eventTemplateParamsSchema = z.object({
+  guildId: idSchema('Guild ID must be a positive integer'),
+  templateId: idSchema('Template ID must be a positive integer'),
+});
+
+// Create or replace an event template
+export const saveEventTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(100, 'Template name cannot exceed 100 characters'),
+  title: z.string().min(3, 'Event title must be at least 3 characters').max(100, 'Event title cannot exceed 100 characters'),
+  description: z.string().max(500, 'Description cannot exceed 500 characters').optional(),
+  eventType: z.enum(['Raid', 'Dungeon', 'Special'], {
+    errorMap: () => ({ message: 'Event type must be one of: Raid, Dungeon, Special' }),
+  }),
+  durationMinutes: z.number().int().min(15, 'Events last at least 15 minutes').max(1440, 'Events cannot last more than 24 hours'),
+  maxParticipants: z.number().int().positive().nullable().optional(),
+  eventDetails: eventDetailsSchema.optional(),
+  reminderOffsetsMinutes: reminderOffsetsSchema.nullable().optional(),
+  isDefault: z.boolean(),
+});
+
+// Any day of the week to list absences for (defaults to the current week)
+export const guildAbsencesQuerySchema = z.object({
+  week: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Week must be a date formatted as YYYY-MM-DD').optional(),
+});
+
+// Rank -> capabilities mapping of a guild; ranks left out get no capabilities
+export const updateGuildPermissionsSchema = z.object({
+  ranks: z.array(z.object({
+    rankId: z.number().int().min(1, 'The guild master rank always has every permission').max(9),
+    capabilities: z.array(z.nativeEnum(GuildCapability)).max(Object.values(GuildCapability).length),
+  })).max(10),
+});
+
+// Page and equality filters of the audit log viewer
+export const guildAuditLogQuerySchema = z.object({
+  page: z.string().regex(/^[1-9]\d*$/, 'Page must be a positive integer').optional(),
+  limit: z.string().regex(/^[1-9]\d*$/, 'Limit must be a positive integer')
+    .refine((value) => Number(value) <= 100, 'Limit cannot exceed 100').optional(),
+  action: z.enum([
+    'rank.rename',
+    'permissions.update',
+    'roster.create',
+    'roster.update',
+    'roster.delete',
+    'roster.members_add',
+    'roster.member_update',
+    'roster.member_remove',
+    'event.update',
+    'event.delete',
+    'rsvp.update_on_behalf',
+    'user.role_change',
+  ]).optional(),
+  actorId: z.string().regex(/^[1-9]\d*$/, 'Actor ID must be a positive integer').optional(),
+  targetType: z.enum(['rank', 'guild', 'roster', 'roster_member', 'event', 'event_subscription', 'user']).optional(),
+});
+
+// Guild and character member timeline route parameters
+export const guildCharacterParamsSchema = z.object({
+  guildId: idSchema('Guild ID must be a positive integer'),
+  characterId: idSchema('Character ID must be a positive integer'),
+});
+
+// Page and event type filter of the member timelines
+export const guildMemberEventsQuerySchema = z.object({
+  page: z.string().regex(/^[1-9]\d*$/, 'Page must be a positive integer').optional(),
+  limit: z.string().regex(/^[1-9]\d*$/, 'Limit must be a positive integer')
+    .refine((value) => Number(value) <= 100, 'Limit cannot exceed 100').optional(),
+  eventType: z.enum(['joined', 'left', 'rejoined', 'rank_changed', 'renamed', 'level_milestone']).optional(),
+});
+
+// Gear audit query (?rosterId= limits the audit to one roster)
+export const guildGearAuditQuerySchema = z.object({
+  rosterId: z.string().regex(/^[1-9]\d*$/, 'Roster ID must be a positive integer').optional(),
+});
+
+// Crafting directory search and filters
+export const guildProfessionsQuerySchema = z.object({
+  search: z.string().max(100, 'Search cannot exceed 100 characters').optional(),
+  professionId: z.string().regex(/^[1-9]\d*$/, 'Profession ID must be a positive integer').optional(),
+  expansion: z.string().max(100, 'Expansion cannot exceed 100 characters').optional(),
+});
@@ -0,0 +1,136 @@
+import {
+  CreateAbsenceRequest,
+  CreateAbsenceResult,
+  GuildMemberAbsence,
+  GuildWeekAbsences,
+  MemberAbsence,
+} from "../../../shared/types/api/absence.js";
+import { DbMemberAbsence } from "../../../shared/types/db/models/member.js";
+import { TrackedClient } from "../db/db-types.js";
+import memberAbsenceModel from "../models/member_absence.model.js";
+import { addDays, daysBetween, startOfWeek } from "../utils/recurrence.js";
+import { withTransaction } from "../utils/transaction.js";
+import { saveEventSubscription } from "./event-subscription.service.js";
+
+const MAX_ABSENCE_DAYS = 366;
+
+// Helper function to map a member_absences row to the API shape
+const mapDbRowToMemberAbsence = (row: DbMemberAbsence): MemberAbsence => ({
+  id: row.id,
+  userId: row.user_id,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  reason: row.reason,
+});
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * Returns why an absence cannot be saved, or null if it is valid.
+ */
+export const findInvalidAbsence = (
+  input: CreateAbsenceRequest,
+): string | null => {
+  const days = daysBetween(input.startDate, input.endDate) + 1;
+  if (days < 1) {
+    return "The last day away cannot be before the first day.";
+  }
+  if (days > MAX_ABSENCE_DAYS) {
+    return "An absence cannot last more than a year.";
+  }
+  if (input.endDate < today()) {
+    return "The absence is already over.";
+  }
+  return null;
+};
+
+/**
+ * Absences of a user that are not over yet, earliest first.
+ */
+export const listAbsences = async (userId: number): Promise<MemberAbsence[]> =>
+  (await memberAbsenceModel.findByUserIdFrom(userId, today()))
+    .map(mapDbRowToMemberAbsence);
+
+/**
+ * Records an absence and declines the user's sign-ups for events that start
+ * during it, which hands their seats to the waitlist. Both happen in one
+ * transaction so a failure leaves no sign-up half declined.
+ */
+export const createAbsence = async (
+  userId: number,
+  input: CreateAbsenceRequest,
+): Promise<CreateAbsenceResult> =>
+  withTransaction(async (client) => {
+    const absence = await memberAbsenceModel.createAbsence({
+      user_id: userId,
+      start_date: input.startDate,
+      end_date: input.endDate,
+      reason: input.reason?.trim() || null,
+    }, client);
+
+    const signups = await memberAbsenceModel.findUpcomingSignupsBetween(
+      userId,
+      absence.start_date,
+      absence.end_date,
+      client,
+    );
+    for (const signup of signups) {
+      await saveEventSubscription(
+        signup.event_id,
+        userId,
+        signup.character_id,
+        "Declined",
+        client,
+      );
+    }
+
+    return {
+      absence: mapDbRowToMemberAbsence(absence),
+      declinedEventIds: signups.map((signup) => signup.event_id),
+    };
+  });
+
+/**
+ * Signs up guild members who are away when new events start as Declined,
+ * so events created or generated during an absence show them as unavailable.
+ */
+export const declineAbsentMembers = (
+  eventIds: number[],
+  client?: TrackedClient,
+): Promise<number> => memberAbsenceModel.declineAbsentMembers(eventIds, client);
+
+/**
+ * Removes an absence of a user. Declined sign-ups stay declined.
+ * Returns false if the user has no such absence.
+ */
+export const deleteAbsence = (
+  userId: number,
+  absenceId: number,
+): Promise<boolean> => memberAbsenceModel.deleteForUser(absenceId, userId);
+
+/**
+ * Who in a guild is away on at least one day of the week a date falls in.
+ */
+export const getGuildWeekAbsences = async (
+  guildId: number,
+  date: string,
+): Promise<GuildWeekAbsences> => {
+  const weekStart = startOfWeek(date);
+  const weekEnd = addDays(weekStart, 6);
+  const rows = await memberAbsenceModel.findForGuildBetween(
+    guildId,
+    weekStart,
+    weekEnd,
+  );
+
+  return {
+    guildId,
+    weekStart,
+    weekEnd,
+    absences: rows.map((row): GuildMemberAbsence => ({
+      ...mapDbRowToMemberAbsence(row),
+      battletag: row.battletag,
+      characterNames: row.character_names,
+    })),
+  };
+};
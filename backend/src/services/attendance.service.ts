@@ -0,0 +1,151 @@
+import {
+  AttendanceStatus,
+  CharacterAttendance,
+  EventAttendance,
+  GuildAttendanceReport,
+  MainAttendance,
+  RecordAttendanceRequest,
+} from "../../../shared/types/api/attendance.js";
+import * as characterModelModule from "../models/character.model.js";
+import eventModel from "../models/event.model.js";
+import eventAttendanceModel from "../models/event_attendance.model.js";
+import * as guildMemberModelModule from "../models/guild_member.model.js";
+import {
+  AttendanceRecord,
+  bestRecordPerEvent,
+  summarizeAttendance,
+} from "../utils/attendance.js";
+import { CharacterClassificationService } from "./character-classification.service.js";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const characterClassificationService = new CharacterClassificationService(
+  characterModelModule,
+  guildMemberModelModule,
+);
+
+/**
+ * The attendance sheet of an event. Returns null if the event does not exist.
+ */
+export const getEventAttendance = async (
+  eventId: number,
+): Promise<EventAttendance | null> => {
+  const event = await eventModel.findById(eventId);
+  if (!event) {
+    return null;
+  }
+
+  const rows = await eventAttendanceModel.findSheetByEventId(eventId);
+  return {
+    eventId,
+    canRecord: new Date(event.start_time).getTime() <= Date.now(),
+    entries: rows.map((row) => ({
+      characterId: row.character_id,
+      characterName: row.character_name,
+      characterClass: row.character_class,
+      characterRole: row.character_role ?? null,
+      userId: row.user_id,
+      status: row.status as AttendanceStatus | null,
+      note: row.note,
+      onAbsence: row.on_absence,
+    })),
+  };
+};
+
+/**
+ * Returns why attendance records cannot be saved, or null if they are valid.
+ * Only characters on the sheet (confirmed sign-ups or earlier records) can be recorded.
+ */
+export const findInvalidRecord = (
+  attendance: EventAttendance,
+  records: RecordAttendanceRequest["records"],
+): string | null => {
+  if (!attendance.canRecord) {
+    return "Attendance can only be recorded once the event has started.";
+  }
+  const characterIds = new Set(attendance.entries.map((e) => e.characterId));
+  const unknown = records.find((record) => !characterIds.has(record.characterId));
+  return unknown
+    ? `Character ${unknown.characterId} did not confirm for this event.`
+    : null;
+};
+
+export const recordEventAttendance = (
+  eventId: number,
+  records: RecordAttendanceRequest["records"],
+  userId: number,
+): Promise<void> =>
+  eventAttendanceModel.upsertRecords(
+    eventId,
+    records.map((record) => ({
+      character_id: record.characterId,
+      status: record.status,
+      note: record.note ?? null,
+    })),
+    userId,
+  );
+
+/**
+ * Attendance percentage per character and per main (main plus alts) over the
+ * last `weeks` weeks of a guild's events.
+ */
+export const getGuildAttendanceReport = async (
+  guildId: number,
+  weeks: number,
+): Promise<GuildAttendanceReport> => {
+  const now = new Date();
+  const since = new Date(now.getTime() - weeks * WEEK_MS);
+
+  const [rows, members] = await Promise.all([
+    eventAttendanceModel.findByGuildIdBetween(guildId, since, now),
+    characterClassificationService.getClassifiedGuildMembers(guildId),
+  ]);
+
+  const recordsByCharacter = new Map<number, AttendanceRecord[]>();
+  rows.forEach((row) => {
+    const records = recordsByCharacter.get(row.character_id) ?? [];
+    records.push({ event_id: row.event_id, status: row.status as AttendanceStatus });
+    recordsByCharacter.set(row.character_id, records);
+  });
+
+  const characters: CharacterAttendance[] = [...recordsByCharacter.entries()]
+    .map(([characterId, records]) => ({
+      characterId,
+      ...summarizeAttendance(records),
+    }));
+
+  // Characters that left the guild count as their own main
+  const mainOf = new Map<number, number>(
+    members.map((member) => [
+      member.character_id,
+      member.mainCharacterId ?? member.character_id,
+    ]),
+  );
+  const characterIdsByMain = new Map<number, number[]>();
+  recordsByCharacter.forEach((_, characterId) => {
+    const mainId = mainOf.get(characterId) ?? characterId;
+    characterIdsByMain.set(mainId, [
+      ...(characterIdsByMain.get(mainId) ?? []),
+      characterId,
+    ]);
+  });
+
+  const mains: MainAttendance[] = [...characterIdsByMain.entries()]
+    .map(([mainCharacterId, characterIds]) => ({
+      mainCharacterId,
+      characterIds,
+      ...summarizeAttendance(
+        bestRecordPerEvent(
+          characterIds.flatMap((id) => recordsByCharacter.get(id) ?? []),
+        ),
+      ),
+    }));
+
+  return {
+    guildId,
+    weeks,
+    since: since.toISOString(),
+    characters,
+    mains,
+  };
+};
@@ -0,0 +1,117 @@
+import {
+  AuditAction,
+  AuditLogEntry,
+  AuditLogPage,
+  AuditLogQuery,
+  AuditTargetType,
+} from "../../../shared/types/api/audit.js";
+import { DbAuditLogEntry } from "../../../shared/types/db/models/audit.js";
+import auditLogModel from "../models/audit_log.model.js";
+import { AuditSnapshot, diffSnapshots } from "../utils/audit-diff.js";
+import logger from "../utils/logger.js";
+
+/**
+ * An officer action to record
+ */
+export interface AuditRecord {
+  guildId: number | null;
+  actorId: number;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: number | string | null;
+  targetLabel?: string | null;
+  before?: object | null; // Null or left out when the target was created
+  after?: object | null;  // Null or left out when the target was deleted
+}
+
+// Helper function to map an audit_log row to the API shape
+const mapDbRowToAuditLogEntry = (
+  row: DbAuditLogEntry,
+  battletags: Map<number, string>,
+): AuditLogEntry => ({
+  id: row.id,
+  guildId: row.guild_id,
+  actorId: row.actor_id,
+  actorBattletag: row.actor_id === null
+    ? null
+    : battletags.get(row.actor_id) ?? null,
+  action: row.action as AuditAction,
+  targetType: row.target_type as AuditTargetType,
+  targetId: row.target_id,
+  targetLabel: row.target_label,
+  before: row.before,
+  after: row.after,
+  createdAt: new Date(row.created_at).toISOString(),
+});
+
+/**
+ * Records an officer action with the fields it changed. Edits that change
+ * nothing are skipped. A failure is logged and never fails the action itself,
+ * which has already happened by the time it is recorded.
+ */
+export const recordAudit = async (
+  record: AuditRecord,
+  client?: any,
+): Promise<void> => {
+  try {
+    const diff = diffSnapshots(
+      (record.before ?? null) as AuditSnapshot | null,
+      (record.after ?? null) as AuditSnapshot | null,
+    );
+    if (!diff) {
+      return;
+    }
+
+    await auditLogModel.createEntry({
+      guild_id: record.guildId,
+      actor_id: record.actorId,
+      action: record.action,
+      target_type: record.targetType,
+      target_id: record.targetId == null ? null : String(record.targetId),
+      target_label: record.targetLabel?.slice(0, 200) ?? null,
+      before: diff.before,
+      after: diff.after,
+    }, client);
+  } catch (error) {
+    logger.error(
+      { err: error, action: record.action, guildId: record.guildId },
+      "[Audit] Failed to record audit log entry",
+    );
+  }
+};
+
+/**
+ * One page of a guild's audit log, newest first.
+ */
+export const getGuildAuditLog = async (
+  guildId: number,
+  query: AuditLogQuery,
+): Promise<AuditLogPage> => {
+  const result = await auditLogModel.findPageForGuild(
+    guildId,
+    {
+      action: query.action,
+      actor_id: query.actorId,
+      target_type: query.targetType,
+    },
+    query.page ?? 1,
+    query.limit ?? 25,
+  );
+
+  const actorIds = [
+    ...new Set(
+      result.data
+        .map((row) => row.actor_id)
+        .filter((id): id is number => id !== null),
+    ),
+  ];
+  const battletags = await auditLogModel.findActorBattletags(actorIds);
+
+  return {
+    entries: result.data.map((row) => mapDbRowToAuditLogEntry(row, battletags)),
+    total: result.total,
+    page: result.page,
+    limit: result.limit,
+    totalPages: result.totalPages,
+  };
+};
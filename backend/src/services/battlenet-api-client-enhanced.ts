@@ -12,7 +12,12 @@ import { AppError } from "../utils/error-handler.js";
 import { ErrorCode } from "../../../shared/types/utils/errors.js";
 import {
   BattleNetApiErrorContext,
+  BattleNetMythicKeystoneBestRun,
+  BattleNetRaidKill,
+  ConditionalFetchResult,
+  ConditionalResponse,
   HttpClient,
+  ResourceValidatorStore,
   createBattleNetErrorDetail,
   mapHttpStatusToErrorCode,
 } from "../types/battlenet-api.types.js";
@@ -31,6 +36,7 @@ import * as Adapter from '../types/battlenet-api-adapter.js';
 // Import enhanced character data type
 import { EnhancedCharacterData } from "../types/enhanced-character.js";
 import { TokenResponse } from "../../../shared/types/auth.js";
+import { BattleNetGuild, BattleNetGuildRoster } from "../../../shared/types/guild.js";
 import config from "../config/index.js";
 import {
   BattleNetRegion,
@@ -42,6 +48,8 @@ import logger from "../utils/logger.js";
 import axios from "axios";
 import { process } from "../utils/import-fixes.js";
 import { AxiosHttpClient } from "./http-client.js";
+import battlenetResourceValidatorModel from "../models/battlenet_resource_validator.model.js";
+import { BattleNetResourceType } from "../../../shared/types/db/models/sync.js";
 
 // --- Rate Limiter Configuration ---
 const BNET_MAX_CONCURRENT = parseInt(
@@ -58,6 +66,7 @@ export class BattleNetApiClientEnhanced {
   private apiClientToken: string | null = null;
   private tokenExpiry: Date | null = null;
   private httpClient: HttpClient;
+  private validatorStore: ResourceValidatorStore;
 
   // Initialize the rate limiter instance
   private limiter = new Bottleneck({
@@ -68,8 +77,9 @@ export class BattleNetApiClientEnhanced {
     minTime: BNET_MIN_TIME_MS,
   });
 
-  constructor(httpClient?: HttpClient) {
+  constructor(httpClient?: HttpClient, validatorStore?: ResourceValidatorStore) {
     this.httpClient = httpClient || new AxiosHttpClient();
+    this.validatorStore = validatorStore || battlenetResourceValidatorModel;
 
     this.limiter.on("error", (error) => {
       logger.error({ err: error }, "[ApiClient Limiter Error]");
@@ -231,33 +241,9 @@ export class BattleNetApiClientEnhanced {
     try {
       // Schedule with retry and rate limiting
       const result = await this.scheduleWithRetry(jobId, apiCall);
-      
-      // Get the appropriate validator
-      const validator = validators[validatorType];
-      
-      // Validate response structure
-      const validationResult = validator(result);
-      
-      // Log validation details
-      if (!validationResult.isValid) {
-        const criticalFailures = validationResult.failures.filter(f => f.isCritical);
-        
-        logger.warn({
-          jobId,
-          validationType: validatorType,
-          isValid: validationResult.isValid,
-          hasCriticalFields: validationResult.hasCriticalFields,
-          failureCount: validationResult.failures.length,
-          criticalFailureCount: criticalFailures.length,
-          failures: validationResult.failures.map(f => `${f.path}: expected ${f.expected}, got ${f.received}`)
-        }, `[ApiClient] Validation ${validationResult.hasCriticalFields ? 'partially' : 'completely'} failed for ${validatorType}`);
-        
-        // If we don't have critical fields, throw an error
-        if (!validationResult.hasCriticalFields) {
-          throw new Error(`Invalid API response structure for ${validatorType}`);
-        }
-      }
-      
+
+      this.validateResponse(jobId, result, validatorType);
+
       // If we reach here, either validation passed or we have critical fields
       return result as T;
     } catch (error) {
@@ -265,6 +251,115 @@ export class BattleNetApiClientEnhanced {
     }
   }
 
+  /**
+   * Conditional variant of callApi: sends the stored validators and only
+   * validates the body when the resource actually changed.
+   */
+  private async callConditionalApi<T>(
+    jobId: string,
+    apiCall: () => Promise<ConditionalResponse<unknown>>,
+    validatorType: keyof typeof validators,
+    context: BattleNetApiErrorContext
+  ): Promise<ConditionalResponse<T>> {
+    try {
+      const response = await this.scheduleWithRetry(jobId, apiCall);
+
+      if (response.notModified) {
+        logger.debug({ jobId }, `[ApiClient] ${context.resourceType} ${context.resourceId} not modified (304)`);
+        return response;
+      }
+
+      this.validateResponse(jobId, response.data, validatorType);
+      return response as ConditionalResponse<T>;
+    } catch (error) {
+      this.handleApiError(error, { ...context, jobId });
+    }
+  }
+
+  /**
+   * Validates a response body, throwing only when critical fields are missing
+   */
+  private validateResponse(
+    jobId: string,
+    result: unknown,
+    validatorType: keyof typeof validators
+  ): void {
+    // Get the appropriate validator
+    const validator = validators[validatorType];
+    
+    // Validate response structure
+    const validationResult = validator(result);
+    
+    // Log validation details
+    if (!validationResult.isValid) {
+      const criticalFailures = validationResult.failures.filter(f => f.isCritical);
+      
+      logger.warn({
+        jobId,
+        validationType: validatorType,
+        isValid: validationResult.isValid,
+        hasCriticalFields: validationResult.hasCriticalFields,
+        failureCount: validationResult.failures.length,
+        criticalFailureCount: criticalFailures.length,
+        failures: validationResult.failures.map(f => `${f.path}: expected ${f.expected}, got ${f.received}`)
+      }, `[ApiClient] Validation ${validationResult.hasCriticalFields ? 'partially' : 'completely'} failed for ${validatorType}`);
+      
+      // If we don't have critical fields, throw an error
+      if (!validationResult.hasCriticalFields) {
+        throw new Error(`Invalid API response structure for ${validatorType}`);
+      }
+    }
+  }
+
+  /**
+   * Fetches a resource conditionally using its stored ETag / Last-Modified values.
+   * The new validators are only persisted when the caller commits them, which never throws.
+   */
+  private async fetchIfModified<T>(
+    resourceType: BattleNetResourceType,
+    resourceKey: string,
+    jobId: string,
+    url: string,
+    params: Record<string, string>,
+    token: string,
+    validatorType: keyof typeof validators,
+    context: BattleNetApiErrorContext
+  ): Promise<ConditionalFetchResult<T>> {
+    const storedValidators = await this.validatorStore.findValidators(resourceType, resourceKey);
+
+    const response = await this.callConditionalApi<T>(
+      jobId,
+      () => this.httpClient.getConditional(
+        url,
+        storedValidators,
+        params,
+        { Authorization: `Bearer ${token}` }
+      ),
+      validatorType,
+      context
+    );
+
+    if (response.notModified) {
+      return { notModified: true };
+    }
+
+    return {
+      notModified: false,
+      data: response.data,
+      commitValidators: async () => {
+        try {
+          await this.validatorStore.saveValidators(resourceType, resourceKey, response.validators);
+        } catch (error) {
+          // Losing validators only costs a full fetch next time
+          logger.warn(
+            { err: error, resourceType, resourceKey },
+            `[ApiClient] Failed to store validators for ${resourceType} ${resourceKey}`,
+          );
+        }
+      },
+    };
+  }
+
   /**
    * Ensures a valid client credentials token is available and returns it.
    */
@@ -429,6 +524,84 @@ export class BattleNetApiClientEnhanced {
     return Adapter.adaptReferenceGuildRoster(apiRoster);
   }
 
+  /**
+   * Conditional variant of getGuildData. Resolves to `notModified` when the
+   * guild is unchanged since the last committed fetch.
+   */
+  async getGuildDataIfModified(
+    realmSlug: string,
+    guildNameSlug: string,
+    region: BattleNetRegion,
+  ): Promise<ConditionalFetchResult<BattleNetGuild>> {
+    const validRegion = this._validateRegion(region);
+    const token = await this.ensureClientToken();
+    const jobId = `guild-${validRegion}-${realmSlug}-${guildNameSlug}`;
+
+    const regionConfig = config.battlenet.regions[validRegion];
+    const url = `${regionConfig.apiBaseUrl}/data/wow/guild/${realmSlug}/${
+      encodeURIComponent(guildNameSlug)
+    }`;
+
+    const result = await this.fetchIfModified<RefTypes.BattleNetGuildRef>(
+      'guild',
+      `${validRegion}/${realmSlug}/${guildNameSlug}`,
+      jobId,
+      url,
+      { namespace: `profile-${validRegion}`, locale: "en_US" },
+      token,
+      'guild',
+      {
+        operation: 'fetch',
+        resourceType: 'guild',
+        resourceId: `${realmSlug}/${guildNameSlug}`,
+        region: validRegion
+      }
+    );
+
+    return result.notModified
+      ? result
+      : { ...result, data: Adapter.adaptReferenceGuild(result.data) };
+  }
+
+  /**
+   * Conditional variant of getGuildRoster. Resolves to `notModified` when the
+   * roster is unchanged since the last committed fetch.
+   */
+  async getGuildRosterIfModified(
+    region: BattleNetRegion,
+    realmSlug: string,
+    guildNameSlug: string,
+  ): Promise<ConditionalFetchResult<BattleNetGuildRoster>> {
+    const validRegion = this._validateRegion(region);
+    const token = await this.ensureClientToken();
+    const jobId = `roster-${validRegion}-${realmSlug}-${guildNameSlug}`;
+
+    const regionConfig = config.battlenet.regions[validRegion];
+    const url = `${regionConfig.apiBaseUrl}/data/wow/guild/${realmSlug}/${
+      encodeURIComponent(guildNameSlug)
+    }/roster`;
+
+    const result = await this.fetchIfModified<RefTypes.BattleNetGuildRosterRef>(
+      'guild_roster',
+      `${validRegion}/${realmSlug}/${guildNameSlug}`,
+      jobId,
+      url,
+      { namespace: `profile-${validRegion}`, locale: "en_US" },
+      token,
+      'guildRoster',
+      {
+        operation: 'fetch',
+        resourceType: 'guild_roster',
+        resourceId: `${realmSlug}/${guildNameSlug}`,
+        region: validRegion
+      }
+    );
+
+    return result.notModified
+      ? result
+      : { ...result, data: Adapter.adaptReferenceGuildRoster(result.data) };
+  }
+
   async getCharacter(
     realmSlug: string,
     characterNameLower: string,
@@ -469,6 +642,75 @@ export class BattleNetApiClientEnhanced {
     realmSlug: string,
     characterNameLower: string,
     region: BattleNetRegion,
+  ): Promise<EnhancedCharacterData | null> {
+    return this.fetchEnhancedCharacterData(realmSlug, characterNameLower, region);
+  }
+
+  /**
+   * Conditional variant of getEnhancedCharacterData.
+   * The character profile acts as the gate: Battle.net refreshes all profile
+   * sub-resources together, so a 304 on the profile skips the equipment,
+   * mythic keystone and professions requests entirely.
+   */
+  async getEnhancedCharacterDataIfModified(
+    realmSlug: string,
+    characterNameLower: string,
+    region: BattleNetRegion,
+  ): Promise<ConditionalFetchResult<EnhancedCharacterData | null>> {
+    const validRegion = this._validateRegion(region);
+    const token = await this.ensureClientToken();
+    const baseJobId = `char-${validRegion}-${realmSlug}-${characterNameLower}`;
+
+    let profileResult: ConditionalFetchResult<RefTypes.BattleNetCharacterRef>;
+    try {
+      profileResult = await this.fetchIfModified<RefTypes.BattleNetCharacterRef>(
+        'character',
+        `${validRegion}/${realmSlug}/${characterNameLower}`,
+        `${baseJobId}-profile`,
+        `${config.battlenet.regions[validRegion].apiBaseUrl}/profile/wow/character/${
+          encodeURIComponent(realmSlug)
+        }/${encodeURIComponent(characterNameLower)}`,
+        { namespace: `profile-${validRegion}`, locale: "en_US" },
+        token,
+        'character',
+        {
+          operation: 'fetch',
+          resourceType: 'character',
+          resourceId: `${realmSlug}/${characterNameLower}`,
+          region: validRegion
+        }
+      );
+    } catch (error) {
+      // Same contract as getEnhancedCharacterData: a missing character resolves to null.
+      // fetchIfModified surfaces failures as AppError via handleApiError, not raw axios errors
+      if (error instanceof AppError && error.status === 404) {
+        return { notModified: false, data: null, commitValidators: async () => {} };
+      }
+      throw error;
+    }
+
+    if (profileResult.notModified) {
+      return profileResult;
+    }
+
+    const data = await this.fetchEnhancedCharacterData(
+      realmSlug,
+      characterNameLower,
+      region,
+      profileResult.data,
+    );
+    return { ...profileResult, data };
+  }
+
+  /**
+   * Fetches and assembles the full character payload.
+   * @param prefetchedProfile Profile already fetched by a conditional request, reused instead of fetching it again
+   */
+  private async fetchEnhancedCharacterData(
+    realmSlug: string,
+    characterNameLower: string,
+    region: BattleNetRegion,
+    prefetchedProfile?: RefTypes.BattleNetCharacterRef,
   ): Promise<EnhancedCharacterData | null> {
     const validRegion = this._validateRegion(region);
     const token = await this.ensureClientToken();
@@ -476,7 +718,7 @@ export class BattleNetApiClientEnhanced {
 
     try {
       // Prepare the API calls
-      const profileCall = () => this.callApi<RefTypes.BattleNetCharacterRef>(
+      const profileCall = () => prefetchedProfile ? Promise.resolve(prefetchedProfile) : this.callApi<RefTypes.BattleNetCharacterRef>(
         `${baseJobId}-profile`,
         () => this.httpClient.get(
           `${config.battlenet.regions[validRegion].apiBaseUrl}/profile/wow/character/${
@@ -781,6 +1023,87 @@ export class BattleNetApiClientEnhanced {
     );
   }
 
+  /**
+   * Fetches the raid bosses a character has killed, one entry per boss and difficulty.
+   * A character without any raid kill resolves to an empty list.
+   */
+  async getCharacterRaidEncounters(
+    realmSlug: string,
+    characterNameLower: string,
+    region: BattleNetRegion,
+  ): Promise<BattleNetRaidKill[]> {
+    const validRegion = this._validateRegion(region);
+    const token = await this.ensureClientToken();
+    const jobId = `char-raids-${validRegion}-${realmSlug}-${characterNameLower}`;
+
+    const regionConfig = config.battlenet.regions[validRegion];
+    const url = `${regionConfig.apiBaseUrl}/profile/wow/character/${
+      encodeURIComponent(realmSlug)
+    }/${encodeURIComponent(characterNameLower)}/encounters/raids`;
+
+    const encounters = await this.callApi<RefTypes.BattleNetRaidEncountersRef>(
+      jobId,
+      () => this.httpClient.get(
+        url,
+        {
+          namespace: `profile-${validRegion}`,
+          locale: "en_US",
+        },
+        { Authorization: `Bearer ${token}` }
+      ),
+      'raidEncounters',
+      {
+        operation: 'fetch',
+        resourceType: 'character_raid_encounters',
+        resourceId: `${realmSlug}/${characterNameLower}`,
+        region: validRegion
+      }
+    );
+
+    return Adapter.adaptReferenceRaidEncounters(encounters);
+  }
+
+  /**
+   * Fetches a character's best run per dungeon in the given Mythic+ season.
+   * A character without a run that season resolves to an empty list.
+   */
+  async getCharacterMythicKeystoneSeason(
+    realmSlug: string,
+    characterNameLower: string,
+    region: BattleNetRegion,
+    seasonId: number,
+  ): Promise<BattleNetMythicKeystoneBestRun[]> {
+    const validRegion = this._validateRegion(region);
+    const token = await this.ensureClientToken();
+    const jobId = `char-mythic-season-${validRegion}-${realmSlug}-${characterNameLower}-${seasonId}`;
+
+    const regionConfig = config.battlenet.regions[validRegion];
+    const url = `${regionConfig.apiBaseUrl}/profile/wow/character/${
+      encodeURIComponent(realmSlug)
+    }/${encodeURIComponent(characterNameLower)}/mythic-keystone-profile/season/${seasonId}`;
+
+    const season = await this.callApi<RefTypes.BattleNetMythicKeystoneSeasonRef>(
+      jobId,
+      () => this.httpClient.get(
+        url,
+        {
+          namespace: `profile-${validRegion}`,
+          locale: "en_US",
+        },
+        { Authorization: `Bearer ${token}` }
+      ),
+      'mythicKeystoneSeason',
+      {
+        operation: 'fetch',
+        resourceType: 'character_mythic_keystone_season',
+        resourceId: `${realmSlug}/${characterNameLower}/${seasonId}`,
+        region: validRegion
+      }
+    );
+
+    return Adapter.adaptReferenceMythicKeystoneSeason(season);
+  }
+
   /**
    * Constructs the Battle.net OAuth2 authorization URL.
    */
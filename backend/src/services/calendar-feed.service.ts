@@ -0,0 +1,192 @@
+import crypto from "crypto";
+import { CalendarFeed } from "../../../shared/types/api/calendar.js";
+import {
+  DbCalendarFeedToken,
+  DbEventCancellation,
+} from "../../../shared/types/db/models/calendar.js";
+import type { Event } from "../../../shared/types/models/event.js";
+import config from "../config/index.js";
+import db from "../db/db.js";
+import calendarFeedTokenModel from "../models/calendar_feed_token.model.js";
+import eventModel from "../models/event.model.js";
+import eventCancellationModel from "../models/event_cancellation.model.js";
+import guildModel from "../models/guild.model.js";
+import subscriptionModel from "../models/subscription.model.js";
+import { buildIcsCalendar, IcsEvent, IcsEventStatus } from "../utils/ical.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Past events older than this are left out of feeds to keep them small
+const PAST_EVENT_DAYS = 90;
+// How long a deleted event stays in feeds as STATUS:CANCELLED
+const CANCELLATION_RETENTION_DAYS = 30;
+
+// Feed tokens are stored as SHA-256 hashes, like Discord link tokens
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const uidDomain = (): string => {
+  try {
+    return new URL(config.server.frontendUrl).hostname;
+  } catch {
+    return "wow-guild-manager";
+  }
+};
+
+// Stable per event, so edits replace the calendar entry instead of duplicating it
+const eventUid = (eventId: number): string => `event-${eventId}@${uidDomain()}`;
+
+const eventUrl = (eventId: number): string =>
+  `${config.server.frontendUrl}/event/${eventId}`;
+
+const mapDbRowToCalendarFeed = (row: DbCalendarFeedToken): CalendarFeed => ({
+  id: row.id,
+  guildId: row.guild_id,
+  createdAt: new Date(row.created_at).toISOString(),
+  lastUsedAt: row.last_used_at ? new Date(row.last_used_at).toISOString() : null,
+});
+
+const toIcsEvent = (event: Event, status: IcsEventStatus): IcsEvent => ({
+  uid: eventUid(event.id),
+  start: event.start_time,
+  end: event.end_time,
+  summary: event.title,
+  description: event.description,
+  url: eventUrl(event.id),
+  categories: event.event_type ? [event.event_type] : undefined,
+  status,
+  sequence: event.ical_sequence ?? 0,
+  lastModified: event.updated_at ?? event.created_at ?? event.start_time,
+});
+
+const cancellationToIcsEvent = (row: DbEventCancellation): IcsEvent => ({
+  uid: eventUid(row.event_id),
+  start: row.start_time,
+  end: row.end_time,
+  summary: row.title,
+  description: row.description,
+  status: "CANCELLED",
+  sequence: row.ical_sequence,
+  lastModified: row.cancelled_at,
+});
+
+const isRecentEnough = (event: { end_time: string }): boolean =>
+  new Date(event.end_time).getTime() >= Date.now() - PAST_EVENT_DAYS * DAY_MS;
+
+const cancellationCutoff = (): Date =>
+  new Date(Date.now() - CANCELLATION_RETENTION_DAYS * DAY_MS);
+
+/**
+ * Whether the user has a character that is a current member of the guild.
+ */
+export const isGuildMember = async (
+  userId: number,
+  guildId: number,
+): Promise<boolean> => {
+  const result = await db.query(
+    `SELECT 1 FROM characters c
+     JOIN guild_members gm ON gm.character_id = c.id
+     WHERE c.user_id = $1 AND gm.guild_id = $2 AND gm.left_at IS NULL
+     LIMIT 1`,
+    [userId, guildId],
+  );
+  return (result.rowCount ?? 0) > 0;
+};
+
+/**
+ * Lists the calendar feeds of a user, without their secret tokens.
+ */
+export const listCalendarFeeds = async (
+  userId: number,
+): Promise<CalendarFeed[]> => {
+  const rows = await calendarFeedTokenModel.findByUserId(userId);
+  return rows.map(mapDbRowToCalendarFeed);
+};
+
+/**
+ * Creates a feed token, revoking the user's previous token for the same feed.
+ * Returns the feed and the raw token, which is not stored and cannot be shown again.
+ */
+export const createCalendarFeed = async (
+  userId: number,
+  guildId: number | null,
+): Promise<{ feed: CalendarFeed; token: string }> => {
+  const token = crypto.randomBytes(32).toString("hex");
+  const row = await calendarFeedTokenModel.replaceForUser(
+    userId,
+    guildId,
+    hashToken(token),
+  );
+  return { feed: mapDbRowToCalendarFeed(row), token };
+};
+
+/**
+ * Revokes a feed token of a user. Returns false if the user has no such feed.
+ */
+export const revokeCalendarFeed = (
+  userId: number,
+  feedId: number,
+): Promise<boolean> => calendarFeedTokenModel.deleteForUser(feedId, userId);
+
+/**
+ * Resolves a raw feed token. Returns null if it is unknown or was revoked.
+ */
+export const authenticateFeedToken = (
+  token: string,
+): Promise<DbCalendarFeedToken | null> =>
+  calendarFeedTokenModel.findAndTouch(hashToken(token));
+
+/**
+ * ICS feed of a guild's events, including events deleted in the last 30 days
+ * as cancelled. Returns null if the guild does not exist.
+ */
+export const buildGuildCalendar = async (
+  guildId: number,
+): Promise<string | null> => {
+  const guild = await guildModel.findById(guildId);
+  if (!guild) {
+    return null;
+  }
+
+  const events = (await eventModel.findByGuildId(guildId)).filter(isRecentEnough);
+  const cancellations = await eventCancellationModel.findByGuildIdSince(
+    guildId,
+    cancellationCutoff(),
+  );
+
+  return buildIcsCalendar({
+    name: `${guild.name} events`,
+    events: [
+      ...events.map((event) => toIcsEvent(event, "CONFIRMED")),
+      ...cancellations.map(cancellationToIcsEvent),
+    ],
+  });
+};
+
+/**
+ * ICS feed of the events a user signed up for. Declined sign-ups are left out,
+ * tentative ones are marked as such, and deleted events are listed as cancelled.
+ */
+export const buildUserCalendar = async (userId: number): Promise<string> => {
+  const signups = (await subscriptionModel.findEventsByUser(userId)).filter(
+    (signup) => signup.status !== "Declined",
+  );
+  const cancellations = await eventCancellationModel.findBySubscriberSince(
+    userId,
+    cancellationCutoff(),
+  );
+
+  const events = signups
+    .map((signup) => ({
+      event: signup as unknown as Event,
+      status: (signup.status === "Tentative" ? "TENTATIVE" : "CONFIRMED") as IcsEventStatus,
+    }))
+    .filter(({ event }) => isRecentEnough(event));
+
+  return buildIcsCalendar({
+    name: "My guild events",
+    events: [
+      ...events.map(({ event, status }) => toIcsEvent(event, status)),
+      ...cancellations.map(cancellationToIcsEvent),
+    ],
+  });
+};
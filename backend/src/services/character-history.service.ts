@@ -0,0 +1,43 @@
+import {
+  CharacterHistory,
+  CharacterSnapshot,
+} from "../../../shared/types/api/character-history.js";
+import { DbCharacterSnapshot } from "../../../shared/types/db/models/snapshot.js";
+import * as characterModel from "../models/character.model.js";
+import characterSnapshotModel from "../models/character_snapshot.model.js";
+import { snapshotDateDaysAgo } from "../utils/character-snapshots.js";
+
+// Helper function to map a character_snapshots row to the API shape
+const mapDbRowToCharacterSnapshot = (
+  row: DbCharacterSnapshot,
+): CharacterSnapshot => ({
+  date: row.snapshot_date,
+  level: row.level,
+  equippedItemLevel: row.equipped_item_level,
+  averageItemLevel: row.average_item_level,
+  mythicRating: row.mythic_rating === null ? null : Number(row.mythic_rating),
+  achievementPoints: row.achievement_points,
+});
+
+/**
+ * Daily snapshots of a character over the last `days` days, oldest first.
+ * Returns null if the character does not exist.
+ */
+export const getCharacterHistory = async (
+  characterId: number,
+  days: number,
+): Promise<CharacterHistory | null> => {
+  const character = await characterModel.findById(characterId);
+  if (!character) {
+    return null;
+  }
+
+  const rows = await characterSnapshotModel.findForCharacterSince(
+    characterId,
+    snapshotDateDaysAgo(days),
+  );
+  return {
+    characterId,
+    snapshots: rows.map(mapDbRowToCharacterSnapshot),
+  };
+};
@@ -0,0 +1,110 @@
+import {
+  EventLineup,
+  LineupAssignment,
+  LineupMember,
+  LineupSelection,
+} from "../../../shared/types/api/lineup.js";
+import { EventSubscriptionStatus } from "../../../shared/types/event.js";
+import eventModel from "../models/event.model.js";
+import eventLineupModel, {
+  LineupMemberRow,
+} from "../models/event_lineup.model.js";
+import { withTransaction } from "../utils/transaction.js";
+
+const mapRowToLineupMember = (row: LineupMemberRow): LineupMember => ({
+  subscriptionId: row.subscription_id,
+  userId: row.user_id,
+  battletag: row.battletag,
+  characterId: row.character_id,
+  characterName: row.character_name,
+  characterClass: row.character_class,
+  characterRole: row.character_role ?? null,
+  status: row.status as EventSubscriptionStatus,
+  waitlisted: row.waitlisted_at !== null,
+  selection: row.selection as LineupSelection | null,
+  groupNumber: row.group_number,
+});
+
+const hasUnpublishedChange = (row: LineupMemberRow): boolean =>
+  (row.selection ?? null) !== (row.published_selection ?? null) ||
+  (row.group_number ?? null) !== (row.published_group_number ?? null);
+
+/**
+ * The lineup editor's view of an event. Returns null if the event does not exist.
+ */
+export const getEventLineup = async (
+  eventId: number,
+): Promise<EventLineup | null> => {
+  const event = await eventModel.findById(eventId);
+  if (!event) {
+    return null;
+  }
+
+  const [rows, lineup] = await Promise.all([
+    eventLineupModel.findMembersByEventId(eventId),
+    eventLineupModel.findLineupByEventId(eventId),
+  ]);
+
+  return {
+    eventId,
+    publishedAt: lineup?.published_at
+      ? new Date(lineup.published_at).toISOString()
+      : null,
+    publishedBy: lineup?.published_by ?? null,
+    hasUnpublishedChanges: rows.some(hasUnpublishedChange),
+    members: rows.map(mapRowToLineupMember),
+  };
+};
+
+/**
+ * Returns why a set of picks cannot be saved, or null if it is valid.
+ * Picks must refer to sign-ups of the event, and declined players cannot be picked.
+ */
+export const findInvalidAssignment = (
+  members: LineupMember[],
+  assignments: LineupAssignment[],
+): string | null => {
+  const membersById = new Map(members.map((m) => [m.subscriptionId, m]));
+  for (const assignment of assignments) {
+    const member = membersById.get(assignment.subscriptionId);
+    if (!member) {
+      return `Sign-up ${assignment.subscriptionId} does not belong to this event.`;
+    }
+    if (assignment.selection !== null && member.status === "Declined") {
+      return `${member.characterName} declined and cannot be picked.`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Saves draft picks. Groups only apply to players who are "In".
+ * Participants do not see the changes until the lineup is published.
+ */
+export const saveEventLineup = async (
+  eventId: number,
+  assignments: LineupAssignment[],
+  userId: number,
+): Promise<void> => {
+  await eventLineupModel.upsertEntries(
+    eventId,
+    assignments.map((assignment) => ({
+      subscription_id: assignment.subscriptionId,
+      selection: assignment.selection,
+      group_number: assignment.selection === "In" ? assignment.groupNumber : null,
+    })),
+    userId,
+  );
+};
+
+/**
+ * Publishes the current draft picks of an event.
+ */
+export const publishEventLineup = async (
+  eventId: number,
+  userId: number,
+): Promise<void> => {
+  await withTransaction((client) =>
+    eventLineupModel.publish(eventId, userId, client)
+  );
+};
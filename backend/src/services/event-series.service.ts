@@ -0,0 +1,478 @@
+import process from "node:process";
+import {
+  DbEventSeries,
+} from "../../../shared/types/db/models/event.js";
+import type {
+  Event,
+  EventEditScope,
+  EventFormValues,
+  RecurrenceRule,
+} from "../../../shared/types/models/event.js";
+import { TrackedClient } from "../db/db-types.js";
+import eventModel from "../models/event.model.js";
+import eventSeriesModel from "../models/event_series.model.js";
+import {
+  addDays,
+  daysBetween,
+  enumerateOccurrenceDates,
+  toZonedDateTime,
+  zonedDateTimeToUtc,
+} from "../utils/recurrence.js";
+import { withTransaction } from "../utils/transaction.js";
+import { declineAbsentMembers } from "./absence.service.js";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SERIES_WEEKS_AHEAD = 4;
+
+// Event fields every occurrence inherits from its series
+const TEMPLATE_FIELDS = [
+  "title",
+  "description",
+  "event_type",
+  "max_participants",
+  "event_details",
+  "reminder_offsets_minutes",
+] as const;
+
+type TemplateValues = Partial<Pick<DbEventSeries, typeof TEMPLATE_FIELDS[number]>>;
+
+/**
+ * New wall-clock timing of a series after an edit moved one of its occurrences.
+ */
+interface SeriesTiming {
+  dayShift: number;
+  startTimeLocal: string;
+  durationMinutes: number;
+}
+
+export interface ScopedUpdateResult {
+  event: Event;
+  updatedEvents: Event[];
+}
+
+/**
+ * How far ahead occurrences are generated, from the EVENT_SERIES_WEEKS_AHEAD environment variable.
+ */
+export const getSeriesWeeksAhead = (): number => {
+  const weeks = parseInt(process.env.EVENT_SERIES_WEEKS_AHEAD || "", 10);
+  return Number.isInteger(weeks) && weeks > 0
+    ? weeks
+    : DEFAULT_SERIES_WEEKS_AHEAD;
+};
+
+export const getGenerationHorizon = (from: Date = new Date()): Date =>
+  new Date(from.getTime() + getSeriesWeeksAhead() * WEEK_MS);
+
+const pickTemplateValues = (values: Partial<EventFormValues>): TemplateValues => {
+  const template: TemplateValues = {};
+  for (const field of TEMPLATE_FIELDS) {
+    if (values[field] !== undefined) {
+      (template as Record<string, unknown>)[field] = values[field];
+    }
+  }
+  return template;
+};
+
+// Compares template values regardless of the key order of event_details
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value ?? null, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+        Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)),
+      )
+      : nested);
+
+/**
+ * A series edited away from its template stops following it, so later template
+ * edits cannot overwrite the change.
+ */
+const detachFromTemplate = (
+  series: DbEventSeries,
+  template: TemplateValues,
+  timing: SeriesTiming | null,
+): Partial<DbEventSeries> => {
+  if (!series.template_id) {
+    return {};
+  }
+  const changed = Object.entries(template).some(([field, value]) =>
+    stableStringify(value) !==
+      stableStringify(series[field as keyof TemplateValues])
+  ) || (timing !== null && timing.durationMinutes !== series.duration_minutes);
+  return changed ? { template_id: null } : {};
+};
+
+const shiftWeekdays = (weekdays: number[], dayShift: number): number[] =>
+  [...new Set(weekdays.map((day) => (((day + dayShift) % 7) + 7) % 7))]
+    .sort((a, b) => a - b);
+
+/**
+ * Creates the occurrences of a series that fall after its previous horizon and
+ * up to the new one. Occurrences in the past are never created, and occurrences
+ * deleted by hand are not brought back because the horizon only moves forward.
+ * Members away on the day of an occurrence are signed up for it as Declined.
+ */
+const generateOccurrences = async (
+  series: DbEventSeries,
+  horizon: Date,
+  client?: TrackedClient,
+): Promise<Event[]> => {
+  const lastDate = toZonedDateTime(horizon, series.timezone).date;
+  const previousHorizon = series.generated_until
+    ? new Date(series.generated_until).getTime()
+    : null;
+  const now = Date.now();
+
+  const occurrences: Partial<Event>[] = [];
+  for (const { date } of enumerateOccurrenceDates(series, lastDate)) {
+    const start = zonedDateTimeToUtc(date, series.start_time_local, series.timezone);
+    const startMs = start.getTime();
+    if (
+      startMs > horizon.getTime() ||
+      startMs < now ||
+      (previousHorizon !== null && startMs <= previousHorizon)
+    ) {
+      continue;
+    }
+    occurrences.push({
+      guild_id: series.guild_id,
+      created_by: series.created_by as number,
+      title: series.title,
+      description: series.description ?? "",
+      event_type: series.event_type,
+      max_participants: series.max_participants as number,
+      event_details: (series.event_details ?? {}) as Event["event_details"],
+      reminder_offsets_minutes: series.reminder_offsets_minutes,
+      start_time: start.toISOString(),
+      end_time: new Date(startMs + series.duration_minutes * 60000).toISOString(),
+      series_id: series.id,
+      series_occurrence_start: start.toISOString(),
+    });
+  }
+
+  const inserted = await eventModel.insertSeriesOccurrences(occurrences, client);
+  await declineAbsentMembers(inserted.map((event) => event.id), client);
+  await eventSeriesModel.updateSeries(
+    series.id,
+    { generated_until: horizon.toISOString() },
+    client,
+  );
+  return inserted;
+};
+
+/**
+ * Creates a recurring series from the first event's values and generates its
+ * occurrences. The start and end time of the event set the time of day and
+ * duration of every occurrence. A series created from a template follows later
+ * edits of the template. Returns the created occurrences, earliest first.
+ */
+export const createEventSeries = async (
+  values: EventFormValues,
+  recurrence: RecurrenceRule,
+  createdBy: number,
+  templateId: number | null = null,
+): Promise<Event[]> => {
+  const start = new Date(values.start_time);
+  const end = new Date(values.end_time);
+  const zoned = toZonedDateTime(start, recurrence.timezone);
+
+  return withTransaction(async (client) => {
+    const series = await eventSeriesModel.createSeries(
+      {
+        guild_id: values.guild_id,
+        created_by: createdBy,
+        title: values.title,
+        description: values.description ?? null,
+        event_type: values.event_type,
+        max_participants: values.max_participants ?? null,
+        event_details: values.event_details ?? {},
+        reminder_offsets_minutes: values.reminder_offsets_minutes ?? null,
+        timezone: recurrence.timezone,
+        start_date: zoned.date,
+        start_time_local: zoned.time,
+        duration_minutes: Math.round((end.getTime() - start.getTime()) / 60000),
+        weekdays: [...new Set(recurrence.weekdays)].sort((a, b) => a - b),
+        interval_weeks: recurrence.interval_weeks,
+        until_date: recurrence.until_date ?? null,
+        occurrence_count: recurrence.occurrence_count ?? null,
+        generated_until: null,
+        template_id: templateId,
+      },
+      client,
+    );
+
+    // A series that starts beyond the usual horizon still gets its first weeks right away
+    const horizon = getGenerationHorizon(
+      new Date(Math.max(Date.now(), start.getTime())),
+    );
+    return generateOccurrences(series, horizon, client);
+  });
+};
+
+/**
+ * Generates occurrences for every series that is behind the configured horizon.
+ * Returns the occurrences that were created.
+ */
+export const generateDueOccurrences = async (): Promise<Event[]> => {
+  const horizon = getGenerationHorizon();
+  const dueSeries = await eventSeriesModel.findDueForGeneration(horizon);
+
+  const created: Event[] = [];
+  for (const series of dueSeries) {
+    const occurrences = await withTransaction((client) =>
+      generateOccurrences(series, horizon, client)
+    );
+    created.push(...occurrences);
+  }
+  return created;
+};
+
+/**
+ * Works out how an edit of one occurrence moves the series: the number of days
+ * it moved, its new time of day and its new duration. Returns null if the edit
+ * does not touch the start or end time.
+ */
+const resolveSeriesTiming = (
+  series: DbEventSeries,
+  event: Event,
+  changes: Partial<EventFormValues>,
+): SeriesTiming | null => {
+  if (changes.start_time === undefined && changes.end_time === undefined) {
+    return null;
+  }
+  const start = new Date(changes.start_time ?? event.start_time);
+  const end = new Date(changes.end_time ?? event.end_time);
+  const scheduled = toZonedDateTime(
+    new Date(event.series_occurrence_start ?? event.start_time),
+    series.timezone,
+  );
+  const moved = toZonedDateTime(start, series.timezone);
+
+  return {
+    dayShift: daysBetween(scheduled.date, moved.date),
+    startTimeLocal: moved.time,
+    durationMinutes: Math.round((end.getTime() - start.getTime()) / 60000),
+  };
+};
+
+/**
+ * Applies template and timing changes to occurrences and moves them to a series.
+ * Occurrences edited on their own keep their values, except the one being edited.
+ */
+const applyToOccurrences = async (
+  client: TrackedClient,
+  occurrences: Event[],
+  targetSeries: DbEventSeries,
+  template: TemplateValues,
+  timing: SeriesTiming | null,
+  editedEventId: number,
+): Promise<Event[]> => {
+  if (occurrences.length === 0) {
+    return [];
+  }
+
+  // Clear the occurrence keys first so shifting them cannot collide with each other
+  if (timing) {
+    for (const occurrence of occurrences) {
+      await eventModel.updateWithClient(
+        occurrence.id,
+        { series_occurrence_start: null },
+        client,
+      );
+    }
+  }
+
+  const updated: Event[] = [];
+  for (const occurrence of occurrences) {
+    const values: Partial<Event> = { series_id: targetSeries.id };
+    const applyChanges = occurrence.id === editedEventId ||
+      !occurrence.is_series_exception;
+
+    if (timing) {
+      const scheduledDate = toZonedDateTime(
+        new Date(occurrence.series_occurrence_start ?? occurrence.start_time),
+        targetSeries.timezone,
+      ).date;
+      const start = zonedDateTimeToUtc(
+        addDays(scheduledDate, timing.dayShift),
+        timing.startTimeLocal,
+        targetSeries.timezone,
+      );
+      values.series_occurrence_start = start.toISOString();
+      if (applyChanges) {
+        values.start_time = start.toISOString();
+        values.end_time = new Date(
+          start.getTime() + timing.durationMinutes * 60000,
+        ).toISOString();
+      }
+    }
+    if (applyChanges) {
+      Object.assign(values, template, { is_series_exception: false });
+    }
+
+    updated.push(await eventModel.updateWithClient(occurrence.id, values, client));
+  }
+  return updated;
+};
+
+const applyTimingToSeries = (
+  series: DbEventSeries,
+  timing: SeriesTiming | null,
+): Partial<DbEventSeries> =>
+  timing
+    ? {
+      start_date: addDays(series.start_date, timing.dayShift),
+      until_date: series.until_date
+        ? addDays(series.until_date, timing.dayShift)
+        : null,
+      weekdays: shiftWeekdays(series.weekdays, timing.dayShift),
+      start_time_local: timing.startTimeLocal,
+      duration_minutes: timing.durationMinutes,
+    }
+    : {};
+
+/**
+ * "All": updates the series template and every occurrence that has not started yet.
+ */
+const updateAllOccurrences = async (
+  client: TrackedClient,
+  series: DbEventSeries,
+  event: Event,
+  changes: Partial<EventFormValues>,
+): Promise<Event[]> => {
+  const template = pickTemplateValues(changes);
+  const timing = resolveSeriesTiming(series, event, changes);
+  const updatedSeries = await eventSeriesModel.updateSeries(
+    series.id,
+    {
+      ...template,
+      ...applyTimingToSeries(series, timing),
+      ...detachFromTemplate(series, template, timing),
+    },
+    client,
+  );
+
+  const occurrences = (await eventModel.findSeriesOccurrencesFrom(
+    series.id,
+    new Date(0),
+    client,
+  )).filter((occurrence) =>
+    occurrence.id === event.id ||
+    new Date(occurrence.start_time).getTime() > Date.now()
+  );
+  return applyToOccurrences(
+    client,
+    occurrences,
+    updatedSeries,
+    template,
+    timing,
+    event.id,
+  );
+};
+
+/**
+ * "This and following": ends the series before the edited occurrence and
+ * continues it as a new series that carries the changes.
+ */
+const updateFollowingOccurrences = async (
+  client: TrackedClient,
+  series: DbEventSeries,
+  event: Event,
+  changes: Partial<EventFormValues>,
+): Promise<Event[]> => {
+  const pivotStart = new Date(event.series_occurrence_start ?? event.start_time);
+  const pivotDate = toZonedDateTime(pivotStart, series.timezone).date;
+  const pivotIndex = enumerateOccurrenceDates(series, pivotDate)
+    .find((occurrence) => occurrence.date === pivotDate)?.index ?? 0;
+
+  // Splitting at the first occurrence would leave an empty series behind
+  if (pivotIndex === 0) {
+    return updateAllOccurrences(client, series, event, changes);
+  }
+
+  const template = pickTemplateValues(changes);
+  const timing = resolveSeriesTiming(series, event, changes);
+  const continuedFrom = { ...series, start_date: pivotDate };
+  const {
+    id: _id,
+    created_at: _createdAt,
+    updated_at: _updatedAt,
+    ...seriesValues
+  } = series;
+
+  const newSeries = await eventSeriesModel.createSeries(
+    {
+      ...seriesValues,
+      ...template,
+      start_date: pivotDate,
+      occurrence_count: series.occurrence_count !== null
+        ? series.occurrence_count - pivotIndex
+        : null,
+      ...applyTimingToSeries(continuedFrom, timing),
+      ...detachFromTemplate(series, template, timing),
+    },
+    client,
+  );
+  await eventSeriesModel.updateSeries(
+    series.id,
+    {
+      until_date: addDays(pivotDate, -1),
+      occurrence_count: series.occurrence_count !== null ? pivotIndex : null,
+    },
+    client,
+  );
+
+  const occurrences = await eventModel.findSeriesOccurrencesFrom(
+    series.id,
+    pivotStart,
+    client,
+  );
+  return applyToOccurrences(
+    client,
+    occurrences,
+    newSeries,
+    template,
+    timing,
+    event.id,
+  );
+};
+
+/**
+ * Updates an event. For occurrences of a series the scope decides what else changes:
+ * - "this": only this occurrence, which then keeps its values on later series-wide edits
+ * - "following": this occurrence and every later one, split off into a new series
+ * - "all": every occurrence that has not started yet, and the series itself
+ * Returns the edited event and every event that changed.
+ */
+export const updateEventInScope = async (
+  event: Event,
+  changes: Partial<EventFormValues>,
+  scope: EventEditScope,
+): Promise<ScopedUpdateResult> => {
+  const updatedEvents = await withTransaction(async (client) => {
+    const series = event.series_id
+      ? await eventSeriesModel.findById(event.series_id)
+      : null;
+
+    if (!series || scope === "this") {
+      const values: Partial<Event> = { ...changes } as Partial<Event>;
+      if (series) {
+        values.is_series_exception = true;
+      }
+      if (Object.keys(values).length === 0) {
+        return [event];
+      }
+      return [await eventModel.updateWithClient(event.id, values, client)];
+    }
+    if (scope === "following") {
+      return updateFollowingOccurrences(client, series, event, changes);
+    }
+    return updateAllOccurrences(client, series, event, changes);
+  });
+
+  return {
+    event: updatedEvents.find((updated) => updated.id === event.id) ??
+      updatedEvents[0],
+    updatedEvents,
+  };
+};
@@ -0,0 +1,264 @@
+import {
+  EventComposition,
+  WaitlistEntry,
+} from "../../../shared/types/api/composition.js";
+import {
+  EventSubscription,
+  EventSubscriptionStatus,
+} from "../../../shared/types/event.js";
+import type { Event } from "../../../shared/types/models/event.js";
+import { TrackedClient } from "../db/db-types.js";
+import eventModel from "../models/event.model.js";
+import memberAbsenceModel from "../models/member_absence.model.js";
+import subscriptionModel from "../models/subscription.model.js";
+import { AppError } from "../utils/error-handler.js";
+import logger from "../utils/logger.js";
+import {
+  COMPOSITION_ROLES,
+  compositionLimitsOf,
+  countSeats,
+  hasFreeSeat,
+  selectPromotions,
+} from "../utils/signup-composition.js";
+import { withTransaction } from "../utils/transaction.js";
+
+export interface SaveEventSubscriptionResult {
+  subscription: EventSubscription;
+  created: boolean;
+  waitlistPosition: number | null; // 1-based, null when the sign-up has a seat
+  promoted: EventSubscription[]; // Other sign-ups that got a seat because of this change
+  declinedForAbsence: boolean; // Saved as Declined because the user is away that day
+}
+
+export interface RemoveEventSubscriptionResult {
+  subscription: EventSubscription;
+  promoted: EventSubscription[];
+}
+
+interface Promotion {
+  promoted: EventSubscription[];
+  waitlistIds: number[]; // Still waiting, in arrival order
+}
+
+const lockEvent = async (
+  eventId: number,
+  client: TrackedClient,
+): Promise<Event> => {
+  // Sign-ups of one event are placed one at a time, so two people cannot take the last seat
+  const event = await eventModel.findByIdForUpdate(eventId, client);
+  if (!event) {
+    throw new AppError("Event not found", 404);
+  }
+  return event;
+};
+
+/**
+ * Seats waitlisted Confirmed sign-ups in arrival order while slots are free.
+ * Must run inside the transaction holding the event lock.
+ */
+const promoteWaitlisted = async (
+  event: Event,
+  client: TrackedClient,
+): Promise<Promotion> => {
+  const rows = await subscriptionModel.findConfirmedSeating(event.id, client);
+  const seated = rows.filter((row) => row.waitlisted_at === null);
+  const waitlist = rows.filter((row) => row.waitlisted_at !== null);
+
+  const toPromote = selectPromotions(compositionLimitsOf(event), seated, waitlist);
+  const promoted = await subscriptionModel.clearWaitlisted(
+    toPromote.map((row) => row.id),
+    client,
+  );
+  if (promoted.length > 0) {
+    logger.info(
+      { eventId: event.id, subscriptionIds: promoted.map((row) => row.id) },
+      "[Signup] Promoted sign-ups from the waitlist",
+    );
+  }
+
+  const promotedIds = new Set(promoted.map((row) => row.id));
+  return {
+    promoted,
+    waitlistIds: waitlist
+      .filter((row) => !promotedIds.has(row.id))
+      .map((row) => row.id),
+  };
+};
+
+/**
+ * Body of saveEventSubscription, run inside the caller's transaction.
+ */
+const placeSubscription = async (
+  eventId: number,
+  userId: number,
+  characterId: number,
+  requestedStatus: EventSubscriptionStatus,
+  client: TrackedClient,
+): Promise<SaveEventSubscriptionResult> => {
+  const event = await lockEvent(eventId, client);
+  const declinedForAbsence = requestedStatus !== "Declined" &&
+    await memberAbsenceModel.isUserAwayAt(userId, event.start_time, client);
+  const status = declinedForAbsence ? "Declined" : requestedStatus;
+  const existingSubscription = await subscriptionModel.findByEventAndUser(
+    eventId,
+    userId,
+  );
+
+  const wasConfirmed = existingSubscription?.status === "Confirmed";
+  const wasSeated = wasConfirmed && !existingSubscription?.waitlisted_at;
+  // New Confirmed sign-ups queue up and are seated below if they fit
+  const waitlistedAt = status !== "Confirmed"
+    ? null
+    : (wasConfirmed && existingSubscription?.waitlisted_at) ||
+      new Date().toISOString();
+
+  let subscription = existingSubscription
+    ? await subscriptionModel.updateSubscription(
+      existingSubscription.id,
+      { character_id: characterId, status, waitlisted_at: waitlistedAt },
+      client,
+    )
+    : await subscriptionModel.createSubscription(
+      {
+        event_id: eventId,
+        user_id: userId,
+        character_id: characterId,
+        status,
+        waitlisted_at: waitlistedAt,
+      },
+      client,
+    );
+
+  if (wasSeated && status === "Confirmed") {
+    const rows = await subscriptionModel.findConfirmedSeating(eventId, client);
+    const self = rows.find((row) => row.id === subscription.id);
+    const others = rows.filter((row) =>
+      row.id !== subscription.id && row.waitlisted_at === null
+    );
+    if (self && hasFreeSeat(compositionLimitsOf(event), countSeats(others), self)) {
+      [subscription] = await subscriptionModel.clearWaitlisted(
+        [subscription.id],
+        client,
+      );
+    }
+  }
+
+  const { promoted, waitlistIds } = await promoteWaitlisted(event, client);
+  const seatedSelf = promoted.find((row) => row.id === subscription.id);
+  const position = waitlistIds.indexOf(subscription.id);
+
+  return {
+    subscription: seatedSelf ?? subscription,
+    created: !existingSubscription,
+    waitlistPosition: position === -1 ? null : position + 1,
+    promoted: promoted.filter((row) => row.id !== subscription.id),
+    declinedForAbsence,
+  };
+};
+
+/**
+ * Signs a user up for an event, or updates the character/status of their existing sign-up.
+ * Writes the same event_subscriptions row as POST /events/:eventId/subscribe.
+ *
+ * Confirmed sign-ups that do not fit the role slots or the participant cap go
+ * to the back of the waitlist. A seated sign-up keeps its seat while it still
+ * fits, and any seat it frees goes to the waitlist. Users away on the day the
+ * event starts are signed up as Declined whatever status they asked for.
+ * Runs in its own transaction unless one is passed in.
+ */
+export const saveEventSubscription = async (
+  eventId: number,
+  userId: number,
+  characterId: number,
+  requestedStatus: EventSubscriptionStatus,
+  client?: TrackedClient,
+): Promise<SaveEventSubscriptionResult> =>
+  client
+    ? placeSubscription(eventId, userId, characterId, requestedStatus, client)
+    : withTransaction((txClient) =>
+      placeSubscription(eventId, userId, characterId, requestedStatus, txClient)
+    );
+
+/**
+ * Removes a user's sign-up and hands any freed seat to the waitlist.
+ * Returns null if the user was not signed up.
+ */
+export const removeEventSubscription = async (
+  eventId: number,
+  userId: number,
+): Promise<RemoveEventSubscriptionResult | null> =>
+  withTransaction(async (client) => {
+    const event = await lockEvent(eventId, client);
+    const subscription = await subscriptionModel.findByEventAndUser(
+      eventId,
+      userId,
+    );
+    if (!subscription) {
+      return null;
+    }
+
+    await subscriptionModel.deleteSubscription(subscription.id, client);
+    const { promoted } = await promoteWaitlisted(event, client);
+    return { subscription, promoted };
+  });
+
+/**
+ * Seats waitlisted sign-ups after an event's cap or role slots changed.
+ */
+export const rebalanceEventSignups = async (
+  eventId: number,
+): Promise<EventSubscription[]> =>
+  withTransaction(async (client) => {
+    const event = await lockEvent(eventId, client);
+    const { promoted } = await promoteWaitlisted(event, client);
+    return promoted;
+  });
+
+/**
+ * Filled and required slots per role, and the waitlist in arrival order.
+ * Returns null if the event does not exist.
+ */
+export const getEventComposition = async (
+  eventId: number,
+): Promise<EventComposition | null> => {
+  const event = await eventModel.findById(eventId);
+  if (!event) {
+    return null;
+  }
+
+  const limits = compositionLimitsOf(event);
+  const confirmed = (await subscriptionModel.findByEventId(eventId)).filter(
+    (row) => row.status === "Confirmed",
+  );
+  const counts = countSeats(confirmed.filter((row) => !row.waitlisted_at));
+
+  const waitlist: WaitlistEntry[] = confirmed
+    .filter((row) => row.waitlisted_at)
+    .sort((a, b) =>
+      new Date(a.waitlisted_at!).getTime() -
+        new Date(b.waitlisted_at!).getTime() || a.id - b.id
+    )
+    .map((row, index) => ({
+      position: index + 1,
+      subscriptionId: row.id,
+      userId: row.user_id,
+      battletag: row.battletag,
+      characterId: row.character_id,
+      characterName: row.character_name,
+      characterClass: row.character_class,
+      characterRole: row.character_role ?? null,
+      waitlistedAt: new Date(row.waitlisted_at!).toISOString(),
+    }));
+
+  return {
+    eventId: event.id,
+    maxParticipants: limits.maxParticipants,
+    confirmed: counts.total,
+    slots: COMPOSITION_ROLES.map((role) => ({
+      role,
+      required: limits.required[role],
+      filled: counts.byRole[role],
+    })),
+    waitlist,
+  };
+};
@@ -0,0 +1,141 @@
+import {
+  EventTemplate,
+  SaveEventTemplateRequest,
+} from "../../../shared/types/api/template.js";
+import { DbEventTemplate } from "../../../shared/types/db/models/event.js";
+import type { EventDetails } from "../../../shared/types/models/event.js";
+import eventSeriesModel from "../models/event_series.model.js";
+import eventTemplateModel, {
+  EventTemplateValues,
+} from "../models/event_template.model.js";
+import { withTransaction } from "../utils/transaction.js";
+
+// Helper function to map an event_templates row to the API shape
+const mapDbRowToEventTemplate = (row: DbEventTemplate): EventTemplate => ({
+  id: row.id,
+  guildId: row.guild_id,
+  name: row.name,
+  title: row.title,
+  description: row.description ?? "",
+  eventType: row.event_type,
+  durationMinutes: row.duration_minutes,
+  maxParticipants: row.max_participants,
+  eventDetails: (row.event_details ?? {}) as EventDetails,
+  reminderOffsetsMinutes: row.reminder_offsets_minutes,
+  isDefault: row.is_default,
+  updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+});
+
+const toTemplateValues = (
+  input: SaveEventTemplateRequest,
+): EventTemplateValues => ({
+  name: input.name.trim(),
+  title: input.title,
+  description: input.description ?? null,
+  event_type: input.eventType,
+  duration_minutes: input.durationMinutes,
+  max_participants: input.maxParticipants ?? null,
+  event_details: input.eventDetails ?? {},
+  reminder_offsets_minutes: input.reminderOffsetsMinutes ?? null,
+  is_default: input.isDefault,
+});
+
+export const getEventTemplates = async (
+  guildId: number,
+): Promise<EventTemplate[]> =>
+  (await eventTemplateModel.findByGuildId(guildId)).map(mapDbRowToEventTemplate);
+
+/**
+ * A template of a guild, or null if the guild has no such template.
+ */
+export const findEventTemplate = (
+  guildId: number,
+  templateId: number,
+): Promise<DbEventTemplate | null> =>
+  eventTemplateModel.findByIdInGuild(templateId, guildId);
+
+/**
+ * Returns why a template cannot be saved, or null if it is valid.
+ * Template names are unique within a guild.
+ */
+export const findInvalidTemplate = async (
+  guildId: number,
+  input: SaveEventTemplateRequest,
+  templateId: number | null,
+): Promise<string | null> => {
+  const sameName = await eventTemplateModel.findOne({
+    guild_id: guildId,
+    name: input.name.trim(),
+  });
+  return sameName && sameName.id !== templateId
+    ? `A template named "${input.name.trim()}" already exists.`
+    : null;
+};
+
+/**
+ * Creates a template, or replaces one when templateId is given. Marking a
+ * template as default unmarks the previous default of its event type, and
+ * series created from the template pick up its new values for the
+ * occurrences generated from now on. Returns null if the template does not
+ * belong to the guild.
+ */
+export const saveEventTemplate = async (
+  guildId: number,
+  input: SaveEventTemplateRequest,
+  userId: number,
+  templateId: number | null = null,
+): Promise<EventTemplate | null> => {
+  if (templateId !== null && !(await findEventTemplate(guildId, templateId))) {
+    return null;
+  }
+  const values = toTemplateValues(input);
+
+  const row = await withTransaction(async (client) => {
+    if (values.is_default) {
+      await eventTemplateModel.clearDefault(
+        guildId,
+        values.event_type,
+        templateId,
+        client,
+      );
+    }
+    if (templateId === null) {
+      return eventTemplateModel.createTemplate(guildId, values, userId, client);
+    }
+
+    const updated = await eventTemplateModel.updateTemplate(
+      templateId,
+      values,
+      client,
+    );
+    await eventSeriesModel.applyTemplate(
+      templateId,
+      {
+        title: values.title,
+        description: values.description,
+        event_type: values.event_type,
+        max_participants: values.max_participants,
+        event_details: values.event_details,
+        reminder_offsets_minutes: values.reminder_offsets_minutes,
+        duration_minutes: values.duration_minutes,
+      },
+      client,
+    );
+    return updated;
+  });
+  return mapDbRowToEventTemplate(row);
+};
+
+/**
+ * Deletes a template. Series created from it keep their values.
+ * Returns false if the template does not belong to the guild.
+ */
+export const deleteEventTemplate = async (
+  guildId: number,
+  templateId: number,
+): Promise<boolean> => {
+  if (!(await findEventTemplate(guildId, templateId))) {
+    return false;
+  }
+  return eventTemplateModel.delete(templateId);
+};
@@ -0,0 +1,49 @@
+import {
+  CharacterGearAudit,
+  GuildGearAudit,
+} from "../../../shared/types/api/gear.js";
+import * as characterModel from "../models/character.model.js";
+import { auditEquipment } from "../utils/gear-audit.js";
+import { getRosterById } from "./roster.service.js";
+
+/**
+ * Gear audit of the guild's current members, or of one roster's members,
+ * most issues first. Returns null when the roster is not one of the guild's.
+ */
+export const getGuildGearAudit = async (
+  guildId: number,
+  rosterId?: number,
+): Promise<GuildGearAudit | null> => {
+  if (rosterId !== undefined) {
+    const roster = await getRosterById(rosterId);
+    if (!roster || roster.guildId !== guildId) {
+      return null;
+    }
+  }
+
+  const characters = await characterModel.findCurrentGuildMembers(
+    guildId,
+    rosterId,
+  );
+
+  const audits = characters.map((character): CharacterGearAudit => ({
+    characterId: character.id,
+    characterName: character.name,
+    characterClass: character.class,
+    realm: character.realm,
+    rank: character.rank,
+    hasEquipment: !!character.equipment_json?.equipped_items?.length,
+    ...auditEquipment(character.equipment_json),
+  }));
+
+  audits.sort((a, b) =>
+    b.issueCount - a.issueCount ||
+    a.characterName.localeCompare(b.characterName)
+  );
+
+  return {
+    guildId,
+    rosterId: rosterId ?? null,
+    characters: audits,
+  };
+};
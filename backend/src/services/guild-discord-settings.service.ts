@@ -0,0 +1,129 @@
+import process from "node:process";
+import {
+  GuildDiscordSettings,
+  UpdateGuildDiscordSettingsRequest,
+} from "../../../shared/types/api/discord.js";
+import {
+  DbGuildDiscordSettings,
+  ThreadAutoArchiveMinutes,
+} from "../../../shared/types/db/models/discord.js";
+import guildModel from "../models/guild.model.js";
+import guildDiscordSettingsModel from "../models/guild_discord_settings.model.js";
+
+export const DEFAULT_REMINDER_LEAD_TIMES_MINUTES = [1440]; // 24 hours before start
+export const DEFAULT_THREAD_AUTO_ARCHIVE_MINUTES: ThreadAutoArchiveMinutes = 1440;
+
+/**
+ * Discord settings that apply to one event, after falling back to defaults.
+ */
+export interface ResolvedDiscordSettings {
+  discordGuildId: string | null;
+  eventChannelId: string | null;
+  reminderLeadTimesMinutes: number[];
+  threadAutoArchiveMinutes: ThreadAutoArchiveMinutes;
+}
+
+// Helper function to map a guild_discord_settings row to the API shape
+const mapDbRowToGuildDiscordSettings = (
+  row: DbGuildDiscordSettings,
+): GuildDiscordSettings => ({
+  guildId: row.guild_id,
+  isConfigured: true,
+  discordGuildId: row.discord_guild_id,
+  eventChannelId: row.event_channel_id,
+  reminderLeadTimesMinutes: row.reminder_lead_times_minutes,
+  threadAutoArchiveMinutes: row.thread_auto_archive_minutes,
+  updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+});
+
+/**
+ * Returns the Discord settings of a guild, or the defaults if none were saved.
+ * Returns null if the guild does not exist.
+ */
+export const getGuildDiscordSettings = async (
+  guildId: number,
+): Promise<GuildDiscordSettings | null> => {
+  const guild = await guildModel.findById(guildId);
+  if (!guild) {
+    return null;
+  }
+
+  const row = await guildDiscordSettingsModel.findByGuildId(guildId);
+  if (row) {
+    return mapDbRowToGuildDiscordSettings(row);
+  }
+  return {
+    guildId,
+    isConfigured: false,
+    discordGuildId: null,
+    eventChannelId: null,
+    reminderLeadTimesMinutes: DEFAULT_REMINDER_LEAD_TIMES_MINUTES,
+    threadAutoArchiveMinutes: DEFAULT_THREAD_AUTO_ARCHIVE_MINUTES,
+    updatedAt: null,
+  };
+};
+
+/**
+ * Saves the Discord settings of a guild. Lead times are de-duplicated and sorted
+ * longest first. Returns null if the guild does not exist.
+ */
+export const saveGuildDiscordSettings = async (
+  guildId: number,
+  input: UpdateGuildDiscordSettingsRequest,
+): Promise<GuildDiscordSettings | null> => {
+  const guild = await guildModel.findById(guildId);
+  if (!guild) {
+    return null;
+  }
+
+  const row = await guildDiscordSettingsModel.upsertForGuild(guildId, {
+    discord_guild_id: input.discordGuildId,
+    event_channel_id: input.eventChannelId,
+    reminder_lead_times_minutes: [...new Set(input.reminderLeadTimesMinutes)]
+      .sort((a, b) => b - a),
+    thread_auto_archive_minutes: input.threadAutoArchiveMinutes,
+  });
+  return mapDbRowToGuildDiscordSettings(row);
+};
+
+/**
+ * Whether another guild has already linked this Discord server.
+ * A Discord server can only belong to one guild, otherwise any Guild Master could
+ * post events and register commands in a server they do not run.
+ */
+export const isDiscordServerClaimedByOtherGuild = (
+  discordGuildId: string,
+  guildId: number,
+): Promise<boolean> =>
+  guildDiscordSettingsModel.isDiscordGuildClaimedByOther(discordGuildId, guildId);
+
+/**
+ * Removes the Discord settings of a guild, reverting it to the defaults.
+ */
+export const deleteGuildDiscordSettings = (guildId: number): Promise<boolean> =>
+  guildDiscordSettingsModel.deleteByGuildId(guildId);
+
+/**
+ * Resolves the Discord settings for an event from its guild's configuration.
+ * Guilds that were never configured fall back to the DISCORD_GUILD_ID and
+ * DISCORD_EVENT_CHANNEL_ID environment variables of single-guild deployments.
+ */
+export const resolveEventDiscordSettings = async (
+  event: { guild_id: number },
+): Promise<ResolvedDiscordSettings> => {
+  const row = await guildDiscordSettingsModel.findByGuildId(event.guild_id);
+  if (row) {
+    return {
+      discordGuildId: row.discord_guild_id,
+      eventChannelId: row.event_channel_id,
+      reminderLeadTimesMinutes: row.reminder_lead_times_minutes,
+      threadAutoArchiveMinutes: row.thread_auto_archive_minutes,
+    };
+  }
+  return {
+    discordGuildId: process.env.DISCORD_GUILD_ID || null,
+    eventChannelId: process.env.DISCORD_EVENT_CHANNEL_ID || null,
+    reminderLeadTimesMinutes: DEFAULT_REMINDER_LEAD_TIMES_MINUTES,
+    threadAutoArchiveMinutes: DEFAULT_THREAD_AUTO_ARCHIVE_MINUTES,
+  };
+};
@@ -0,0 +1,65 @@
+import {
+  GuildMemberEvent,
+  GuildMemberEventPage,
+  GuildMemberEventQuery,
+  GuildMemberEventType,
+} from "../../../shared/types/api/member-event.js";
+import { DbQueryCondition } from "../../../shared/types/db.js";
+import { DbGuildMemberEvent } from "../../../shared/types/db/models/member-event.js";
+import guildMemberEventModel from "../models/guild_member_event.model.js";
+
+// Helper function to map a guild_member_events row to the API shape
+const mapDbRowToGuildMemberEvent = (
+  row: DbGuildMemberEvent,
+): GuildMemberEvent => ({
+  id: row.id,
+  guildId: row.guild_id,
+  characterId: row.character_id,
+  characterName: row.character_name,
+  realm: row.realm,
+  eventType: row.event_type as GuildMemberEventType,
+  oldValue: row.old_value,
+  newValue: row.new_value,
+  occurredAt: new Date(row.occurred_at).toISOString(),
+});
+
+const findEventPage = async (
+  conditions: DbQueryCondition<DbGuildMemberEvent>,
+  query: GuildMemberEventQuery,
+): Promise<GuildMemberEventPage> => {
+  if (query.eventType) {
+    conditions.event_type = query.eventType;
+  }
+  const result = await guildMemberEventModel.findPage(
+    conditions,
+    query.page ?? 1,
+    query.limit ?? 25,
+  );
+
+  return {
+    events: result.data.map(mapDbRowToGuildMemberEvent),
+    total: result.total,
+    page: result.page,
+    limit: result.limit,
+    totalPages: result.totalPages,
+  };
+};
+
+/**
+ * One page of a guild's member history, newest first.
+ */
+export const getGuildMemberEvents = (
+  guildId: number,
+  query: GuildMemberEventQuery,
+): Promise<GuildMemberEventPage> =>
+  findEventPage({ guild_id: guildId }, query);
+
+/**
+ * One page of a character's history within a guild, newest first.
+ */
+export const getCharacterMemberEvents = (
+  guildId: number,
+  characterId: number,
+  query: GuildMemberEventQuery,
+): Promise<GuildMemberEventPage> =>
+  findEventPage({ guild_id: guildId, character_id: characterId }, query);
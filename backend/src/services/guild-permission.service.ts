@@ -0,0 +1,164 @@
+import {
+  GuildPermissions,
+  RankPermissions,
+  UpdateGuildPermissionsRequest,
+} from "../../../shared/types/api/permission.js";
+import { GuildCapability } from "../../../shared/types/enums/guild.js";
+import guildRankPermissionModel from "../models/guild_rank_permission.model.js";
+import * as rankModel from "../models/rank.model.js";
+import { withTransaction } from "../utils/transaction.js";
+import { verifyGuildLeadership } from "./guild-leadership.service.js";
+
+const GUILD_MASTER_RANK = 0;
+const ALL_CAPABILITIES = Object.values(GuildCapability);
+
+// Keeps the stored order stable and drops values that are no longer capabilities
+const normalizeCapabilities = (values: string[]): GuildCapability[] =>
+  ALL_CAPABILITIES.filter((capability) => values.includes(capability));
+
+const hasGuildMasterAccess = async (
+  guildId: number,
+  userId: number,
+  rankIds: number[],
+): Promise<boolean> =>
+  rankIds.includes(GUILD_MASTER_RANK) ||
+  (await verifyGuildLeadership(guildId, userId));
+
+/**
+ * Whether the user leads the guild, either as its stored leader or through a
+ * character holding the guild master rank.
+ */
+export const isUserGuildMaster = async (
+  guildId: number,
+  userId: number,
+): Promise<boolean> =>
+  hasGuildMasterAccess(
+    guildId,
+    userId,
+    await guildRankPermissionModel.findUserRankIds(guildId, userId),
+  );
+
+/**
+ * What a user may manage in a guild: every capability for the guild master,
+ * otherwise the union of the capabilities of the ranks their characters hold.
+ */
+export const getUserGuildCapabilities = async (
+  guildId: number,
+  userId: number,
+): Promise<GuildCapability[]> => {
+  const rankIds = await guildRankPermissionModel.findUserRankIds(
+    guildId,
+    userId,
+  );
+  if (await hasGuildMasterAccess(guildId, userId, rankIds)) {
+    return ALL_CAPABILITIES;
+  }
+
+  const rows = await guildRankPermissionModel.findByGuildId(guildId);
+  const granted = rows
+    .filter((row) => rankIds.includes(row.rank_id))
+    .flatMap((row) => row.capabilities);
+  return normalizeCapabilities(granted);
+};
+
+export const hasGuildCapability = async (
+  guildId: number,
+  userId: number,
+  capability: GuildCapability,
+): Promise<boolean> =>
+  (await getUserGuildCapabilities(guildId, userId)).includes(capability);
+
+/**
+ * The rank → capabilities mapping of a guild, for every synced rank,
+ * along with what the current user may do.
+ */
+export const getGuildPermissions = async (
+  guildId: number,
+  userId: number,
+): Promise<GuildPermissions> => {
+  const [ranks, rows, rankIds] = await Promise.all([
+    rankModel.getGuildRanks(guildId),
+    guildRankPermissionModel.findByGuildId(guildId),
+    guildRankPermissionModel.findUserRankIds(guildId, userId),
+  ]);
+  const isGuildMaster = await hasGuildMasterAccess(guildId, userId, rankIds);
+
+  const rankPermissions = [...ranks]
+    .sort((a, b) => a.rank_id - b.rank_id)
+    .map((rank): RankPermissions => {
+      const isMasterRank = rank.rank_id === GUILD_MASTER_RANK;
+      const row = rows.find((r) => r.rank_id === rank.rank_id);
+      return {
+        rankId: rank.rank_id,
+        rankName: rank.rank_name,
+        isGuildMaster: isMasterRank,
+        capabilities: isMasterRank
+          ? ALL_CAPABILITIES
+          : normalizeCapabilities(row?.capabilities ?? []),
+      };
+    });
+
+  const myCapabilities = isGuildMaster
+    ? ALL_CAPABILITIES
+    : normalizeCapabilities(
+      rankPermissions
+        .filter((rank) => rankIds.includes(rank.rankId))
+        .flatMap((rank) => rank.capabilities),
+    );
+
+  return {
+    guildId,
+    ranks: rankPermissions,
+    myCapabilities,
+    isGuildMaster,
+  };
+};
+
+/**
+ * Returns why a permission mapping cannot be saved, or null if it is valid.
+ */
+export const findInvalidPermissions = async (
+  guildId: number,
+  input: UpdateGuildPermissionsRequest,
+): Promise<string | null> => {
+  const rankIds = input.ranks.map((rank) => rank.rankId);
+  if (new Set(rankIds).size !== rankIds.length) {
+    return "Each rank can only be listed once.";
+  }
+  if (rankIds.includes(GUILD_MASTER_RANK)) {
+    return "The guild master rank always has every permission.";
+  }
+
+  const known = (await rankModel.getGuildRanks(guildId)).map((rank) =>
+    rank.rank_id
+  );
+  const unknown = rankIds.find((rankId) => !known.includes(rankId));
+  if (unknown !== undefined) {
+    return `Rank ${unknown} does not exist in this guild.`;
+  }
+  return null;
+};
+
+/**
+ * Replaces the rank → capabilities mapping of a guild.
+ */
+export const updateGuildPermissions = async (
+  guildId: number,
+  input: UpdateGuildPermissionsRequest,
+  userId: number,
+): Promise<GuildPermissions> => {
+  await withTransaction((client) =>
+    guildRankPermissionModel.replaceForGuild(
+      guildId,
+      input.ranks
+        .map((rank) => ({
+          rank_id: rank.rankId,
+          capabilities: normalizeCapabilities(rank.capabilities),
+        }))
+        .filter((entry) => entry.capabilities.length > 0),
+      userId,
+      client,
+    )
+  );
+  return getGuildPermissions(guildId, userId);
+};
@@ -0,0 +1,115 @@
+import { GuildSyncRequestResult } from "../../../shared/types/api/sync.js";
+import { orchestrateGuildSync } from "../jobs/battlenet-sync/index.js";
+import { syncDependencies } from "../jobs/battlenet-sync/sync-dependencies.js";
+import {
+  finishSyncRun,
+  STALE_SYNC_RUN_MINUTES,
+} from "../jobs/battlenet-sync/sync-run-reporter.js";
+import guildModel from "../models/guild.model.js";
+import syncRunModel from "../models/sync_run.model.js";
+import logger from "../utils/logger.js";
+
+const getCooldownMinutes = (): number =>
+  Number(process.env.MANUAL_SYNC_COOLDOWN_MINUTES) || 15;
+
+export type GuildSyncRequestOutcome =
+  | { status: "started"; result: GuildSyncRequestResult }
+  | { status: "not_found" }
+  | { status: "in_progress"; syncRunId?: number; startedAt?: string }
+  | { status: "cooldown"; retryAfterSeconds: number; nextAllowedAt: string };
+
+/**
+ * Starts an on-demand sync for a single guild.
+ * The run is created synchronously so callers get its ID for progress polling;
+ * the sync itself continues in the background.
+ */
+export const requestGuildSync = async (
+  guildId: number,
+  userId: number,
+): Promise<GuildSyncRequestOutcome> => {
+  const guild = await guildModel.findById(guildId);
+  if (!guild) {
+    return { status: "not_found" };
+  }
+
+  const activeRun = await syncRunModel.findActiveByGuild(
+    guildId,
+    STALE_SYNC_RUN_MINUTES,
+  );
+  if (activeRun) {
+    return {
+      status: "in_progress",
+      syncRunId: activeRun.id,
+      startedAt: new Date(activeRun.started_at).toISOString(),
+    };
+  }
+
+  const cooldownMs = getCooldownMinutes() * 60 * 1000;
+  const lastManualRun = await syncRunModel.findLatestByGuildAndTrigger(
+    guildId,
+    "manual",
+  );
+  if (lastManualRun) {
+    const nextAllowed = new Date(lastManualRun.started_at).getTime() +
+      cooldownMs;
+    if (nextAllowed > Date.now()) {
+      return {
+        status: "cooldown",
+        retryAfterSeconds: Math.ceil((nextAllowed - Date.now()) / 1000),
+        nextAllowedAt: new Date(nextAllowed).toISOString(),
+      };
+    }
+  }
+
+  // Guarded insert: if another request (or replica) started a run in the meantime, back off
+  const run = await syncRunModel.startRunIfIdle(
+    guildId,
+    "manual",
+    userId,
+    STALE_SYNC_RUN_MINUTES,
+  );
+  if (!run) {
+    const concurrentRun = await syncRunModel.findActiveByGuild(
+      guildId,
+      STALE_SYNC_RUN_MINUTES,
+    );
+    // The other run may already have finished; report it as running without details
+    if (!concurrentRun) {
+      return { status: "in_progress" };
+    }
+    return {
+      status: "in_progress",
+      syncRunId: concurrentRun.id,
+      startedAt: new Date(concurrentRun.started_at).toISOString(),
+    };
+  }
+
+  logger.info(
+    { guildId, userId, syncRunId: run.id },
+    "[GuildSync] Starting on-demand guild sync",
+  );
+
+  orchestrateGuildSync(syncDependencies, guild, { syncRunId: run.id })
+    .then(() =>
+      guildModel.update(guildId, {
+        last_roster_sync: new Date().toISOString(),
+      })
+    )
+    .catch(async (error: unknown) => {
+      logger.error(
+        { err: error, guildId, syncRunId: run.id },
+        "[GuildSync] On-demand guild sync failed unexpectedly",
+      );
+      await finishSyncRun(run.id, error);
+    });
+
+  const startedAt = new Date(run.started_at);
+  return {
+    status: "started",
+    result: {
+      syncRunId: run.id,
+      startedAt: startedAt.toISOString(),
+      nextAllowedAt: new Date(startedAt.getTime() + cooldownMs).toISOString(),
+    },
+  };
+};
@@ -1,7 +1,11 @@
 // backend/src/services/http-client.ts
 import axios, { AxiosBasicCredentials, AxiosError, AxiosRequestConfig } from "axios";
 import logger from "../utils/logger.js";
-import { HttpClient } from "../types/battlenet-api.types.js";
+import {
+  ConditionalResponse,
+  HttpClient,
+  ResourceValidators,
+} from "../types/battlenet-api.types.js";
 
 /**
  * Axios implementation of the HttpClient interface
@@ -50,6 +54,81 @@ export class AxiosHttpClient implements HttpClient {
     }
   }
 
+  /**
+   * Performs a conditional GET request using Axios.
+   * Sends If-None-Match / If-Modified-Since from the given validators and
+   * treats a 304 response as "not modified" instead of an error.
+   * @param url The URL to fetch
+   * @param validators Validators from the previously fetched version, if any
+   * @param params Optional query parameters
+   * @param headers Optional request headers
+   * @returns The response data (unless not modified) and its validators
+   */
+  async getConditional<T>(
+    url: string,
+    validators: ResourceValidators | null,
+    params?: Record<string, any>,
+    headers?: Record<string, string>
+  ): Promise<ConditionalResponse<T>> {
+    try {
+      const requestId = `${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+
+      logger.debug(
+        { requestId, url, method: "GET", params, conditional: !!validators },
+        `[HttpClient] Sending conditional GET request to ${url}`
+      );
+
+      const conditionalHeaders: Record<string, string> = {};
+      if (validators?.etag) {
+        conditionalHeaders["If-None-Match"] = validators.etag;
+      }
+      if (validators?.lastModified) {
+        conditionalHeaders["If-Modified-Since"] = validators.lastModified;
+      }
+
+      const config: AxiosRequestConfig = {
+        params,
+        headers: {
+          "Accept-Encoding": "gzip,deflate,compress",
+          ...headers,
+          ...conditionalHeaders,
+        },
+        timeout: 15000,
+        validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+      };
+
+      const response = await axios.get<T>(url, config);
+
+      logger.debug(
+        { requestId, url, method: "GET", status: response.status },
+        `[HttpClient] Received response from ${url}`
+      );
+
+      if (response.status === 304) {
+        // A 304 may omit validators; the ones we sent are still current
+        return {
+          notModified: true,
+          validators: {
+            etag: this.readHeader(response.headers, "etag") ?? validators?.etag ?? null,
+            lastModified: this.readHeader(response.headers, "last-modified") ?? validators?.lastModified ?? null,
+          },
+        };
+      }
+
+      return {
+        notModified: false,
+        data: response.data,
+        validators: {
+          etag: this.readHeader(response.headers, "etag"),
+          lastModified: this.readHeader(response.headers, "last-modified"),
+        },
+      };
+    } catch (error) {
+      this.logError(error as Error, "GET", url);
+      throw error;
+    }
+  }
+
   /**
    * Performs a POST request using Axios
    * @param url The URL to post to
@@ -94,6 +173,14 @@ export class AxiosHttpClient implements HttpClient {
     }
   }
 
+  /**
+   * Reads a single response header as a string, or null if absent
+   */
+  private readHeader(headers: unknown, name: string): string | null {
+    const value = (headers as Record<string, unknown> | undefined)?.[name];
+    return typeof value === "string" && value.length > 0 ? value : null;
+  }
+
   /**
    * Logs HTTP errors in a standardized format
    * @param error The error to log
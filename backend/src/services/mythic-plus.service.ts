@@ -0,0 +1,129 @@
+import {
+  CharacterMythicPlus,
+  GuildMythicPlusLeaderboard,
+  GuildMythicPlusVault,
+  MythicPlusDungeonBest,
+} from "../../../shared/types/api/mythic-plus.js";
+import * as characterModelModule from "../models/character.model.js";
+import characterMythicBestModel from "../models/character_mythic_best.model.js";
+import guildModel from "../models/guild.model.js";
+import * as guildMemberModelModule from "../models/guild_member.model.js";
+import {
+  lastWeeklyReset,
+  summarizeMythicProfile,
+  VAULT_KEY_LEVEL,
+} from "../utils/mythic-plus.js";
+import { CharacterClassificationService } from "./character-classification.service.js";
+
+const characterClassificationService = new CharacterClassificationService(
+  characterModelModule,
+  guildMemberModelModule,
+);
+
+const byRating = (a: CharacterMythicPlus, b: CharacterMythicPlus): number =>
+  b.rating - a.rating || a.characterName.localeCompare(b.characterName);
+
+/**
+ * Mythic+ summaries of the guild's current members for the reset in progress,
+ * or null if the guild does not exist.
+ */
+const loadGuildMythicPlus = async (
+  guildId: number,
+): Promise<{ weeklyResetAt: Date; characters: CharacterMythicPlus[] } | null> => {
+  const guild = await guildModel.findById(guildId);
+  if (!guild) {
+    return null;
+  }
+
+  const weeklyResetAt = lastWeeklyReset(guild.region);
+  const [characters, members] = await Promise.all([
+    characterModelModule.findCurrentGuildMembers(guildId),
+    characterClassificationService.getClassifiedGuildMembers(guildId),
+  ]);
+  const mainIds = new Set(
+    members
+      .filter((member) => member.classification === "Main")
+      .map((member) => member.character_id),
+  );
+
+  const seasonBests = await characterMythicBestModel.findForGuildCharacters(
+    guildId,
+    characters.map((character) => character.id),
+  );
+  const seasonBestsByCharacter = new Map<number, MythicPlusDungeonBest[]>();
+  for (const best of seasonBests) {
+    const bests = seasonBestsByCharacter.get(best.character_id) ?? [];
+    bests.push({
+      dungeonId: best.dungeon_id,
+      dungeonName: best.dungeon_name,
+      keystoneLevel: best.keystone_level,
+      completedAt: new Date(best.completed_at).toISOString(),
+    });
+    seasonBestsByCharacter.set(best.character_id, bests);
+  }
+
+  return {
+    weeklyResetAt,
+    characters: characters.map((character): CharacterMythicPlus => ({
+      characterId: character.id,
+      characterName: character.name,
+      characterClass: character.class,
+      realm: character.realm,
+      isMain: mainIds.has(character.id),
+      bestTimedRuns: seasonBestsByCharacter.get(character.id) ?? [],
+      ...summarizeMythicProfile(character.mythic_profile_json, weeklyResetAt),
+    })),
+  };
+};
+
+/**
+ * Members with a Mythic+ rating or a timed key this season, highest rating first.
+ * Returns null if the guild does not exist.
+ */
+export const getGuildMythicPlusLeaderboard = async (
+  guildId: number,
+): Promise<GuildMythicPlusLeaderboard | null> => {
+  const result = await loadGuildMythicPlus(guildId);
+  if (!result) {
+    return null;
+  }
+
+  return {
+    guildId,
+    weeklyResetAt: result.weeklyResetAt.toISOString(),
+    characters: result.characters
+      .filter((character) =>
+        character.rating > 0 ||
+        character.bestTimedRuns.length > 0 ||
+        character.bestTimedRunsThisReset.length > 0
+      )
+      .sort(byRating),
+  };
+};
+
+/**
+ * Which mains have done a key high enough for the best Great Vault reward
+ * this reset. Returns null if the guild does not exist.
+ */
+export const getGuildMythicPlusVault = async (
+  guildId: number,
+): Promise<GuildMythicPlusVault | null> => {
+  const result = await loadGuildMythicPlus(guildId);
+  if (!result) {
+    return null;
+  }
+
+  const mains = result.characters
+    .filter((character) => character.isMain)
+    .sort(byRating);
+  const isReady = (character: CharacterMythicPlus) =>
+    (character.highestKeyThisReset ?? 0) >= VAULT_KEY_LEVEL;
+
+  return {
+    guildId,
+    weeklyResetAt: result.weeklyResetAt.toISOString(),
+    vaultKeyLevel: VAULT_KEY_LEVEL,
+    ready: mains.filter(isReady),
+    missing: mains.filter((character) => !isReady(character)),
+  };
+};
@@ -0,0 +1,59 @@
+import {
+  CharacterProfessionEntry,
+  GuildProfessionDirectory,
+  GuildProfessionQuery,
+} from "../../../shared/types/api/profession.js";
+import characterProfessionModel, {
+  ProfessionDirectoryRow,
+} from "../models/character_profession.model.js";
+
+// Helper function to map a directory row to the API shape
+const mapDbRowToProfessionEntry = (
+  row: ProfessionDirectoryRow,
+): CharacterProfessionEntry => ({
+  characterId: row.character_id,
+  characterName: row.character_name,
+  characterClass: row.character_class,
+  realm: row.realm,
+  professionId: row.profession_id,
+  professionName: row.profession_name,
+  tierId: row.tier_id,
+  tierName: row.tier_name,
+  expansion: row.expansion,
+  skillPoints: row.skill_points,
+  maxSkillPoints: row.max_skill_points,
+  knownRecipeCount: Number(row.known_recipe_count),
+  matchingRecipes: row.matching_recipes,
+});
+
+/**
+ * The guild crafting directory: who has which profession tier, at what skill,
+ * with the filter options of every profession and expansion in the guild.
+ */
+export const getGuildProfessionDirectory = async (
+  guildId: number,
+  query: GuildProfessionQuery,
+): Promise<GuildProfessionDirectory> => {
+  const [rows, options] = await Promise.all([
+    characterProfessionModel.findGuildDirectory(guildId, {
+      search: query.search?.trim() || undefined,
+      profession_id: query.professionId,
+      expansion: query.expansion,
+    }),
+    characterProfessionModel.findGuildFilterOptions(guildId),
+  ]);
+
+  const professions = new Map<number, string>();
+  options.forEach((option) =>
+    professions.set(option.profession_id, option.profession_name)
+  );
+
+  return {
+    guildId,
+    professions: [...professions.entries()]
+      .map(([professionId, professionName]) => ({ professionId, professionName }))
+      .sort((a, b) => a.professionName.localeCompare(b.professionName)),
+    expansions: [...new Set(options.map((option) => option.expansion))].sort(),
+    entries: rows.map(mapDbRowToProfessionEntry),
+  };
+};
@@ -0,0 +1,42 @@
+import { GuildRaidProgression } from "../../../shared/types/api/raid.js";
+import * as characterModelModule from "../models/character.model.js";
+import characterRaidKillModel from "../models/character_raid_kill.model.js";
+import * as guildMemberModelModule from "../models/guild_member.model.js";
+import { summarizeRaidProgression } from "../utils/raid-progression.js";
+import { CharacterClassificationService } from "./character-classification.service.js";
+
+const characterClassificationService = new CharacterClassificationService(
+  characterModelModule,
+  guildMemberModelModule,
+);
+
+/**
+ * Raid progress of a guild's mains in the newest expansion, e.g. "8/8 H, 3/8 M".
+ * Alts are left out so a boss only counts once a main killed it.
+ */
+export const getGuildRaidProgression = async (
+  guildId: number,
+): Promise<GuildRaidProgression> => {
+  const members = await characterClassificationService.getClassifiedGuildMembers(
+    guildId,
+  );
+  const mainCharacterIds = members
+    .filter((member) => member.classification === "Main")
+    .map((member) => member.character_id);
+
+  const kills = await characterRaidKillModel.findForGuildCharacters(
+    guildId,
+    mainCharacterIds,
+  );
+  const progression = summarizeRaidProgression(kills);
+
+  return {
+    guildId,
+    ...progression,
+    mainsWithKills: new Set(
+      kills
+        .filter((kill) => kill.expansion_id === progression.expansionId)
+        .map((kill) => kill.character_id),
+    ).size,
+  };
+};
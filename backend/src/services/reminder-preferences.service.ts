@@ -0,0 +1,29 @@
+import { ReminderPreferences } from "../../../shared/types/api/discord.js";
+import userReminderPreferencesModel from "../models/user_reminder_preferences.model.js";
+
+/**
+ * Returns the reminder opt-outs of a user. Users who never changed them get everything.
+ */
+export const getReminderPreferences = async (
+  userId: number,
+): Promise<ReminderPreferences> => {
+  const row = await userReminderPreferencesModel.findByUserId(userId);
+  return {
+    signupReminders: row?.signup_reminders ?? true,
+    startingSoon: row?.starting_soon ?? true,
+  };
+};
+
+export const saveReminderPreferences = async (
+  userId: number,
+  preferences: ReminderPreferences,
+): Promise<ReminderPreferences> => {
+  const row = await userReminderPreferencesModel.upsertForUser(userId, {
+    signup_reminders: preferences.signupReminders,
+    starting_soon: preferences.startingSoon,
+  });
+  return {
+    signupReminders: row.signup_reminders,
+    startingSoon: row.starting_soon,
+  };
+};
@@ -294,6 +294,35 @@ export const addRosterMembers = async (
   return getRosterMembers(rosterId);
 };
 
+/**
+ * Fetches one member of a roster with the role assigned in that roster.
+ * Returns null if the character is not in the roster.
+ */
+export const getRosterMember = async (
+  rosterId: number,
+  characterId: number,
+): Promise<RosterMember | null> => {
+  const selectQuery = `
+    SELECT
+      rm.character_id as "characterId",
+      c.name,
+      c.class,
+      gr.rank_name as rank, -- Corrected to use rank_name from guild_ranks
+      rm.role
+    FROM roster_members rm
+    JOIN characters c ON rm.character_id = c.id
+    -- Join rosters to get the guild_id associated with this roster
+    JOIN rosters r ON rm.roster_id = r.id
+    -- Join guild_members using character_id AND the specific guild_id from the roster
+    LEFT JOIN guild_members gm ON rm.character_id = gm.character_id AND r.guild_id = gm.guild_id
+    -- Join guild_ranks using the rank identifier from guild_members and the correct guild_id
+    LEFT JOIN guild_ranks gr ON gm.rank = gr.rank_id AND gm.guild_id = gr.guild_id
+    WHERE rm.roster_id = $1 AND rm.character_id = $2;
+  `;
+  const { rows } = await db.query(selectQuery, [rosterId, characterId]);
+  return rows.length > 0 ? mapDbRowToRosterMember(rows[0]) : null; // Use helper here too
+};
+
 /**
  * Updates the role of a specific member within a roster.
  * Returns the updated member details or null if not found.
@@ -313,25 +342,7 @@ export const updateRosterMemberRole = async (
 
   if ((updateResult.rowCount ?? 0) > 0) { // Handle null rowCount
     // Fetch the updated member details to return
-    const selectQuery = `
-      SELECT
-        rm.character_id as "characterId",
-        c.name,
-        c.class,
-        gr.rank_name as rank, -- Corrected to use rank_name from guild_ranks
-        rm.role
-      FROM roster_members rm
-      JOIN characters c ON rm.character_id = c.id
-      -- Join rosters to get the guild_id associated with this roster
-      JOIN rosters r ON rm.roster_id = r.id
-      -- Join guild_members using character_id AND the specific guild_id from the roster
-      LEFT JOIN guild_members gm ON rm.character_id = gm.character_id AND r.guild_id = gm.guild_id
-      -- Join guild_ranks using the rank identifier from guild_members and the correct guild_id
-      LEFT JOIN guild_ranks gr ON gm.rank = gr.rank_id AND gm.guild_id = gr.guild_id
-      WHERE rm.roster_id = $1 AND rm.character_id = $2;
-    `;
-    const { rows } = await db.query(selectQuery, [rosterId, characterId]);
-    return rows.length > 0 ? mapDbRowToRosterMember(rows[0]) : null; // Use helper here too
+    return getRosterMember(rosterId, characterId);
   }
 
   return null;
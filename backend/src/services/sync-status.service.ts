@@ -0,0 +1,87 @@
+import {
+  GuildSyncStatus,
+  SyncRun,
+  SyncRunStep,
+} from "../../../shared/types/api/sync.js";
+import {
+  DbSyncRun,
+  DbSyncRunStep,
+} from "../../../shared/types/db/models/sync.js";
+import guildModel from "../models/guild.model.js";
+import syncJobModel from "../models/sync_job.model.js";
+import syncRunModel from "../models/sync_run.model.js";
+
+const RECENT_RUN_LIMIT = 10;
+
+const toIsoString = (value: string | Date | null): string | null =>
+  value === null ? null : new Date(value).toISOString();
+
+// Helper function to map a sync_run_steps row to the API shape
+const mapDbRowToSyncRunStep = (row: DbSyncRunStep): SyncRunStep => ({
+  step: row.step,
+  status: row.status,
+  startedAt: new Date(row.started_at).toISOString(),
+  finishedAt: toIsoString(row.finished_at),
+  durationMs: row.duration_ms,
+  error: row.error,
+  details: row.details ?? {},
+});
+
+// Helper function to map a sync_runs row and its steps to the API shape
+const mapDbRowToSyncRun = (
+  row: DbSyncRun,
+  steps: DbSyncRunStep[],
+): SyncRun => ({
+  id: row.id,
+  guildId: row.guild_id,
+  trigger: row.trigger,
+  triggeredBy: row.triggered_by ?? null,
+  status: row.status,
+  startedAt: new Date(row.started_at).toISOString(),
+  finishedAt: toIsoString(row.finished_at),
+  durationMs: row.duration_ms,
+  error: row.error,
+  steps: steps.map(mapDbRowToSyncRunStep),
+});
+
+/**
+ * Builds the sync health overview for a guild: recent runs with their steps
+ * and the character jobs still waiting in the queue.
+ * Returns null if the guild does not exist.
+ */
+export const getGuildSyncStatus = async (
+  guildId: number,
+): Promise<GuildSyncStatus | null> => {
+  const guild = await guildModel.findById(guildId);
+  if (!guild) {
+    return null;
+  }
+
+  const [runs, queueCounts] = await Promise.all([
+    syncRunModel.findRecentByGuild(guildId, RECENT_RUN_LIMIT),
+    syncJobModel.countOpenByGuild(guildId),
+  ]);
+  const steps = await syncRunModel.findStepsByRunIds(runs.map((r) => r.id));
+
+  const recentRuns = runs.map((run) =>
+    mapDbRowToSyncRun(
+      run,
+      steps.filter((step) => step.sync_run_id === run.id),
+    )
+  );
+
+  const queue = { pending: 0, running: 0, dead: 0 };
+  for (const { status, count } of queueCounts) {
+    if (status === "pending" || status === "running" || status === "dead") {
+      queue[status] = count;
+    }
+  }
+
+  return {
+    guildId,
+    lastRosterSync: toIsoString(guild.last_roster_sync ?? null),
+    lastRun: recentRuns[0] ?? null,
+    recentRuns,
+    queue,
+  };
+};
@@ -9,6 +9,8 @@
 
 import * as RefTypes from './battlenet-api-reference.js';
 import { EnhancedCharacterData } from './enhanced-character.js';
+import { BattleNetMythicKeystoneBestRun, BattleNetRaidKill } from './battlenet-api.types.js';
+import { RaidDifficulty } from '../../../shared/types/api/raid.js';
 import { BattleNetGuild, BattleNetGuildRoster, BattleNetGuildMember, BattleNetCharacter } from '../../../shared/types/guild.js';
 import logger from '../utils/logger.js';
 
@@ -301,7 +303,38 @@ export function adaptReferenceEnhancedCharacter(
           },
           level: {
             value: item.level?.value || 0
-          }
+          },
+          // Kept for the gear audit
+          inventory_type: item.inventory_type ? { type: item.inventory_type.type } : undefined,
+          item_class: item.item_class ? {
+            id: item.item_class.id,
+            name: extractEnglishString(item.item_class.name)
+          } : undefined,
+          sockets: item.sockets?.map(socket => ({
+            socket_type: { type: socket.socket_type.type },
+            item: socket.item ? {
+              id: socket.item.id,
+              name: extractEnglishString(socket.item.name)
+            } : undefined
+          })),
+          enchantments: item.enchantments?.map(enchantment => ({
+            display_string: extractEnglishString(enchantment.display_string),
+            enchantment_id: enchantment.enchantment_id,
+            enchantment_slot: enchantment.enchantment_slot
+          })),
+          set: item.set ? {
+            item_set: {
+              id: item.set.item_set.id,
+              name: extractEnglishString(item.set.item_set.name)
+            },
+            items: item.set.items.map(setItem => ({
+              item: {
+                id: setItem.item.id,
+                name: extractEnglishString(setItem.item.name)
+              },
+              is_equipped: setItem.is_equipped
+            }))
+          } : undefined
         }))
       },
       
@@ -359,10 +392,21 @@ export function adaptReferenceEnhancedCharacter(
                     ? run.dungeon.name 
                     : extractEnglishString(run.dungeon.name)
                 },
-                is_completed_within_time: run.is_completed_within_time
+                is_completed_within_time: run.is_completed_within_time,
+                // Kept for the Mythic+ dashboard
+                mythic_rating: run.mythic_rating
+                  ? { rating: run.mythic_rating.rating }
+                  : undefined
               }))
             : []
-        }
+        },
+        // Kept to look up the season's best runs
+        seasons: Array.isArray(mythicKeystone.seasons)
+          ? mythicKeystone.seasons.map(season => ({ id: season.id }))
+          : [],
+        current_mythic_rating: mythicKeystone.current_mythic_rating
+          ? { rating: mythicKeystone.current_mythic_rating.rating }
+          : undefined
       } : null,
       
       // Process professions data
@@ -472,4 +516,59 @@ export function adaptReferenceEnhancedCharacter(
     
     throw error;
   }
-}
\ No newline at end of file
+}
+
+const RAID_DIFFICULTIES: RaidDifficulty[] = ['LFR', 'NORMAL', 'HEROIC', 'MYTHIC'];
+
+/**
+ * Adapts a reference Raid Encounters type to one entry per boss killed per difficulty.
+ * Bosses never killed and difficulties the application does not know are left out.
+ */
+export function adaptReferenceRaidEncounters(encounters: RefTypes.BattleNetRaidEncountersRef): BattleNetRaidKill[] {
+  const kills: BattleNetRaidKill[] = [];
+
+  for (const expansion of encounters.expansions ?? []) {
+    for (const instance of expansion.instances ?? []) {
+      for (const mode of instance.modes ?? []) {
+        const difficulty = mode.difficulty?.type as RaidDifficulty;
+        if (!RAID_DIFFICULTIES.includes(difficulty)) {
+          continue;
+        }
+
+        for (const encounter of mode.progress?.encounters ?? []) {
+          if (!encounter.completed_count) {
+            continue;
+          }
+          kills.push({
+            expansion_id: expansion.expansion.id,
+            expansion_name: extractEnglishString(expansion.expansion.name),
+            instance_id: instance.instance.id,
+            instance_name: extractEnglishString(instance.instance.name),
+            difficulty,
+            encounter_id: encounter.encounter.id,
+            encounter_name: extractEnglishString(encounter.encounter.name),
+            instance_encounter_count: mode.progress.total_count,
+            completed_count: encounter.completed_count,
+            last_kill_timestamp: encounter.last_kill_timestamp
+          });
+        }
+      }
+    }
+  }
+
+  return kills;
+}
+
+/**
+ * Adapts a reference Mythic Keystone Season type to the season's best runs.
+ * A character without a run this season has no best runs.
+ */
+export function adaptReferenceMythicKeystoneSeason(season: RefTypes.BattleNetMythicKeystoneSeasonRef): BattleNetMythicKeystoneBestRun[] {
+  return (season.best_runs ?? []).map(run => ({
+    dungeon_id: run.dungeon.id,
+    dungeon_name: extractEnglishString(run.dungeon.name),
+    keystone_level: run.keystone_level,
+    completed_timestamp: run.completed_timestamp,
+    is_completed_within_time: run.is_completed_within_time
+  }));
+}
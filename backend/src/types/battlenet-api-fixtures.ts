@@ -517,4 +517,95 @@ export const sampleCollectionsIndex: RefTypes.BattleNetCollectionsIndexRef = {
     realm: realmReference
   },
   transmogs: { href: 'https://us.api.blizzard.com/profile/wow/character/test-realm/test-character/collections/transmogs' }
-};
\ No newline at end of file
+};
+
+/**
+ * Sample Battle.net Raid Encounters fixture
+ */
+export const sampleRaidEncounters: RefTypes.BattleNetRaidEncountersRef = {
+  _links: {
+    self: {
+      href: 'https://us.api.blizzard.com/profile/wow/character/test-realm/test-character/encounters/raids'
+    }
+  },
+  character: {
+    key: { href: 'https://us.api.blizzard.com/profile/wow/character/test-realm/test-character' },
+    name: 'TestCharacter',
+    id: 12345,
+    realm: realmReference
+  },
+  expansions: [
+    {
+      expansion: {
+        key: { href: 'https://us.api.blizzard.com/data/wow/journal-expansion/514' },
+        name: 'The War Within',
+        id: 514
+      },
+      instances: [
+        {
+          instance: {
+            key: { href: 'https://us.api.blizzard.com/data/wow/journal-instance/1273' },
+            name: 'Nerub-ar Palace',
+            id: 1273
+          },
+          modes: [
+            {
+              difficulty: { type: 'HEROIC', name: 'Heroic' },
+              status: { type: 'IN_PROGRESS', name: 'In Progress' },
+              progress: {
+                completed_count: 2,
+                total_count: 8,
+                encounters: [
+                  {
+                    encounter: {
+                      key: { href: 'https://us.api.blizzard.com/data/wow/journal-encounter/2607' },
+                      name: 'Ulgrax the Devourer',
+                      id: 2607
+                    },
+                    completed_count: 4,
+                    last_kill_timestamp: 1726000000000
+                  },
+                  {
+                    encounter: {
+                      key: { href: 'https://us.api.blizzard.com/data/wow/journal-encounter/2611' },
+                      name: 'The Bloodbound Horror',
+                      id: 2611
+                    },
+                    completed_count: 3,
+                    last_kill_timestamp: 1726000600000
+                  }
+                ]
+              }
+            }
+          ]
+        }
+      ]
+    }
+  ]
+};
+
+/**
+ * Sample Battle.net Mythic Keystone Season fixture
+ */
+export const sampleMythicKeystoneSeason: RefTypes.BattleNetMythicKeystoneSeasonRef = {
+  _links: {
+    self: {
+      href: 'https://us.api.blizzard.com/profile/wow/character/test-realm/test-character/mythic-keystone-profile/season/1'
+    }
+  },
+  season: {
+    key: { href: 'https://us.api.blizzard.com/data/wow/mythic-keystone/season/1' },
+    id: 1
+  },
+  best_runs: sampleMythicKeystoneProfile.current_period.best_runs,
+  character: {
+    key: { href: 'https://us.api.blizzard.com/profile/wow/character/test-realm/test-character' },
+    name: 'TestCharacter',
+    id: 12345,
+    realm: realmReference
+  },
+  mythic_rating: {
+    color: { r: 255, g: 128, b: 0, a: 1 },
+    rating: 1500
+  }
+};
@@ -377,6 +377,47 @@ export interface BattleNetCharacterEquipmentRef extends SelfLink {
       display_string: LocalizedString;
       color: RGBAColor;
     };
+    sockets?: Array<{
+      socket_type: {
+        type: string;
+        name: LocalizedString;
+      };
+      item?: {
+        key: LinkReference;
+        name: LocalizedString;
+        id: number;
+      };
+      display_string?: LocalizedString;
+    }>;
+    enchantments?: Array<{
+      display_string: LocalizedString;
+      source_item?: {
+        key: LinkReference;
+        name: LocalizedString;
+        id: number;
+      };
+      enchantment_id: number;
+      enchantment_slot: {
+        id: number;
+        type: string;
+      };
+    }>;
+    set?: {
+      item_set: {
+        key: LinkReference;
+        name: LocalizedString;
+        id: number;
+      };
+      items: Array<{
+        item: {
+          key: LinkReference;
+          name: LocalizedString;
+          id: number;
+        };
+        is_equipped?: boolean;
+      }>;
+      display_string: LocalizedString;
+    };
   }>;
   equipped_item_sets?: Array<{
     item_set: {
@@ -535,4 +576,77 @@ export interface BattleNetCollectionsIndexRef extends SelfLink {
     realm: RealmReference;
   };
   transmogs: LinkReference;
-}
\ No newline at end of file
+}
+/**
+ * Character Raid Encounters API response structure
+ *
+ * Based on the /profile/wow/character/{realm}/{characterName}/encounters/raids endpoint
+ */
+export interface BattleNetRaidEncountersRef extends SelfLink {
+  character: {
+    key: LinkReference;
+    name: string;
+    id: number;
+    realm: RealmReference;
+  };
+  expansions?: Array<{
+    expansion: {
+      key: LinkReference;
+      name: string;
+      id: number;
+    };
+    instances: Array<{
+      instance: {
+        key: LinkReference;
+        name: string;
+        id: number;
+      };
+      modes: Array<{
+        difficulty: {
+          type: string; // LFR, NORMAL, HEROIC or MYTHIC
+          name: string;
+        };
+        status: {
+          type: string; // COMPLETE or IN_PROGRESS
+          name: string;
+        };
+        progress: {
+          completed_count: number;
+          total_count: number;
+          encounters: Array<{
+            encounter: {
+              key: LinkReference;
+              name: string;
+              id: number;
+            };
+            completed_count: number;
+            last_kill_timestamp: number;
+          }>;
+        };
+      }>;
+    }>;
+  }>;
+}
+
+/**
+ * Character Mythic Keystone Season API response structure
+ *
+ * Based on the /profile/wow/character/{realm}/{characterName}/mythic-keystone-profile/season/{seasonId} endpoint
+ */
+export interface BattleNetMythicKeystoneSeasonRef extends SelfLink {
+  season: {
+    key: LinkReference;
+    id: number;
+  };
+  best_runs?: BattleNetMythicKeystoneProfileRef['current_period']['best_runs'];
+  character: {
+    key: LinkReference;
+    name: string;
+    id: number;
+    realm: RealmReference;
+  };
+  mythic_rating?: {
+    color: RGBAColor;
+    rating: number;
+  };
+}
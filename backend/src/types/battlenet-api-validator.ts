@@ -35,6 +35,8 @@ const CRITICAL_FIELDS = {
   mythicKeystone: ['character.id', 'character.name'],
   professions: ['character.id', 'character.name'],
   collections: ['character.id', 'character.name'],
+  raidEncounters: ['character.id', 'character.name'],
+  mythicKeystoneSeason: ['character.id', 'character.name'],
   genericData: [] // No critical fields for generic data
 };
 
@@ -700,6 +702,220 @@ export function validateCollectionsIndex(data: unknown): ValidationResult {
   return createResult(failures.length === 0, failures);
 }
 
+/**
+ * Validates a raid encounters object against the reference type
+ */
+export function validateRaidEncounters(data: unknown): ValidationResult {
+  if (!isObject(data)) {
+    return createResult(false, [{
+      path: '',
+      expected: 'object',
+      received: getValueType(data),
+      isValid: false,
+      isCritical: true
+    }]);
+  }
+  
+  const failures: FieldValidationResult[] = [];
+  
+  // Check self link
+  const selfLinkFailure = validateSelfLink(data, '');
+  if (selfLinkFailure) failures.push(selfLinkFailure);
+  
+  // Check character reference
+  const character = (data as any).character;
+  if (!isObject(character)) {
+    failures.push({
+      path: 'character',
+      expected: 'object',
+      received: getValueType(character),
+      isValid: false,
+      isCritical: true
+    });
+  } else {
+    // Check character fields
+    const characterFields: Array<[string, string, boolean]> = [
+      ['id', 'number', true],
+      ['name', 'string', true],
+      ['realm.id', 'number', false],
+      ['realm.slug', 'string', false]
+    ];
+    
+    for (const [field, expectedType, isCritical] of characterFields) {
+      const value = getNestedProperty(character, field);
+      const failure = validateBasicType(value, `character.${field}`, expectedType, isCritical);
+      if (failure) failures.push(failure);
+    }
+  }
+  
+  // Expansions are left out for characters without any raid kill
+  const expansions = (data as any).expansions;
+  if (expansions !== undefined) {
+    if (!Array.isArray(expansions)) {
+      failures.push({
+        path: 'expansions',
+        expected: 'array',
+        received: getValueType(expansions),
+        isValid: false,
+        isCritical: false
+      });
+    } else {
+      expansions.forEach((expansion: unknown, expansionIndex: number) => {
+        const path = `expansions[${expansionIndex}]`;
+        const expansionIdFailure = validateBasicType(getNestedProperty(expansion, 'expansion.id'), `${path}.expansion.id`, 'number');
+        if (expansionIdFailure) failures.push(expansionIdFailure);
+
+        const instances = getNestedProperty(expansion, 'instances');
+        if (!Array.isArray(instances)) {
+          failures.push({
+            path: `${path}.instances`,
+            expected: 'array',
+            received: getValueType(instances),
+            isValid: false,
+            isCritical: false
+          });
+          return;
+        }
+
+        instances.forEach((instance: unknown, instanceIndex: number) => {
+          const instancePath = `${path}.instances[${instanceIndex}]`;
+          const instanceIdFailure = validateBasicType(getNestedProperty(instance, 'instance.id'), `${instancePath}.instance.id`, 'number');
+          if (instanceIdFailure) failures.push(instanceIdFailure);
+
+          const modes = getNestedProperty(instance, 'modes');
+          if (!Array.isArray(modes)) {
+            failures.push({
+              path: `${instancePath}.modes`,
+              expected: 'array',
+              received: getValueType(modes),
+              isValid: false,
+              isCritical: false
+            });
+            return;
+          }
+
+          modes.forEach((mode: unknown, modeIndex: number) => {
+            const modePath = `${instancePath}.modes[${modeIndex}]`;
+            const modeFields: Array<[string, string]> = [
+              ['difficulty.type', 'string'],
+              ['progress.total_count', 'number'],
+              ['progress.encounters', 'array']
+            ];
+            for (const [field, expectedType] of modeFields) {
+              const failure = validateBasicType(getNestedProperty(mode, field), `${modePath}.${field}`, expectedType);
+              if (failure) failures.push(failure);
+            }
+          });
+        });
+      });
+    }
+  }
+  
+  // Check if we have at least the critical fields
+  if (failures.length > 0 && hasCriticalFieldsOnly(data, 'raidEncounters')) {
+    logger.warn({
+      validationType: 'raidEncounters',
+      failureCount: failures.length,
+      criticalFailures: failures.filter(f => f.isCritical).length,
+      hasCriticalFields: true
+    }, 'Partial validation succeeded: raid encounters has critical fields but failed complete validation');
+    return createResult(false, failures);
+  }
+  
+  return createResult(failures.length === 0, failures);
+}
+
+/**
+ * Validates a mythic keystone season object against the reference type
+ */
+export function validateMythicKeystoneSeason(data: unknown): ValidationResult {
+  if (!isObject(data)) {
+    return createResult(false, [{
+      path: '',
+      expected: 'object',
+      received: getValueType(data),
+      isValid: false,
+      isCritical: true
+    }]);
+  }
+  
+  const failures: FieldValidationResult[] = [];
+  
+  // Check self link
+  const selfLinkFailure = validateSelfLink(data, '');
+  if (selfLinkFailure) failures.push(selfLinkFailure);
+  
+  // Check character reference
+  const character = (data as any).character;
+  if (!isObject(character)) {
+    failures.push({
+      path: 'character',
+      expected: 'object',
+      received: getValueType(character),
+      isValid: false,
+      isCritical: true
+    });
+  } else {
+    // Check character fields
+    const characterFields: Array<[string, string, boolean]> = [
+      ['id', 'number', true],
+      ['name', 'string', true],
+      ['realm.id', 'number', false],
+      ['realm.slug', 'string', false]
+    ];
+    
+    for (const [field, expectedType, isCritical] of characterFields) {
+      const value = getNestedProperty(character, field);
+      const failure = validateBasicType(value, `character.${field}`, expectedType, isCritical);
+      if (failure) failures.push(failure);
+    }
+  }
+
+  const seasonIdFailure = validateBasicType(getNestedProperty(data, 'season.id'), 'season.id', 'number');
+  if (seasonIdFailure) failures.push(seasonIdFailure);
+  
+  // Best runs are left out for characters without a run this season
+  const bestRuns = (data as any).best_runs;
+  if (bestRuns !== undefined) {
+    if (!Array.isArray(bestRuns)) {
+      failures.push({
+        path: 'best_runs',
+        expected: 'array',
+        received: getValueType(bestRuns),
+        isValid: false,
+        isCritical: false
+      });
+    } else {
+      bestRuns.forEach((run: unknown, runIndex: number) => {
+        const path = `best_runs[${runIndex}]`;
+        const runFields: Array<[string, string]> = [
+          ['completed_timestamp', 'number'],
+          ['keystone_level', 'number'],
+          ['dungeon.id', 'number'],
+          ['is_completed_within_time', 'boolean']
+        ];
+        for (const [field, expectedType] of runFields) {
+          const failure = validateBasicType(getNestedProperty(run, field), `${path}.${field}`, expectedType);
+          if (failure) failures.push(failure);
+        }
+      });
+    }
+  }
+  
+  // Check if we have at least the critical fields
+  if (failures.length > 0 && hasCriticalFieldsOnly(data, 'mythicKeystoneSeason')) {
+    logger.warn({
+      validationType: 'mythicKeystoneSeason',
+      failureCount: failures.length,
+      criticalFailures: failures.filter(f => f.isCritical).length,
+      hasCriticalFields: true
+    }, 'Partial validation succeeded: mythic keystone season has critical fields but failed complete validation');
+    return createResult(false, failures);
+  }
+  
+  return createResult(failures.length === 0, failures);
+}
+
 /**
  * Maps type names to validator functions
  */
@@ -732,6 +948,8 @@ export const validators = {
   mythicKeystone: validateMythicKeystoneProfile,
   professions: validateProfessions,
   collections: validateCollectionsIndex,
+  raidEncounters: validateRaidEncounters,
+  mythicKeystoneSeason: validateMythicKeystoneSeason,
   genericData: validateGenericData
 };
 
@@ -791,6 +1009,22 @@ export function isBattleNetCollectionsIndex(data: unknown): data is RefTypes.Bat
   return result.isValid || result.hasCriticalFields;
 }
 
+/**
+ * Type guard for Battle.net Raid Encounters
+ */
+export function isBattleNetRaidEncounters(data: unknown): data is RefTypes.BattleNetRaidEncountersRef {
+  const result = validateRaidEncounters(data);
+  return result.isValid || result.hasCriticalFields;
+}
+
+/**
+ * Type guard for Battle.net Mythic Keystone Season
+ */
+export function isBattleNetMythicKeystoneSeason(data: unknown): data is RefTypes.BattleNetMythicKeystoneSeasonRef {
+  const result = validateMythicKeystoneSeason(data);
+  return result.isValid || result.hasCriticalFields;
+}
+
 /**
  * Type guard for generic Battle.net data
  * Accepts any non-null data
@@ -1,6 +1,8 @@
 // backend/src/types/battlenet-api.types.ts
 import { ErrorCode, ExternalApiErrorDetail } from "../../../shared/types/error.js";
 import { BattleNetRegion } from "../../../shared/types/user.js";
+import { BattleNetResourceType } from "../../../shared/types/db/models/sync.js";
+import { RaidDifficulty } from "../../../shared/types/api/raid.js";
 
 /**
  * HTTP Client interface for abstracting HTTP operations
@@ -8,6 +10,39 @@ import { BattleNetRegion } from "../../../shared/types/user.js";
 export interface HttpClient {
   get<T>(url: string, params?: Record<string, any>, headers?: Record<string, string>): Promise<T>;
   post<T>(url: string, data: any, auth?: { username: string; password?: string | undefined }, headers?: Record<string, string>): Promise<T>;
+  getConditional<T>(url: string, validators: ResourceValidators | null, params?: Record<string, any>, headers?: Record<string, string>): Promise<ConditionalResponse<T>>;
+}
+
+/**
+ * HTTP validators of a previously fetched resource (ETag / Last-Modified headers)
+ */
+export interface ResourceValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+/**
+ * Raw result of a conditional GET: either fresh data or a 304 Not Modified
+ */
+export type ConditionalResponse<T> =
+  | { notModified: true; validators: ResourceValidators }
+  | { notModified: false; data: T; validators: ResourceValidators };
+
+/**
+ * Result of a conditional API client call.
+ * Callers must invoke `commitValidators` only once the fresh data has been persisted,
+ * otherwise a later 304 would leave them with stale data.
+ */
+export type ConditionalFetchResult<T> =
+  | { notModified: true }
+  | { notModified: false; data: T; commitValidators: () => Promise<void> };
+
+/**
+ * Persistence for resource validators used by conditional requests
+ */
+export interface ResourceValidatorStore {
+  findValidators(resourceType: BattleNetResourceType, resourceKey: string): Promise<ResourceValidators | null>;
+  saveValidators(resourceType: BattleNetResourceType, resourceKey: string, validators: ResourceValidators): Promise<void>;
 }
 
 /**
@@ -178,6 +213,43 @@ export interface BattleNetCharacterEquipment extends BattleNetApiResponse {
     level: {
       value: number;
     };
+    inventory_type?: {
+      type: string;
+    };
+    item_class?: {
+      id: number;
+      name: string;
+    };
+    sockets?: Array<{
+      socket_type: {
+        type: string;
+      };
+      item?: {
+        id: number;
+        name: string;
+      };
+    }>;
+    enchantments?: Array<{
+      display_string: string;
+      enchantment_id: number;
+      enchantment_slot: {
+        id: number;
+        type: string;
+      };
+    }>;
+    set?: {
+      item_set: {
+        id: number;
+        name: string;
+      };
+      items: Array<{
+        item: {
+          id: number;
+          name: string;
+        };
+        is_equipped?: boolean;
+      }>;
+    };
   }>;
   equipped_item_sets?: Array<{
     item_set: {
@@ -234,8 +306,17 @@ export interface BattleNetMythicKeystoneProfile extends BattleNetApiResponse {
         name: string;
       };
       is_completed_within_time: boolean;
+      mythic_rating?: {
+        rating: number;
+      };
     }>;
   };
+  seasons?: Array<{
+    id: number;
+  }>;
+  current_mythic_rating?: {
+    rating: number;
+  };
   best_season?: {
     season: {
       id: number;
@@ -322,6 +403,35 @@ export interface BattleNetProfessions extends BattleNetApiResponse {
   }>;
 }
 
+/**
+ * A boss killed by a character on one difficulty, flattened from the
+ * Battle.net Character Raid Encounters API Response
+ */
+export interface BattleNetRaidKill {
+  expansion_id: number;
+  expansion_name: string;
+  instance_id: number;
+  instance_name: string;
+  difficulty: RaidDifficulty;
+  encounter_id: number;
+  encounter_name: string;
+  instance_encounter_count: number; // Bosses in the raid on this difficulty
+  completed_count: number;
+  last_kill_timestamp: number;
+}
+
+/**
+ * A character's best run in one dungeon, flattened from the Battle.net
+ * Character Mythic Keystone Season API Response
+ */
+export interface BattleNetMythicKeystoneBestRun {
+  dungeon_id: number;
+  dungeon_name: string;
+  keystone_level: number;
+  completed_timestamp: number;
+  is_completed_within_time: boolean;
+}
+
 /**
  * Error context for Battle.net API errors
  */
@@ -0,0 +1,67 @@
+/**
+ * Attendance percentage maths.
+ *
+ * Present, late and benched count as attending (benched players were there
+ * and available), absent counts against, and excused events are left out.
+ */
+
+import type {
+  AttendanceStatus,
+  AttendanceSummary,
+} from "../../../shared/types/api/attendance.js";
+
+// When a player brought several characters to one event, the best record counts
+const STATUS_PRIORITY: Record<AttendanceStatus, number> = {
+  present: 4,
+  late: 3,
+  benched: 2,
+  excused: 1,
+  absent: 0,
+};
+
+export interface AttendanceRecord {
+  event_id: number;
+  status: AttendanceStatus;
+}
+
+/**
+ * Counts records per status and computes the attendance percentage.
+ */
+export const summarizeAttendance = (
+  records: AttendanceRecord[],
+): AttendanceSummary => {
+  const summary: AttendanceSummary = {
+    present: 0,
+    late: 0,
+    absent: 0,
+    excused: 0,
+    benched: 0,
+    percentage: null,
+  };
+  records.forEach((record) => {
+    summary[record.status] += 1;
+  });
+
+  const attended = summary.present + summary.late + summary.benched;
+  const counted = attended + summary.absent;
+  summary.percentage = counted > 0
+    ? Math.round((attended / counted) * 1000) / 10
+    : null;
+  return summary;
+};
+
+/**
+ * Keeps one record per event, preferring the best status.
+ */
+export const bestRecordPerEvent = <T extends AttendanceRecord>(
+  records: T[],
+): T[] => {
+  const byEvent = new Map<number, T>();
+  records.forEach((record) => {
+    const current = byEvent.get(record.event_id);
+    if (!current || STATUS_PRIORITY[record.status] > STATUS_PRIORITY[current.status]) {
+      byEvent.set(record.event_id, record);
+    }
+  });
+  return [...byEvent.values()];
+};
@@ -0,0 +1,67 @@
+/**
+ * Before/after diffs for the audit log.
+ *
+ * Only fields whose value changed are kept, so an entry shows what an officer
+ * actually edited rather than the whole row.
+ */
+
+export type AuditSnapshot = Record<string, unknown>;
+
+export interface AuditDiff {
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+}
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = ["created_at", "updated_at"];
+
+// Compares values regardless of the key order of nested objects
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value ?? null, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+        Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)),
+      )
+      : nested);
+
+// Dates and other non-JSON values as they will be stored in the jsonb column
+const toJsonValue = (value: unknown): unknown =>
+  value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+const pickFields = (snapshot: AuditSnapshot, fields: string[]): AuditSnapshot =>
+  Object.fromEntries(fields.map((field) => [field, toJsonValue(snapshot[field])]));
+
+/**
+ * Keeps the fields that differ between two snapshots. A null snapshot means the
+ * target was created (before) or deleted (after) and the other side is kept whole.
+ * Returns null when nothing changed.
+ */
+export const diffSnapshots = (
+  before: AuditSnapshot | null,
+  after: AuditSnapshot | null,
+): AuditDiff | null => {
+  const fieldsOf = (snapshot: AuditSnapshot) =>
+    Object.keys(snapshot).filter((field) => !IGNORED_FIELDS.includes(field));
+
+  if (before === null || after === null) {
+    if (before === null && after === null) {
+      return null;
+    }
+    return {
+      before: before && pickFields(before, fieldsOf(before)),
+      after: after && pickFields(after, fieldsOf(after)),
+    };
+  }
+
+  const fields = [...new Set([...fieldsOf(before), ...fieldsOf(after)])]
+    .filter((field) =>
+      stableStringify(before[field]) !== stableStringify(after[field])
+    );
+  if (fields.length === 0) {
+    return null;
+  }
+  return {
+    before: pickFields(before, fields),
+    after: pickFields(after, fields),
+  };
+};
@@ -0,0 +1,61 @@
+/**
+ * Character snapshot metrics and retention.
+ *
+ * A character gets one snapshot per UTC day. Daily snapshots are kept for
+ * DAILY_RETENTION_DAYS, after which only the last snapshot of each week is
+ * kept, and nothing older than MAX_RETENTION_DAYS.
+ */
+
+export const DAILY_RETENTION_DAYS = 90;
+export const MAX_RETENTION_DAYS = 730;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SnapshotMetrics {
+  level: number | null;
+  equipped_item_level: number | null;
+  average_item_level: number | null;
+  mythic_rating: number | null;
+  achievement_points: number | null;
+}
+
+/**
+ * Anything carrying the profile metrics: the fresh Battle.net payload or the stored profile
+ */
+export interface SnapshotSource {
+  level?: number | null;
+  equipped_item_level?: number | null;
+  average_item_level?: number | null;
+  achievement_points?: number | null;
+}
+
+const toMetric = (value: number | null | undefined): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+/**
+ * Metrics to snapshot from a character profile and its keystone profile.
+ */
+export const buildSnapshotMetrics = (
+  profile: SnapshotSource | null | undefined,
+  mythicRating: number | null | undefined,
+): SnapshotMetrics => ({
+  level: toMetric(profile?.level),
+  equipped_item_level: toMetric(profile?.equipped_item_level),
+  average_item_level: toMetric(profile?.average_item_level),
+  mythic_rating: toMetric(mythicRating) === null
+    ? null
+    : Math.round(mythicRating! * 10) / 10,
+  achievement_points: toMetric(profile?.achievement_points),
+});
+
+/**
+ * UTC calendar date of a moment, as YYYY-MM-DD.
+ */
+export const toSnapshotDate = (date: Date): string =>
+  date.toISOString().slice(0, 10);
+
+/**
+ * Snapshot date `days` days before `now`.
+ */
+export const snapshotDateDaysAgo = (days: number, now: Date = new Date()): string =>
+  toSnapshotDate(new Date(now.getTime() - days * DAY_MS));
@@ -0,0 +1,136 @@
+/**
+ * Gear audit rules.
+ *
+ * Flags what officers ask people to fix before raid: enchantable slots without
+ * an enchant, sockets without a gem and items far below the character's own
+ * average item level. Set pieces are counted but never an issue.
+ */
+
+import type {
+  BattleNetCharacterEquipment,
+  BattleNetItem,
+} from "../../../shared/types/guild.js";
+import type { LowItemLevelItem } from "../../../shared/types/api/gear.js";
+
+// Slots that take a permanent enchant in the current expansion
+const ENCHANTABLE_SLOTS = [
+  "BACK",
+  "CHEST",
+  "WRIST",
+  "LEGS",
+  "FEET",
+  "FINGER_1",
+  "FINGER_2",
+  "MAIN_HAND",
+];
+
+// Off hands are only enchantable when they are weapons
+const WEAPON_ITEM_CLASS_ID = 2;
+
+// Cosmetic slots that never count
+const IGNORED_SLOTS = ["SHIRT", "TABARD"];
+
+// How far below the average an item has to be to stand out
+export const LOW_ITEM_LEVEL_MARGIN = 15;
+
+export interface GearAuditFindings {
+  averageItemLevel: number | null;
+  missingEnchants: string[];
+  emptySockets: string[];
+  lowItemLevelItems: LowItemLevelItem[];
+  tierPieces: number;
+  tierSetName: string | null;
+  issueCount: number;
+}
+
+const isEnchantable = (item: BattleNetItem): boolean =>
+  ENCHANTABLE_SLOTS.includes(item.slot.type) ||
+  (item.slot.type === "OFF_HAND" &&
+    item.item_class?.id === WEAPON_ITEM_CLASS_ID);
+
+// Weapon oils and other temporary enchants wear off, so they do not satisfy the audit
+const hasPermanentEnchant = (item: BattleNetItem): boolean =>
+  (item.enchantments ?? []).some((enchantment) =>
+    enchantment.enchantment_slot?.type === "PERMANENT"
+  );
+
+const itemName = (item: BattleNetItem): string | null =>
+  item.name ?? item.item?.name ?? null;
+
+/**
+ * The set with the most equipped pieces, counted from the set details of each item.
+ */
+const findBestSet = (
+  items: BattleNetItem[],
+): { name: string | null; pieces: number } => {
+  let best = { name: null as string | null, pieces: 0 };
+  for (const item of items) {
+    if (!item.set) continue;
+    const flagged = item.set.items.filter((setItem) => setItem.is_equipped)
+      .length;
+    // Older payloads lack is_equipped; count the equipped items of the set instead
+    const pieces = flagged > 0 ? flagged : items.filter((other) =>
+      other.set?.item_set.id === item.set!.item_set.id
+    ).length;
+    if (pieces > best.pieces) {
+      best = { name: item.set.item_set.name, pieces };
+    }
+  }
+  return best;
+};
+
+/**
+ * Audits the equipped items of one character.
+ */
+export const auditEquipment = (
+  equipment: BattleNetCharacterEquipment | null | undefined,
+): GearAuditFindings => {
+  const items = (equipment?.equipped_items ?? []).filter((item) =>
+    item?.slot?.type && !IGNORED_SLOTS.includes(item.slot.type)
+  );
+
+  const levels = items
+    .map((item) => item.level?.value ?? 0)
+    .filter((level) => level > 0);
+  const averageItemLevel = levels.length > 0
+    ? Math.round(
+      (levels.reduce((sum, level) => sum + level, 0) / levels.length) * 10,
+    ) / 10
+    : null;
+
+  const missingEnchants = items
+    .filter((item) => isEnchantable(item) && !hasPermanentEnchant(item))
+    .map((item) => item.slot.type);
+
+  const emptySockets = items.flatMap((item) =>
+    (item.sockets ?? [])
+      .filter((socket) => !socket.item)
+      .map(() => item.slot.type)
+  );
+
+  const lowItemLevelItems: LowItemLevelItem[] = averageItemLevel === null
+    ? []
+    : items
+      .filter((item) =>
+        (item.level?.value ?? 0) > 0 &&
+        item.level!.value < averageItemLevel - LOW_ITEM_LEVEL_MARGIN
+      )
+      .map((item) => ({
+        slot: item.slot.type,
+        itemName: itemName(item),
+        itemLevel: item.level!.value,
+      }));
+
+  const bestSet = findBestSet(items);
+
+  return {
+    averageItemLevel,
+    missingEnchants,
+    emptySockets,
+    lowItemLevelItems,
+    tierPieces: bestSet.pieces,
+    tierSetName: bestSet.name,
+    issueCount: missingEnchants.length + emptySockets.length +
+      lowItemLevelItems.length,
+  };
+};
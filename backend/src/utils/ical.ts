@@ -0,0 +1,122 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for the event feeds.
+ *
+ * All times are written in UTC ("...Z"), so calendar apps convert them to the
+ * subscriber's own timezone and no VTIMEZONE definitions are needed.
+ */
+
+export type IcsEventStatus = "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+
+export interface IcsEvent {
+  uid: string;
+  start: Date | string;
+  end: Date | string;
+  summary: string;
+  description?: string | null;
+  url?: string;
+  categories?: string[];
+  status: IcsEventStatus;
+  sequence: number;
+  lastModified: Date | string;
+}
+
+export interface IcsCalendar {
+  name: string;
+  events: IcsEvent[];
+}
+
+const MAX_LINE_OCTETS = 75;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+/**
+ * Formats an instant as an iCalendar UTC date-time, e.g. 20250501T180000Z.
+ */
+export const formatIcsDate = (value: Date | string): string => {
+  const d = new Date(value);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${
+    pad(d.getUTCDate())
+  }T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+/**
+ * Escapes a TEXT value: backslashes, semicolons, commas and newlines.
+ */
+export const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Folds a content line to 75 octets, continuing on lines that start with a space.
+ * Never splits a multi-byte character.
+ */
+export const foldIcsLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, "utf8");
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+};
+
+const buildEventLines = (event: IcsEvent, stamp: string): string[] => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(",")}`);
+  }
+  lines.push(
+    `STATUS:${event.status}`,
+    `SEQUENCE:${event.sequence}`,
+    `LAST-MODIFIED:${formatIcsDate(event.lastModified)}`,
+    "END:VEVENT",
+  );
+  return lines;
+};
+
+/**
+ * Builds a complete VCALENDAR document with CRLF line endings.
+ */
+export const buildIcsCalendar = (
+  calendar: IcsCalendar,
+  now: Date = new Date(),
+): string => {
+  const stamp = formatIcsDate(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//WoW Guild Manager//Events//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+    ...calendar.events.flatMap((event) => buildEventLines(event, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+};
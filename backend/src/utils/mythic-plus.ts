@@ -0,0 +1,119 @@
+/**
+ * Mythic+ maths.
+ *
+ * Works on the stored keystone profile, whose best runs are the best run per
+ * dungeon of the period it was synced in. Runs count towards a reset by their
+ * completion time, so a profile synced before the reset contributes nothing.
+ * Season bests come from the season profile and are stored on their own.
+ */
+
+import type {
+  BattleNetMythicKeystoneProfile,
+  BattleNetMythicKeystoneRun,
+} from "../../../shared/types/guild.js";
+import type { MythicPlusDungeonBest } from "../../../shared/types/api/mythic-plus.js";
+import type { BattleNetMythicKeystoneBestRun } from "../types/battlenet-api.types.js";
+
+// Key level that unlocks the best Great Vault reward
+export const VAULT_KEY_LEVEL = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weekly reset per region: UTC weekday (0 = Sunday) and hour
+const WEEKLY_RESETS: Record<string, { weekday: number; hour: number }> = {
+  us: { weekday: 2, hour: 15 },
+  eu: { weekday: 3, hour: 4 },
+  kr: { weekday: 3, hour: 23 },
+  tw: { weekday: 3, hour: 23 },
+  cn: { weekday: 3, hour: 23 },
+};
+
+export interface MythicPlusSummary {
+  rating: number;
+  bestTimedRunsThisReset: MythicPlusDungeonBest[];
+  dungeonsThisReset: number;
+  highestKeyThisReset: number | null;
+}
+
+/**
+ * Start of the weekly reset period `now` falls in. Unknown regions use the US reset.
+ */
+export const lastWeeklyReset = (region: string, now: Date = new Date()): Date => {
+  const reset = WEEKLY_RESETS[region.toLowerCase()] ?? WEEKLY_RESETS.us;
+  const daysBack = (now.getUTCDay() - reset.weekday + 7) % 7;
+  const candidate = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate() - daysBack,
+    reset.hour,
+  );
+  return new Date(candidate > now.getTime() ? candidate - 7 * DAY_MS : candidate);
+};
+
+const flattenRun = (run: BattleNetMythicKeystoneRun): BattleNetMythicKeystoneBestRun => ({
+  dungeon_id: run.dungeon.id,
+  dungeon_name: run.dungeon.name,
+  keystone_level: run.keystone_level,
+  completed_timestamp: new Date(run.completed_timestamp).getTime(),
+  is_completed_within_time: run.is_completed_within_time ?? false,
+});
+
+/**
+ * Highest timed key per dungeon, highest key first. Runs over time are left out.
+ */
+export const bestTimedRunPerDungeon = (
+  runs: BattleNetMythicKeystoneBestRun[],
+): MythicPlusDungeonBest[] => {
+  const bestByDungeon = new Map<number, MythicPlusDungeonBest>();
+  for (const run of runs) {
+    if (!run.is_completed_within_time) continue;
+    const best = bestByDungeon.get(run.dungeon_id);
+    if (!best || run.keystone_level > best.keystoneLevel) {
+      bestByDungeon.set(run.dungeon_id, {
+        dungeonId: run.dungeon_id,
+        dungeonName: run.dungeon_name,
+        keystoneLevel: run.keystone_level,
+        completedAt: new Date(run.completed_timestamp).toISOString(),
+      });
+    }
+  }
+
+  return [...bestByDungeon.values()].sort((a, b) =>
+    b.keystoneLevel - a.keystoneLevel ||
+    a.dungeonName.localeCompare(b.dungeonName)
+  );
+};
+
+/**
+ * Latest season the keystone profile lists, or null for a character that never ran a key
+ */
+export const currentMythicSeasonId = (
+  profile: { seasons?: Array<{ id: number }> } | null | undefined,
+): number | null => {
+  const seasonIds = (profile?.seasons ?? []).map((season) => season.id);
+  return seasonIds.length > 0 ? Math.max(...seasonIds) : null;
+};
+
+/**
+ * Rating, highest timed key per dungeon this reset and dungeons run since the given reset.
+ * The keystone profile keeps one best run per dungeon for the period, so it tells
+ * how many dungeons were done, not how many runs.
+ */
+export const summarizeMythicProfile = (
+  profile: BattleNetMythicKeystoneProfile | null | undefined,
+  resetAt: Date,
+): MythicPlusSummary => {
+  // A profile synced before the reset still lists last week's runs
+  const runsThisReset = (profile?.current_period?.best_runs ?? [])
+    .map(flattenRun)
+    .filter((run) => run.completed_timestamp >= resetAt.getTime());
+
+  return {
+    rating: Math.round(profile?.current_mythic_rating?.rating ?? 0),
+    bestTimedRunsThisReset: bestTimedRunPerDungeon(runsThisReset),
+    dungeonsThisReset: new Set(runsThisReset.map((run) => run.dungeon_id)).size,
+    highestKeyThisReset: runsThisReset.length > 0
+      ? Math.max(...runsThisReset.map((run) => run.keystone_level))
+      : null,
+  };
+};
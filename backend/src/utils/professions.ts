@@ -0,0 +1,58 @@
+/**
+ * Flattens a character's primary professions into one row per tier.
+ */
+
+import type { DbKnownRecipe } from "../../../shared/types/db/models/profession.js";
+import type { BattleNetProfessions } from "../types/battlenet-api.types.js";
+
+// The original tiers carry the bare profession name
+const CLASSIC_EXPANSION = "Classic";
+
+export interface ProfessionTierRow {
+  profession_id: number;
+  profession_name: string;
+  tier_id: number;
+  tier_name: string;
+  expansion: string;
+  skill_points: number;
+  max_skill_points: number;
+  known_recipes: DbKnownRecipe[];
+}
+
+/**
+ * Expansion part of a tier name, e.g. "Khaz Algar" for "Khaz Algar Blacksmithing".
+ */
+export const tierExpansion = (
+  tierName: string,
+  professionName: string,
+): string => {
+  const tier = tierName.trim();
+  if (tier.toLowerCase() === professionName.trim().toLowerCase()) {
+    return CLASSIC_EXPANSION;
+  }
+  if (tier.toLowerCase().endsWith(` ${professionName.trim().toLowerCase()}`)) {
+    return tier.slice(0, tier.length - professionName.trim().length).trim();
+  }
+  return tier;
+};
+
+/**
+ * One row per tier of each primary profession. Recipes without a name are dropped.
+ */
+export const normalizeProfessions = (
+  primaries: BattleNetProfessions["primaries"] | null | undefined,
+): ProfessionTierRow[] =>
+  (primaries ?? []).flatMap((primary) =>
+    (primary.tiers ?? []).map((tier): ProfessionTierRow => ({
+      profession_id: primary.profession.id,
+      profession_name: primary.profession.name,
+      tier_id: tier.tier.id,
+      tier_name: tier.tier.name,
+      expansion: tierExpansion(tier.tier.name, primary.profession.name),
+      skill_points: tier.skill_points,
+      max_skill_points: tier.max_skill_points,
+      known_recipes: (tier.known_recipes ?? [])
+        .filter((recipe) => !!recipe.name)
+        .map((recipe) => ({ id: recipe.id, name: recipe.name })),
+    }))
+  );
@@ -0,0 +1,131 @@
+/**
+ * Raid progression maths.
+ *
+ * A boss counts as killed on a difficulty once any of the counted characters
+ * killed it there. Only the newest expansion with a kill is summarized.
+ */
+
+import type {
+  RaidDifficulty,
+  RaidDifficultyProgress,
+  RaidInstanceProgress,
+} from "../../../shared/types/api/raid.js";
+import type { DbCharacterRaidKill } from "../../../shared/types/db/models/raid.js";
+
+// Easiest first
+const DIFFICULTY_ORDER: RaidDifficulty[] = ["LFR", "NORMAL", "HEROIC", "MYTHIC"];
+
+const DIFFICULTY_ABBREVIATIONS: Record<RaidDifficulty, string> = {
+  LFR: "LFR",
+  NORMAL: "N",
+  HEROIC: "H",
+  MYTHIC: "M",
+};
+
+export type RaidKillRow = Pick<
+  DbCharacterRaidKill,
+  | "expansion_id"
+  | "expansion_name"
+  | "instance_id"
+  | "instance_name"
+  | "difficulty"
+  | "encounter_id"
+  | "instance_encounter_count"
+>;
+
+export interface RaidProgressionSummary {
+  expansionId: number | null;
+  expansionName: string | null;
+  instances: RaidInstanceProgress[];
+  summary: string | null;
+}
+
+const formatProgress = (
+  progress: Omit<RaidDifficultyProgress, "summary">,
+): string =>
+  `${progress.bossesKilled}/${progress.totalBosses} ${
+    DIFFICULTY_ABBREVIATIONS[progress.difficulty]
+  }`;
+
+/**
+ * The short form of a raid's progress, e.g. "8/8 H, 3/8 M": the hardest fully
+ * cleared difficulty followed by the harder ones in progress. LFR is only
+ * shown when nothing else was killed.
+ */
+export const summarizeInstanceProgress = (
+  difficulties: RaidDifficultyProgress[],
+): string | null => {
+  const shown = difficulties.some((progress) => progress.difficulty !== "LFR")
+    ? difficulties.filter((progress) => progress.difficulty !== "LFR")
+    : difficulties;
+  if (shown.length === 0) {
+    return null;
+  }
+
+  let start = 0;
+  shown.forEach((progress, index) => {
+    if (progress.bossesKilled >= progress.totalBosses) {
+      start = index;
+    }
+  });
+  return shown.slice(start).map(formatProgress).join(", ");
+};
+
+/**
+ * Bosses killed per raid and difficulty in the newest expansion, newest raid first.
+ */
+export const summarizeRaidProgression = (
+  kills: RaidKillRow[],
+): RaidProgressionSummary => {
+  if (kills.length === 0) {
+    return { expansionId: null, expansionName: null, instances: [], summary: null };
+  }
+
+  const expansionId = Math.max(...kills.map((kill) => kill.expansion_id));
+  const expansionKills = kills.filter((kill) => kill.expansion_id === expansionId);
+
+  const instances = new Map<number, {
+    name: string;
+    bosses: Map<RaidDifficulty, { killed: Set<number>; total: number }>;
+  }>();
+  for (const kill of expansionKills) {
+    const difficulty = kill.difficulty as RaidDifficulty;
+    if (!DIFFICULTY_ORDER.includes(difficulty)) {
+      continue;
+    }
+    const instance = instances.get(kill.instance_id) ??
+      { name: kill.instance_name, bosses: new Map() };
+    const bosses = instance.bosses.get(difficulty) ?? { killed: new Set(), total: 0 };
+    bosses.killed.add(kill.encounter_id);
+    bosses.total = Math.max(bosses.total, kill.instance_encounter_count);
+    instance.bosses.set(difficulty, bosses);
+    instances.set(kill.instance_id, instance);
+  }
+
+  const instanceProgress: RaidInstanceProgress[] = [...instances.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([instanceId, instance]) => ({
+      instanceId,
+      instanceName: instance.name,
+      difficulties: DIFFICULTY_ORDER
+        .filter((difficulty) => instance.bosses.has(difficulty))
+        .map((difficulty) => {
+          const bosses = instance.bosses.get(difficulty)!;
+          const progress = {
+            difficulty,
+            bossesKilled: bosses.killed.size,
+            totalBosses: Math.max(bosses.total, bosses.killed.size),
+          };
+          return { ...progress, summary: formatProgress(progress) };
+        }),
+    }));
+
+  return {
+    expansionId,
+    expansionName: expansionKills[0].expansion_name,
+    instances: instanceProgress,
+    summary: instanceProgress.length > 0
+      ? summarizeInstanceProgress(instanceProgress[0].difficulties)
+      : null,
+  };
+};
@@ -0,0 +1,167 @@
+/**
+ * Date helpers for weekly recurrence rules.
+ *
+ * Occurrences repeat at the same wall-clock time in the series' timezone, so a
+ * raid at 20:00 Europe/Paris stays at 20:00 across daylight saving changes.
+ * Calendar dates are handled as YYYY-MM-DD strings and only converted to
+ * instants once the timezone is applied.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on the days walked per call, so a broken rule cannot loop forever
+const MAX_DAYS_SCANNED = 366 * 5;
+
+export interface WeeklyRecurrence {
+  start_date: string; // YYYY-MM-DD
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  interval_weeks: number;
+  until_date: string | null; // YYYY-MM-DD
+  occurrence_count: number | null;
+}
+
+export interface ZonedDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+}
+
+/**
+ * A date the rule produces, with its 0-based position in the series.
+ */
+export interface OccurrenceDate {
+  date: string;
+  index: number;
+}
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const parseDate = (date: string): number => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const formatDate = (utcMs: number): string => {
+  const d = new Date(utcMs);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+};
+
+/**
+ * Adds (or with a negative value, subtracts) whole days to a YYYY-MM-DD date.
+ */
+export const addDays = (date: string, days: number): string =>
+  formatDate(parseDate(date) + days * DAY_MS);
+
+/**
+ * Day of the week of a YYYY-MM-DD date, 0 = Sunday.
+ */
+export const weekdayOf = (date: string): number =>
+  new Date(parseDate(date)).getUTCDay();
+
+/**
+ * Monday of the week a YYYY-MM-DD date falls in.
+ */
+export const startOfWeek = (date: string): string =>
+  addDays(date, -((weekdayOf(date) + 6) % 7));
+
+/**
+ * Whole days from one YYYY-MM-DD date to another.
+ */
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDate(to) - parseDate(from)) / DAY_MS);
+
+/**
+ * Throws a RangeError if the timezone is not a valid IANA name.
+ */
+export const assertValidTimezone = (timeZone: string): void => {
+  new Intl.DateTimeFormat("en-US", { timeZone });
+};
+
+/**
+ * Calendar date, wall-clock time and weekday of an instant in a timezone.
+ */
+export const toZonedDateTime = (
+  instant: Date,
+  timeZone: string,
+): ZonedDateTime => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes): string =>
+    parts.find((part) => part.type === type)?.value ?? "00";
+
+  const date = `${get("year")}-${get("month")}-${get("day")}`;
+  return {
+    date,
+    time: `${get("hour")}:${get("minute")}`,
+    weekday: weekdayOf(date),
+  };
+};
+
+// Offset of the timezone from UTC at an instant, in milliseconds
+const timezoneOffsetMs = (instant: Date, timeZone: string): number => {
+  const zoned = toZonedDateTime(instant, timeZone);
+  const [hours, minutes] = zoned.time.split(":").map(Number);
+  const wallClockAsUtc = parseDate(zoned.date) +
+    (hours * 60 + minutes) * 60 * 1000;
+  const instantToMinute = Math.floor(instant.getTime() / 60000) * 60000;
+  return wallClockAsUtc - instantToMinute;
+};
+
+/**
+ * Converts a wall-clock date and time in a timezone to an instant.
+ * Times skipped by a daylight saving change resolve to the shifted hour.
+ */
+export const zonedDateTimeToUtc = (
+  date: string,
+  time: string,
+  timeZone: string,
+): Date => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClockAsUtc = parseDate(date) + (hours * 60 + minutes) * 60 * 1000;
+
+  // The offset depends on the instant we are looking for, so correct it once
+  const firstGuess = wallClockAsUtc -
+    timezoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+  return new Date(
+    wallClockAsUtc - timezoneOffsetMs(new Date(firstGuess), timeZone),
+  );
+};
+
+/**
+ * Dates the rule produces from its start up to and including `lastDate`.
+ * Weeks run Sunday to Saturday and are counted from the week of the start date.
+ */
+export const enumerateOccurrenceDates = (
+  rule: WeeklyRecurrence,
+  lastDate: string,
+): OccurrenceDate[] => {
+  const weekdays = new Set(rule.weekdays);
+  const firstWeekStart = addDays(rule.start_date, -weekdayOf(rule.start_date));
+  const end = rule.until_date && rule.until_date < lastDate
+    ? rule.until_date
+    : lastDate;
+
+  const dates: OccurrenceDate[] = [];
+  let date = rule.start_date;
+  for (let scanned = 0; date <= end && scanned < MAX_DAYS_SCANNED; scanned++) {
+    if (
+      rule.occurrence_count !== null &&
+      dates.length >= rule.occurrence_count
+    ) {
+      break;
+    }
+    const week = Math.floor(daysBetween(firstWeekStart, date) / 7);
+    if (weekdays.has(weekdayOf(date)) && week % rule.interval_weeks === 0) {
+      dates.push({ date, index: dates.length });
+    }
+    date = addDays(date, 1);
+  }
+  return dates;
+};
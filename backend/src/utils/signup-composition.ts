@@ -0,0 +1,119 @@
+/**
+ * Seat accounting for role-composition-aware sign-ups.
+ *
+ * A Confirmed sign-up takes a seat when the event is below its participant cap
+ * and the sign-up's role is below its required count. Roles without a count
+ * only count towards the cap. Everyone else waits in arrival order.
+ */
+
+import type { CompositionRole } from "../../../shared/types/api/composition.js";
+import type { EventDetails } from "../../../shared/types/models/event.js";
+
+export const COMPOSITION_ROLES: CompositionRole[] = ["tanks", "healers", "dps"];
+
+const ROLE_BUCKETS: Record<string, CompositionRole> = {
+  Tank: "tanks",
+  Healer: "healers",
+  DPS: "dps",
+  Support: "dps",
+};
+
+export interface CompositionLimits {
+  maxParticipants: number | null; // null = no cap
+  required: Record<CompositionRole, number | null>; // null = no limit for the role
+}
+
+export interface SeatCounts {
+  total: number;
+  byRole: Record<CompositionRole, number>;
+}
+
+/**
+ * A sign-up as seen by the seating logic.
+ */
+export interface SeatCandidate {
+  character_role: string | null;
+}
+
+const toLimit = (value: unknown): number | null =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0
+    ? value
+    : null;
+
+/**
+ * Maps a character role to its composition slot. Support characters fill DPS
+ * slots; characters without a role only count towards the participant cap.
+ */
+export const roleBucket = (
+  role: string | null | undefined,
+): CompositionRole | null => (role ? ROLE_BUCKETS[role] ?? null : null);
+
+export const compositionLimitsOf = (event: {
+  max_participants?: number | null;
+  event_details?: EventDetails | null;
+}): CompositionLimits => {
+  const requiredRoles = event.event_details?.required_roles ?? {};
+  return {
+    maxParticipants: event.max_participants && event.max_participants > 0
+      ? event.max_participants
+      : null,
+    required: {
+      tanks: toLimit(requiredRoles.tanks),
+      healers: toLimit(requiredRoles.healers),
+      dps: toLimit(requiredRoles.dps),
+    },
+  };
+};
+
+export const countSeats = (seated: SeatCandidate[]): SeatCounts => {
+  const counts: SeatCounts = {
+    total: 0,
+    byRole: { tanks: 0, healers: 0, dps: 0 },
+  };
+  seated.forEach((candidate) => takeSeat(counts, candidate));
+  return counts;
+};
+
+export const hasFreeSeat = (
+  limits: CompositionLimits,
+  counts: SeatCounts,
+  candidate: SeatCandidate,
+): boolean => {
+  if (limits.maxParticipants !== null && counts.total >= limits.maxParticipants) {
+    return false;
+  }
+  const bucket = roleBucket(candidate.character_role);
+  if (bucket === null) {
+    return true;
+  }
+  const required = limits.required[bucket];
+  return required === null || counts.byRole[bucket] < required;
+};
+
+export const takeSeat = (counts: SeatCounts, candidate: SeatCandidate): void => {
+  counts.total += 1;
+  const bucket = roleBucket(candidate.character_role);
+  if (bucket !== null) {
+    counts.byRole[bucket] += 1;
+  }
+};
+
+/**
+ * Walks the waitlist in arrival order and returns everyone who now fits.
+ * A waiting tank does not block a DPS behind them when only DPS slots are free.
+ */
+export const selectPromotions = <T extends SeatCandidate>(
+  limits: CompositionLimits,
+  seated: SeatCandidate[],
+  waitlist: T[],
+): T[] => {
+  const counts = countSeats(seated);
+  const promoted: T[] = [];
+  for (const candidate of waitlist) {
+    if (hasFreeSeat(limits, counts, candidate)) {
+      takeSeat(counts, candidate);
+      promoted.push(candidate);
+    }
+  }
+  return promoted;
+};
@@ -0,0 +1,44 @@
+// backend/tests/attendance.test.ts
+import {
+  bestRecordPerEvent,
+  summarizeAttendance,
+} from '../src/utils/attendance.js';
+
+describe('attendance utils', () => {
+  it('counts present, late and benched as attending and skips excused', () => {
+    const summary = summarizeAttendance([
+      { event_id: 1, status: 'present' },
+      { event_id: 2, status: 'late' },
+      { event_id: 3, status: 'benched' },
+      { event_id: 4, status: 'absent' },
+      { event_id: 5, status: 'excused' },
+    ]);
+
+    expect(summary).toEqual({
+      present: 1,
+      late: 1,
+      absent: 1,
+      excused: 1,
+      benched: 1,
+      percentage: 75,
+    });
+  });
+
+  it('has no percentage without countable events', () => {
+    expect(summarizeAttendance([{ event_id: 1, status: 'excused' }]).percentage).toBeNull();
+    expect(summarizeAttendance([]).percentage).toBeNull();
+  });
+
+  it('keeps the best record when several characters attended one event', () => {
+    const records = bestRecordPerEvent([
+      { event_id: 1, status: 'absent' as const },
+      { event_id: 1, status: 'present' as const },
+      { event_id: 2, status: 'excused' as const },
+    ]);
+
+    expect(records).toEqual([
+      { event_id: 1, status: 'present' },
+      { event_id: 2, status: 'excused' },
+    ]);
+  });
+});
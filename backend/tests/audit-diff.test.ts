@@ -0,0 +1,48 @@
+// backend/tests/audit-diff.test.ts
+import { diffSnapshots } from '../src/utils/audit-diff.js';
+
+describe('audit diff utils', () => {
+  it('keeps only the fields that changed', () => {
+    expect(diffSnapshots(
+      { id: 3, name: 'Raiders', max_participants: 20 },
+      { id: 3, name: 'Mythic Raiders', max_participants: 20 },
+    )).toEqual({
+      before: { name: 'Raiders' },
+      after: { name: 'Mythic Raiders' },
+    });
+  });
+
+  it('returns null when nothing but bookkeeping columns changed', () => {
+    expect(diffSnapshots(
+      { name: 'Raiders', updated_at: '2025-05-01T10:00:00.000Z' },
+      { name: 'Raiders', updated_at: '2025-05-02T10:00:00.000Z' },
+    )).toBeNull();
+  });
+
+  it('ignores the key order of nested objects', () => {
+    expect(diffSnapshots(
+      { event_details: { difficulty: 'Heroic', min_item_level: 480 } },
+      { event_details: { min_item_level: 480, difficulty: 'Heroic' } },
+    )).toBeNull();
+  });
+
+  it('keeps the whole snapshot of a created or deleted target', () => {
+    const start = new Date('2025-05-01T19:00:00.000Z');
+
+    expect(diffSnapshots({ title: 'Raid', start_time: start, updated_at: 'x' }, null)).toEqual({
+      before: { title: 'Raid', start_time: '2025-05-01T19:00:00.000Z' },
+      after: null,
+    });
+    expect(diffSnapshots(null, { name: 'Raiders' })).toEqual({
+      before: null,
+      after: { name: 'Raiders' },
+    });
+  });
+
+  it('records a field that was removed as null', () => {
+    expect(diffSnapshots({ role: 'Tank' }, {})).toEqual({
+      before: { role: 'Tank' },
+      after: { role: null },
+    });
+  });
+});
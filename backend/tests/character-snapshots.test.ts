@@ -0,0 +1,45 @@
+// backend/tests/character-snapshots.test.ts
+import {
+  buildSnapshotMetrics,
+  snapshotDateDaysAgo,
+  toSnapshotDate,
+} from '../src/utils/character-snapshots.js';
+
+describe('character snapshot utils', () => {
+  describe('buildSnapshotMetrics', () => {
+    it('takes the metrics from the profile and the keystone rating', () => {
+      expect(buildSnapshotMetrics({
+        level: 80,
+        equipped_item_level: 624,
+        average_item_level: 627,
+        achievement_points: 21450,
+      }, 2845.6789)).toEqual({
+        level: 80,
+        equipped_item_level: 624,
+        average_item_level: 627,
+        mythic_rating: 2845.7,
+        achievement_points: 21450,
+      });
+    });
+
+    it('leaves missing metrics empty', () => {
+      expect(buildSnapshotMetrics(null, undefined)).toEqual({
+        level: null,
+        equipped_item_level: null,
+        average_item_level: null,
+        mythic_rating: null,
+        achievement_points: null,
+      });
+    });
+  });
+
+  describe('snapshot dates', () => {
+    it('uses the UTC calendar date', () => {
+      expect(toSnapshotDate(new Date('2025-06-04T23:30:00-02:00'))).toBe('2025-06-05');
+    });
+
+    it('counts days back from now', () => {
+      expect(snapshotDateDaysAgo(90, new Date('2025-06-04T12:00:00Z'))).toBe('2025-03-06');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+// backend/tests/character-sync-queue.test.ts
+import { describe, expect, it, jest } from '@jest/globals';
+
+// Mock the queue model so no database is needed
+jest.unstable_mockModule('../src/models/sync_job.model.js', () => ({
+  __esModule: true,
+  default: {
+    enqueueMany: jest.fn(),
+  },
+}));
+
+// Mock the character sync itself
+jest.unstable_mockModule('../src/jobs/battlenet-sync/character-sync.js', () => ({
+  syncCharacter: jest.fn(),
+}));
+
+// Mock run reporting
+jest.unstable_mockModule('../src/jobs/battlenet-sync/sync-run-reporter.js', () => ({
+  reportCharacterSyncOutcome: jest.fn(),
+}));
+
+// Mock logger
+jest.unstable_mockModule('../src/utils/logger.js', () => ({
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+// ESM mocks only apply to modules imported after they are registered
+const { computeRetryDelayMs, enqueueCharacterSyncs } = await import('../src/jobs/battlenet-sync/character-sync-queue.js');
+const { default: syncJobModel } = await import('../src/models/sync_job.model.js');
+
+describe('character sync queue', () => {
+  describe('computeRetryDelayMs', () => {
+    it('should start at 30 seconds and double per attempt', () => {
+      expect(computeRetryDelayMs(1)).toBe(30_000);
+      expect(computeRetryDelayMs(2)).toBe(60_000);
+      expect(computeRetryDelayMs(3)).toBe(120_000);
+    });
+
+    it('should cap the delay at one hour', () => {
+      expect(computeRetryDelayMs(20)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe('enqueueCharacterSyncs', () => {
+    it('should enqueue one deduplicated job per character', async () => {
+      (syncJobModel.enqueueMany as jest.Mock<typeof syncJobModel.enqueueMany>).mockResolvedValueOnce(2);
+
+      const result = await enqueueCharacterSyncs([
+        { id: 1, name: 'Thrall', realm: 'draenor', class: 'Shaman', level: 80 },
+        { id: 2, name: 'Jaina', realm: 'draenor', class: 'Mage', level: 80 },
+      ], { guildId: 7, syncRunId: 42 });
+
+      expect(result).toBe(2);
+      expect(syncJobModel.enqueueMany).toHaveBeenCalledWith('character_sync', [
+        { payload: { characterId: 1, guildId: 7, syncRunId: 42 }, dedupeKey: 'character_sync:1', maxAttempts: 5 },
+        { payload: { characterId: 2, guildId: 7, syncRunId: 42 }, dedupeKey: 'character_sync:2', maxAttempts: 5 },
+      ]);
+    });
+  });
+});
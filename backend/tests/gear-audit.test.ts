@@ -0,0 +1,107 @@
+// backend/tests/gear-audit.test.ts
+import { auditEquipment } from '../src/utils/gear-audit.js';
+import { BattleNetCharacterEquipment } from '../../shared/types/guild.js';
+
+const item = (slot: string, level: number, extra: Record<string, unknown> = {}) => ({
+  slot: { type: slot, name: slot },
+  item: { id: level, name: `${slot} item` },
+  level: { value: level },
+  ...extra,
+});
+
+const enchanted = { enchantments: [{ display_string: 'Enchanted', enchantment_id: 1, enchantment_slot: { id: 0, type: 'PERMANENT' } }] };
+
+const equipment = (items: unknown[]) => ({ equipped_items: items } as unknown as BattleNetCharacterEquipment);
+
+describe('gear audit utils', () => {
+  it('returns no findings without equipment', () => {
+    expect(auditEquipment(null)).toEqual({
+      averageItemLevel: null,
+      missingEnchants: [],
+      emptySockets: [],
+      lowItemLevelItems: [],
+      tierPieces: 0,
+      tierSetName: null,
+      issueCount: 0,
+    });
+  });
+
+  it('flags enchantable slots without an enchant', () => {
+    const result = auditEquipment(equipment([
+      item('HEAD', 600),
+      item('BACK', 600),
+      item('FINGER_1', 600, enchanted),
+      item('OFF_HAND', 600, { item_class: { id: 4, name: 'Armor' } }),
+    ]));
+
+    expect(result.missingEnchants).toEqual(['BACK']);
+  });
+
+  it('treats weapon off hands as enchantable', () => {
+    const result = auditEquipment(equipment([
+      item('OFF_HAND', 600, { item_class: { id: 2, name: 'Weapon' } }),
+    ]));
+
+    expect(result.missingEnchants).toEqual(['OFF_HAND']);
+  });
+
+  it('ignores temporary enchants such as weapon oils', () => {
+    const result = auditEquipment(equipment([
+      item('MAIN_HAND', 600, {
+        enchantments: [{ display_string: 'Weapon Oil', enchantment_id: 2, enchantment_slot: { id: 1, type: 'TEMPORARY' } }],
+      }),
+    ]));
+
+    expect(result.missingEnchants).toEqual(['MAIN_HAND']);
+  });
+
+  it('counts each empty socket', () => {
+    const result = auditEquipment(equipment([
+      item('NECK', 600, {
+        sockets: [
+          { socket_type: { type: 'PRISMATIC' }, item: { id: 1, name: 'Gem' } },
+          { socket_type: { type: 'PRISMATIC' } },
+        ],
+      }),
+      item('HEAD', 600, { sockets: [{ socket_type: { type: 'PRISMATIC' } }] }),
+    ]));
+
+    expect(result.emptySockets).toEqual(['NECK', 'HEAD']);
+    expect(result.issueCount).toBe(2);
+  });
+
+  it('flags items far below the average item level and ignores cosmetic slots', () => {
+    const result = auditEquipment(equipment([
+      item('HEAD', 620),
+      item('SHOULDER', 620),
+      item('NECK', 620),
+      item('WAIST', 570),
+      item('SHIRT', 1),
+    ]));
+
+    expect(result.averageItemLevel).toBe(607.5);
+    expect(result.lowItemLevelItems).toEqual([
+      { slot: 'WAIST', itemName: 'WAIST item', itemLevel: 570 },
+    ]);
+  });
+
+  it('counts the equipped pieces of the best set', () => {
+    const set = {
+      item_set: { id: 1, name: 'Tier Set' },
+      items: [
+        { item: { id: 1, name: 'Helm' }, is_equipped: true },
+        { item: { id: 2, name: 'Shoulders' }, is_equipped: true },
+        { item: { id: 3, name: 'Chest' }, is_equipped: true },
+        { item: { id: 4, name: 'Gloves' }, is_equipped: true },
+        { item: { id: 5, name: 'Legs' }, is_equipped: false },
+      ],
+    };
+    const result = auditEquipment(equipment([
+      item('HEAD', 600, { set }),
+      item('SHOULDER', 600, { set }),
+    ]));
+
+    expect(result.tierPieces).toBe(4);
+    expect(result.tierSetName).toBe('Tier Set');
+  });
+});
@@ -0,0 +1,129 @@
+// backend/tests/guild-members-compare.test.ts
+import { compareGuildMembers, ExistingGuildMember } from '../src/jobs/battlenet-sync/guild-members-compare.js';
+import { BattleNetGuildMember } from '../../shared/types/guild.js';
+
+const rosterMember = (id: number, name: string, rank: number, level = 80): BattleNetGuildMember => ({
+  character: {
+    id,
+    name,
+    level,
+    realm: { key: { href: '' }, name: 'Argent Dawn', id: 1, slug: 'argent-dawn' },
+    playable_class: { key: { href: '' }, name: 'Mage', id: 8 },
+    playable_race: { key: { href: '' }, name: 'Human', id: 1 },
+    faction: { type: 'ALLIANCE', name: 'Alliance' },
+  },
+  rank,
+});
+
+const storedMember = (
+  memberId: number,
+  member: BattleNetGuildMember,
+  overrides: Partial<ExistingGuildMember> = {},
+): ExistingGuildMember => ({
+  id: memberId,
+  character_id: memberId * 10,
+  rank: member.rank,
+  character_name: member.character.name,
+  left_at: null,
+  member_data_json: member,
+  ...overrides,
+});
+
+const keyOf = (member: BattleNetGuildMember) => `${member.character.name.toLowerCase()}-argent-dawn`;
+
+const compare = (roster: BattleNetGuildMember[], existing: ExistingGuildMember[]) => {
+  const rosterMap = new Map(roster.map((member) => [keyOf(member), member]));
+  const existingMap = new Map(
+    existing.map((member) => [`${member.character_name!.toLowerCase()}-argent-dawn`, member]),
+  );
+  const characterMap = new Map(existing.map((member) => [
+    `${member.character_name!.toLowerCase()}-argent-dawn`,
+    member.character_id!,
+  ]));
+  return compareGuildMembers(rosterMap, existingMap, characterMap, 'eu');
+};
+
+describe('guild member comparison events', () => {
+  const officer = rosterMember(1, 'Jaina', 1);
+
+  it('records no joins when importing a roster for the first time', () => {
+    const { memberEvents, charactersToCreate } = compare([officer, rosterMember(2, 'Anduin', 4)], []);
+
+    expect(charactersToCreate).toHaveLength(2);
+    expect(memberEvents).toEqual([]);
+  });
+
+  it('records joins and leaves', () => {
+    const leaver = rosterMember(2, 'Anduin', 4);
+    const { memberEvents, memberIdsToDeactivate } = compare(
+      [officer, rosterMember(3, 'Thrall', 5)],
+      [storedMember(1, officer), storedMember(2, leaver)],
+    );
+
+    expect(memberIdsToDeactivate).toEqual([2]);
+    expect(memberEvents.map((event) => [event.characterName, event.eventType])).toEqual([
+      ['Thrall', 'joined'],
+      ['Anduin', 'left'],
+    ]);
+  });
+
+  it('does not record a member who left earlier as leaving again', () => {
+    const leaver = rosterMember(2, 'Anduin', 4);
+    const { memberEvents, memberIdsToDeactivate } = compare(
+      [officer],
+      [storedMember(1, officer), storedMember(2, leaver, { left_at: new Date('2025-05-01') })],
+    );
+
+    expect(memberIdsToDeactivate).toEqual([]);
+    expect(memberEvents).toEqual([]);
+  });
+
+  it('records a rejoin and brings the member back', () => {
+    const returning = rosterMember(2, 'Anduin', 4);
+    const { memberEvents, membersToUpdate } = compare(
+      [officer, returning],
+      [storedMember(1, officer), storedMember(2, returning, { left_at: new Date('2025-05-01') })],
+    );
+
+    expect(membersToUpdate).toEqual([expect.objectContaining({ memberId: 2, rejoined: true })]);
+    expect(memberEvents).toEqual([
+      expect.objectContaining({ characterId: 20, eventType: 'rejoined' }),
+    ]);
+  });
+
+  it('records rank changes with the previous and new rank', () => {
+    const { memberEvents } = compare(
+      [rosterMember(1, 'Jaina', 2)],
+      [storedMember(1, officer)],
+    );
+
+    expect(memberEvents).toEqual([
+      expect.objectContaining({ eventType: 'rank_changed', oldValue: '1', newValue: '2' }),
+    ]);
+  });
+
+  it('records a level milestone only when a multiple of ten is reached', () => {
+    const levelling = rosterMember(2, 'Anduin', 4, 68);
+    const stored = [storedMember(1, officer), storedMember(2, levelling)];
+
+    const smallStep = compare([officer, rosterMember(2, 'Anduin', 4, 69)], stored);
+    expect(smallStep.memberEvents).toEqual([]);
+    expect(smallStep.membersToUpdate).toEqual([expect.objectContaining({ memberId: 2 })]);
+
+    const milestone = compare([officer, rosterMember(2, 'Anduin', 4, 70)], stored);
+    expect(milestone.memberEvents).toEqual([
+      expect.objectContaining({ eventType: 'level_milestone', oldValue: '68', newValue: '70' }),
+    ]);
+  });
+
+  it('records a rename instead of a leave and a join', () => {
+    const { memberEvents } = compare(
+      [officer, rosterMember(2, 'Varian', 4)],
+      [storedMember(1, officer), storedMember(2, rosterMember(2, 'Anduin', 4))],
+    );
+
+    expect(memberEvents).toEqual([
+      expect.objectContaining({ characterName: 'Varian', eventType: 'renamed', oldValue: 'Anduin', newValue: 'Varian' }),
+    ]);
+  });
+});
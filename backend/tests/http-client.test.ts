@@ -1,19 +1,29 @@
 // backend/tests/http-client.test.ts
-import axios from 'axios';
-import { AxiosHttpClient } from '../src/services/http-client';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
 
 // Mock axios module
-jest.mock('axios');
-const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockedAxios = {
+  get: jest.fn<(...args: any[]) => Promise<any>>(),
+  post: jest.fn<(...args: any[]) => Promise<any>>(),
+  isAxiosError: jest.fn(() => false),
+};
+jest.unstable_mockModule('axios', () => ({
+  default: mockedAxios,
+  ...mockedAxios,
+}));
 
 // Mock logger
-jest.mock('../src/utils/logger', () => ({
-  debug: jest.fn(),
-  error: jest.fn(),
+jest.unstable_mockModule('../src/utils/logger.js', () => ({
+  default: {
+    debug: jest.fn(),
+    error: jest.fn(),
+  },
 }));
 
+const { AxiosHttpClient } = await import('../src/services/http-client.js');
+
 describe('AxiosHttpClient', () => {
-  let httpClient: AxiosHttpClient;
+  let httpClient: InstanceType<typeof AxiosHttpClient>;
 
   beforeEach(() => {
     httpClient = new AxiosHttpClient();
@@ -76,6 +86,55 @@ describe('AxiosHttpClient', () => {
     });
   });
 
+  describe('getConditional', () => {
+    it('should send stored validators as conditional headers', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: { id: 1 }, status: 200, headers: {} });
+
+      await httpClient.getConditional(
+        'https://api.test.com/resource',
+        { etag: '"abc"', lastModified: 'Wed, 21 May 2025 07:28:00 GMT' },
+      );
+
+      const config = mockedAxios.get.mock.calls[0][1] as any;
+      expect(config?.headers).toEqual({
+        'Accept-Encoding': 'gzip,deflate,compress',
+        'If-None-Match': '"abc"',
+        'If-Modified-Since': 'Wed, 21 May 2025 07:28:00 GMT',
+      });
+      expect(config?.validateStatus?.(304)).toBe(true);
+    });
+
+    it('should return the data and new validators when modified', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: { id: 1 },
+        status: 200,
+        headers: { etag: '"def"', 'last-modified': 'Thu, 22 May 2025 07:28:00 GMT' },
+      });
+
+      const result = await httpClient.getConditional('https://api.test.com/resource', null);
+
+      expect(result).toEqual({
+        notModified: false,
+        data: { id: 1 },
+        validators: { etag: '"def"', lastModified: 'Thu, 22 May 2025 07:28:00 GMT' },
+      });
+    });
+
+    it('should report not modified on a 304 and keep the sent validators', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: '', status: 304, headers: {} });
+
+      const result = await httpClient.getConditional(
+        'https://api.test.com/resource',
+        { etag: '"abc"', lastModified: null },
+      );
+
+      expect(result).toEqual({
+        notModified: true,
+        validators: { etag: '"abc"', lastModified: null },
+      });
+    });
+  });
+
   describe('post', () => {
     it('should make a POST request and return the data', async () => {
       // Mock the axios post response
@@ -0,0 +1,55 @@
+// backend/tests/ical.test.ts
+import {
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDate,
+} from '../src/utils/ical.js';
+
+describe('ical utils', () => {
+  it('formats instants as UTC date-times', () => {
+    expect(formatIcsDate('2025-05-01T20:00:00+02:00')).toBe('20250501T180000Z');
+  });
+
+  it('escapes TEXT values', () => {
+    expect(escapeIcsText('Raid; bring flasks, food\nand a\\b')).toBe(
+      'Raid\\; bring flasks\\, food\\nand a\\\\b',
+    );
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const folded = foldIcsLine(`DESCRIPTION:${'x'.repeat(200)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line) => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+  });
+
+  it('builds a calendar with one VEVENT per event', () => {
+    const ics = buildIcsCalendar(
+      {
+        name: 'Guild events',
+        events: [
+          {
+            uid: 'event-1@example.com',
+            start: '2025-05-01T18:00:00Z',
+            end: '2025-05-01T21:00:00Z',
+            summary: 'Raid night',
+            status: 'CANCELLED',
+            sequence: 3,
+            lastModified: '2025-04-30T12:00:00Z',
+          },
+        ],
+      },
+      new Date('2025-04-30T12:30:00Z'),
+    );
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('UID:event-1@example.com\r\n');
+    expect(ics).toContain('DTSTAMP:20250430T123000Z\r\n');
+    expect(ics).toContain('DTSTART:20250501T180000Z\r\n');
+    expect(ics).toContain('STATUS:CANCELLED\r\n');
+    expect(ics).toContain('SEQUENCE:3\r\n');
+  });
+});
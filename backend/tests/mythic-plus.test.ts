@@ -0,0 +1,112 @@
+// backend/tests/mythic-plus.test.ts
+import {
+  bestTimedRunPerDungeon,
+  currentMythicSeasonId,
+  lastWeeklyReset,
+  summarizeMythicProfile,
+} from '../src/utils/mythic-plus.js';
+import { BattleNetMythicKeystoneProfile } from '../../shared/types/guild.js';
+
+const run = (dungeonId: number, level: number, completed: string, timed = true) => ({
+  completed_timestamp: new Date(completed).getTime(),
+  duration: 1800000,
+  keystone_level: level,
+  dungeon: { id: dungeonId, name: `Dungeon ${dungeonId}` },
+  members: [],
+  is_completed_within_time: timed,
+});
+
+const profile = (runs: unknown[], rating?: number, seasonIds: number[] = []) => ({
+  current_period: { period: { id: 1 }, best_runs: runs },
+  seasons: seasonIds.map((id) => ({ key: { href: '' }, id })),
+  current_mythic_rating: rating === undefined ? undefined : { rating, color: { r: 0, g: 0, b: 0, a: 1 } },
+} as unknown as BattleNetMythicKeystoneProfile);
+
+describe('mythic plus utils', () => {
+  describe('lastWeeklyReset', () => {
+    it('uses the Tuesday reset in the US', () => {
+      expect(lastWeeklyReset('us', new Date('2025-06-05T12:00:00Z')).toISOString())
+        .toBe('2025-06-03T15:00:00.000Z');
+    });
+
+    it('uses the previous week before the reset hour', () => {
+      expect(lastWeeklyReset('eu', new Date('2025-06-04T03:59:00Z')).toISOString())
+        .toBe('2025-05-28T04:00:00.000Z');
+      expect(lastWeeklyReset('eu', new Date('2025-06-04T04:00:00Z')).toISOString())
+        .toBe('2025-06-04T04:00:00.000Z');
+    });
+  });
+
+  describe('summarizeMythicProfile', () => {
+    const resetAt = new Date('2025-06-04T04:00:00Z');
+
+    it('returns an empty summary without a profile', () => {
+      expect(summarizeMythicProfile(null, resetAt)).toEqual({
+        rating: 0,
+        bestTimedRunsThisReset: [],
+        dungeonsThisReset: 0,
+        highestKeyThisReset: null,
+      });
+    });
+
+    it('keeps the highest timed key per dungeon since the reset', () => {
+      const result = summarizeMythicProfile(profile([
+        run(1, 12, '2025-06-04T20:00:00Z'),
+        run(1, 14, '2025-06-05T18:00:00Z', false),
+        run(2, 15, '2025-06-05T20:00:00Z'),
+        run(3, 18, '2025-06-02T20:00:00Z'),
+      ], 2531.6), resetAt);
+
+      expect(result.rating).toBe(2532);
+      expect(result.bestTimedRunsThisReset.map((best) => [best.dungeonId, best.keystoneLevel]))
+        .toEqual([[2, 15], [1, 12]]);
+    });
+
+    it('counts dungeons completed since the reset, timed or not', () => {
+      const result = summarizeMythicProfile(profile([
+        run(1, 12, '2025-06-01T20:00:00Z'),
+        run(2, 9, '2025-06-05T20:00:00Z', false),
+        run(3, 7, '2025-06-06T20:00:00Z'),
+        run(3, 8, '2025-06-07T20:00:00Z'),
+      ]), resetAt);
+
+      expect(result.dungeonsThisReset).toBe(2);
+      expect(result.highestKeyThisReset).toBe(9);
+    });
+  });
+
+  describe('bestTimedRunPerDungeon', () => {
+    const seasonRun = (dungeonId: number, level: number, timed = true) => ({
+      dungeon_id: dungeonId,
+      dungeon_name: `Dungeon ${dungeonId}`,
+      keystone_level: level,
+      completed_timestamp: new Date('2025-05-20T20:00:00Z').getTime(),
+      is_completed_within_time: timed,
+    });
+
+    it('keeps the highest timed key per dungeon, highest first', () => {
+      const bests = bestTimedRunPerDungeon([
+        seasonRun(1, 16),
+        seasonRun(1, 18, false),
+        seasonRun(2, 17),
+        seasonRun(2, 13),
+        seasonRun(3, 20, false),
+      ]);
+
+      expect(bests.map((best) => [best.dungeonId, best.keystoneLevel]))
+        .toEqual([[2, 17], [1, 16]]);
+      expect(bests[0].completedAt).toBe('2025-05-20T20:00:00.000Z');
+    });
+  });
+
+  describe('currentMythicSeasonId', () => {
+    it('picks the latest season the profile lists', () => {
+      expect(currentMythicSeasonId(profile([], undefined, [13, 14, 12]))).toBe(14);
+    });
+
+    it('returns null without any season', () => {
+      expect(currentMythicSeasonId(profile([]))).toBeNull();
+      expect(currentMythicSeasonId(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+// backend/tests/professions.test.ts
+import { normalizeProfessions, tierExpansion } from '../src/utils/professions.js';
+import { BattleNetProfessions } from '../src/types/battlenet-api.types.js';
+
+describe('profession utils', () => {
+  describe('tierExpansion', () => {
+    it('strips the profession name from the tier name', () => {
+      expect(tierExpansion('Khaz Algar Blacksmithing', 'Blacksmithing')).toBe('Khaz Algar');
+      expect(tierExpansion('Dragon Isles Alchemy', 'Alchemy')).toBe('Dragon Isles');
+    });
+
+    it('labels the original tier as Classic', () => {
+      expect(tierExpansion('Blacksmithing', 'Blacksmithing')).toBe('Classic');
+    });
+
+    it('keeps tier names that do not end with the profession name', () => {
+      expect(tierExpansion('Ancient Recipes', 'Cooking')).toBe('Ancient Recipes');
+    });
+  });
+
+  describe('normalizeProfessions', () => {
+    it('returns no rows without professions', () => {
+      expect(normalizeProfessions(null)).toEqual([]);
+    });
+
+    it('returns one row per tier with its recipes', () => {
+      const primaries = [
+        {
+          profession: { id: 164, name: 'Blacksmithing', slug: 'blacksmithing' },
+          tiers: [
+            {
+              tier: { id: 2872, name: 'Khaz Algar Blacksmithing' },
+              skill_points: 100,
+              max_skill_points: 100,
+              known_recipes: [
+                { id: 1, name: 'Everforged Breastplate' },
+                { id: 2, name: '' },
+              ],
+            },
+            {
+              tier: { id: 2477, name: 'Blacksmithing' },
+              skill_points: 300,
+              max_skill_points: 300,
+            },
+          ],
+        },
+      ] as BattleNetProfessions['primaries'];
+
+      expect(normalizeProfessions(primaries)).toEqual([
+        {
+          profession_id: 164,
+          profession_name: 'Blacksmithing',
+          tier_id: 2872,
+          tier_name: 'Khaz Algar Blacksmithing',
+          expansion: 'Khaz Algar',
+          skill_points: 100,
+          max_skill_points: 100,
+          known_recipes: [{ id: 1, name: 'Everforged Breastplate' }],
+        },
+        {
+          profession_id: 164,
+          profession_name: 'Blacksmithing',
+          tier_id: 2477,
+          tier_name: 'Blacksmithing',
+          expansion: 'Classic',
+          skill_points: 300,
+          max_skill_points: 300,
+          known_recipes: [],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+// backend/tests/raid-progression.test.ts
+import {
+  RaidKillRow,
+  summarizeInstanceProgress,
+  summarizeRaidProgression,
+} from '../src/utils/raid-progression.js';
+
+const kill = (
+  difficulty: string,
+  encounterId: number,
+  overrides: Partial<RaidKillRow> = {},
+): RaidKillRow => ({
+  expansion_id: 514,
+  expansion_name: 'The War Within',
+  instance_id: 1273,
+  instance_name: 'Nerub-ar Palace',
+  difficulty,
+  encounter_id: encounterId,
+  instance_encounter_count: 8,
+  ...overrides,
+});
+
+const bosses = (difficulty: string, count: number, overrides: Partial<RaidKillRow> = {}) =>
+  Array.from({ length: count }, (_, i) => kill(difficulty, 100 + i, overrides));
+
+describe('raid progression utils', () => {
+  it('returns an empty summary without kills', () => {
+    expect(summarizeRaidProgression([])).toEqual({
+      expansionId: null,
+      expansionName: null,
+      instances: [],
+      summary: null,
+    });
+  });
+
+  it('counts a boss once however many characters killed it', () => {
+    const result = summarizeRaidProgression([
+      ...bosses('HEROIC', 3),
+      ...bosses('HEROIC', 2),
+    ]);
+
+    expect(result.instances[0].difficulties).toEqual([
+      { difficulty: 'HEROIC', bossesKilled: 3, totalBosses: 8, summary: '3/8 H' },
+    ]);
+  });
+
+  it('summarizes the hardest cleared difficulty and the harder ones in progress', () => {
+    const result = summarizeRaidProgression([
+      ...bosses('NORMAL', 8),
+      ...bosses('HEROIC', 8),
+      ...bosses('MYTHIC', 3),
+    ]);
+
+    expect(result.summary).toBe('8/8 H, 3/8 M');
+  });
+
+  it('only shows LFR when nothing else was killed', () => {
+    expect(summarizeRaidProgression(bosses('LFR', 8)).summary).toBe('8/8 LFR');
+    expect(summarizeRaidProgression([...bosses('LFR', 8), ...bosses('NORMAL', 5)]).summary).toBe('5/8 N');
+  });
+
+  it('keeps the newest expansion and lists the newest raid first', () => {
+    const result = summarizeRaidProgression([
+      ...bosses('MYTHIC', 9, { expansion_id: 503, expansion_name: 'Dragonflight', instance_id: 1207, instance_name: 'Amirdrassil', instance_encounter_count: 9 }),
+      ...bosses('NORMAL', 8),
+      ...bosses('NORMAL', 2, { instance_id: 1296, instance_name: 'Liberation of Undermine' }),
+    ]);
+
+    expect(result.expansionName).toBe('The War Within');
+    expect(result.instances.map((instance) => instance.instanceName)).toEqual([
+      'Liberation of Undermine',
+      'Nerub-ar Palace',
+    ]);
+    expect(result.summary).toBe('2/8 N');
+  });
+
+  it('starts the summary at the lowest difficulty when nothing is cleared', () => {
+    expect(summarizeInstanceProgress([
+      { difficulty: 'NORMAL', bossesKilled: 6, totalBosses: 8, summary: '6/8 N' },
+      { difficulty: 'HEROIC', bossesKilled: 2, totalBosses: 8, summary: '2/8 H' },
+    ])).toBe('6/8 N, 2/8 H');
+  });
+});
@@ -0,0 +1,78 @@
+// backend/tests/recurrence.test.ts
+import {
+  addDays,
+  enumerateOccurrenceDates,
+  startOfWeek,
+  toZonedDateTime,
+  zonedDateTimeToUtc,
+} from '../src/utils/recurrence.js';
+
+describe('recurrence utils', () => {
+  describe('zonedDateTimeToUtc', () => {
+    it('keeps the wall-clock time across a daylight saving change', () => {
+      expect(zonedDateTimeToUtc('2025-03-29', '20:00', 'Europe/Paris').toISOString())
+        .toBe('2025-03-29T19:00:00.000Z');
+      expect(zonedDateTimeToUtc('2025-03-31', '20:00', 'Europe/Paris').toISOString())
+        .toBe('2025-03-31T18:00:00.000Z');
+    });
+
+    it('round-trips with toZonedDateTime', () => {
+      const instant = zonedDateTimeToUtc('2025-07-04', '19:30', 'America/New_York');
+      expect(toZonedDateTime(instant, 'America/New_York')).toEqual({
+        date: '2025-07-04',
+        time: '19:30',
+        weekday: 5,
+      });
+    });
+  });
+
+  describe('startOfWeek', () => {
+    it('returns the Monday of the week, Sunday included', () => {
+      expect(startOfWeek('2025-08-06')).toBe('2025-08-04');
+      expect(startOfWeek('2025-08-04')).toBe('2025-08-04');
+      expect(startOfWeek('2025-08-10')).toBe('2025-08-04');
+      expect(startOfWeek('2026-01-01')).toBe('2025-12-29');
+    });
+  });
+
+  describe('addDays', () => {
+    it('crosses month and year boundaries', () => {
+      expect(addDays('2025-12-30', 3)).toBe('2026-01-02');
+      expect(addDays('2025-03-01', -1)).toBe('2025-02-28');
+    });
+  });
+
+  describe('enumerateOccurrenceDates', () => {
+    const rule = {
+      start_date: '2025-05-01', // Thursday
+      weekdays: [2, 4], // Tuesday and Thursday
+      interval_weeks: 2,
+      until_date: null,
+      occurrence_count: null,
+    };
+
+    it('repeats on the chosen weekdays every N weeks', () => {
+      expect(enumerateOccurrenceDates(rule, '2025-05-31').map((o) => o.date)).toEqual([
+        '2025-05-01',
+        '2025-05-13',
+        '2025-05-15',
+        '2025-05-27',
+        '2025-05-29',
+      ]);
+    });
+
+    it('stops at the occurrence count', () => {
+      const dates = enumerateOccurrenceDates({ ...rule, occurrence_count: 3 }, '2025-12-31');
+      expect(dates).toEqual([
+        { date: '2025-05-01', index: 0 },
+        { date: '2025-05-13', index: 1 },
+        { date: '2025-05-15', index: 2 },
+      ]);
+    });
+
+    it('stops at the end date', () => {
+      const dates = enumerateOccurrenceDates({ ...rule, until_date: '2025-05-14' }, '2025-12-31');
+      expect(dates.map((o) => o.date)).toEqual(['2025-05-01', '2025-05-13']);
+    });
+  });
+});
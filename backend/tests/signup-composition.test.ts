@@ -0,0 +1,56 @@
+// backend/tests/signup-composition.test.ts
+import {
+  compositionLimitsOf,
+  countSeats,
+  hasFreeSeat,
+  roleBucket,
+  selectPromotions,
+} from '../src/utils/signup-composition.js';
+
+const tank = { character_role: 'Tank' };
+const healer = { character_role: 'Healer' };
+const dps = { character_role: 'DPS' };
+
+describe('signup composition', () => {
+  const limits = compositionLimitsOf({
+    max_participants: 5,
+    event_details: { required_roles: { tanks: 1, healers: 1, dps: 3 } },
+  });
+
+  it('maps character roles to slots', () => {
+    expect(roleBucket('Support')).toBe('dps');
+    expect(roleBucket('Healer')).toBe('healers');
+    expect(roleBucket(null)).toBeNull();
+  });
+
+  it('treats missing role counts and caps as unlimited', () => {
+    const open = compositionLimitsOf({ max_participants: 0, event_details: {} });
+    expect(open).toEqual({
+      maxParticipants: null,
+      required: { tanks: null, healers: null, dps: null },
+    });
+    expect(hasFreeSeat(open, countSeats([tank, tank, tank]), tank)).toBe(true);
+  });
+
+  it('refuses a seat once the role is full', () => {
+    const counts = countSeats([tank]);
+    expect(hasFreeSeat(limits, counts, tank)).toBe(false);
+    expect(hasFreeSeat(limits, counts, healer)).toBe(true);
+  });
+
+  it('refuses a seat once the event is full', () => {
+    const counts = countSeats([tank, healer, dps, dps, { character_role: null }]);
+    expect(hasFreeSeat(limits, counts, dps)).toBe(false);
+  });
+
+  it('promotes in arrival order and skips people whose role is still full', () => {
+    const waitlist = [
+      { id: 1, ...tank },
+      { id: 2, ...dps },
+      { id: 3, ...dps },
+      { id: 4, ...dps },
+    ];
+    const promoted = selectPromotions(limits, [tank, healer, dps], waitlist);
+    expect(promoted.map((entry) => entry.id)).toEqual([2, 3]);
+  });
+});
@@ -7,6 +7,7 @@ import AuthCallback from './pages/AuthCallback';
 import Dashboard from './pages/Dashboard';
 import GuildPage from './pages/GuildPage';
 import GuildManagePage from './pages/GuildManagePage';
+import GuildProfessionsPage from './pages/GuildProfessionsPage';
 import EventDetailsPage from './pages/EventDetailsPage';
 import CreateEventPage from './pages/CreateEventPage';
 import EditEventPage from './pages/EditEventPage';
@@ -39,6 +40,11 @@ const App: React.FC = () => {
                     
                       <GuildManagePage />
                     
+                  } />
+                  <Route path="/guild/:guildId/professions" element={
+                    
+                      <GuildProfessionsPage />
+                    
                   } />
                   <Route path="/guild/:guildId/event/create" element={
                     
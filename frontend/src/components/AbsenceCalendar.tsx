@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { authService } from '../services/api/auth.service';
+import type { MemberAbsence } from '../../../shared/types/api/absence';
+
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * The current user's upcoming absences, with a form to add one.
+ * Sign-ups for events during a new absence are declined automatically.
+ */
+export const AbsenceCalendar: React.FC = () => {
+  const { data: absences, loading, error, execute: reloadAbsences } = useApi<MemberAbsence[]>({
+    apiFn: authService.getAbsences,
+    immediate: true,
+  });
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState(today());
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (loading && !absences) return null;
+
+  if (error) {
+    return <p className="text-red-500 text-sm">Failed to load your absences.</p>;
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setSaveError(null);
+    setMessage(null);
+    const response = await authService.createAbsence({
+      startDate,
+      endDate,
+      reason: reason.trim() || null,
+    });
+    setSaving(false);
+
+    if (response.success && response.data) {
+      const declined = response.data.declinedEventIds.length;
+      setReason('');
+      setMessage(declined > 0
+        ? `Absence saved. You were signed off from ${declined} event${declined === 1 ? '' : 's'}.`
+        : 'Absence saved.');
+      await reloadAbsences();
+    } else {
+      setSaveError(response.error?.message || 'Failed to save the absence.');
+    }
+  };
+
+  const handleRemove = async (absence: MemberAbsence) => {
+    setSaveError(null);
+    setMessage(null);
+    const response = await authService.deleteAbsence(absence.id);
+    if (response.success) {
+      await reloadAbsences();
+    } else {
+      setSaveError(response.error?.message || 'Failed to remove the absence.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Let your officers know when you are away. You will not get event reminders on those days.
+      </p>
+
+      {absences && absences.length > 0 ? (
+        <ul className="divide-y divide-gray-200">
+          {absences.map((absence) => (
+            <li key={absence.id} className="py-2 flex justify-between items-center">
+              <div>
+                <span className="font-medium">
+                  {absence.startDate === absence.endDate
+                    ? formatDay(absence.startDate)
+                    : `${formatDay(absence.startDate)} – ${formatDay(absence.endDate)}`}
+                </span>
+                {absence.reason && <span className="text-gray-600 ml-2">{absence.reason}</span>}
+              </div>
+              <button
+                onClick={() => handleRemove(absence)}
+                className="text-sm text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500 text-sm">No upcoming absences.</p>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap gap-2 items-end">
+        <label className="block">
+          <span className="text-sm text-gray-700">First day away</span>
+          <input
+            type="date"
+            value={startDate}
+            min={today()}
+            onChange={(e) => {
+              setStartDate(e.target.value);
+              if (e.target.value > endDate) setEndDate(e.target.value);
+            }}
+            className="mt-1 block rounded border border-gray-300 px-2 py-1"
+            required
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-700">Last day away</span>
+          <input
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="mt-1 block rounded border border-gray-300 px-2 py-1"
+            required
+          />
+        </label>
+        <label className="block flex-grow">
+          <span className="text-sm text-gray-700">Reason (optional)</span>
+          <input
+            type="text"
+            value={reason}
+            maxLength={200}
+            onChange={(e) => setReason(e.target.value)}
+            className="mt-1 block w-full rounded border border-gray-300 px-2 py-1"
+            placeholder="e.g. Holidays"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-blue-600 text-white px-4 py-1.5 rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Add absence'}
+        </button>
+      </form>
+
+      {message && <p className="text-green-600 text-sm">{message}</p>}
+      {saveError && <p className="text-red-500 text-sm">{saveError}</p>}
+    </div>
+  );
+};
+
+export default AbsenceCalendar;
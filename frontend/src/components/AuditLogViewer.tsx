@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { guildService } from '../services/api/guild.service';
+import type {
+  AuditAction,
+  AuditLogPage,
+  AuditLogQuery,
+  AuditTargetType
+} from '../../../shared/types/api/audit';
+import LoadingSpinner from './LoadingSpinner';
+
+interface Props {
+  guildId: number;
+}
+
+const PAGE_SIZE = 25;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'rank.rename': 'Renamed rank',
+  'permissions.update': 'Changed rank permissions',
+  'roster.create': 'Created roster',
+  'roster.update': 'Renamed roster',
+  'roster.delete': 'Deleted roster',
+  'roster.members_add': 'Added roster members',
+  'roster.member_update': 'Changed roster role',
+  'roster.member_remove': 'Removed roster member',
+  'event.update': 'Edited event',
+  'event.delete': 'Deleted event',
+  'rsvp.update_on_behalf': 'Changed a sign-up',
+  'user.role_change': 'Changed user role',
+};
+
+const TARGET_LABELS: Record<AuditTargetType, string> = {
+  rank: 'Ranks',
+  guild: 'Guild',
+  roster: 'Rosters',
+  roster_member: 'Roster members',
+  event: 'Events',
+  event_subscription: 'Sign-ups',
+  user: 'Users',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * One line per changed field: old value → new value
+ */
+const ChangeList: React.FC<{
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}> = ({ before, after }) => {
+  const fields = Object.keys({ ...before, ...after });
+  if (fields.length === 0) return null;
+
+  return (
+    <ul className="text-xs text-gray-600 space-y-0.5">
+      {fields.map((field) => (
+        <li key={field}>
+          <span className="font-medium">{field.replace(/_/g, ' ')}:</span>{' '}
+          {before && <span className="line-through text-red-600">{formatValue(before[field])}</span>}
+          {before && after && ' → '}
+          {after && <span className="text-green-700">{formatValue(after[field])}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Guild master view of the recorded officer actions, newest first.
+ */
+export const AuditLogViewer: React.FC<Props> = ({ guildId }) => {
+  const [page, setPage] = useState(1);
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [targetType, setTargetType] = useState<AuditTargetType | ''>('');
+  const query: AuditLogQuery = {
+    page,
+    limit: PAGE_SIZE,
+    ...(action ? { action } : {}),
+    ...(targetType ? { targetType } : {}),
+  };
+  const { data, loading, error } = useApi<AuditLogPage, [number, AuditLogQuery]>({
+    apiFn: guildService.getGuildAuditLog,
+    args: [guildId, query],
+    deps: [guildId, page, action, targetType],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-xl font-bold">Audit Log</h2>
+        <div className="flex gap-2">
+          <select
+            value={action}
+            onChange={(e) => {
+              setAction(e.target.value as AuditAction | '');
+              setPage(1);
+            }}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+            aria-label="Filter by action"
+          >
+            <option value="">All actions</option>
+            {Object.entries(ACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={targetType}
+            onChange={(e) => {
+              setTargetType(e.target.value as AuditTargetType | '');
+              setPage(1);
+            }}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+            aria-label="Filter by target"
+          >
+            <option value="">All targets</option>
+            {Object.entries(TARGET_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading && !data && <LoadingSpinner />}
+
+      {error && (
+        <div className="text-red-500 p-4 rounded-md bg-red-50 border border-red-200">
+          Error loading the audit log: {error.message}
+        </div>
+      )}
+
+      {data && (data.entries.length > 0 ? (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">When</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Who</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Action</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Target</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Changes</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {data.entries.map((entry) => (
+              <tr key={entry.id} className="align-top">
+                <td className="px-4 py-2 whitespace-nowrap text-gray-600">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </td>
+                <td className="px-4 py-2 font-medium">{entry.actorBattletag ?? 'Unknown'}</td>
+                <td className="px-4 py-2">{ACTION_LABELS[entry.action] ?? entry.action}</td>
+                <td className="px-4 py-2">{entry.targetLabel ?? entry.targetId ?? '—'}</td>
+                <td className="px-4 py-2">
+                  <ChangeList before={entry.before} after={entry.after} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-gray-500">No recorded actions yet.</p>
+      ))}
+
+      {data && data.totalPages > 1 && (
+        <div className="flex justify-between items-center text-sm">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1 border rounded hover:bg-gray-100 disabled:opacity-50"
+          >
+            Newer
+          </button>
+          <span className="text-gray-600">
+            Page {data.page} of {data.totalPages} ({data.total} entries)
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= data.totalPages}
+            className="px-3 py-1 border rounded hover:bg-gray-100 disabled:opacity-50"
+          >
+            Older
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { eventService } from '../services/api';
+import type { CalendarFeed } from '../../../shared/types/api/calendar';
+
+interface Props {
+  guildId?: number; // Omit for the feed of events the user signed up for
+}
+
+/**
+ * Creates and revokes the secret iCalendar URL that Google Calendar, Outlook or
+ * Apple Calendar can subscribe to. The URL is only shown right after it is created.
+ */
+export const CalendarFeedLink: React.FC<Props> = ({ guildId }) => {
+  const feedGuildId = guildId ?? null;
+  const { data: feeds, execute: reloadFeeds } = useApi<CalendarFeed[]>({
+    apiFn: eventService.getCalendarFeeds,
+  });
+  const [url, setUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const feed = feeds?.find((f) => f.guildId === feedGuildId);
+
+  const handleCreate = async () => {
+    if (feed && !window.confirm('Create a new calendar URL? The current one will stop working.')) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setCopied(false);
+    const response = await eventService.createCalendarFeed(feedGuildId);
+    if (response.success && response.data) {
+      setUrl(response.data.url);
+      await reloadFeeds();
+    } else {
+      setError(response.error?.message || 'Failed to create calendar URL.');
+    }
+    setBusy(false);
+  };
+
+  const handleRevoke = async () => {
+    if (!feed || !window.confirm('Revoke this calendar URL? Subscribed calendars will stop updating.')) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    const response = await eventService.revokeCalendarFeed(feed.id);
+    if (response.success) {
+      setUrl(null);
+      await reloadFeeds();
+    } else {
+      setError(response.error?.message || 'Failed to revoke calendar URL.');
+    }
+    setBusy(false);
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+  };
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-700">
+          {guildId ? 'Subscribe to guild events in your calendar app' : 'Subscribe to your sign-ups in your calendar app'}
+          {feed && !url && (
+            <span className="text-gray-500">
+              {' '}· active{feed.lastUsedAt ? `, last synced ${new Date(feed.lastUsedAt).toLocaleString()}` : ''}
+            </span>
+          )}
+        </span>
+        <div className="space-x-2">
+          <button
+            onClick={handleCreate}
+            disabled={busy}
+            className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {feed ? 'New URL' : 'Get URL'}
+          </button>
+          {feed && (
+            <button
+              onClick={handleRevoke}
+              disabled={busy}
+              className="bg-gray-200 text-gray-800 px-3 py-1 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Revoke
+            </button>
+          )}
+        </div>
+      </div>
+
+      {url && (
+        <div className="mt-2">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              readOnly
+              value={url}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 p-1 border rounded font-mono text-xs"
+            />
+            <button
+              onClick={handleCopy}
+              className="bg-gray-200 text-gray-800 px-3 py-1 rounded hover:bg-gray-300"
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Keep this URL private: anyone with it can see these events. It will not be shown again.
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-red-500 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default CalendarFeedLink;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { characterService } from '../services/api/character.service';
+import type {
+  CharacterHistory,
+  CharacterHistoryQuery,
+  CharacterSnapshot
+} from '../../../shared/types/api/character-history';
+import LoadingSpinner from './LoadingSpinner';
+
+interface Props {
+  characterId: number;
+}
+
+type Metric = 'equippedItemLevel' | 'mythicRating' | 'averageItemLevel' | 'achievementPoints';
+
+const METRICS: { id: Metric; label: string }[] = [
+  { id: 'equippedItemLevel', label: 'ilvl' },
+  { id: 'mythicRating', label: 'M+' },
+  { id: 'averageItemLevel', label: 'Avg ilvl' },
+  { id: 'achievementPoints', label: 'Achievements' },
+];
+
+const WIDTH = 240;
+const HEIGHT = 60;
+const PADDING = 4;
+
+const HISTORY_QUERY: CharacterHistoryQuery = { days: 90 };
+
+/**
+ * Line chart of one metric over the given snapshots; days without a value are skipped
+ */
+const Sparkline: React.FC<{ snapshots: CharacterSnapshot[]; metric: Metric }> = ({ snapshots, metric }) => {
+  const points = snapshots
+    .map((snapshot) => ({ date: snapshot.date, value: snapshot[metric] }))
+    .filter((point): point is { date: string; value: number } => point.value !== null);
+
+  if (points.length < 2) {
+    return <p className="text-xs text-gray-400">Not enough history yet.</p>;
+  }
+
+  const times = points.map((point) => new Date(point.date).getTime());
+  const values = points.map((point) => point.value);
+  const minTime = Math.min(...times);
+  const timeSpan = Math.max(...times) - minTime || 1;
+  const minValue = Math.min(...values);
+  const valueSpan = Math.max(...values) - minValue || 1;
+
+  const coordinates = points.map((point, index) => {
+    const x = PADDING + ((times[index] - minTime) / timeSpan) * (WIDTH - 2 * PADDING);
+    const y = HEIGHT - PADDING - ((point.value - minValue) / valueSpan) * (HEIGHT - 2 * PADDING);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const first = values[0];
+  const last = values[values.length - 1];
+  const change = Math.round((last - first) * 10) / 10;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-16"
+        role="img"
+        aria-label={`${metric} from ${first} to ${last}`}
+      >
+        <polyline
+          points={coordinates.join(' ')}
+          fill="none"
+          stroke={change >= 0 ? '#34d399' : '#f87171'}
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-300">
+        <span>{points[0].date}</span>
+        <span>
+          {last}
+          <span className={change >= 0 ? 'text-green-400 ml-1' : 'text-red-400 ml-1'}>
+            ({change >= 0 ? '+' : ''}{change})
+          </span>
+        </span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Item level, Mythic+ rating and achievement trends of a character over the last 90 days.
+ */
+export const CharacterTrendChart: React.FC<Props> = ({ characterId }) => {
+  const [metric, setMetric] = useState<Metric>('equippedItemLevel');
+  const { data, loading, error } = useApi<CharacterHistory, [number, CharacterHistoryQuery]>({
+    apiFn: characterService.getCharacterHistory,
+    args: [characterId, HISTORY_QUERY],
+    deps: [characterId],
+  });
+
+  if (loading && !data) return <LoadingSpinner size="sm" />;
+
+  if (error) {
+    return <p className="text-xs text-red-400">Error loading history: {error.message}</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-1">
+        {METRICS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => setMetric(option.id)}
+            className={`text-xs px-1.5 py-0.5 rounded ${metric === option.id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {data && <Sparkline snapshots={data.snapshots} metric={metric} />}
+    </div>
+  );
+};
+
+export default CharacterTrendChart;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { authService } from '../services/api/auth.service';
+import ReminderPreferencesForm from './ReminderPreferencesForm';
+
+/**
+ * Shows which Discord account is linked to the current user and lets them unlink it.
+ * Linking itself starts from the /link-discord command in Discord.
+ */
+export const DiscordLinkStatus: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const [unlinking, setUnlinking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user) return null;
+
+  const handleUnlink = async () => {
+    if (!window.confirm('Unlink your Discord account? Discord commands and sign-ups will stop working until you link again.')) {
+      return;
+    }
+    setUnlinking(true);
+    setError(null);
+    const response = await authService.unlinkDiscord();
+    if (response.success) {
+      await refreshUser();
+    } else {
+      setError(response.error?.message || 'Failed to unlink Discord account.');
+    }
+    setUnlinking(false);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow">
+      <h2 className="text-xl font-bold mb-2">Discord</h2>
+      {user.discord_id ? (
+        <div className="flex items-center justify-between">
+          <span>
+            Linked as <span className="font-medium">{user.discord_username || user.discord_id}</span>
+          </span>
+          <button
+            onClick={handleUnlink}
+            disabled={unlinking}
+            className="bg-gray-200 text-gray-800 px-3 py-1 rounded hover:bg-gray-300 disabled:opacity-50"
+          >
+            {unlinking ? 'Unlinking...' : 'Unlink'}
+          </button>
+        </div>
+      ) : (
+        <p className="text-gray-600">
+          Not linked. Run <code>/link-discord</code> in our Discord server to link your account.
+        </p>
+      )}
+      {user.discord_id && <ReminderPreferencesForm />}
+      {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default DiscordLinkStatus;
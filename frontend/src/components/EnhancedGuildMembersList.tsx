@@ -2,15 +2,18 @@ import React, { useState, useMemo } from 'react';
 import { useApi } from '../hooks/useApi';
 import { guildService } from '../services/api/guild.service';
 import type { ClassifiedMember, GuildRank } from '../../../shared/types/models/guild';
+import type { GuildAttendanceReport, MainAttendance } from '../../../shared/types/api/attendance';
 import LoadingSpinner from './LoadingSpinner'; // Keep this
 import { ErrorBoundary } from './ErrorBoundary'; // Keep this
 import { GuildMemberCard } from './GuildMemberCard'; // Import the new card component
 import { Modal } from './Modal'; // Import the new Modal component
 
 // Define sortable fields for the Card View (adjust as needed)
-type SortField = 'name' | 'level' | 'itemLevel' | 'rank'; 
+type SortField = 'name' | 'level' | 'itemLevel' | 'rank' | 'attendance'; 
 type SortDirection = 'asc' | 'desc';
 
+const ATTENDANCE_WINDOWS = [4, 8, 12];
+
 interface Props {
   guildId: number;
   // Add user role/permissions prop if needed for admin actions later
@@ -35,6 +38,7 @@ export const EnhancedGuildMembersList: React.FC<Props> = ({ guildId }) => {
   const [filterName, setFilterName] = useState<string>('');
   const [filterClass, setFilterClass] = useState<string>(''); // State for class filter
   const [filterRank, setFilterRank] = useState<string>(''); // State for rank filter (using string for option value)
+  const [attendanceWeeks, setAttendanceWeeks] = useState<number>(8);
 
   const [isAltModalOpen, setIsAltModalOpen] = useState<boolean>(false);
   const [selectedMainForAlts, setSelectedMainForAlts] = useState<ClassifiedMember | null>(null);
@@ -52,7 +56,25 @@ export const EnhancedGuildMembersList: React.FC<Props> = ({ guildId }) => {
     deps: [guildId]
   });
 
+  const { data: attendance } = useApi<GuildAttendanceReport, [number, number]>({
+    apiFn: guildService.getGuildAttendance,
+    args: [guildId, attendanceWeeks],
+    deps: [guildId, attendanceWeeks]
+  });
+
   // --- Memoized Data Processing ---
+  const attendanceByMain = useMemo(() => {
+    const byMain = new Map<number, MainAttendance>();
+    attendance?.mains.forEach(main => byMain.set(main.mainCharacterId, main));
+    return byMain;
+  }, [attendance]);
+
+  const attendanceByCharacter = useMemo(() => {
+    const byCharacter = new Map<number, number | null>();
+    attendance?.characters.forEach(character => byCharacter.set(character.characterId, character.percentage));
+    return byCharacter;
+  }, [attendance]);
+
   const mainMembers = useMemo(() => {
     if (!allMembers) return [];
     // Filter for Main characters first
@@ -100,12 +122,17 @@ export const EnhancedGuildMembersList: React.FC<Props> = ({ guildId }) => {
         case 'rank':
           result = a.rank - b.rank;
           break;
+        case 'attendance':
+          // Members without countable events sort below 0%
+          result = (attendanceByMain.get(a.character_id)?.percentage ?? -1) -
+                   (attendanceByMain.get(b.character_id)?.percentage ?? -1);
+          break;
         default:
           result = a.character.name.toLowerCase().localeCompare(b.character.name.toLowerCase());
       }
       return sortDirection === 'asc' ? result : -result;
     });
-  }, [mainMembers, filterName, filterClass, filterRank, sortField, sortDirection]); // Add new filters to dependency array
+  }, [mainMembers, filterName, filterClass, filterRank, sortField, sortDirection, attendanceByMain]); // Add new filters to dependency array
 
   const altsForSelectedMain = useMemo(() => {
     if (!selectedMainForAlts || !allMembers) return [];
@@ -187,6 +214,7 @@ export const EnhancedGuildMembersList: React.FC<Props> = ({ guildId }) => {
               <option value="name">Name</option>
               <option value="level">Level</option>
               <option value="itemLevel">Item Level</option>
+              <option value="attendance">Attendance</option>
             </select>
             <button 
               onClick={() => handleSort(sortField)} 
@@ -196,6 +224,20 @@ export const EnhancedGuildMembersList: React.FC<Props> = ({ guildId }) => {
               {sortDirection === 'asc' ? '↑ Asc' : '↓ Desc'}
             </button>
           </div>
+          {/* Attendance Window */}
+          <div>
+            <label htmlFor="attendanceWeeks" className="mr-2">Attendance:</label>
+            <select
+              id="attendanceWeeks"
+              value={attendanceWeeks}
+              onChange={(e) => setAttendanceWeeks(parseInt(e.target.value, 10))}
+              className="p-2 border rounded"
+            >
+              {ATTENDANCE_WINDOWS.map(weeks => (
+                <option key={weeks} value={weeks}>Last {weeks} weeks</option>
+              ))}
+            </select>
+          </div>
           {/* Class Filter */}
           <div>
             <label htmlFor="classFilter" className="sr-only">Filter by Class</label>
@@ -251,6 +293,8 @@ export const EnhancedGuildMembersList: React.FC<Props> = ({ guildId }) => {
                   getRankName={getRankName}
                   onViewAlts={handleViewAlts}
                   altCount={altCount}
+                  attendance={attendanceByMain.get(member.character_id) ?? null}
+                  attendanceWeeks={attendanceWeeks}
                   // Pass userRole here if implemented
                 />
               );
@@ -274,6 +318,7 @@ export const EnhancedGuildMembersList: React.FC<Props> = ({ guildId }) => {
                   <p className="font-medium">{alt.character.name}</p>
                   <p className="text-sm text-gray-600">
                     Level: {getCharacterLevel(alt)} | iLvl: {getItemLevel(alt)} | Class: {alt.character?.profile_json?.character_class?.name || alt.character?.class}
+                    {attendanceByCharacter.get(alt.character_id) != null && ` | Attendance: ${attendanceByCharacter.get(alt.character_id)}%`}
                   </p>
                   {/* Add more alt details if needed */}
                 </li>
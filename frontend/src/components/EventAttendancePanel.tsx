@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { eventService } from '../services/api';
+import type {
+  AttendanceStatus,
+  EventAttendance
+} from '../../../shared/types/api/attendance';
+
+interface Props {
+  eventId: number;
+}
+
+const STATUSES: { value: AttendanceStatus; label: string }[] = [
+  { value: 'present', label: 'Present' },
+  { value: 'late', label: 'Late' },
+  { value: 'absent', label: 'Absent' },
+  { value: 'excused', label: 'Excused' },
+  { value: 'benched', label: 'Benched' },
+];
+
+/**
+ * Officer sheet to record who showed up, prefilled with the event's confirmed
+ * sign-ups. Renders nothing for users who are not the guild master.
+ */
+export const EventAttendancePanel: React.FC<Props> = ({ eventId }) => {
+  const { data: attendance, error: loadError, setData: setAttendance } = useApi<EventAttendance, [number]>({
+    apiFn: eventService.getEventAttendance,
+    args: [eventId],
+    deps: [eventId],
+  });
+  const [statuses, setStatuses] = useState<Record<number, AttendanceStatus | ''>>({});
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (attendance) {
+      setStatuses(Object.fromEntries(
+        // Players who said they would be away are excused unless recorded otherwise
+        attendance.entries.map((entry) => [
+          entry.characterId,
+          entry.status ?? (entry.onAbsence ? 'excused' : ''),
+        ])
+      ));
+      setNotes(Object.fromEntries(
+        attendance.entries.map((entry) => [entry.characterId, entry.note ?? ''])
+      ));
+    }
+  }, [attendance]);
+
+  if (loadError?.status === 403 || !attendance) {
+    return null;
+  }
+
+  const handleChange = (characterId: number, status: AttendanceStatus | '') => {
+    setSaved(false);
+    setStatuses((current) => ({ ...current, [characterId]: status }));
+  };
+
+  const handleNoteChange = (characterId: number, note: string) => {
+    setSaved(false);
+    setNotes((current) => ({ ...current, [characterId]: note }));
+  };
+
+  const handleMarkAllPresent = () => {
+    setSaved(false);
+    setStatuses((current) => Object.fromEntries(
+      Object.entries(current).map(([characterId, status]) => [characterId, status || 'present'])
+    ));
+  };
+
+  const handleSave = async () => {
+    const records = attendance.entries
+      .filter((entry) => statuses[entry.characterId])
+      .map((entry) => ({
+        characterId: entry.characterId,
+        status: statuses[entry.characterId] as AttendanceStatus,
+        note: notes[entry.characterId]?.trim() || null,
+      }));
+    if (records.length === 0) return;
+
+    setBusy(true);
+    setError(null);
+    const response = await eventService.recordEventAttendance(eventId, records);
+    if (response.success && response.data) {
+      setAttendance(response.data);
+      setSaved(true);
+    } else {
+      setError(response.error?.message || 'Failed to save attendance.');
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-medium">Attendance</h3>
+        {attendance.canRecord && attendance.entries.length > 0 && (
+          <div className="space-x-2">
+            <button
+              onClick={handleMarkAllPresent}
+              disabled={busy}
+              className="bg-gray-200 text-gray-800 px-3 py-1 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Mark rest present
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={busy}
+              className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!attendance.canRecord ? (
+        <p className="text-sm text-gray-500">Attendance can be recorded once the event has started.</p>
+      ) : attendance.entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Nobody confirmed for this event.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <tbody className="divide-y divide-gray-200">
+            {attendance.entries.map((entry) => (
+              <tr key={entry.characterId}>
+                <td className="py-1 pr-4 font-medium">
+                  {entry.characterName}
+                  {entry.onAbsence && (
+                    <span className="ml-2 text-xs bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded">Away</span>
+                  )}
+                </td>
+                <td className="py-1 pr-4 text-gray-600">
+                  {entry.characterClass}, {entry.characterRole ?? 'No role'}
+                </td>
+                <td className="py-1">
+                  <select
+                    value={statuses[entry.characterId] ?? ''}
+                    onChange={(e) => handleChange(entry.characterId, e.target.value as AttendanceStatus | '')}
+                    className="p-1 border rounded"
+                    aria-label={`Attendance of ${entry.characterName}`}
+                  >
+                    <option value="">Not recorded</option>
+                    {STATUSES.map((status) => (
+                      <option key={status.value} value={status.value}>{status.label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-1 pl-2">
+                  <input
+                    type="text"
+                    value={notes[entry.characterId] ?? ''}
+                    onChange={(e) => handleNoteChange(entry.characterId, e.target.value)}
+                    maxLength={200}
+                    placeholder="Note"
+                    className="w-full p-1 border rounded"
+                    aria-label={`Attendance note of ${entry.characterName}`}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {saved && <p className="text-green-600 text-sm mt-2">Attendance saved.</p>}
+      {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default EventAttendancePanel;
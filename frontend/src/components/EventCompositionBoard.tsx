@@ -0,0 +1,78 @@
+import React from 'react';
+import type { CompositionRole, EventComposition } from '../../../shared/types/api/composition';
+
+interface Props {
+  composition: EventComposition;
+}
+
+const ROLE_LABELS: Record<CompositionRole, string> = {
+  tanks: 'Tanks',
+  healers: 'Healers',
+  dps: 'DPS',
+};
+
+/**
+ * Filled/required seats per role and the ordered waitlist of an event.
+ * Confirmed sign-ups that do not fit wait here and move in when someone declines.
+ */
+export const EventCompositionBoard: React.FC<Props> = ({ composition }) => {
+  const { slots, waitlist, confirmed, maxParticipants } = composition;
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-2">
+        Composition
+        <span className="text-sm font-normal text-gray-500 ml-2">
+          {confirmed}{maxParticipants !== null ? ` / ${maxParticipants}` : ''} seated
+        </span>
+      </h3>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        {slots.map((slot) => {
+          const full = slot.required !== null && slot.filled >= slot.required;
+          const percent = slot.required ? Math.min(100, (slot.filled / slot.required) * 100) : 0;
+          return (
+            <div key={slot.role} className="border rounded p-3">
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium">{ROLE_LABELS[slot.role]}</span>
+                <span className={full ? 'text-green-700' : 'text-gray-600'}>
+                  {slot.filled}{slot.required !== null ? ` / ${slot.required}` : ''}
+                </span>
+              </div>
+              {slot.required !== null ? (
+                <div className="h-2 bg-gray-200 rounded">
+                  <div
+                    className={`h-2 rounded ${full ? 'bg-green-500' : 'bg-blue-500'}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">No limit</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <h4 className="font-medium mb-2">Waitlist ({waitlist.length})</h4>
+      {waitlist.length > 0 ? (
+        <ol className="space-y-1 text-sm">
+          {waitlist.map((entry) => (
+            <li key={entry.subscriptionId} className="flex space-x-2">
+              <span className="text-gray-500 w-6">#{entry.position}</span>
+              <span className="font-medium">{entry.characterName}</span>
+              <span className="text-gray-600">
+                {entry.characterClass}, {entry.characterRole ?? 'No role'}
+              </span>
+              <span className="text-gray-500">({entry.battletag})</span>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm text-gray-500">Nobody is waiting.</p>
+      )}
+    </div>
+  );
+};
+
+export default EventCompositionBoard;
@@ -1,4 +1,4 @@
-import { Event, EventFormValues, EventType } from '@shared/types/index';
+import { Event, EventEditScope, EventFormValues, EventType } from '@shared/types/index';
 import { Form, Formik } from 'formik';
 import React, { useState } from 'react';
 import * as Yup from 'yup';
@@ -6,6 +6,9 @@ import { useApi } from '../hooks/useApi';
 import { eventService } from '../services/api';
 import { EventBasicFields } from './forms/EventBasicFields';
 import { EventParticipantsField } from './forms/EventParticipantsField';
+import { EventRecurrenceFields } from './forms/EventRecurrenceFields';
+import { EventReminderField } from './forms/EventReminderField';
+import { EventRoleSlotsField } from './forms/EventRoleSlotsField';
 import { EventTimeFields } from './forms/EventTimeFields';
 import FormStatus from './FormStatus';
 import LoadingSpinner from './LoadingSpinner';
@@ -16,6 +19,7 @@ interface EventFormProps {
   buttonText: string;
   mode: 'create' | 'edit';
   eventId?: number;
+  editScope?: EventEditScope; // Which occurrences of a recurring event an edit applies to
 }
 
 // Form validation schema
@@ -42,7 +46,49 @@ const EventSchema = Yup.object().shape({
     .required('Maximum participants is required')
     .integer('Must be a whole number')
     .min(1, 'Must have at least 1 participant')
-    .max(100, 'Maximum 100 participants allowed')
+    .max(100, 'Maximum 100 participants allowed'),
+  event_details: Yup.object({
+    required_roles: Yup.object({
+      tanks: Yup.number()
+        .integer('Role slots must be whole numbers')
+        .min(0, 'Role slots cannot be negative'),
+      healers: Yup.number()
+        .integer('Role slots must be whole numbers')
+        .min(0, 'Role slots cannot be negative'),
+      dps: Yup.number()
+        .integer('Role slots must be whole numbers')
+        .min(0, 'Role slots cannot be negative')
+    })
+  }),
+  reminder_offsets_minutes: Yup.array()
+    .of(
+      Yup.number()
+        .typeError('Reminders must be whole numbers of minutes')
+        .integer('Reminders must be whole numbers of minutes')
+        .min(5, 'Reminders must be at least 5 minutes before the event')
+        .max(10080, 'Reminders cannot be more than 7 days before the event')
+    )
+    .max(5, 'At most 5 reminders are allowed')
+    .nullable(),
+  recurrence: Yup.object({
+    weekdays: Yup.array()
+      .of(Yup.number().integer().min(0).max(6))
+      .min(1, 'Pick at least one weekday'),
+    interval_weeks: Yup.number()
+      .typeError('Repeat interval must be a number of weeks')
+      .integer('Repeat interval must be a whole number of weeks')
+      .min(1, 'Repeat at least every week')
+      .max(52, 'Repeat at least once a year'),
+    until_date: Yup.string().nullable(),
+    occurrence_count: Yup.number()
+      .integer('Number of events must be a whole number')
+      .min(1, 'Repeat at least once')
+      .max(520, 'At most 520 events per series')
+      .nullable(),
+    timezone: Yup.string().required()
+  })
+    .nullable()
+    .default(null)
 });
 
 /**
@@ -53,7 +99,8 @@ const EventForm: React.FC<EventFormProps> = ({
   onSubmitSuccess, 
   buttonText,
   mode,
-  eventId
+  eventId,
+  editScope
 }) => {
   const [formSubmitted, setFormSubmitted] = useState(false);
   
@@ -61,7 +108,7 @@ const EventForm: React.FC<EventFormProps> = ({
   const { loading, error, execute } = useApi<Event, [Partial<Event>]>({
     apiFn: mode === 'create' ? eventService.createEvent : 
           (mode === 'edit' && eventId) ? 
-            (data: Partial<Event>) => eventService.updateEvent(eventId, data) :
+            (data: Partial<Event>) => eventService.updateEvent(eventId, data, editScope) :
             eventService.createEvent,
     immediate: false
   });
@@ -93,28 +140,35 @@ const EventForm: React.FC<EventFormProps> = ({
         validationSchema={EventSchema}
         onSubmit={handleSubmit}
       >
-        {({ isSubmitting, isValid, dirty }) => (
-          <Form className="space-y-4">
-            <EventBasicFields />
-            <EventTimeFields />
-            <EventParticipantsField />
-            
-            <div className="pt-4">
-              <button
-                type="submit"
-                disabled={isSubmitting || !isValid || !dirty || loading}
-                className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 
-                  ${(isSubmitting || !isValid || !dirty || loading) ? 'opacity-50 cursor-not-allowed' : ''}`}
-              >
-                {loading ? <LoadingSpinner size="sm" message="Submitting..." /> : buttonText}
-              </button>
-            </div>
-            
-            <div className="text-xs text-gray-500">
-              * Required fields
-            </div>
-          </Form>
-        )}
+        {({ isSubmitting, isValid, dirty }) => {
+          // A form prefilled from a template can be submitted as is
+          const unchanged = !dirty && !initialValues.template_id;
+          return (
+            <Form className="space-y-4">
+              <EventBasicFields />
+              <EventTimeFields />
+              <EventParticipantsField />
+              <EventRoleSlotsField />
+              <EventReminderField />
+              {mode === 'create' && <EventRecurrenceFields />}
+              
+              <div className="pt-4">
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !isValid || unchanged || loading}
+                  className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 
+                    ${(isSubmitting || !isValid || unchanged || loading) ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  {loading ? <LoadingSpinner size="sm" message="Submitting..." /> : buttonText}
+                </button>
+              </div>
+              
+              <div className="text-xs text-gray-500">
+                * Required fields
+              </div>
+            </Form>
+          );
+        }}
       </Formik>
     </div>
   );
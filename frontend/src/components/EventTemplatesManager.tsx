@@ -0,0 +1,329 @@
+import React, { useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { guildService } from '../services/api/guild.service';
+import type { EventTemplate, SaveEventTemplateRequest } from '../../../shared/types/api/template';
+import { EventType } from '../../../shared/types/enums/event';
+import LoadingSpinner from './LoadingSpinner';
+
+interface Props {
+  guildId: number;
+}
+
+interface FormState {
+  name: string;
+  title: string;
+  description: string;
+  eventType: EventType;
+  durationMinutes: string;
+  maxParticipants: string;
+  tanks: string;
+  healers: string;
+  dps: string;
+  difficulty: string;
+  location: string;
+  lootRules: string;
+  voicePlatform: string;
+  voiceChannel: string;
+  reminderOffsets: string; // Comma-separated minutes
+  isDefault: boolean;
+}
+
+const EMPTY_FORM: FormState = {
+  name: '',
+  title: '',
+  description: '',
+  eventType: EventType.RAID,
+  durationMinutes: '180',
+  maxParticipants: '20',
+  tanks: '',
+  healers: '',
+  dps: '',
+  difficulty: '',
+  location: '',
+  lootRules: '',
+  voicePlatform: '',
+  voiceChannel: '',
+  reminderOffsets: '',
+  isDefault: false,
+};
+
+const toFormState = (template: EventTemplate): FormState => ({
+  name: template.name,
+  title: template.title,
+  description: template.description,
+  eventType: template.eventType,
+  durationMinutes: String(template.durationMinutes),
+  maxParticipants: template.maxParticipants?.toString() ?? '',
+  tanks: template.eventDetails.required_roles?.tanks?.toString() ?? '',
+  healers: template.eventDetails.required_roles?.healers?.toString() ?? '',
+  dps: template.eventDetails.required_roles?.dps?.toString() ?? '',
+  difficulty: template.eventDetails.difficulty ?? '',
+  location: template.eventDetails.location ?? '',
+  lootRules: template.eventDetails.loot_rules ?? '',
+  voicePlatform: template.eventDetails.voice_chat?.platform ?? '',
+  voiceChannel: template.eventDetails.voice_chat?.channel ?? '',
+  reminderOffsets: template.reminderOffsetsMinutes?.join(', ') ?? '',
+  isDefault: template.isDefault,
+});
+
+const parseCount = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : Number(value);
+
+const toRequest = (form: FormState): SaveEventTemplateRequest | string => {
+  const durationMinutes = Number(form.durationMinutes);
+  if (!Number.isInteger(durationMinutes) || durationMinutes < 15) {
+    return 'Duration must be a whole number of minutes, at least 15.';
+  }
+  const offsets = form.reminderOffsets.split(',').map((part) => part.trim()).filter(Boolean).map(Number);
+  if (!offsets.every((minutes) => Number.isInteger(minutes) && minutes > 0)) {
+    return 'Reminders must be whole numbers of minutes, separated by commas.';
+  }
+  const roles = { tanks: parseCount(form.tanks), healers: parseCount(form.healers), dps: parseCount(form.dps) };
+  if (Object.values(roles).some((count) => count !== undefined && (!Number.isInteger(count) || count < 0))) {
+    return 'Role slots must be whole numbers.';
+  }
+
+  return {
+    name: form.name.trim(),
+    title: form.title.trim(),
+    description: form.description,
+    eventType: form.eventType,
+    durationMinutes,
+    maxParticipants: form.maxParticipants.trim() ? Number(form.maxParticipants) : null,
+    eventDetails: {
+      ...(Object.values(roles).some((count) => count !== undefined) && { required_roles: roles }),
+      ...(form.difficulty.trim() && { difficulty: form.difficulty.trim() }),
+      ...(form.location.trim() && { location: form.location.trim() }),
+      ...(form.lootRules.trim() && { loot_rules: form.lootRules.trim() }),
+      ...(form.voicePlatform.trim() && {
+        voice_chat: {
+          platform: form.voicePlatform.trim(),
+          ...(form.voiceChannel.trim() && { channel: form.voiceChannel.trim() }),
+        },
+      }),
+    },
+    reminderOffsetsMinutes: offsets.length > 0 ? offsets : null,
+    isDefault: form.isDefault,
+  };
+};
+
+const formatDuration = (minutes: number): string =>
+  minutes % 60 === 0 ? `${minutes / 60}h` : `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Guild master editor for event templates, including the default template of each event type.
+ */
+export const EventTemplatesManager: React.FC<Props> = ({ guildId }) => {
+  const {
+    data: templates,
+    loading,
+    error,
+    execute: reloadTemplates,
+  } = useApi<EventTemplate[], [number]>({
+    apiFn: guildService.getEventTemplates,
+    args: [guildId],
+    deps: [guildId],
+  });
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  if (loading && !templates) return <LoadingSpinner />;
+
+  if (error) {
+    return (
+      <div className="text-red-500 p-4 rounded-md bg-red-50 border border-red-200">
+        Error loading event templates: {error.message}
+      </div>
+    );
+  }
+
+  const startEditing = (template: EventTemplate | null) => {
+    setSaveError(null);
+    setEditingId(template ? template.id : 'new');
+    setForm(template ? toFormState(template) : EMPTY_FORM);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const request = toRequest(form);
+    if (typeof request === 'string') {
+      setSaveError(request);
+      return;
+    }
+
+    setSaving(true);
+    setSaveError(null);
+    const response = editingId === 'new'
+      ? await guildService.createEventTemplate(guildId, request)
+      : await guildService.updateEventTemplate(guildId, editingId as number, request);
+    setSaving(false);
+
+    if (response.success) {
+      setEditingId(null);
+      await reloadTemplates(guildId);
+    } else {
+      setSaveError(response.error?.message || 'Failed to save the template.');
+    }
+  };
+
+  const handleDelete = async (template: EventTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Events already created from it are kept.`)) {
+      return;
+    }
+    const response = await guildService.deleteEventTemplate(guildId, template.id);
+    if (response.success) {
+      await reloadTemplates(guildId);
+    } else {
+      setSaveError(response.error?.message || 'Failed to delete the template.');
+    }
+  };
+
+  const textInput = (field: keyof FormState, label: string, placeholder?: string) => (
+    <label className="block">
+      <span className="text-sm font-medium text-gray-700">{label}</span>
+      <input
+        type="text"
+        value={form[field] as string}
+        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+        className="mt-1 block w-full rounded border border-gray-300 px-3 py-2"
+        placeholder={placeholder}
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-bold">Event Templates</h2>
+          <p className="text-sm text-gray-600">
+            Reusable settings for raid nights and dungeons. The default template of an
+            event type is preselected when creating an event, and recurring series created
+            from a template follow its later changes.
+          </p>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={() => startEditing(null)}
+            className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+          >
+            New template
+          </button>
+        )}
+      </div>
+
+      {templates && templates.length > 0 ? (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Name</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Type</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Event title</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Duration</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Size</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {templates.map((template) => (
+              <tr key={template.id}>
+                <td className="px-4 py-2 font-medium">
+                  {template.name}
+                  {template.isDefault && (
+                    <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">Default</span>
+                  )}
+                </td>
+                <td className="px-4 py-2">{template.eventType}</td>
+                <td className="px-4 py-2">{template.title}</td>
+                <td className="px-4 py-2">{formatDuration(template.durationMinutes)}</td>
+                <td className="px-4 py-2">{template.maxParticipants ?? '—'}</td>
+                <td className="px-4 py-2 text-right space-x-2">
+                  <button onClick={() => startEditing(template)} className="text-blue-600 hover:underline">Edit</button>
+                  <button onClick={() => handleDelete(template)} className="text-red-600 hover:underline">Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-gray-500">No event templates yet.</p>
+      )}
+
+      {editingId !== null && (
+        <form onSubmit={handleSave} className="space-y-4 border-t pt-4">
+          <h3 className="text-lg font-medium">{editingId === 'new' ? 'New template' : `Edit "${form.name}"`}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {textInput('name', 'Template name', 'e.g. Raid night')}
+            {textInput('title', 'Event title', 'e.g. Heroic progression')}
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Event type</span>
+              <select
+                value={form.eventType}
+                onChange={(e) => setForm({ ...form, eventType: e.target.value as EventType })}
+                className="mt-1 block w-full rounded border border-gray-300 px-3 py-2"
+              >
+                {Object.values(EventType).map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </label>
+            {textInput('durationMinutes', 'Duration (minutes)')}
+            {textInput('maxParticipants', 'Maximum participants', 'Leave empty for no limit')}
+            {textInput('difficulty', 'Difficulty', 'e.g. Heroic')}
+            {textInput('location', 'Location', 'e.g. Liberation of Undermine')}
+            {textInput('lootRules', 'Loot rules', 'e.g. Personal loot, trading on request')}
+            {textInput('voicePlatform', 'Voice chat platform', 'e.g. Discord')}
+            {textInput('voiceChannel', 'Voice chat channel')}
+            {textInput('reminderOffsets', 'Reminders (minutes before start)', 'Leave empty for the guild defaults')}
+            <div className="grid grid-cols-3 gap-2">
+              {textInput('tanks', 'Tanks')}
+              {textInput('healers', 'Healers')}
+              {textInput('dps', 'DPS')}
+            </div>
+          </div>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Description</span>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="mt-1 block w-full rounded border border-gray-300 px-3 py-2 h-24"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={form.isDefault}
+              onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+            />
+            <span className="text-sm">Default template for {form.eventType} events</span>
+          </label>
+
+          {saveError && <div className="text-sm text-red-600">{saveError}</div>}
+
+          <div className="flex items-center space-x-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save template'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="bg-gray-200 text-gray-800 px-4 py-2 rounded hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {editingId === null && saveError && <div className="text-sm text-red-600">{saveError}</div>}
+    </div>
+  );
+};
+
+export default EventTemplatesManager;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { useGuildRosters } from '../hooks/useGuildRosters';
+import { guildService } from '../services/api/guild.service';
+import type { CharacterGearAudit, GuildGearAudit } from '../../../shared/types/api/gear';
+import LoadingSpinner from './LoadingSpinner';
+
+interface Props {
+  guildId: number;
+}
+
+type SortKey = 'issues' | 'name' | 'itemLevel' | 'tier';
+
+const SORT_VALUES: Record<SortKey, (audit: CharacterGearAudit) => number | string> = {
+  issues: (audit) => audit.issueCount,
+  name: (audit) => audit.characterName,
+  itemLevel: (audit) => audit.averageItemLevel ?? 0,
+  tier: (audit) => audit.tierPieces,
+};
+
+const formatSlot = (slot: string): string =>
+  slot.toLowerCase().replace(/_/g, ' ');
+
+// Repeated slots, e.g. two empty sockets on the head, are shown once with a count
+const formatSlots = (slots: string[]): string => {
+  const counts = new Map<string, number>();
+  slots.forEach((slot) => counts.set(slot, (counts.get(slot) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([slot, count]) => (count > 1 ? `${formatSlot(slot)} ×${count}` : formatSlot(slot)))
+    .join(', ');
+};
+
+/**
+ * Officer table of missing enchants, empty sockets, low item level items and
+ * tier pieces per member, sortable by column.
+ */
+export const GearAuditTable: React.FC<Props> = ({ guildId }) => {
+  const [rosterId, setRosterId] = useState<number | undefined>(undefined);
+  const [sortKey, setSortKey] = useState<SortKey>('issues');
+  const [descending, setDescending] = useState(true);
+  const { rosters } = useGuildRosters(String(guildId));
+  const { data, loading, error } = useApi<GuildGearAudit, [number, number | undefined]>({
+    apiFn: guildService.getGuildGearAudit,
+    args: [guildId, rosterId],
+    deps: [guildId, rosterId],
+  });
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key !== 'name');
+    }
+  };
+
+  const sorted = [...(data?.characters ?? [])].sort((a, b) => {
+    const left = SORT_VALUES[sortKey](a);
+    const right = SORT_VALUES[sortKey](b);
+    const order = typeof left === 'string'
+      ? left.localeCompare(right as string)
+      : left - (right as number);
+    return descending ? -order : order;
+  });
+
+  const SortHeader: React.FC<{ sort: SortKey; label: string }> = ({ sort, label }) => (
+    <th className="px-4 py-2 text-left font-medium text-gray-500">
+      <button onClick={() => handleSort(sort)} className="hover:text-gray-800">
+        {label}
+        {sortKey === sort && (descending ? ' ▼' : ' ▲')}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div>
+          <h2 className="text-xl font-bold">Gear Audit</h2>
+          <p className="text-sm text-gray-600">
+            From each character's last synced equipment.
+          </p>
+        </div>
+        <select
+          value={rosterId ?? ''}
+          onChange={(e) => setRosterId(e.target.value ? parseInt(e.target.value, 10) : undefined)}
+          className="rounded border border-gray-300 px-2 py-1 text-sm"
+          aria-label="Filter by roster"
+        >
+          <option value="">All members</option>
+          {rosters.map((roster) => (
+            <option key={roster.id} value={roster.id}>{roster.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && !data && <LoadingSpinner />}
+
+      {error && (
+        <div className="text-red-500 p-4 rounded-md bg-red-50 border border-red-200">
+          Error loading the gear audit: {error.message}
+        </div>
+      )}
+
+      {data && (sorted.length > 0 ? (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <SortHeader sort="name" label="Character" />
+              <SortHeader sort="itemLevel" label="Item Level" />
+              <SortHeader sort="issues" label="Issues" />
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Missing Enchants</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Empty Sockets</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Low Item Level</th>
+              <SortHeader sort="tier" label="Tier" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {sorted.map((audit) => (
+              <tr key={audit.characterId} className="align-top">
+                <td className="px-4 py-2">
+                  <div className="font-medium">{audit.characterName}</div>
+                  <div className="text-xs text-gray-500">{audit.characterClass} · {audit.realm}</div>
+                </td>
+                {audit.hasEquipment ? (
+                  <>
+                    <td className="px-4 py-2">{audit.averageItemLevel ?? '—'}</td>
+                    <td className={`px-4 py-2 font-semibold ${audit.issueCount > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {audit.issueCount}
+                    </td>
+                    <td className="px-4 py-2 capitalize">{formatSlots(audit.missingEnchants) || '—'}</td>
+                    <td className="px-4 py-2 capitalize">{formatSlots(audit.emptySockets) || '—'}</td>
+                    <td className="px-4 py-2">
+                      {audit.lowItemLevelItems.length > 0
+                        ? audit.lowItemLevelItems.map((item) => (
+                          <div key={item.slot}>
+                            <span className="capitalize">{formatSlot(item.slot)}</span> ({item.itemLevel})
+                          </div>
+                        ))
+                        : '—'}
+                    </td>
+                    <td className="px-4 py-2" title={audit.tierSetName ?? undefined}>
+                      {audit.tierPieces}
+                    </td>
+                  </>
+                ) : (
+                  <td colSpan={6} className="px-4 py-2 text-gray-400">
+                    No equipment synced yet
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-gray-500">No members to audit.</p>
+      ))}
+    </div>
+  );
+};
+
+export default GearAuditTable;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { guildService } from '../services/api/guild.service';
+import type { GuildWeekAbsences } from '../../../shared/types/api/absence';
+import LoadingSpinner from './LoadingSpinner';
+
+interface Props {
+  guildId: number;
+}
+
+const shiftDate = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+/**
+ * Officer view of the members who are away on at least one day of a week.
+ */
+export const GuildAbsencesWeek: React.FC<Props> = ({ guildId }) => {
+  const [week, setWeek] = useState(new Date().toISOString().slice(0, 10));
+  const { data, loading, error } = useApi<GuildWeekAbsences, [number, string]>({
+    apiFn: guildService.getGuildAbsences,
+    args: [guildId, week],
+    deps: [guildId, week],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold">Absences</h2>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setWeek(shiftDate(data?.weekStart ?? week, -7))}
+            className="px-3 py-1 border rounded hover:bg-gray-100"
+            aria-label="Previous week"
+          >
+            ←
+          </button>
+          <span className="text-sm font-medium">
+            {data ? `${formatDay(data.weekStart)} – ${formatDay(data.weekEnd)}` : '…'}
+          </span>
+          <button
+            onClick={() => setWeek(shiftDate(data?.weekStart ?? week, 7))}
+            className="px-3 py-1 border rounded hover:bg-gray-100"
+            aria-label="Next week"
+          >
+            →
+          </button>
+        </div>
+      </div>
+
+      {loading && !data && <LoadingSpinner />}
+
+      {error && (
+        <div className="text-red-500 p-4 rounded-md bg-red-50 border border-red-200">
+          Error loading absences: {error.message}
+        </div>
+      )}
+
+      {data && (data.absences.length > 0 ? (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Player</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Characters</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Away</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Reason</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {data.absences.map((absence) => (
+              <tr key={absence.id}>
+                <td className="px-4 py-2 font-medium">{absence.battletag}</td>
+                <td className="px-4 py-2">{absence.characterNames.join(', ')}</td>
+                <td className="px-4 py-2">
+                  {formatDay(absence.startDate)} – {formatDay(absence.endDate)}
+                </td>
+                <td className="px-4 py-2 text-gray-600">{absence.reason ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-gray-500">Nobody is away this week.</p>
+      ))}
+    </div>
+  );
+};
+
+export default GuildAbsencesWeek;
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { guildService } from '../services/api/guild.service';
+import type { GuildDiscordSettings } from '../../../shared/types/api/discord';
+import type { ThreadAutoArchiveMinutes } from '../../../shared/types/db/models/discord';
+import LoadingSpinner from './LoadingSpinner';
+
+interface Props {
+  guildId: number;
+}
+
+const AUTO_ARCHIVE_OPTIONS: { value: ThreadAutoArchiveMinutes; label: string }[] = [
+  { value: 60, label: '1 hour' },
+  { value: 1440, label: '1 day' },
+  { value: 4320, label: '3 days' },
+  { value: 10080, label: '1 week' },
+];
+
+interface FormState {
+  discordGuildId: string;
+  eventChannelId: string;
+  reminderLeadTimes: string; // Comma-separated minutes
+  threadAutoArchiveMinutes: ThreadAutoArchiveMinutes;
+}
+
+const toFormState = (settings: GuildDiscordSettings): FormState => ({
+  discordGuildId: settings.discordGuildId ?? '',
+  eventChannelId: settings.eventChannelId ?? '',
+  reminderLeadTimes: settings.reminderLeadTimesMinutes.join(', '),
+  threadAutoArchiveMinutes: settings.threadAutoArchiveMinutes,
+});
+
+const parseLeadTimes = (value: string): number[] | null => {
+  const parts = value.split(',').map((part) => part.trim()).filter(Boolean);
+  const minutes = parts.map(Number);
+  return minutes.every((m) => Number.isInteger(m) && m > 0) ? minutes : null;
+};
+
+export const GuildDiscordSettingsPanel: React.FC<Props> = ({ guildId }) => {
+  const {
+    data: settings,
+    loading,
+    error,
+    execute: reloadSettings,
+  } = useApi<GuildDiscordSettings>({
+    apiFn: guildService.getGuildDiscordSettings,
+    args: [guildId],
+    deps: [guildId],
+  });
+  const [form, setForm] = useState<FormState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (settings) {
+      setForm(toFormState(settings));
+    }
+  }, [settings]);
+
+  if (loading && !form) return <LoadingSpinner />;
+
+  if (error) {
+    return (
+      <div className="text-red-500 p-4 rounded-md bg-red-50 border border-red-200">
+        Error loading Discord settings: {error.message}
+      </div>
+    );
+  }
+
+  if (!settings || !form) {
+    return (
+      <div className="text-center p-4 text-gray-500">
+        No Discord settings available
+      </div>
+    );
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaveError(null);
+    setSaveMessage(null);
+
+    const reminderLeadTimesMinutes = parseLeadTimes(form.reminderLeadTimes);
+    if (!reminderLeadTimesMinutes) {
+      setSaveError('Reminder lead times must be whole numbers of minutes, separated by commas.');
+      return;
+    }
+
+    setSaving(true);
+    const response = await guildService.updateGuildDiscordSettings(guildId, {
+      discordGuildId: form.discordGuildId.trim() || null,
+      eventChannelId: form.eventChannelId.trim() || null,
+      reminderLeadTimesMinutes,
+      threadAutoArchiveMinutes: form.threadAutoArchiveMinutes,
+    });
+    setSaving(false);
+
+    if (response.success) {
+      await reloadSettings(guildId);
+      setSaveMessage('Discord settings saved.');
+    } else {
+      setSaveError(response.error?.message || 'Failed to save Discord settings.');
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Remove the Discord settings of this guild? Events will no longer be posted to Discord.')) {
+      return;
+    }
+    setSaveError(null);
+    setSaveMessage(null);
+    const response = await guildService.deleteGuildDiscordSettings(guildId);
+    if (response.success) {
+      await reloadSettings(guildId);
+      setSaveMessage('Discord settings removed.');
+    } else {
+      setSaveError(response.error?.message || 'Failed to remove Discord settings.');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <div>
+        <h2 className="text-xl font-bold">Discord Settings</h2>
+        <p className="text-sm text-gray-600">
+          Where this guild's events are posted and when members are reminded.
+          Enable Developer Mode in Discord to copy server and channel IDs.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Discord server ID</span>
+          <input
+            type="text"
+            value={form.discordGuildId}
+            onChange={(e) => setForm({ ...form, discordGuildId: e.target.value })}
+            className="mt-1 block w-full rounded border border-gray-300 px-3 py-2"
+            placeholder="e.g. 123456789012345678"
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Event channel ID</span>
+          <input
+            type="text"
+            value={form.eventChannelId}
+            onChange={(e) => setForm({ ...form, eventChannelId: e.target.value })}
+            className="mt-1 block w-full rounded border border-gray-300 px-3 py-2"
+            placeholder="Leave empty to not post events"
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Reminder lead times (minutes before start)</span>
+          <input
+            type="text"
+            value={form.reminderLeadTimes}
+            onChange={(e) => setForm({ ...form, reminderLeadTimes: e.target.value })}
+            className="mt-1 block w-full rounded border border-gray-300 px-3 py-2"
+            placeholder="e.g. 1440, 60"
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Archive event threads after</span>
+          <select
+            value={form.threadAutoArchiveMinutes}
+            onChange={(e) => setForm({
+              ...form,
+              threadAutoArchiveMinutes: Number(e.target.value) as ThreadAutoArchiveMinutes,
+            })}
+            className="mt-1 block w-full rounded border border-gray-300 px-3 py-2"
+          >
+            {AUTO_ARCHIVE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label} of inactivity</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {saveError && <div className="text-sm text-red-600">{saveError}</div>}
+      {saveMessage && <div className="text-sm text-green-600">{saveMessage}</div>}
+
+      <div className="flex items-center space-x-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        {settings.isConfigured && (
+          <button
+            type="button"
+            onClick={handleReset}
+            className="bg-gray-200 text-gray-800 px-4 py-2 rounded hover:bg-gray-300"
+          >
+            Remove settings
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default GuildDiscordSettingsPanel;
@@ -1,10 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import type { Guild, GuildMember } from '../../../shared/types/models/guild';
+import type { SyncRun } from '../../../shared/types/api/sync';
+import type { GuildRaidProgression } from '../../../shared/types/api/raid';
 import { guildService } from '../services/api/guild.service';
+import { useGuildSync } from '../hooks/useGuildSync';
+import { useApi } from '../hooks/useApi';
 import LoadingSpinner from './LoadingSpinner';
 
 interface GuildGeneralInfoProps {
   guild: Guild;
+  isGuildMaster?: boolean;
 }
 
 interface RoleCounts {
@@ -36,19 +41,131 @@ const WOW_CLASS_COLORS: { [className: string]: string } = {
   'Evoker': '#33937F'
 };
 
+/**
+ * Describes the progress of a sync run in a single line.
+ * @param {SyncRun} run - The run being tracked.
+ * @returns {string} Human readable progress.
+ */
+const describeSyncProgress = (run: SyncRun): string => {
+  if (run.status === 'failed') {
+    return `Sync failed${run.error ? `: ${run.error}` : ''}`;
+  }
+  const characterStep = run.steps.find(step => step.step === 'characters');
+  if (characterStep) {
+    const { queued = 0, succeeded = 0, unchanged = 0, unavailable = 0, failed = 0 } = characterStep.details;
+    const done = succeeded + unchanged + unavailable + failed;
+    if (characterStep.status === 'running') {
+      return `Updating characters: ${done}/${queued}`;
+    }
+    return `Sync complete (${done} characters updated${failed > 0 ? `, ${failed} failed` : ''})`;
+  }
+  const currentStep = run.steps[run.steps.length - 1];
+  return currentStep ? `Syncing ${currentStep.step}...` : 'Starting sync...';
+};
+
+/**
+ * "Sync now" button for guild masters, showing live progress of the requested sync.
+ * @param {object} props - Component props.
+ * @param {number} props.guildId - The guild to sync.
+ * @param {() => void} props.onComplete - Called once the sync has finished.
+ * @returns {React.ReactElement} The rendered component.
+ */
+const GuildSyncButton: React.FC<{ guildId: number; onComplete: () => void }> = ({ guildId, onComplete }) => {
+  const { run, isSyncing, error, startSync } = useGuildSync(guildId);
+  const [wasSyncing, setWasSyncing] = useState(false);
+
+  useEffect(() => {
+    if (isSyncing) {
+      setWasSyncing(true);
+    } else if (wasSyncing) {
+      setWasSyncing(false);
+      onComplete();
+    }
+  }, [isSyncing, wasSyncing, onComplete]);
+
+  return (
+    <div className="flex flex-col items-end">
+      <button
+        onClick={startSync}
+        disabled={isSyncing}
+        className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+      >
+        {isSyncing && <LoadingSpinner size="sm" message="" />}
+        <span className={isSyncing ? 'ml-2' : ''}>{isSyncing ? 'Syncing...' : 'Sync now'}</span>
+      </button>
+      {run && (
+        <p className={`text-sm mt-1 ${run.status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>
+          {describeSyncProgress(run)}
+        </p>
+      )}
+      {error && <p className="text-sm mt-1 text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * Raid progress of the guild's mains in the current expansion, one line per raid.
+ * @param {object} props - Component props.
+ * @param {number} props.guildId - The guild to show progress for.
+ * @param {number} props.refreshKey - Changes after a sync to reload the progress.
+ * @returns {React.ReactElement} The rendered component.
+ */
+const RaidProgressionOverview: React.FC<{ guildId: number; refreshKey: number }> = ({ guildId, refreshKey }) => {
+  const { data: progression, loading, error } = useApi<GuildRaidProgression, [number]>({
+    apiFn: guildService.getGuildRaidProgression,
+    args: [guildId],
+    deps: [guildId, refreshKey],
+  });
+
+  if (loading && !progression) return <LoadingSpinner size="sm" />;
+  if (error) return <p className="text-sm text-red-600">Failed to load raid progression.</p>;
+  if (!progression || progression.instances.length === 0) {
+    return <p className="text-gray-500">No raid kills synced yet.</p>;
+  }
+
+  return (
+    <div>
+      <p className="text-lg font-medium">
+        {progression.summary}
+        <span className="text-sm text-gray-600 font-normal ml-2">
+          across {progression.mainsWithKills} main{progression.mainsWithKills === 1 ? '' : 's'} ({progression.expansionName})
+        </span>
+      </p>
+      <ul className="mt-2 space-y-1 text-sm">
+        {progression.instances.map(instance => (
+          <li key={instance.instanceId} className="flex flex-wrap gap-2">
+            <span className="font-medium">{instance.instanceName}</span>
+            {instance.difficulties.map(progress => (
+              <span
+                key={progress.difficulty}
+                className={`px-2 rounded ${progress.bossesKilled >= progress.totalBosses ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}
+              >
+                {progress.summary}
+              </span>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
 /**
  * Component to display general information about a guild, including roster stats.
  * Fetches guild members to calculate role breakdown.
  * @param {GuildGeneralInfoProps} props - Component props.
  * @param {Guild} props.guild - The guild data object.
+ * @param {boolean} [props.isGuildMaster] - Shows the "Sync now" control when true.
  * @returns {React.ReactElement} The rendered component.
  */
-const GuildGeneralInfo: React.FC<GuildGeneralInfoProps> = ({ guild }) => {
+const GuildGeneralInfo: React.FC<GuildGeneralInfoProps> = ({ guild, isGuildMaster = false }) => {
   const [members, setMembers] = useState<GuildMember[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [roleCounts, setRoleCounts] = useState<RoleCounts>({ dps: 0, healer: 0, tank: 0, unknown: 0 });
   const [classCounts, setClassCounts] = useState<ClassCounts>({});
+  const [refreshKey, setRefreshKey] = useState(0);
+  const handleSyncComplete = useCallback(() => setRefreshKey(key => key + 1), []);
 
   useEffect(() => {
     const fetchMembers = async () => {
@@ -72,7 +189,7 @@ const GuildGeneralInfo: React.FC<GuildGeneralInfoProps> = ({ guild }) => {
     };
 
     fetchMembers();
-  }, [guild.id]);
+  }, [guild.id, refreshKey]);
 
   /**
    * Calculates the count of characters for each role (DPS, Healer, Tank).
@@ -106,7 +223,10 @@ const GuildGeneralInfo: React.FC<GuildGeneralInfoProps> = ({ guild }) => {
 
   return (
     <div>
-      <h2 className="text-2xl font-semibold mb-4">General Information</h2>
+      <div className="flex justify-between items-start mb-4">
+        <h2 className="text-2xl font-semibold">General Information</h2>
+        {isGuildMaster && <GuildSyncButton guildId={guild.id} onComplete={handleSyncComplete} />}
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
         <div>
           <p className="text-gray-600">Guild Name</p>
@@ -118,6 +238,11 @@ const GuildGeneralInfo: React.FC<GuildGeneralInfoProps> = ({ guild }) => {
         </div>
       </div>
 
+      <h3 className="text-xl font-semibold mb-3">Raid Progression</h3>
+      <div className="mb-6">
+        <RaidProgressionOverview guildId={guild.id} refreshKey={refreshKey} />
+      </div>
+
       <h3 className="text-xl font-semibold mb-3">Roster Overview</h3>
       {loading && (
         <div className="flex justify-center items-center py-4">
@@ -1,6 +1,8 @@
-import React, { useRef } from 'react'; // Import useRef
+import React, { useRef, useState } from 'react'; // Import useRef
 import type { ClassifiedMember } from '../../../shared/types/models/guild';
+import type { MainAttendance } from '../../../shared/types/api/attendance';
 import { useClassBackgroundImage } from '../hooks/useClassBackgroundImage'; // Import the hook
+import { CharacterTrendChart } from './CharacterTrendChart';
 
 // Helper functions (can be shared or defined locally)
 const getItemLevel = (member: ClassifiedMember): number => {
@@ -18,6 +20,8 @@ interface GuildMemberCardProps {
   getRankName: (rankId: number) => string;
   onViewAlts: (member: ClassifiedMember) => void;
   altCount: number;
+  attendance?: MainAttendance | null; // Main and alts combined
+  attendanceWeeks?: number;
 }
 
 export const GuildMemberCard: React.FC<GuildMemberCardProps> = ({
@@ -25,6 +29,8 @@ export const GuildMemberCard: React.FC<GuildMemberCardProps> = ({
   getRankName,
   onViewAlts,
   altCount,
+  attendance,
+  attendanceWeeks,
 }) => {
   
   const character = member.character; // Convenience variable
@@ -33,6 +39,8 @@ export const GuildMemberCard: React.FC<GuildMemberCardProps> = ({
   
   // Create a ref for the card element
   const cardRef = useRef<HTMLDivElement>(null);
+  // History is only fetched once the trends are opened
+  const [showTrends, setShowTrends] = useState(false);
 
   // Pass the ref to the hook
   const backgroundImageUrl = useClassBackgroundImage(characterClassName, cardRef as React.RefObject<HTMLElement>);
@@ -81,6 +89,11 @@ export const GuildMemberCard: React.FC<GuildMemberCardProps> = ({
                <span className="text-gray-400 ml-1">({profile.active_spec.name})</span>
              )}
            </p>
+           {/* Attendance */}
+           <p title={attendance ? `${attendance.present} present, ${attendance.late} late, ${attendance.benched} benched, ${attendance.absent} absent, ${attendance.excused} excused` : undefined}>
+             Attendance: {attendance?.percentage != null ? `${attendance.percentage}%` : '—'}
+             {attendanceWeeks && <span className="text-gray-400 ml-1">({attendanceWeeks}w)</span>}
+           </p>
            {/* M+ Info */}
            {character?.mythic_profile_json?.current_mythic_rating && (
               <p>M+ Rating: {Math.round(character.mythic_profile_json.current_mythic_rating.rating || 0)}</p>
@@ -101,6 +114,22 @@ export const GuildMemberCard: React.FC<GuildMemberCardProps> = ({
            )}
          </div>
 
+         {/* Trends */}
+         <div className="mb-3 text-sm bg-black/60 p-1 rounded">
+           <button
+             onClick={() => setShowTrends(!showTrends)}
+             className="text-blue-400 hover:underline"
+             aria-expanded={showTrends}
+           >
+             {showTrends ? 'Hide trends' : 'Show trends'}
+           </button>
+           {showTrends && (
+             <div className="mt-1">
+               <CharacterTrendChart characterId={character.id} />
+             </div>
+           )}
+         </div>
+
          {/* Spacer */}
          <div className="flex-grow"></div>
 
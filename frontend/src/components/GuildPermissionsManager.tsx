@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { guildService } from '../services/api/guild.service';
+import { GuildCapability } from '../../../shared/types/enums/guild';
+import type { GuildPermissions } from '../../../shared/types/api/permission';
+import LoadingSpinner from './LoadingSpinner';
+
+interface Props {
+  guildId: number;
+}
+
+const CAPABILITY_OPTIONS: { value: GuildCapability; label: string }[] = [
+  { value: GuildCapability.MANAGE_EVENTS, label: 'Events & lineups' },
+  { value: GuildCapability.MANAGE_ROSTERS, label: 'Rosters' },
+  { value: GuildCapability.MANAGE_RANKS, label: 'Rank names' },
+  { value: GuildCapability.MANAGE_ATTENDANCE, label: 'Attendance & absences' },
+];
+
+type Grants = Record<number, GuildCapability[]>;
+
+const toGrants = (permissions: GuildPermissions): Grants =>
+  Object.fromEntries(permissions.ranks.map((rank) => [rank.rankId, rank.capabilities]));
+
+/**
+ * Guild master editor for what each Battle.net rank may manage.
+ */
+export const GuildPermissionsManager: React.FC<Props> = ({ guildId }) => {
+  const { data: permissions, loading, error, setData } = useApi<GuildPermissions, [number]>({
+    apiFn: guildService.getGuildPermissions,
+    args: [guildId],
+    deps: [guildId],
+  });
+  const [grants, setGrants] = useState<Grants>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (permissions) {
+      setGrants(toGrants(permissions));
+    }
+  }, [permissions]);
+
+  if (loading && !permissions) return <LoadingSpinner />;
+
+  if (error) {
+    return (
+      <div className="text-red-500 p-4 rounded-md bg-red-50 border border-red-200">
+        Error loading permissions: {error.message}
+      </div>
+    );
+  }
+
+  if (!permissions || permissions.ranks.length === 0) {
+    return (
+      <div className="text-center p-4 text-gray-500">
+        No ranks synced yet for this guild
+      </div>
+    );
+  }
+
+  const toggle = (rankId: number, capability: GuildCapability) => {
+    setSaveMessage(null);
+    setGrants((current) => {
+      const granted = current[rankId] ?? [];
+      return {
+        ...current,
+        [rankId]: granted.includes(capability)
+          ? granted.filter((c) => c !== capability)
+          : [...granted, capability],
+      };
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    setSaveMessage(null);
+    const response = await guildService.updateGuildPermissions(guildId, {
+      ranks: permissions.ranks
+        .filter((rank) => !rank.isGuildMaster)
+        .map((rank) => ({ rankId: rank.rankId, capabilities: grants[rank.rankId] ?? [] })),
+    });
+    setSaving(false);
+
+    if (response.success && response.data) {
+      setData(response.data);
+      setSaveMessage('Permissions saved.');
+    } else {
+      setSaveError(response.error?.message || 'Failed to save permissions.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-bold">Rank Permissions</h2>
+        <p className="text-sm text-gray-600">
+          Choose what members of each rank may manage. The guild master can always do everything.
+        </p>
+      </div>
+
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Rank</th>
+            {CAPABILITY_OPTIONS.map((option) => (
+              <th key={option.value} className="px-4 py-2 text-center font-medium text-gray-500">
+                {option.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {permissions.ranks.map((rank) => (
+            <tr key={rank.rankId}>
+              <td className="px-4 py-2 font-medium">
+                {rank.rankName}
+                <span className="text-gray-400 ml-1">({rank.rankId})</span>
+              </td>
+              {CAPABILITY_OPTIONS.map((option) => (
+                <td key={option.value} className="px-4 py-2 text-center">
+                  <input
+                    type="checkbox"
+                    aria-label={`${rank.rankName}: ${option.label}`}
+                    checked={(grants[rank.rankId] ?? []).includes(option.value)}
+                    disabled={rank.isGuildMaster || !permissions.isGuildMaster}
+                    onChange={() => toggle(rank.rankId, option.value)}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {permissions.isGuildMaster && (
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save permissions'}
+        </button>
+      )}
+
+      {saveMessage && <p className="text-green-600 text-sm">{saveMessage}</p>}
+      {saveError && <p className="text-red-500 text-sm">{saveError}</p>}
+    </div>
+  );
+};
+
+export default GuildPermissionsManager;
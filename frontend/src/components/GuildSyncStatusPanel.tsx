@@ -0,0 +1,174 @@
+import React from 'react';
+import { useApi } from '../hooks/useApi';
+import { guildService } from '../services/api/guild.service';
+import type { GuildSyncStatus, SyncRun, SyncRunStep } from '../../../shared/types/api/sync';
+import LoadingSpinner from './LoadingSpinner';
+
+interface Props {
+  guildId: number;
+}
+
+const STATUS_STYLES: Record<SyncRun['status'], string> = {
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const STEP_LABELS: Record<SyncRunStep['step'], string> = {
+  core: 'Guild',
+  members: 'Members',
+  ranks: 'Ranks',
+  characters: 'Characters',
+};
+
+const formatDuration = (durationMs: number | null): string => {
+  if (durationMs === null) return '—';
+  if (durationMs < 1000) return `${durationMs} ms`;
+  const seconds = Math.round(durationMs / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const formatDate = (iso: string | null): string =>
+  iso ? new Date(iso).toLocaleString() : 'Never';
+
+const StatusBadge: React.FC<{ status: SyncRun['status'] }> = ({ status }) => (
+  <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+    {status}
+  </span>
+);
+
+const describeStep = (step: SyncRunStep): string => {
+  if (step.step === 'characters') {
+    const { queued = 0, succeeded = 0, unchanged = 0, unavailable = 0, failed = 0 } = step.details;
+    return `${succeeded + unchanged + unavailable + failed}/${queued} done, ${unchanged} unchanged, ${failed} failed`;
+  }
+  if (step.step === 'members') {
+    const { added = 0, updated = 0, deactivated = 0 } = step.details;
+    return `+${added} / ~${updated} / -${deactivated}`;
+  }
+  return formatDuration(step.durationMs);
+};
+
+export const GuildSyncStatusPanel: React.FC<Props> = ({ guildId }) => {
+  const {
+    data: status,
+    loading,
+    error,
+    execute: refreshStatus,
+  } = useApi<GuildSyncStatus>({
+    apiFn: guildService.getGuildSyncStatus,
+    args: [guildId],
+    deps: [guildId],
+  });
+
+  if (loading) return <LoadingSpinner />;
+
+  if (error) {
+    return (
+      <div className="text-red-500 p-4 rounded-md bg-red-50 border border-red-200">
+        Error loading sync status: {error.message}
+      </div>
+    );
+  }
+
+  if (!status) {
+    return (
+      <div className="text-center p-4 text-gray-500">
+        No sync information available
+      </div>
+    );
+  }
+
+  const { lastRun, recentRuns, queue } = status;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold">Sync Status</h2>
+        <button
+          onClick={() => refreshStatus(guildId)}
+          className="text-indigo-600 hover:text-indigo-900 text-sm"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-4 rounded border border-gray-200">
+          <div className="text-xs text-gray-500 uppercase">Last roster sync</div>
+          <div className="font-medium">{formatDate(status.lastRosterSync)}</div>
+        </div>
+        <div className="p-4 rounded border border-gray-200">
+          <div className="text-xs text-gray-500 uppercase">Last run</div>
+          {lastRun ? (
+            <div className="flex items-center space-x-2">
+              <StatusBadge status={lastRun.status} />
+              <span className="text-sm text-gray-600">{formatDuration(lastRun.durationMs)}</span>
+            </div>
+          ) : (
+            <div className="font-medium">No runs recorded</div>
+          )}
+          {lastRun?.error && (
+            <div className="text-sm text-red-600 mt-1">{lastRun.error}</div>
+          )}
+        </div>
+        <div className="p-4 rounded border border-gray-200">
+          <div className="text-xs text-gray-500 uppercase">Character queue</div>
+          <div className="font-medium">
+            {queue.pending} pending, {queue.running} running
+          </div>
+          {queue.dead > 0 && (
+            <div className="text-sm text-red-600 mt-1">{queue.dead} failed permanently</div>
+          )}
+        </div>
+      </div>
+
+      {recentRuns.length > 0 && (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Started
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Trigger
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Steps
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {recentRuns.map((run) => (
+              <tr key={run.id} className="hover:bg-gray-50 align-top">
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  {formatDate(run.startedAt)}
+                  <div className="text-gray-500">{formatDuration(run.durationMs)}</div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm capitalize">{run.trigger}</td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <StatusBadge status={run.status} />
+                </td>
+                <td className="px-6 py-4 text-sm">
+                  <ul className="space-y-1">
+                    {run.steps.map((step) => (
+                      <li key={step.step} className="flex items-center space-x-2">
+                        <span className="w-24 text-gray-700">{STEP_LABELS[step.step]}</span>
+                        <StatusBadge status={step.status} />
+                        <span className="text-gray-500">{describeStep(step)}</span>
+                        {step.error && <span className="text-red-600">{step.error}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { eventService } from '../services/api';
+import type {
+  EventLineup,
+  LineupAssignment,
+  LineupMember,
+  LineupSelection
+} from '../../../shared/types/api/lineup';
+
+interface Props {
+  eventId: number;
+  onPublished?: () => void;
+}
+
+interface Zone {
+  id: string;
+  label: string;
+  selection: LineupSelection | null;
+  groupNumber: number | null;
+}
+
+const GROUP_ZONES: Zone[] = Array.from({ length: 8 }, (_, index) => ({
+  id: `group-${index + 1}`,
+  label: `Group ${index + 1}`,
+  selection: 'In',
+  groupNumber: index + 1,
+}));
+
+const OTHER_ZONES: Zone[] = [
+  { id: 'bench', label: 'Bench', selection: 'Bench', groupNumber: null },
+  { id: 'standby', label: 'Standby', selection: 'Standby', groupNumber: null },
+  { id: 'unpicked', label: 'Not picked', selection: null, groupNumber: null },
+];
+
+const zoneOf = (member: LineupMember): string => {
+  if (member.selection === 'In') {
+    return member.groupNumber ? `group-${member.groupNumber}` : 'unpicked';
+  }
+  if (member.selection === 'Bench') return 'bench';
+  if (member.selection === 'Standby') return 'standby';
+  return 'unpicked';
+};
+
+/**
+ * Officer panel to sort sign-ups into raid groups 1-8, bench and standby by
+ * dragging them between columns, then publish the result. Picks are separate
+ * from the players' own RSVP. Renders nothing for users who are not the guild master.
+ */
+export const LineupEditor: React.FC<Props> = ({ eventId, onPublished }) => {
+  const { data: lineup, error: loadError, setData: setLineup } = useApi<EventLineup, [number]>({
+    apiFn: eventService.getEventLineup,
+    args: [eventId],
+    deps: [eventId],
+  });
+  const [members, setMembers] = useState<LineupMember[]>([]);
+  const [changed, setChanged] = useState<Record<number, LineupAssignment>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (lineup) {
+      setMembers(lineup.members);
+      setChanged({});
+    }
+  }, [lineup]);
+
+  if (loadError?.status === 403 || !lineup) {
+    return null;
+  }
+
+  const moveMember = (subscriptionId: number, zone: Zone) => {
+    const member = members.find((m) => m.subscriptionId === subscriptionId);
+    if (member?.status === 'Declined' && zone.selection !== null) {
+      setError(`${member.characterName} declined and cannot be picked.`);
+      return;
+    }
+    setMembers((current) =>
+      current.map((member) =>
+        member.subscriptionId === subscriptionId
+          ? { ...member, selection: zone.selection, groupNumber: zone.groupNumber }
+          : member
+      )
+    );
+    setChanged((current) => ({
+      ...current,
+      [subscriptionId]: { subscriptionId, selection: zone.selection, groupNumber: zone.groupNumber },
+    }));
+  };
+
+  const handleDrop = (e: React.DragEvent, zone: Zone) => {
+    e.preventDefault();
+    const subscriptionId = Number(e.dataTransfer.getData('text/plain'));
+    if (subscriptionId) {
+      moveMember(subscriptionId, zone);
+    }
+  };
+
+  const saveChanges = async (): Promise<EventLineup | null> => {
+    const assignments = Object.values(changed);
+    if (assignments.length === 0) return lineup;
+    const response = await eventService.saveEventLineup(eventId, assignments);
+    if (!response.success || !response.data) {
+      setError(response.error?.message || 'Failed to save the lineup.');
+      return null;
+    }
+    setLineup(response.data);
+    return response.data;
+  };
+
+  const handleSave = async () => {
+    setBusy(true);
+    setError(null);
+    await saveChanges();
+    setBusy(false);
+  };
+
+  const handlePublish = async () => {
+    if (!window.confirm('Publish this lineup? Picked players will be notified in the Discord thread.')) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    if (await saveChanges()) {
+      const response = await eventService.publishEventLineup(eventId);
+      if (response.success && response.data) {
+        setLineup(response.data);
+        onPublished?.();
+      } else {
+        setError(response.error?.message || 'Failed to publish the lineup.');
+      }
+    }
+    setBusy(false);
+  };
+
+  const hasChanges = Object.keys(changed).length > 0;
+  const renderZone = (zone: Zone) => {
+    const zoneMembers = members.filter((member) => zoneOf(member) === zone.id);
+    return (
+      <div
+        key={zone.id}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => handleDrop(e, zone)}
+        className="border rounded p-2 min-h-24 bg-gray-50"
+      >
+        <div className="text-xs font-medium text-gray-600 mb-1">
+          {zone.label} ({zoneMembers.length})
+        </div>
+        <ul className="space-y-1">
+          {zoneMembers.map((member) => {
+            const declined = member.status === 'Declined';
+            return (
+              <li
+                key={member.subscriptionId}
+                draggable
+                onDragStart={(e) => e.dataTransfer.setData('text/plain', String(member.subscriptionId))}
+                className={`text-sm bg-white border rounded px-2 py-1 cursor-move ${
+                  declined ? 'opacity-50' : ''
+                }`}
+                title={`${member.battletag} · RSVP: ${member.status}${member.waitlisted ? ' (waitlist)' : ''}`}
+              >
+                <span className="font-medium">{member.characterName}</span>
+                <span className="text-gray-500 text-xs ml-1">
+                  {member.characterRole ?? 'No role'}
+                  {member.status !== 'Confirmed' && ` · ${member.status}`}
+                  {member.waitlisted && ' · waitlist'}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <h3 className="text-lg font-medium">Lineup</h3>
+          <p className="text-xs text-gray-500">
+            {lineup.publishedAt
+              ? `Published ${new Date(lineup.publishedAt).toLocaleString()}`
+              : 'Not published yet'}
+            {(lineup.hasUnpublishedChanges || hasChanges) && ' · unpublished changes'}
+          </p>
+        </div>
+        <div className="space-x-2">
+          <button
+            onClick={handleSave}
+            disabled={busy || !hasChanges}
+            className="bg-gray-200 text-gray-800 px-3 py-1 rounded hover:bg-gray-300 disabled:opacity-50"
+          >
+            Save draft
+          </button>
+          <button
+            onClick={handlePublish}
+            disabled={busy}
+            className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Publish
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-2">
+        {GROUP_ZONES.map(renderZone)}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        {OTHER_ZONES.map(renderZone)}
+      </div>
+
+      {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default LineupEditor;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { guildService } from '../services/api/guild.service';
+import type {
+  GuildMemberEvent,
+  GuildMemberEventPage,
+  GuildMemberEventQuery,
+  GuildMemberEventType
+} from '../../../shared/types/api/member-event';
+import type { GuildRank } from '../../../shared/types/models/guild';
+import LoadingSpinner from './LoadingSpinner';
+
+interface Props {
+  guildId: number;
+}
+
+const PAGE_SIZE = 25;
+
+const EVENT_TYPE_LABELS: Record<GuildMemberEventType, string> = {
+  joined: 'Joined',
+  left: 'Left',
+  rejoined: 'Rejoined',
+  rank_changed: 'Rank changes',
+  renamed: 'Renames',
+  level_milestone: 'Level milestones',
+};
+
+const EVENT_DOT_COLORS: Record<GuildMemberEventType, string> = {
+  joined: 'bg-green-500',
+  left: 'bg-red-500',
+  rejoined: 'bg-teal-500',
+  rank_changed: 'bg-blue-500',
+  renamed: 'bg-purple-500',
+  level_milestone: 'bg-yellow-500',
+};
+
+/**
+ * One sentence per event, e.g. "Jaina was promoted from Raider to Officer"
+ */
+const describeEvent = (event: GuildMemberEvent, rankName: (value: string | null) => string): string => {
+  switch (event.eventType) {
+    case 'joined':
+      return `${event.characterName} joined the guild as ${rankName(event.newValue)}`;
+    case 'left':
+      return `${event.characterName} left the guild (was ${rankName(event.oldValue)})`;
+    case 'rejoined':
+      return `${event.characterName} rejoined the guild`;
+    case 'rank_changed': {
+      // Lower rank IDs are higher ranks
+      const promoted = Number(event.newValue) < Number(event.oldValue);
+      return `${event.characterName} was ${promoted ? 'promoted' : 'demoted'} from ${rankName(event.oldValue)} to ${rankName(event.newValue)}`;
+    }
+    case 'renamed':
+      return `${event.oldValue ?? 'A member'} is now known as ${event.newValue}`;
+    case 'level_milestone':
+      return `${event.characterName} reached level ${event.newValue}`;
+    default:
+      return event.characterName;
+  }
+};
+
+/**
+ * Timeline of the guild's roster changes seen by the member sync, newest first.
+ */
+export const MemberTimeline: React.FC<Props> = ({ guildId }) => {
+  const [page, setPage] = useState(1);
+  const [eventType, setEventType] = useState<GuildMemberEventType | ''>('');
+  const query: GuildMemberEventQuery = {
+    page,
+    limit: PAGE_SIZE,
+    ...(eventType ? { eventType } : {}),
+  };
+  const { data, loading, error } = useApi<GuildMemberEventPage, [number, GuildMemberEventQuery]>({
+    apiFn: guildService.getGuildMemberEvents,
+    args: [guildId, query],
+    deps: [guildId, page, eventType],
+  });
+  const { data: ranks } = useApi<GuildRank[], [number]>({
+    apiFn: guildService.getGuildRanks,
+    args: [guildId],
+    deps: [guildId],
+  });
+
+  const rankName = (value: string | null): string => {
+    if (value === null) return 'an unknown rank';
+    return ranks?.find((rank) => String(rank.rank_id) === value)?.rank_name ?? `Rank ${value}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-xl font-bold">Member History</h2>
+        <select
+          value={eventType}
+          onChange={(e) => {
+            setEventType(e.target.value as GuildMemberEventType | '');
+            setPage(1);
+          }}
+          className="rounded border border-gray-300 px-2 py-1 text-sm"
+          aria-label="Filter by change"
+        >
+          <option value="">All changes</option>
+          {Object.entries(EVENT_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && !data && <LoadingSpinner />}
+
+      {error && (
+        <div className="text-red-500 p-4 rounded-md bg-red-50 border border-red-200">
+          Error loading the member history: {error.message}
+        </div>
+      )}
+
+      {data && (data.events.length > 0 ? (
+        <ol className="relative border-l border-gray-200 ml-2">
+          {data.events.map((event) => (
+            <li key={event.id} className="mb-4 ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${EVENT_DOT_COLORS[event.eventType] ?? 'bg-gray-400'}`}
+              />
+              <time className="text-xs text-gray-500">{new Date(event.occurredAt).toLocaleString()}</time>
+              <p className="text-sm">{describeEvent(event, rankName)}</p>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-gray-500">No roster changes recorded yet.</p>
+      ))}
+
+      {data && data.totalPages > 1 && (
+        <div className="flex justify-between items-center text-sm">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1 border rounded hover:bg-gray-100 disabled:opacity-50"
+          >
+            Newer
+          </button>
+          <span className="text-gray-600">
+            Page {data.page} of {data.totalPages} ({data.total} changes)
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= data.totalPages}
+            className="px-3 py-1 border rounded hover:bg-gray-100 disabled:opacity-50"
+          >
+            Older
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MemberTimeline;
@@ -0,0 +1,142 @@
+import React from 'react';
+import { useApi } from '../hooks/useApi';
+import { guildService } from '../services/api/guild.service';
+import type {
+  CharacterMythicPlus,
+  GuildMythicPlusLeaderboard,
+  GuildMythicPlusVault,
+  MythicPlusDungeonBest
+} from '../../../shared/types/api/mythic-plus';
+import LoadingSpinner from './LoadingSpinner';
+
+interface Props {
+  guildId: number;
+}
+
+const ErrorMessage: React.FC<{ message: string }> = ({ message }) => (
+  <div className="text-red-500 p-4 rounded-md bg-red-50 border border-red-200">{message}</div>
+);
+
+const CharacterLabel: React.FC<{ character: CharacterMythicPlus }> = ({ character }) => (
+  <>
+    <span className="font-medium">{character.characterName}</span>
+    <span className="text-xs text-gray-500 ml-1">{character.characterClass}</span>
+  </>
+);
+
+const DungeonBests: React.FC<{ bests: MythicPlusDungeonBest[] }> = ({ bests }) => (
+  <>
+    {bests.length > 0
+      ? bests.map((best) => `${best.dungeonName} +${best.keystoneLevel}`).join(', ')
+      : '—'}
+  </>
+);
+
+/**
+ * Guild Mythic+ leaderboard and the mains still missing a vault-level key this reset.
+ */
+export const MythicPlusDashboard: React.FC<Props> = ({ guildId }) => {
+  const leaderboard = useApi<GuildMythicPlusLeaderboard, [number]>({
+    apiFn: guildService.getGuildMythicPlusLeaderboard,
+    args: [guildId],
+    deps: [guildId],
+  });
+  const vault = useApi<GuildMythicPlusVault, [number]>({
+    apiFn: guildService.getGuildMythicPlusVault,
+    args: [guildId],
+    deps: [guildId],
+  });
+
+  if ((leaderboard.loading && !leaderboard.data) || (vault.loading && !vault.data)) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-2">
+        <div className="flex flex-wrap justify-between items-baseline gap-2">
+          <h2 className="text-xl font-bold">Great Vault Readiness</h2>
+          {vault.data && (
+            <span className="text-sm text-gray-500">
+              Since the reset on {new Date(vault.data.weeklyResetAt).toLocaleString()}
+            </span>
+          )}
+        </div>
+        {vault.error && <ErrorMessage message={`Error loading vault readiness: ${vault.error.message}`} />}
+        {vault.data && (
+          <>
+            <p className="text-sm text-gray-600">
+              {vault.data.ready.length} of {vault.data.ready.length + vault.data.missing.length} mains
+              have done a +{vault.data.vaultKeyLevel} or higher this week.
+            </p>
+            {vault.data.missing.length > 0 ? (
+              <ul className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+                {vault.data.missing.map((character) => (
+                  <li key={character.characterId} className="border rounded px-3 py-2 text-sm">
+                    <CharacterLabel character={character} />
+                    <div className="text-xs text-gray-600">
+                      {character.highestKeyThisReset !== null
+                        ? `Highest this week: +${character.highestKeyThisReset}`
+                        : 'No keys this week'}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-green-600 text-sm">Every main is vault ready.</p>
+            )}
+          </>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-xl font-bold">Mythic+ Leaderboard</h2>
+        {leaderboard.error && (
+          <ErrorMessage message={`Error loading the leaderboard: ${leaderboard.error.message}`} />
+        )}
+        {leaderboard.data && (leaderboard.data.characters.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">#</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Character</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Rating</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Dungeons This Week</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Timed Keys This Week</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Season Best Keys</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {leaderboard.data.characters.map((character, index) => (
+                <tr key={character.characterId} className="align-top">
+                  <td className="px-4 py-2 text-gray-500">{index + 1}</td>
+                  <td className="px-4 py-2">
+                    <CharacterLabel character={character} />
+                    {!character.isMain && <span className="text-xs text-gray-400 ml-1">(alt)</span>}
+                  </td>
+                  <td className="px-4 py-2 font-semibold">{character.rating}</td>
+                  <td className="px-4 py-2">
+                    {character.dungeonsThisReset}
+                    {character.highestKeyThisReset !== null && (
+                      <span className="text-gray-500"> (best +{character.highestKeyThisReset})</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-600">
+                    <DungeonBests bests={character.bestTimedRunsThisReset} />
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-600">
+                    <DungeonBests bests={character.bestTimedRuns} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-gray-500">No Mythic+ runs synced yet.</p>
+        ))}
+      </section>
+    </div>
+  );
+};
+
+export default MythicPlusDashboard;
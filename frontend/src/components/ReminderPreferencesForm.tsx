@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { useApi } from '../hooks/useApi';
+import { authService } from '../services/api/auth.service';
+import type { ReminderPreferences } from '../../../shared/types/api/discord';
+
+const OPTIONS: { key: keyof ReminderPreferences; label: string }[] = [
+  { key: 'signupReminders', label: "Remind me about guild events I haven't signed up for" },
+  { key: 'startingSoon', label: 'Ping me shortly before events I confirmed' },
+];
+
+/**
+ * Checkboxes for the Discord reminder DMs the current user wants to receive.
+ * Each change is saved right away.
+ */
+export const ReminderPreferencesForm: React.FC = () => {
+  const { data: preferences, loading, error } = useApi<ReminderPreferences>({
+    apiFn: authService.getReminderPreferences,
+    immediate: true,
+  });
+  const [saved, setSaved] = useState<ReminderPreferences | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const current = saved ?? preferences;
+
+  if (loading && !current) return null;
+
+  if (error || !current) {
+    return <p className="text-red-500 text-sm mt-2">Failed to load reminder preferences.</p>;
+  }
+
+  const handleToggle = async (key: keyof ReminderPreferences) => {
+    setSaveError(null);
+    const response = await authService.updateReminderPreferences({
+      ...current,
+      [key]: !current[key],
+    });
+    if (response.success && response.data) {
+      setSaved(response.data);
+    } else {
+      setSaveError(response.error?.message || 'Failed to save reminder preferences.');
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-1">
+      {OPTIONS.map(({ key, label }) => (
+        <label key={key} className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={current[key]}
+            onChange={() => handleToggle(key)}
+            className="mr-2"
+          />
+          {label}
+        </label>
+      ))}
+      {saveError && <p className="text-red-500 text-sm">{saveError}</p>}
+    </div>
+  );
+};
+
+export default ReminderPreferencesForm;
@@ -0,0 +1,152 @@
+import React from 'react';
+import { useField, useFormikContext } from 'formik';
+import { EventFormValues, RecurrenceRule } from '@shared/types/index';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type EndMode = 'never' | 'until' | 'count';
+
+const getEndMode = (rule: RecurrenceRule): EndMode => {
+  if (rule.until_date) return 'until';
+  if (rule.occurrence_count) return 'count';
+  return 'never';
+};
+
+/**
+ * Weekly repeat settings for a new event. Occurrences repeat at the start time
+ * in the browser's timezone and are created a few weeks ahead by the server.
+ */
+export const EventRecurrenceFields: React.FC = () => {
+  const { values } = useFormikContext<EventFormValues>();
+  const [field, meta, helpers] = useField<RecurrenceRule | null | undefined>('recurrence');
+  const rule = field.value;
+  const error = typeof meta.error === 'string'
+    ? meta.error
+    : meta.error && Object.values(meta.error as Record<string, string>).find(Boolean);
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (rule) {
+      helpers.setValue({ ...rule, ...changes });
+    }
+  };
+
+  const handleToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.checked) {
+      helpers.setValue(null);
+      return;
+    }
+    const startDay = values.start_time ? new Date(values.start_time).getDay() : new Date().getDay();
+    helpers.setValue({
+      weekdays: [startDay],
+      interval_weeks: 1,
+      until_date: null,
+      occurrence_count: null,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!rule) return;
+    const weekdays = rule.weekdays.includes(day)
+      ? rule.weekdays.filter((d) => d !== day)
+      : [...rule.weekdays, day].sort((a, b) => a - b);
+    update({ weekdays });
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    update({
+      until_date: mode === 'until' ? (rule?.until_date || values.start_time?.slice(0, 10) || null) : null,
+      occurrence_count: mode === 'count' ? (rule?.occurrence_count || 10) : null,
+    });
+  };
+
+  return (
+    <div className="border rounded p-3 space-y-3">
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <input type="checkbox" checked={!!rule} onChange={handleToggle} />
+        <span>Repeat weekly</span>
+      </label>
+
+      {rule && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={`px-3 py-1 rounded text-sm border ${
+                  rule.weekdays.includes(day)
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-gray-700 border-gray-300'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              max={52}
+              value={rule.interval_weeks}
+              onChange={(e) => update({ interval_weeks: Number(e.target.value) })}
+              className="w-20 p-1 border rounded"
+            />
+            <span>week(s)</span>
+          </label>
+
+          <div className="space-y-1 text-sm text-gray-700">
+            <label className="flex items-center space-x-2">
+              <input
+                type="radio"
+                checked={getEndMode(rule) === 'never'}
+                onChange={() => handleEndModeChange('never')}
+              />
+              <span>No end date</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="radio"
+                checked={getEndMode(rule) === 'until'}
+                onChange={() => handleEndModeChange('until')}
+              />
+              <span>Ends on</span>
+              <input
+                type="date"
+                value={rule.until_date ?? ''}
+                disabled={getEndMode(rule) !== 'until'}
+                onChange={(e) => update({ until_date: e.target.value || null })}
+                className="p-1 border rounded"
+              />
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="radio"
+                checked={getEndMode(rule) === 'count'}
+                onChange={() => handleEndModeChange('count')}
+              />
+              <span>Ends after</span>
+              <input
+                type="number"
+                min={1}
+                value={rule.occurrence_count ?? ''}
+                disabled={getEndMode(rule) !== 'count'}
+                onChange={(e) => update({ occurrence_count: Number(e.target.value) || null })}
+                className="w-20 p-1 border rounded"
+              />
+              <span>events</span>
+            </label>
+          </div>
+
+          <p className="text-xs text-gray-500">Times repeat in {rule.timezone}.</p>
+        </>
+      )}
+
+      {error && <div className="text-red-500 text-sm">{error}</div>}
+    </div>
+  );
+};
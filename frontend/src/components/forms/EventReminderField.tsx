@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { useField } from 'formik';
+
+/**
+ * Comma-separated reminder offsets (minutes before start) for one event.
+ * Leaving it empty uses the reminder lead times from the guild's Discord settings.
+ */
+export const EventReminderField: React.FC = () => {
+  const [field, meta, helpers] = useField<number[] | null | undefined>('reminder_offsets_minutes');
+  const [text, setText] = useState(field.value?.join(', ') ?? '');
+  // Yup reports per-item errors as an array
+  const error = Array.isArray(meta.error) ? meta.error.find(Boolean) : meta.error;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setText(value);
+    const parts = value.split(',').map((part) => part.trim()).filter(Boolean);
+    helpers.setValue(parts.length > 0 ? parts.map(Number) : null);
+  };
+
+  return (
+    <div>
+      <label htmlFor="reminder_offsets_minutes" className="block text-sm font-medium text-gray-700 mb-1">
+        Discord Reminders (minutes before start)
+      </label>
+      <input
+        id="reminder_offsets_minutes"
+        type="text"
+        value={text}
+        onChange={handleChange}
+        onBlur={() => helpers.setTouched(true)}
+        placeholder="Guild default, e.g. 1440, 60"
+        className="w-full p-2 border rounded focus:ring-blue-500 focus:border-blue-500"
+      />
+      {meta.touched && error && (
+        <div className="text-red-500 text-sm mt-1">{error}</div>
+      )}
+    </div>
+  );
+};
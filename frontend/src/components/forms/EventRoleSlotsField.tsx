@@ -0,0 +1,54 @@
+import React from 'react';
+import { useField } from 'formik';
+
+const ROLES = [
+  { key: 'tanks', label: 'Tanks' },
+  { key: 'healers', label: 'Healers' },
+  { key: 'dps', label: 'DPS' },
+] as const;
+
+const RoleSlotInput: React.FC<{ role: typeof ROLES[number] }> = ({ role }) => {
+  const name = `event_details.required_roles.${role.key}`;
+  const [field, meta, helpers] = useField<number | undefined>(name);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    helpers.setValue(value === '' ? undefined : Number(value));
+  };
+
+  return (
+    <div>
+      <label htmlFor={name} className="block text-xs text-gray-600 mb-1">
+        {role.label}
+      </label>
+      <input
+        id={name}
+        type="number"
+        min={0}
+        value={field.value ?? ''}
+        onChange={handleChange}
+        onBlur={() => helpers.setTouched(true)}
+        placeholder="No limit"
+        className="w-full p-2 border rounded focus:ring-blue-500 focus:border-blue-500"
+      />
+      {meta.touched && meta.error && (
+        <div className="text-red-500 text-sm mt-1">{meta.error}</div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Seats per role. Confirmed sign-ups beyond a role's count (or beyond the
+ * participant cap) go to the waitlist; leave a role empty to not limit it.
+ */
+export const EventRoleSlotsField: React.FC = () => (
+  <div>
+    <span className="block text-sm font-medium text-gray-700 mb-1">Role Slots</span>
+    <div className="grid grid-cols-3 gap-4">
+      {ROLES.map((role) => (
+        <RoleSlotInput key={role.key} role={role} />
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SyncRun } from '@shared/types/api/sync';
+import { guildService } from '../services/api/guild.service';
+
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * A run is finished once the guild-level steps are done and the character
+ * queue has reported on every character it was given.
+ */
+const isRunFinished = (run: SyncRun): boolean =>
+  run.status !== 'running' && run.steps.every((step) => step.status !== 'running');
+
+/**
+ * Custom hook for triggering an on-demand guild sync and polling its progress.
+ * - A 409 (sync already running) attaches to the existing run instead of failing.
+ * - A 429 (cooldown) surfaces when the next manual sync is allowed.
+ */
+export function useGuildSync(guildId: number) {
+  const [run, setRun] = useState<SyncRun | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pollTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopPolling = useCallback(() => {
+    if (pollTimerRef.current) {
+      clearInterval(pollTimerRef.current);
+      pollTimerRef.current = null;
+    }
+  }, []);
+
+  // Stop polling when the component unmounts or the guild changes
+  useEffect(() => stopPolling, [guildId, stopPolling]);
+
+  const trackRun = useCallback((syncRunId: number) => {
+    stopPolling();
+    setIsSyncing(true);
+
+    const poll = async () => {
+      const response = await guildService.getGuildSyncStatus(guildId);
+      if (!response.success || !response.data) {
+        setError(response.error?.message || 'Failed to load sync progress');
+        setIsSyncing(false);
+        stopPolling();
+        return;
+      }
+      const trackedRun = response.data.recentRuns.find((r) => r.id === syncRunId) ?? null;
+      setRun(trackedRun);
+      if (!trackedRun || isRunFinished(trackedRun)) {
+        setIsSyncing(false);
+        stopPolling();
+      }
+    };
+
+    poll();
+    pollTimerRef.current = setInterval(poll, POLL_INTERVAL_MS);
+  }, [guildId, stopPolling]);
+
+  const startSync = useCallback(async () => {
+    setError(null);
+    setRun(null);
+    const response = await guildService.requestGuildSync(guildId);
+
+    if (response.success && response.data) {
+      trackRun(response.data.syncRunId);
+      return;
+    }
+
+    const details = response.error?.details as Record<string, unknown> | undefined;
+    if (response.error?.status === 409 && typeof details?.syncRunId === 'number') {
+      trackRun(details.syncRunId);
+      return;
+    }
+    if (response.error?.status === 429 && typeof details?.nextAllowedAt === 'string') {
+      setError(`Guild was synced recently. Try again after ${new Date(details.nextAllowedAt).toLocaleTimeString()}.`);
+      return;
+    }
+    setError(response.error?.message || 'Failed to start guild sync');
+  }, [guildId, trackRun]);
+
+  return { run, isSyncing, error, startSync };
+}
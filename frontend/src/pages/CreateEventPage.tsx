@@ -1,10 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import { Guild } from '@shared/types/index';
 import EventForm from '../components/EventForm';
 import withAuth from '../components/withAuth';
 import { useApi } from '../hooks/useApi';
 import { guildService } from '../services/api';
+import type { EventTemplate } from '../../../shared/types/api/template';
+import { EventType } from '../../../shared/types/enums/event';
 
 interface LocationState {
   startTime?: string;
@@ -27,13 +29,26 @@ const CreateEventPage: React.FC = () => {
     deps: [guildId]
   });
   
+  const { data: templates } = useApi<EventTemplate[], [number]>({
+    apiFn: guildService.getEventTemplates,
+    args: [parseInt(guildId || '0')],
+    deps: [guildId]
+  });
+
+  // undefined until the user picks: the default Raid template is preselected
+  const [selectedTemplateId, setSelectedTemplateId] = useState<number | null | undefined>(undefined);
+  const template = selectedTemplateId === undefined
+    ? templates?.find(t => t.isDefault && t.eventType === EventType.RAID)
+    : templates?.find(t => t.id === selectedTemplateId);
+
   // Get start and end times from location state (if clicked on calendar)
   const startTime = state?.startTime || new Date().toISOString().slice(0, 16);
   
-  // Default end time is 2 hours after start
-  const defaultEndTime = new Date(new Date(startTime).getTime() + 2 * 60 * 60 * 1000)
+  // Default end time is 2 hours after start, or the template's duration
+  const durationMinutes = template?.durationMinutes ?? 120;
+  const defaultEndTime = new Date(new Date(startTime).getTime() + durationMinutes * 60 * 1000)
     .toISOString().slice(0, 16);
-  const endTime = state?.endTime || defaultEndTime;
+  const endTime = (!template && state?.endTime) || defaultEndTime;
 
   // Make sure we explicitly define this as EventFormValues
   interface EventFormValues {
@@ -44,17 +59,33 @@ const CreateEventPage: React.FC = () => {
     end_time: string;
     max_participants: number;
     guild_id: number;
+    event_details?: EventTemplate['eventDetails'];
+    reminder_offsets_minutes?: number[] | null;
+    template_id?: number | null;
   }
 
-  const initialValues: EventFormValues = {
-    title: '',
-    description: '',
-    event_type: 'Raid',
-    start_time: startTime,
-    end_time: endTime,
-    max_participants: 25,
-    guild_id: parseInt(guildId || '0')
-  };
+  const initialValues: EventFormValues = template
+    ? {
+        title: template.title,
+        description: template.description,
+        event_type: template.eventType,
+        start_time: startTime,
+        end_time: endTime,
+        max_participants: template.maxParticipants ?? 25,
+        guild_id: parseInt(guildId || '0'),
+        event_details: template.eventDetails,
+        reminder_offsets_minutes: template.reminderOffsetsMinutes,
+        template_id: template.id
+      }
+    : {
+        title: '',
+        description: '',
+        event_type: 'Raid',
+        start_time: startTime,
+        end_time: endTime,
+        max_participants: 25,
+        guild_id: parseInt(guildId || '0')
+      };
 
   const handleSubmitSuccess = (event: Event) => {
     // Navigate to the event details page after successful creation
@@ -90,7 +121,29 @@ const CreateEventPage: React.FC = () => {
             </p>
           )}
           
+          {templates && templates.length > 0 && (
+            <div className="mb-6">
+              <label htmlFor="templatePicker" className="block text-sm font-medium text-gray-700 mb-1">
+                Create from template
+              </label>
+              <select
+                id="templatePicker"
+                value={template?.id ?? ''}
+                onChange={(e) => setSelectedTemplateId(e.target.value ? parseInt(e.target.value) : null)}
+                className="w-full p-2 border rounded"
+              >
+                <option value="">No template</option>
+                {templates.map(t => (
+                  <option key={t.id} value={t.id}>
+                    {t.name} ({t.eventType}{t.isDefault ? ', default' : ''})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <EventForm 
+            key={template?.id ?? 'blank'}
             initialValues={initialValues}
             onSubmitSuccess={handleSubmitSuccess}
             buttonText="Create Event"
@@ -1,6 +1,9 @@
 import React from 'react';
 import withAuth from '../components/withAuth';
 import UserGuilds from '../components/UserGuilds';
+import DiscordLinkStatus from '../components/DiscordLinkStatus';
+import CalendarFeedLink from '../components/CalendarFeedLink';
+import AbsenceCalendar from '../components/AbsenceCalendar';
 import { useAuth } from '../context/AuthContext';
 
 const Dashboard: React.FC = () => {
@@ -23,6 +26,20 @@ const Dashboard: React.FC = () => {
       </div>
 
       
+      <div className="mt-8">
+        <DiscordLinkStatus />
+      </div>
+
+      <div className="mt-8 bg-white p-4 rounded-lg shadow">
+        <h2 className="text-xl font-bold mb-2">Calendar</h2>
+        <CalendarFeedLink />
+      </div>
+
+      <div className="mt-8 bg-white p-4 rounded-lg shadow">
+        <h2 className="text-xl font-bold mb-2">Absences</h2>
+        <AbsenceCalendar />
+      </div>
+
       <div className="mt-8 mb-8">
         <UserGuilds />
       </div>
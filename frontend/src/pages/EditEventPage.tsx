@@ -1,8 +1,10 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
+import { EventEditScope } from '@shared/types/index';
 import EventForm from '../components/EventForm';
 import { useAuth } from '../context/AuthContext';
-import { eventService } from '../services/api';
+import { eventService, guildService } from '../services/api';
+import { GuildCapability } from '../../../shared/types/enums/guild';
 import withAuth from '@/components/withAuth';
 
 const EditEventPage: React.FC = () => {
@@ -11,6 +13,7 @@ const EditEventPage: React.FC = () => {
   const { user } = useAuth();
   const [event, setEvent] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [editScope, setEditScope] = useState<EventEditScope>('this');
 
   useEffect(() => {
     const fetchEvent = async () => {
@@ -20,9 +23,12 @@ const EditEventPage: React.FC = () => {
         const response = await eventService.getEventById(parseInt(eventId));
         setEvent(response.data);
         
-        // Check if user is authorized to edit
-        if (response?.data?.created_by !== user?.id) {
-          navigate(`/event/${eventId}`);
+        // Check if user is authorized to edit: the creator, or a rank that may manage events
+        if (response?.data && response.data.created_by !== user?.id) {
+          const permissionsResponse = await guildService.getGuildPermissions(response.data.guild_id);
+          if (!permissionsResponse.data?.myCapabilities.includes(GuildCapability.MANAGE_EVENTS)) {
+            navigate(`/event/${eventId}`);
+          }
         }
       } catch (error) {
         console.error('Failed to fetch event:', error);
@@ -64,6 +70,12 @@ const EditEventPage: React.FC = () => {
   const formattedStartTime = new Date(event.start_time).toISOString().slice(0, 16);
   const formattedEndTime = new Date(event.end_time).toISOString().slice(0, 16);
 
+  const scopeOptions: { value: EventEditScope; label: string }[] = [
+    { value: 'this', label: 'This event' },
+    { value: 'following', label: 'This and following events' },
+    { value: 'all', label: 'All upcoming events in the series' },
+  ];
+
   const initialValues = {
     title: event.title,
     description: event.description,
@@ -71,7 +83,9 @@ const EditEventPage: React.FC = () => {
     start_time: formattedStartTime,
     end_time: formattedEndTime,
     max_participants: event.max_participants,
-    guild_id: event.guild_id
+    guild_id: event.guild_id,
+    // Sent back whole, so role slots are saved without losing location and other details
+    event_details: event.event_details
   };
 
   return (
@@ -87,6 +101,26 @@ const EditEventPage: React.FC = () => {
 
       <div className="bg-white rounded-lg shadow-md p-6">
         <h1 className="text-2xl font-bold mb-6">Edit Event</h1>
+
+        {event.series_id && (
+          <fieldset className="mb-6 p-3 border rounded">
+            <legend className="text-sm font-medium text-gray-700 px-1">This is a recurring event. Apply changes to:</legend>
+            <div className="flex flex-col space-y-1">
+              {scopeOptions.map((option) => (
+                <label key={option.value} className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="radio"
+                    name="editScope"
+                    value={option.value}
+                    checked={editScope === option.value}
+                    onChange={() => setEditScope(option.value)}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
         
         <EventForm 
           initialValues={initialValues}
@@ -94,6 +128,7 @@ const EditEventPage: React.FC = () => {
           buttonText="Update Event"
           mode="edit"
           eventId={parseInt(eventId || '0')}
+          editScope={event.series_id ? editScope : undefined}
         />
       </div>
     </div>
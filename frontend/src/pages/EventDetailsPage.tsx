@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { eventService, characterService } from '../services/api';
+import { eventService, characterService, guildService } from '../services/api';
 import * as Enums from '../../../shared/types/enums';
 import { CharacterSelector } from '../components/CharacterSelector';
+import { EventCompositionBoard } from '../components/EventCompositionBoard';
+import { LineupEditor } from '../components/LineupEditor';
+import { EventAttendancePanel } from '../components/EventAttendancePanel';
+import type { EventComposition } from '../../../shared/types/api/composition';
 import { format } from 'date-fns';
 import withAuth from '@/components/withAuth';
 
@@ -30,6 +34,9 @@ interface Subscription {
   character_name: string;
   character_class: string;
   character_role: string;
+  waitlisted_at?: string | null; // Confirmed but waiting for a free seat
+  lineup_selection?: string | null; // Published officer pick: In, Bench or Standby
+  lineup_group?: number | null;
 }
 
 const EventDetailsPage: React.FC = () => {
@@ -38,7 +45,9 @@ const EventDetailsPage: React.FC = () => {
   const { user } = useAuth();
   const [event, setEvent] = useState<Event | null>(null);
   const [subscribers, setSubscribers] = useState<Subscription[]>([]);
+  const [composition, setComposition] = useState<EventComposition | null>(null);
   const [userSubscription, setUserSubscription] = useState<Subscription | null>(null);
+  const [canManageEvents, setCanManageEvents] = useState(false);
   const [loading, setLoading] = useState(true);
   // const [loadingCharacters, setLoadingCharacters] = useState(true); // Removed unused state
   const [formData, setFormData] = useState({
@@ -57,6 +66,11 @@ const EventDetailsPage: React.FC = () => {
         const eventResponse = await eventService.getEventById(parseInt(eventId));
         if (eventResponse?.data) {
           setEvent(eventResponse.data);
+
+          const permissionsResponse = await guildService.getGuildPermissions(eventResponse.data.guild_id);
+          setCanManageEvents(
+            permissionsResponse.data?.myCapabilities.includes(Enums.GuildCapability.MANAGE_EVENTS) ?? false
+          );
         }
 
         // Fetch event subscribers
@@ -64,6 +78,11 @@ const EventDetailsPage: React.FC = () => {
         if (subscribersResponse?.data) {
           setSubscribers(subscribersResponse.data);
         }
+
+        const compositionResponse = await eventService.getEventComposition(parseInt(eventId));
+        if (compositionResponse?.data) {
+          setComposition(compositionResponse.data);
+        }
         
         // Check if current user is subscribed
         const userSub = subscribersResponse?.data?.find(
@@ -147,6 +166,12 @@ const EventDetailsPage: React.FC = () => {
 
       setSubscribers(subscribersResponse.data);
 
+      // Declines and new sign-ups can move people on or off the waitlist
+      const compositionResponse = await eventService.getEventComposition(parseInt(eventId));
+      if (compositionResponse?.data) {
+        setComposition(compositionResponse.data);
+      }
+
       // Update user subscription status
       const userSub = subscribersResponse.data.find(
         (sub: Subscription) => sub.user_id === user?.id
@@ -159,6 +184,34 @@ const EventDetailsPage: React.FC = () => {
     }
   };
 
+  // Published picks show up in the participants table
+  const refreshSubscribers = async () => {
+    if (!eventId) return;
+    const subscribersResponse = await eventService.getEventSubscribers(parseInt(eventId));
+    if (subscribersResponse?.data) {
+      setSubscribers(subscribersResponse.data as Subscription[]);
+    }
+  };
+
+  // Officers who may manage events can change another member's sign-up
+  const handleChangeStatusFor = async (sub: Subscription, status: string) => {
+    if (!eventId) return;
+    const response = await eventService.updateSubscription(parseInt(eventId), {
+      user_id: sub.user_id,
+      character_id: sub.character_id,
+      status: status as Enums.EventSubscriptionStatus,
+    });
+    if (!response.success) {
+      console.error('Failed to change sign-up:', response.error);
+      return;
+    }
+    await refreshSubscribers();
+    const compositionResponse = await eventService.getEventComposition(parseInt(eventId));
+    if (compositionResponse?.data) {
+      setComposition(compositionResponse.data);
+    }
+  };
+
   const handleEditEvent = () => {
     if (!eventId) return;
     navigate(`/event/${eventId}/edit`);
@@ -205,7 +258,7 @@ const EventDetailsPage: React.FC = () => {
   // Check if user is allowed to edit/delete this event
   const canEditOrDelete =
     user?.role === Enums.UserRole.ADMIN ||
-    (user?.role === Enums.UserRole.USER && user?.id === event.created_by);
+    (user?.role === Enums.UserRole.USER && (user?.id === event.created_by || canManageEvents));
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -297,6 +350,20 @@ const EventDetailsPage: React.FC = () => {
           </div>
         </div>
         
+        {composition && (
+          <div className="mb-6">
+            <EventCompositionBoard composition={composition} />
+          </div>
+        )}
+
+        <div className="mb-6">
+          <LineupEditor eventId={event.id} onPublished={refreshSubscribers} />
+        </div>
+
+        <div className="mb-6">
+          <EventAttendancePanel eventId={event.id} />
+        </div>
+
         <div>
           <h3 className="text-lg font-medium mb-2">Participants ({subscribers.length})</h3>
           {subscribers.length > 0 ? (
@@ -309,6 +376,7 @@ const EventDetailsPage: React.FC = () => {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Class</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lineup</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
@@ -319,13 +387,36 @@ const EventDetailsPage: React.FC = () => {
                       <td className="px-6 py-4 whitespace-nowrap">{sub.character_class}</td>
                       <td className="px-6 py-4 whitespace-nowrap">{sub.character_role}</td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-block px-2 py-1 rounded text-sm font-medium
-                          ${sub.status === 'Confirmed' ? 'bg-green-100 text-green-800' :
-                            sub.status === 'Tentative' ? 'bg-yellow-100 text-yellow-800' :
-                            'bg-red-100 text-red-800'}
-                        `}>
-                          {sub.status}
-                        </span>
+                        {canManageEvents && sub.user_id !== user?.id ? (
+                          <select
+                            value={sub.status}
+                            onChange={(e) => handleChangeStatusFor(sub, e.target.value)}
+                            className="rounded border border-gray-300 px-2 py-1 text-sm"
+                            aria-label={`Sign-up status of ${sub.character_name}`}
+                          >
+                            <option value="Confirmed">Confirmed</option>
+                            <option value="Tentative">Tentative</option>
+                            <option value="Declined">Declined</option>
+                          </select>
+                        ) : (
+                          <span className={`inline-block px-2 py-1 rounded text-sm font-medium
+                            ${sub.status === 'Confirmed' ? 'bg-green-100 text-green-800' :
+                              sub.status === 'Tentative' ? 'bg-yellow-100 text-yellow-800' :
+                              'bg-red-100 text-red-800'}
+                          `}>
+                            {sub.status}
+                          </span>
+                        )}
+                        {sub.waitlisted_at && (
+                          <span className="inline-block ml-2 px-2 py-1 rounded text-sm font-medium bg-gray-100 text-gray-700">
+                            Waitlist
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {sub.lineup_selection
+                          ? `${sub.lineup_selection}${sub.lineup_group ? ` · Group ${sub.lineup_group}` : ''}`
+                          : '—'}
                       </td>
                     </tr>
                   ))}
@@ -1,21 +1,43 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useAuth } from '../context/AuthContext';
 import { guildService } from '../services/api/guild.service';
 import type { Guild } from '../../../shared/types/models/guild';
+import type { GuildPermissions } from '../../../shared/types/api/permission';
+import { GuildCapability } from '../../../shared/types/enums/guild';
 import { GuildRankManager } from '../components/GuildRankManager';
+import { GuildSyncStatusPanel } from '../components/GuildSyncStatusPanel';
+import { GuildDiscordSettingsPanel } from '../components/GuildDiscordSettingsPanel';
+import { EventTemplatesManager } from '../components/EventTemplatesManager';
+import { GuildAbsencesWeek } from '../components/GuildAbsencesWeek';
+import { GuildPermissionsManager } from '../components/GuildPermissionsManager';
+import { AuditLogViewer } from '../components/AuditLogViewer';
+import { GearAuditTable } from '../components/GearAuditTable';
 import GuildRosterManager from '../components/GuildRosterManager'; // Import GuildRosterManager as default
 import LoadingSpinner from '../components/LoadingSpinner';
 import withAuth from '@/components/withAuth';
 
+type ManageTab = 'general' | 'ranks' | 'permissions' | 'roster' | 'gear' | 'templates' | 'absences' | 'discord' | 'audit';
+
+// What each tab needs; null means guild master only
+const TABS: { id: ManageTab; label: string; capability: GuildCapability | null }[] = [
+  { id: 'general', label: 'General Settings', capability: null },
+  { id: 'ranks', label: 'Rank Management', capability: GuildCapability.MANAGE_RANKS },
+  { id: 'permissions', label: 'Permissions', capability: null },
+  { id: 'roster', label: 'Roster Management', capability: GuildCapability.MANAGE_ROSTERS },
+  { id: 'gear', label: 'Gear Audit', capability: GuildCapability.MANAGE_ROSTERS },
+  { id: 'templates', label: 'Event Templates', capability: GuildCapability.MANAGE_EVENTS },
+  { id: 'absences', label: 'Absences', capability: GuildCapability.MANAGE_ATTENDANCE },
+  { id: 'discord', label: 'Discord', capability: null },
+  { id: 'audit', label: 'Audit Log', capability: null },
+];
+
 const GuildManagePage: React.FC = () => {
   const { guildId } = useParams<{ guildId: string }>();
   const navigate = useNavigate();
-  const { user } = useAuth();
   const [guild, setGuild] = useState<Guild | null>(null);
   const [loading, setLoading] = useState(true);
-  const [isGuildMaster, setIsGuildMaster] = useState(false);
-  const [activeTab, setActiveTab] = useState<'general' | 'ranks' | 'roster'>('general');
+  const [permissions, setPermissions] = useState<GuildPermissions | null>(null);
+  const [activeTab, setActiveTab] = useState<ManageTab | null>(null);
   const [error, setError] = useState<string | null>(null);
   // syncMessage state removed as it's no longer used
 
@@ -24,15 +46,15 @@ const GuildManagePage: React.FC = () => {
       try {
         if (!guildId) return;
         
-        // Fetch guild data
-        const guildResponse = await guildService.getGuildById(parseInt(guildId));
+        // Fetch guild data and what the user may manage in it
+        const [guildResponse, permissionsResponse] = await Promise.all([
+          guildService.getGuildById(parseInt(guildId)),
+          guildService.getGuildPermissions(parseInt(guildId)),
+        ]);
         
         if (guildResponse.success && guildResponse.data) {
           setGuild(guildResponse.data);
-          
-         // Check if user is guild master of this guild
-         setIsGuildMaster(guildResponse.data.leader_id === user?.id);
-          
+          setPermissions(permissionsResponse.data ?? null);
         } else {
           setError(guildResponse.error?.message || 'Failed to load guild data');
         }
@@ -45,14 +67,20 @@ const GuildManagePage: React.FC = () => {
     };
 
     fetchGuildData();
-  }, [guildId, user?.id]);
+  }, [guildId]);
+
+  const visibleTabs = TABS.filter((tab) =>
+    permissions?.isGuildMaster ||
+    (tab.capability !== null && permissions?.myCapabilities.includes(tab.capability))
+  );
+  const currentTab = activeTab ?? visibleTabs[0]?.id ?? null;
   
-  // Redirect if not guild master
+  // Redirect if the user's rank may not manage anything
   useEffect(() => {
-    if (!loading && !isGuildMaster) {
+    if (!loading && visibleTabs.length === 0) {
       navigate(`/guild/${guildId}`);
     }
-  }, [loading, isGuildMaster, navigate, guildId]);
+  }, [loading, visibleTabs.length, navigate, guildId]);
   
   if (loading) {
     return (
@@ -101,46 +129,78 @@ const GuildManagePage: React.FC = () => {
       
       <div className="mb-6">
         <div className="flex border-b">
-          <button
-            className={`px-4 py-2 mr-2 ${activeTab === 'general' ? 'border-b-2 border-blue-500 font-medium' : ''}`}
-            onClick={() => setActiveTab('general')}
-          >
-            General Settings
-          </button>
-          <button
-            className={`px-4 py-2 mr-2 ${activeTab === 'ranks' ? 'border-b-2 border-blue-500 font-medium' : ''}`}
-            onClick={() => setActiveTab('ranks')}
-          >
-            Rank Management
-          </button>
-          <button
-            className={`px-4 py-2 ${activeTab === 'roster' ? 'border-b-2 border-blue-500 font-medium' : ''}`}
-            onClick={() => setActiveTab('roster')}
-          >
-            Roster Management
-          </button>
+          {visibleTabs.map((tab, index) => (
+            <button
+              key={tab.id}
+              className={`px-4 py-2 ${index < visibleTabs.length - 1 ? 'mr-2' : ''} ${currentTab === tab.id ? 'border-b-2 border-blue-500 font-medium' : ''}`}
+              onClick={() => setActiveTab(tab.id)}
+            >
+              {tab.label}
+            </button>
+          ))}
         </div>
       </div>
       
-      {activeTab === 'general' && (
-        <div className="bg-white rounded-lg shadow-md p-6">
-          <h2 className="text-xl font-bold mb-4">General Settings</h2>
-          <p className="text-gray-600">Guild settings management options will appear here.</p>
+      {currentTab === 'general' && (
+        <div className="space-y-6">
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-bold mb-4">General Settings</h2>
+            <p className="text-gray-600">Guild settings management options will appear here.</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <GuildSyncStatusPanel guildId={parseInt(guildId || '0')} />
+          </div>
         </div>
       )}
       
-      {activeTab === 'ranks' && (
+      {currentTab === 'ranks' && (
         <div className="bg-white rounded-lg shadow-md p-6">
           <GuildRankManager guildId={parseInt(guildId || '0')} />
         </div>
       )}
       
-      {activeTab === 'roster' && (
+      {currentTab === 'permissions' && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <GuildPermissionsManager guildId={parseInt(guildId || '0')} />
+        </div>
+      )}
+
+      {currentTab === 'roster' && (
         <div className="bg-white rounded-lg shadow-md p-6">
           {/* Render GuildRosterManager component */}
           <GuildRosterManager guildId={guildId || ''} />
         </div>
       )}
+
+      {currentTab === 'gear' && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <GearAuditTable guildId={parseInt(guildId || '0')} />
+        </div>
+      )}
+
+      {currentTab === 'templates' && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <EventTemplatesManager guildId={parseInt(guildId || '0')} />
+        </div>
+      )}
+
+      {currentTab === 'absences' && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <GuildAbsencesWeek guildId={parseInt(guildId || '0')} />
+        </div>
+      )}
+
+      {currentTab === 'discord' && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <GuildDiscordSettingsPanel guildId={parseInt(guildId || '0')} />
+        </div>
+      )}
+
+      {currentTab === 'audit' && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <AuditLogViewer guildId={parseInt(guildId || '0')} />
+        </div>
+      )}
     </div>
   );
 };
@@ -6,6 +6,9 @@ import type { Guild } from '../../../shared/types/models/guild';
 import type { Event } from '../../../shared/types/models/event';
 import { EnhancedGuildMembersList } from '../components/EnhancedGuildMembersList';
 import EventCalendar from '../components/EventCalendar';
+import CalendarFeedLink from '../components/CalendarFeedLink';
+import MemberTimeline from '../components/MemberTimeline';
+import MythicPlusDashboard from '../components/MythicPlusDashboard';
 import LoadingSpinner from '../components/LoadingSpinner';
 import GuildGeneralInfo from '@/components/GuildGeneralInfo';
 import withAuth from '@/components/withAuth';
@@ -15,7 +18,7 @@ interface SlotInfo {
   end: Date;
 }
 
-type TabType = 'general' | 'calendar' | 'members';
+type TabType = 'general' | 'calendar' | 'members' | 'mythic-plus' | 'history';
 
 const GuildPage: React.FC = () => {
   const { guildId } = useParams<{ guildId: string }>();
@@ -24,6 +27,7 @@ const GuildPage: React.FC = () => {
   const [guild, setGuild] = useState<Guild | null>(null);
   const [loading, setLoading] = useState(true);
   const [isGuildMaster, setIsGuildMaster] = useState(false);
+  const [canManage, setCanManage] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>('general');
   const [error, setError] = useState<string | null>(null);
   // Add state for member activity
@@ -38,14 +42,19 @@ const GuildPage: React.FC = () => {
       try {
         if (!guildId) return;
         
-        // Fetch guild data
-        const guildResponse = await guildService.getGuildById(parseInt(guildId));
+        // Fetch guild data and what the user may manage in it
+        const [guildResponse, permissionsResponse] = await Promise.all([
+          guildService.getGuildById(parseInt(guildId)),
+          guildService.getGuildPermissions(parseInt(guildId)),
+        ]);
         
         if (guildResponse.success && guildResponse.data) {
           setGuild(guildResponse.data);
           
-          // Check if user is guild master of this guild
-          setIsGuildMaster(guildResponse.data.leader_id === user?.id);
+          // Officers whose rank grants a capability can manage parts of the guild too
+          const permissions = permissionsResponse.data;
+          setIsGuildMaster(permissions?.isGuildMaster ?? false);
+          setCanManage((permissions?.myCapabilities.length ?? 0) > 0);
           
         } else {
           setError(guildResponse.error?.message || 'Failed to load guild data');
@@ -152,9 +161,15 @@ const GuildPage: React.FC = () => {
           <div>
             <h1 className="text-3xl font-bold mb-2">{guild.name}</h1>
             <p className="text-gray-600">{guild.realm} ({guild.region.toUpperCase()})</p>
+            <button
+              className="text-sm text-blue-600 hover:text-blue-800 mt-1"
+              onClick={() => navigate(`/guild/${guildId}/professions`)}
+            >
+              Crafting Directory &rarr;
+            </button>
           </div>
           
-          {isGuildMaster && (
+          {canManage && (
             <button
               onClick={handleManageGuild}
               className="bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 flex items-center"
@@ -183,12 +198,24 @@ const GuildPage: React.FC = () => {
               Event Calendar
             </button>
             <button
-              className={`px-4 py-2 ${activeTab === 'members' ? 'border-b-2 border-blue-500 font-medium' : ''}`}
+              className={`px-4 py-2 mr-2 ${activeTab === 'members' ? 'border-b-2 border-blue-500 font-medium' : ''}`}
               onClick={() => setActiveTab('members')}
         
             >
               Guild Members
             </button>
+            <button
+              className={`px-4 py-2 mr-2 ${activeTab === 'mythic-plus' ? 'border-b-2 border-blue-500 font-medium' : ''}`}
+              onClick={() => setActiveTab('mythic-plus')}
+            >
+              Mythic+
+            </button>
+            <button
+              className={`px-4 py-2 ${activeTab === 'history' ? 'border-b-2 border-blue-500 font-medium' : ''}`}
+              onClick={() => setActiveTab('history')}
+            >
+              Member History
+            </button>
           </div>
         </div>
         
@@ -208,12 +235,15 @@ const GuildPage: React.FC = () => {
               onSelectEvent={handleEventSelect}
               onSelectSlot={handleSlotSelect}
             />
+            <div className="mt-4 bg-white p-4 rounded-lg shadow">
+              <CalendarFeedLink guildId={parseInt(guildId || '0')} />
+            </div>
           </div>
         )}
 
         {activeTab === 'general' && guild && (
           <div className="bg-white rounded-lg shadow p-6">
-            <GuildGeneralInfo guild={guild} />
+            <GuildGeneralInfo guild={guild} isGuildMaster={isGuildMaster} />
 
             {/* Member Activity Sections */}
             <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -266,6 +296,18 @@ const GuildPage: React.FC = () => {
             <EnhancedGuildMembersList guildId={parseInt(guildId || '0')} />
           </div>
         )}
+
+        {activeTab === 'mythic-plus' && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <MythicPlusDashboard guildId={parseInt(guildId || '0')} />
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <MemberTimeline guildId={parseInt(guildId || '0')} />
+          </div>
+        )}
       </div>
     </>
   );
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useApi } from '../hooks/useApi';
+import { guildService } from '../services/api/guild.service';
+import type {
+  GuildProfessionDirectory,
+  GuildProfessionQuery
+} from '../../../shared/types/api/profession';
+import LoadingSpinner from '../components/LoadingSpinner';
+import withAuth from '@/components/withAuth';
+
+/**
+ * Searchable directory of who in the guild has which profession tier and recipes.
+ */
+const GuildProfessionsPage: React.FC = () => {
+  const { guildId } = useParams<{ guildId: string }>();
+  const navigate = useNavigate();
+  const numericGuildId = parseInt(guildId || '0');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [professionId, setProfessionId] = useState<number | undefined>(undefined);
+  const [expansion, setExpansion] = useState('');
+
+  const query: GuildProfessionQuery = {
+    ...(search ? { search } : {}),
+    ...(professionId ? { professionId } : {}),
+    ...(expansion ? { expansion } : {}),
+  };
+  const { data, loading, error } = useApi<GuildProfessionDirectory, [number, GuildProfessionQuery]>({
+    apiFn: guildService.getGuildProfessions,
+    args: [numericGuildId, query],
+    deps: [numericGuildId, search, professionId, expansion],
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <button
+        className="text-blue-600 hover:text-blue-800"
+        onClick={() => navigate(`/guild/${guildId}`)}
+      >
+        &larr; Back to Guild
+      </button>
+
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Crafting Directory</h1>
+        <p className="text-gray-600">
+          Find who can craft what. Search by character, profession or recipe name.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <form onSubmit={handleSearch} className="flex gap-2 flex-grow">
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="e.g. Flask, Blacksmithing or a character name"
+              className="flex-grow rounded border border-gray-300 px-3 py-1 text-sm"
+              aria-label="Search the crafting directory"
+            />
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-1 rounded hover:bg-blue-700 text-sm"
+            >
+              Search
+            </button>
+          </form>
+          <select
+            value={professionId ?? ''}
+            onChange={(e) => setProfessionId(e.target.value ? parseInt(e.target.value, 10) : undefined)}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+            aria-label="Filter by profession"
+          >
+            <option value="">All professions</option>
+            {data?.professions.map((profession) => (
+              <option key={profession.professionId} value={profession.professionId}>
+                {profession.professionName}
+              </option>
+            ))}
+          </select>
+          <select
+            value={expansion}
+            onChange={(e) => setExpansion(e.target.value)}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+            aria-label="Filter by expansion"
+          >
+            <option value="">All expansions</option>
+            {data?.expansions.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading && !data && <LoadingSpinner />}
+
+        {error && (
+          <div className="text-red-500 p-4 rounded-md bg-red-50 border border-red-200">
+            Error loading the crafting directory: {error.message}
+          </div>
+        )}
+
+        {data && (data.entries.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Character</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Profession</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Tier</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Skill</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Recipes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {data.entries.map((entry) => (
+                <tr key={`${entry.characterId}-${entry.tierId}`} className="align-top">
+                  <td className="px-4 py-2">
+                    <div className="font-medium">{entry.characterName}</div>
+                    <div className="text-xs text-gray-500">{entry.characterClass} · {entry.realm}</div>
+                  </td>
+                  <td className="px-4 py-2">{entry.professionName}</td>
+                  <td className="px-4 py-2">{entry.expansion}</td>
+                  <td className={`px-4 py-2 ${entry.skillPoints >= entry.maxSkillPoints ? 'text-green-600 font-semibold' : ''}`}>
+                    {entry.skillPoints}/{entry.maxSkillPoints}
+                  </td>
+                  <td className="px-4 py-2">
+                    {entry.matchingRecipes.length > 0 ? (
+                      <ul className="text-xs text-gray-700 space-y-0.5">
+                        {entry.matchingRecipes.map((recipe) => <li key={recipe}>{recipe}</li>)}
+                      </ul>
+                    ) : (
+                      <span className="text-gray-500">{entry.knownRecipeCount} known</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-gray-500">
+            {search || professionId || expansion
+              ? 'Nobody matches these filters.'
+              : 'No professions synced yet.'}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default withAuth(GuildProfessionsPage);
@@ -1,5 +1,11 @@
 import { RefreshResponse } from '../../../../shared/types/auth';
 import { User, UserRole } from '../../../../shared/types/user';
+import type { ReminderPreferences } from '../../../../shared/types/api/discord';
+import type {
+  CreateAbsenceRequest,
+  CreateAbsenceResult,
+  MemberAbsence
+} from '../../../../shared/types/api/absence';
 import { apiRequest } from './core';
 
 interface LoginResponse {
@@ -84,5 +90,61 @@ export const authService = {
     apiRequest<VerifyDiscordLinkResponse>({
       method: 'GET',
       url: `/auth/discord-link?token=${encodeURIComponent(token)}`
+    }),
+
+  /**
+   * Unlink the Discord account from the current user
+   */
+  unlinkDiscord: () =>
+    apiRequest<VerifyDiscordLinkResponse>({
+      method: 'DELETE',
+      url: '/auth/discord-link'
+    }),
+
+  /**
+   * Get the reminder DM opt-outs of the current user
+   */
+  getReminderPreferences: () =>
+    apiRequest<ReminderPreferences>({
+      method: 'GET',
+      url: '/auth/reminder-preferences'
+    }),
+
+  /**
+   * Update the reminder DM opt-outs of the current user
+   */
+  updateReminderPreferences: (preferences: ReminderPreferences) =>
+    apiRequest<ReminderPreferences>({
+      method: 'PUT',
+      url: '/auth/reminder-preferences',
+      data: preferences
+    }),
+
+  /**
+   * Get the absences of the current user that are not over yet
+   */
+  getAbsences: () =>
+    apiRequest<MemberAbsence[]>({
+      method: 'GET',
+      url: '/auth/absences'
+    }),
+
+  /**
+   * Record a date range the current user is away; sign-ups during it are declined
+   */
+  createAbsence: (absence: CreateAbsenceRequest) =>
+    apiRequest<CreateAbsenceResult>({
+      method: 'POST',
+      url: '/auth/absences',
+      data: absence
+    }),
+
+  /**
+   * Remove an absence of the current user
+   */
+  deleteAbsence: (absenceId: number) =>
+    apiRequest<{ message: string }>({
+      method: 'DELETE',
+      url: `/auth/absences/${absenceId}`
     })
 };
\ No newline at end of file
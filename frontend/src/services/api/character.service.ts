@@ -1,4 +1,8 @@
 import { Character } from '@shared/types';
+import type {
+  CharacterHistory,
+  CharacterHistoryQuery
+} from '../../../../shared/types/api/character-history';
 import { apiRequest } from './core';
 
 export const characterService = {
@@ -10,7 +14,17 @@ export const characterService = {
       method: 'GET',
       url: '/characters'
     });
-  }
+  },
+
+  /**
+   * Get the daily progression snapshots of a character, oldest first
+   */
+  getCharacterHistory: (characterId: number, query: CharacterHistoryQuery = {}) =>
+    apiRequest<CharacterHistory>({
+      method: 'GET',
+      url: `/characters/${characterId}/history`,
+      params: query
+    })
 };
 
 export default characterService;
\ No newline at end of file
@@ -1,4 +1,8 @@
-import { Event, EventSubscription } from '../../../../shared/types/index';
+import { Event, EventEditScope, EventSubscription } from '../../../../shared/types/index';
+import type { CalendarFeed, CreatedCalendarFeed } from '../../../../shared/types/api/calendar';
+import type { EventComposition } from '../../../../shared/types/api/composition';
+import type { EventLineup, LineupAssignment } from '../../../../shared/types/api/lineup';
+import type { EventAttendance, RecordAttendanceRequest } from '../../../../shared/types/api/attendance';
 import { apiRequest } from './core';
 
 export const eventService = {
@@ -37,11 +41,12 @@ export const eventService = {
    * Update an existing event
    * @param eventId The event ID
    * @param eventData The updated event data
+   * @param scope For occurrences of a recurring series: this one, this and following, or all
    */
-  updateEvent: (eventId: number, eventData: Partial<Event>) =>
+  updateEvent: (eventId: number, eventData: Partial<Event>, scope?: EventEditScope) =>
     apiRequest<Event>({
       method: 'PUT',
-      url: `/events/${eventId}`,
+      url: `/events/${eventId}${scope ? `?scope=${scope}` : ''}`,
       data: eventData
     }),
 
@@ -65,6 +70,70 @@ export const eventService = {
       url: `/events/${eventId}/subscribers`
     }),
 
+  /**
+   * Get filled/required slots per role and the waitlist of an event
+   * @param eventId The event ID
+   */
+  getEventComposition: (eventId: number) =>
+    apiRequest<EventComposition>({
+      method: 'GET',
+      url: `/events/${eventId}/composition`
+    }),
+
+  /**
+   * Get the lineup editor data of an event (manage_events permission)
+   * @param eventId The event ID
+   */
+  getEventLineup: (eventId: number) =>
+    apiRequest<EventLineup>({
+      method: 'GET',
+      url: `/events/${eventId}/lineup`
+    }),
+
+  /**
+   * Save draft lineup picks; participants only see them once published
+   * @param eventId The event ID
+   * @param assignments Picks of the sign-ups that changed
+   */
+  saveEventLineup: (eventId: number, assignments: LineupAssignment[]) =>
+    apiRequest<EventLineup>({
+      method: 'PUT',
+      url: `/events/${eventId}/lineup`,
+      data: { assignments }
+    }),
+
+  /**
+   * Publish the lineup and announce it in the event's Discord thread
+   * @param eventId The event ID
+   */
+  publishEventLineup: (eventId: number) =>
+    apiRequest<EventLineup>({
+      method: 'POST',
+      url: `/events/${eventId}/lineup/publish`
+    }),
+
+  /**
+   * Get the attendance sheet of an event (manage_attendance permission)
+   * @param eventId The event ID
+   */
+  getEventAttendance: (eventId: number) =>
+    apiRequest<EventAttendance>({
+      method: 'GET',
+      url: `/events/${eventId}/attendance`
+    }),
+
+  /**
+   * Record attendance of an event that has started
+   * @param eventId The event ID
+   * @param records Status per character
+   */
+  recordEventAttendance: (eventId: number, records: RecordAttendanceRequest['records']) =>
+    apiRequest<EventAttendance>({
+      method: 'PUT',
+      url: `/events/${eventId}/attendance`,
+      data: { records }
+    }),
+
   /**
    * Subscribe to an event
    * @param eventId The event ID
@@ -97,5 +166,35 @@ export const eventService = {
     apiRequest<{ message: string }>({
       method: 'DELETE',
       url: `/events/${eventId}/subscribe`
+    }),
+
+  /**
+   * Get the calendar feeds of the current user
+   */
+  getCalendarFeeds: () =>
+    apiRequest<CalendarFeed[]>({
+      method: 'GET',
+      url: '/events/calendar-feeds'
+    }),
+
+  /**
+   * Create a calendar feed URL, replacing the previous one for the same feed
+   * @param guildId The guild ID, or null for the events the user signed up for
+   */
+  createCalendarFeed: (guildId: number | null) =>
+    apiRequest<CreatedCalendarFeed>({
+      method: 'POST',
+      url: '/events/calendar-feeds',
+      data: { guildId }
+    }),
+
+  /**
+   * Revoke a calendar feed URL
+   * @param feedId The feed ID
+   */
+  revokeCalendarFeed: (feedId: number) =>
+    apiRequest<{ message: string }>({
+      method: 'DELETE',
+      url: `/events/calendar-feeds/${feedId}`
     })
 };
\ No newline at end of file
@@ -7,6 +7,33 @@ import {
   ClassifiedMember, // Added for classified roster
   GuildMemberActivity // Added for member activity
 } from '../../../../shared/types/models/guild';
+import type { GuildSyncRequestResult, GuildSyncStatus } from '../../../../shared/types/api/sync';
+import type {
+  GuildDiscordSettings,
+  UpdateGuildDiscordSettingsRequest
+} from '../../../../shared/types/api/discord';
+import type { GuildAttendanceReport } from '../../../../shared/types/api/attendance';
+import type { EventTemplate, SaveEventTemplateRequest } from '../../../../shared/types/api/template';
+import type { GuildWeekAbsences } from '../../../../shared/types/api/absence';
+import type {
+  GuildPermissions,
+  UpdateGuildPermissionsRequest
+} from '../../../../shared/types/api/permission';
+import type { AuditLogPage, AuditLogQuery } from '../../../../shared/types/api/audit';
+import type {
+  GuildMemberEventPage,
+  GuildMemberEventQuery
+} from '../../../../shared/types/api/member-event';
+import type { GuildRaidProgression } from '../../../../shared/types/api/raid';
+import type { GuildGearAudit } from '../../../../shared/types/api/gear';
+import type {
+  GuildMythicPlusLeaderboard,
+  GuildMythicPlusVault
+} from '../../../../shared/types/api/mythic-plus';
+import type {
+  GuildProfessionDirectory,
+  GuildProfessionQuery
+} from '../../../../shared/types/api/profession';
 export const guildService = {
   /**
    * Get guild by ID
@@ -98,4 +125,204 @@ export const guildService = {
       method: 'GET',
       url: `/guilds/${guildId}/member-activity`
     }),
-};
\ No newline at end of file
+
+  /**
+   * Get recent sync runs and queued character syncs for a guild
+   */
+  getGuildSyncStatus: (guildId: number) =>
+    apiRequest<GuildSyncStatus>({
+      method: 'GET',
+      url: `/guilds/${guildId}/sync-status`
+    }),
+
+  /**
+   * Start an on-demand sync of the guild (guild master only)
+   */
+  requestGuildSync: (guildId: number) =>
+    apiRequest<GuildSyncRequestResult>({
+      method: 'POST',
+      url: `/guilds/${guildId}/sync`
+    }),
+
+  /**
+   * Get the capabilities per rank of a guild and what the current user may manage
+   */
+  getGuildPermissions: (guildId: number) =>
+    apiRequest<GuildPermissions>({
+      method: 'GET',
+      url: `/guilds/${guildId}/permissions`
+    }),
+
+  /**
+   * Replace the capabilities per rank of a guild (guild master only)
+   */
+  updateGuildPermissions: (guildId: number, request: UpdateGuildPermissionsRequest) =>
+    apiRequest<GuildPermissions>({
+      method: 'PUT',
+      url: `/guilds/${guildId}/permissions`,
+      data: request
+    }),
+
+  /**
+   * Get a page of the guild's audit log, newest first (guild master only)
+   */
+  getGuildAuditLog: (guildId: number, query: AuditLogQuery = {}) =>
+    apiRequest<AuditLogPage>({
+      method: 'GET',
+      url: `/guilds/${guildId}/audit-log`,
+      params: query
+    }),
+
+  /**
+   * Get the raid progress of the guild's mains in the current expansion
+   */
+  getGuildRaidProgression: (guildId: number) =>
+    apiRequest<GuildRaidProgression>({
+      method: 'GET',
+      url: `/guilds/${guildId}/raid-progression`
+    }),
+
+  /**
+   * Get the gear audit of the guild's members, optionally for one roster
+   */
+  getGuildGearAudit: (guildId: number, rosterId?: number) =>
+    apiRequest<GuildGearAudit>({
+      method: 'GET',
+      url: `/guilds/${guildId}/gear-audit`,
+      params: rosterId ? { rosterId } : undefined
+    }),
+
+  /**
+   * Get the Mythic+ leaderboard of the guild's members, highest rating first
+   */
+  getGuildMythicPlusLeaderboard: (guildId: number) =>
+    apiRequest<GuildMythicPlusLeaderboard>({
+      method: 'GET',
+      url: `/guilds/${guildId}/mythic-plus`
+    }),
+
+  /**
+   * Get which mains have done a vault-level key since the weekly reset
+   */
+  getGuildMythicPlusVault: (guildId: number) =>
+    apiRequest<GuildMythicPlusVault>({
+      method: 'GET',
+      url: `/guilds/${guildId}/mythic-plus/vault`
+    }),
+
+  /**
+   * Search the guild crafting directory by character, profession or recipe name
+   */
+  getGuildProfessions: (guildId: number, query: GuildProfessionQuery = {}) =>
+    apiRequest<GuildProfessionDirectory>({
+      method: 'GET',
+      url: `/guilds/${guildId}/professions`,
+      params: query
+    }),
+
+  /**
+   * Get a page of the guild's member history, newest first
+   */
+  getGuildMemberEvents: (guildId: number, query: GuildMemberEventQuery = {}) =>
+    apiRequest<GuildMemberEventPage>({
+      method: 'GET',
+      url: `/guilds/${guildId}/member-events`,
+      params: query
+    }),
+
+  /**
+   * Get a page of one character's history within the guild, newest first
+   */
+  getCharacterMemberEvents: (guildId: number, characterId: number, query: GuildMemberEventQuery = {}) =>
+    apiRequest<GuildMemberEventPage>({
+      method: 'GET',
+      url: `/guilds/${guildId}/member-events/${characterId}`,
+      params: query
+    }),
+
+  /**
+   * Get the Discord configuration of a guild (guild master only)
+   */
+  getGuildDiscordSettings: (guildId: number) =>
+    apiRequest<GuildDiscordSettings>({
+      method: 'GET',
+      url: `/guilds/${guildId}/discord-settings`
+    }),
+
+  /**
+   * Save the Discord configuration of a guild (guild master only)
+   */
+  updateGuildDiscordSettings: (guildId: number, settings: UpdateGuildDiscordSettingsRequest) =>
+    apiRequest<GuildDiscordSettings>({
+      method: 'PUT',
+      url: `/guilds/${guildId}/discord-settings`,
+      data: settings
+    }),
+
+  /**
+   * Remove the Discord configuration of a guild, reverting to defaults (guild master only)
+   */
+  deleteGuildDiscordSettings: (guildId: number) =>
+    apiRequest<{ message: string }>({
+      method: 'DELETE',
+      url: `/guilds/${guildId}/discord-settings`
+    }),
+
+  /**
+   * Get attendance percentage per character and per main over the last weeks
+   * @param weeks Window size: 4, 8 or 12 weeks
+   */
+  getGuildAttendance: (guildId: number, weeks: number) =>
+    apiRequest<GuildAttendanceReport>({
+      method: 'GET',
+      url: `/guilds/${guildId}/attendance?weeks=${weeks}`
+    }),
+
+  /**
+   * Get the members who are away during the week of a day (manage_attendance permission)
+   * @param week Any day of the week, YYYY-MM-DD; defaults to the current week
+   */
+  getGuildAbsences: (guildId: number, week?: string) =>
+    apiRequest<GuildWeekAbsences>({
+      method: 'GET',
+      url: `/guilds/${guildId}/absences${week ? `?week=${week}` : ''}`
+    }),
+
+  /**
+   * Get the event templates of a guild, defaults first
+   */
+  getEventTemplates: (guildId: number) =>
+    apiRequest<EventTemplate[]>({
+      method: 'GET',
+      url: `/guilds/${guildId}/event-templates`
+    }),
+
+  /**
+   * Create an event template (manage_events permission)
+   */
+  createEventTemplate: (guildId: number, template: SaveEventTemplateRequest) =>
+    apiRequest<EventTemplate>({
+      method: 'POST',
+      url: `/guilds/${guildId}/event-templates`,
+      data: template
+    }),
+
+  /**
+   * Replace an event template (manage_events permission)
+   */
+  updateEventTemplate: (guildId: number, templateId: number, template: SaveEventTemplateRequest) =>
+    apiRequest<EventTemplate>({
+      method: 'PUT',
+      url: `/guilds/${guildId}/event-templates/${templateId}`,
+      data: template
+    }),
+
+  /**
+   * Delete an event template (manage_events permission)
+   */
+  deleteEventTemplate: (guildId: number, templateId: number) =>
+    apiRequest<{ message: string }>({
+      method: 'DELETE',
+      url: `/guilds/${guildId}/event-templates/${templateId}`
+    }),
+};
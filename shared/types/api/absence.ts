@@ -0,0 +1,49 @@
+/**
+ * API types for member absences
+ */
+
+/**
+ * A date range a player is away, across every guild they are in
+ */
+export interface MemberAbsence {
+  id: number;
+  userId: number;
+  startDate: string;                 // YYYY-MM-DD, first day away
+  endDate: string;                   // YYYY-MM-DD, last day away
+  reason: string | null;
+}
+
+/**
+ * Body of POST /api/auth/absences
+ */
+export interface CreateAbsenceRequest {
+  startDate: string;
+  endDate: string;
+  reason?: string | null;
+}
+
+/**
+ * Returned by POST /api/auth/absences
+ */
+export interface CreateAbsenceResult {
+  absence: MemberAbsence;
+  declinedEventIds: number[];        // Upcoming sign-ups switched to Declined
+}
+
+/**
+ * An absence in a guild's weekly view, with the player's characters in that guild
+ */
+export interface GuildMemberAbsence extends MemberAbsence {
+  battletag: string;
+  characterNames: string[];
+}
+
+/**
+ * Returned by GET /api/guilds/:guildId/absences?week=YYYY-MM-DD
+ */
+export interface GuildWeekAbsences {
+  guildId: number;
+  weekStart: string;                 // YYYY-MM-DD, Monday
+  weekEnd: string;                   // YYYY-MM-DD, Sunday
+  absences: GuildMemberAbsence[];
+}
@@ -0,0 +1,75 @@
+/**
+ * API types for event attendance tracking
+ */
+
+export type AttendanceStatus = 'present' | 'late' | 'absent' | 'excused' | 'benched';
+
+/**
+ * A character on an event's attendance sheet: its confirmed sign-up and/or its record
+ */
+export interface EventAttendanceEntry {
+  characterId: number;
+  characterName: string;
+  characterClass: string;
+  characterRole: string | null;
+  userId: number | null;
+  status: AttendanceStatus | null;   // null = not recorded yet
+  note: string | null;
+  onAbsence: boolean;                // The player marked the event's day as away
+}
+
+/**
+ * Attendance sheet of an event, returned by GET /api/events/:eventId/attendance
+ */
+export interface EventAttendance {
+  eventId: number;
+  canRecord: boolean;                // false until the event has started
+  entries: EventAttendanceEntry[];
+}
+
+/**
+ * Body of PUT /api/events/:eventId/attendance
+ */
+export interface RecordAttendanceRequest {
+  records: {
+    characterId: number;
+    status: AttendanceStatus;
+    note?: string | null;
+  }[];
+}
+
+/**
+ * Attendance counts over a window. Excused events are left out of the percentage;
+ * benched players count as attending since they were available.
+ */
+export interface AttendanceSummary {
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  benched: number;
+  percentage: number | null;         // 0-100, null when there is nothing to count
+}
+
+export interface CharacterAttendance extends AttendanceSummary {
+  characterId: number;
+}
+
+/**
+ * A main and its alts counted as one player; each event is counted once
+ */
+export interface MainAttendance extends AttendanceSummary {
+  mainCharacterId: number;
+  characterIds: number[];
+}
+
+/**
+ * Returned by GET /api/guilds/:guildId/attendance?weeks=4|8|12
+ */
+export interface GuildAttendanceReport {
+  guildId: number;
+  weeks: number;
+  since: string;                     // ISO 8601 start of the window
+  characters: CharacterAttendance[];
+  mains: MainAttendance[];
+}
@@ -0,0 +1,68 @@
+/**
+ * API types for the guild audit log
+ */
+
+/**
+ * Officer actions that are recorded
+ */
+export type AuditAction =
+  | 'rank.rename'
+  | 'permissions.update'
+  | 'roster.create'
+  | 'roster.update'
+  | 'roster.delete'
+  | 'roster.members_add'
+  | 'roster.member_update'
+  | 'roster.member_remove'
+  | 'event.update'
+  | 'event.delete'
+  | 'rsvp.update_on_behalf'
+  | 'user.role_change';
+
+export type AuditTargetType =
+  | 'rank'
+  | 'guild'
+  | 'roster'
+  | 'roster_member'
+  | 'event'
+  | 'event_subscription'
+  | 'user';
+
+/**
+ * One entry of GET /api/guilds/:guildId/audit-log
+ */
+export interface AuditLogEntry {
+  id: number;
+  guildId: number | null;
+  actorId: number | null;
+  actorBattletag: string | null;     // Null once the account is gone
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string | null;
+  targetLabel: string | null;
+  before: Record<string, unknown> | null; // Changed fields only; null when created
+  after: Record<string, unknown> | null;  // Changed fields only; null when deleted
+  createdAt: string;
+}
+
+/**
+ * Returned by GET /api/guilds/:guildId/audit-log, newest first
+ */
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/**
+ * Query of GET /api/guilds/:guildId/audit-log
+ */
+export interface AuditLogQuery {
+  page?: number;
+  limit?: number;
+  action?: AuditAction;
+  actorId?: number;
+  targetType?: AuditTargetType;
+}
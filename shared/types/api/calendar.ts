@@ -0,0 +1,29 @@
+/**
+ * API types for iCalendar (ICS) feeds
+ */
+
+/**
+ * A calendar feed of the current user, returned by GET /api/events/calendar-feeds.
+ * The secret URL is only shown when the feed is created.
+ */
+export interface CalendarFeed {
+  id: number;
+  guildId: number | null;            // null = events the user signed up for
+  createdAt: string;                 // ISO 8601
+  lastUsedAt: string | null;         // Last time a calendar app fetched it
+}
+
+/**
+ * A newly created feed, returned once by POST /api/events/calendar-feeds
+ */
+export interface CreatedCalendarFeed extends CalendarFeed {
+  url: string;                       // Subscription URL including the secret token
+}
+
+/**
+ * Body of POST /api/events/calendar-feeds. Creating a feed revokes the
+ * previous one for the same guild (or the previous personal feed).
+ */
+export interface CreateCalendarFeedRequest {
+  guildId: number | null;
+}
@@ -0,0 +1,31 @@
+/**
+ * API types for character progression history
+ */
+
+/**
+ * Key metrics of a character on one day
+ */
+export interface CharacterSnapshot {
+  date: string; // YYYY-MM-DD (UTC)
+  level: number | null;
+  equippedItemLevel: number | null;
+  averageItemLevel: number | null;
+  mythicRating: number | null;
+  achievementPoints: number | null;
+}
+
+/**
+ * Query of GET /api/characters/:characterId/history
+ */
+export interface CharacterHistoryQuery {
+  days?: number; // How far back to go, 90 by default
+}
+
+/**
+ * Returned by GET /api/characters/:characterId/history, oldest first.
+ * Snapshots older than 90 days are weekly.
+ */
+export interface CharacterHistory {
+  characterId: number;
+  snapshots: CharacterSnapshot[];
+}
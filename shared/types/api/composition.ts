@@ -0,0 +1,41 @@
+/**
+ * API types for role-composition-aware event sign-ups
+ */
+
+export type CompositionRole = 'tanks' | 'healers' | 'dps';
+
+/**
+ * Seats taken in one role of an event's composition
+ */
+export interface CompositionSlot {
+  role: CompositionRole;
+  required: number | null;           // null = no limit for this role
+  filled: number;
+}
+
+/**
+ * A Confirmed sign-up waiting for a free slot, in arrival order
+ */
+export interface WaitlistEntry {
+  position: number;                  // 1-based
+  subscriptionId: number;
+  userId: number;
+  battletag: string;
+  characterId: number;
+  characterName: string;
+  characterClass: string;
+  characterRole: string | null;
+  waitlistedAt: string;              // ISO 8601
+}
+
+/**
+ * Composition board of an event, returned by GET /api/events/:eventId/composition
+ */
+export interface EventComposition {
+  eventId: number;
+  maxParticipants: number | null;    // null = no overall cap
+  confirmed: number;                 // Seated Confirmed sign-ups
+  slots: CompositionSlot[];
+  waitlist: WaitlistEntry[];
+}
+
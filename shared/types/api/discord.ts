@@ -0,0 +1,37 @@
+/**
+ * API types for per-guild Discord configuration
+ */
+
+import type { ThreadAutoArchiveMinutes } from '../db/models/discord';
+
+/**
+ * Discord configuration of a guild, returned by GET /api/guilds/:guildId/discord-settings.
+ * Guilds without saved settings get the defaults with isConfigured false.
+ */
+export interface GuildDiscordSettings {
+  guildId: number;
+  isConfigured: boolean;
+  discordGuildId: string | null;             // Discord server ID
+  eventChannelId: string | null;             // Channel event threads are created in
+  reminderLeadTimesMinutes: number[];        // Sorted descending, e.g. [1440, 60]
+  threadAutoArchiveMinutes: ThreadAutoArchiveMinutes;
+  updatedAt: string | null;                  // ISO 8601
+}
+
+/**
+ * Body of PUT /api/guilds/:guildId/discord-settings
+ */
+export interface UpdateGuildDiscordSettingsRequest {
+  discordGuildId: string | null;
+  eventChannelId: string | null;
+  reminderLeadTimesMinutes: number[];
+  threadAutoArchiveMinutes: ThreadAutoArchiveMinutes;
+}
+
+/**
+ * Reminder opt-outs of the current user, used by GET/PUT /api/auth/reminder-preferences
+ */
+export interface ReminderPreferences {
+  signupReminders: boolean;          // DMs about events you have not signed up for
+  startingSoon: boolean;             // Ping shortly before events you confirmed
+}
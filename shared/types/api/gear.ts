@@ -0,0 +1,40 @@
+/**
+ * API types for the gear audit
+ */
+
+/**
+ * An equipped item well below the character's average item level
+ */
+export interface LowItemLevelItem {
+  slot: string;
+  itemName: string | null;
+  itemLevel: number;
+}
+
+/**
+ * Gear problems of one character, from its last synced equipment
+ */
+export interface CharacterGearAudit {
+  characterId: number;
+  characterName: string;
+  characterClass: string;
+  realm: string;
+  rank: number;
+  hasEquipment: boolean;            // False until the character has been synced
+  averageItemLevel: number | null;
+  missingEnchants: string[];        // Slot types, e.g. "BACK", "FINGER_1"
+  emptySockets: string[];           // Slot type per empty socket
+  lowItemLevelItems: LowItemLevelItem[];
+  tierPieces: number;
+  tierSetName: string | null;
+  issueCount: number;               // Missing enchants + empty sockets + low item level items
+}
+
+/**
+ * Returned by GET /api/guilds/:guildId/gear-audit, most issues first
+ */
+export interface GuildGearAudit {
+  guildId: number;
+  rosterId: number | null;
+  characters: CharacterGearAudit[];
+}
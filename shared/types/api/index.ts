@@ -5,6 +5,22 @@ export * from './requests';
 export * from './pagination';
 export * from './http';
 export * from './roster';
+export * from './sync';
+export * from './discord';
+export * from './calendar';
+export * from './composition';
+export * from './lineup';
+export * from './attendance';
+export * from './template';
+export * from './absence';
+export * from './permission';
+export * from './audit';
+export * from './member-event';
+export * from './raid';
+export * from './gear';
+export * from './mythic-plus';
+export * from './profession';
+export * from './character-history';
 
 // Re-export individual types for convenience
 export type { IdParam, SlugParam, FilterParams, RequestContext } from './requests';
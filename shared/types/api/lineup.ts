@@ -0,0 +1,51 @@
+/**
+ * API types for officer-managed event lineups
+ */
+
+import type { EventSubscriptionStatus } from '../event';
+
+export type LineupSelection = 'In' | 'Bench' | 'Standby';
+
+/**
+ * A sign-up in the lineup editor, with the officer's pick next to the player's RSVP
+ */
+export interface LineupMember {
+  subscriptionId: number;
+  userId: number;
+  battletag: string;
+  characterId: number;
+  characterName: string;
+  characterClass: string;
+  characterRole: string | null;
+  status: EventSubscriptionStatus;   // The player's own RSVP
+  waitlisted: boolean;
+  selection: LineupSelection | null; // null = not picked yet
+  groupNumber: number | null;        // 1-8, only for "In"
+}
+
+/**
+ * Lineup of an event, returned by GET /api/events/:eventId/lineup
+ */
+export interface EventLineup {
+  eventId: number;
+  publishedAt: string | null;        // ISO 8601, null = never published
+  publishedBy: number | null;
+  hasUnpublishedChanges: boolean;
+  members: LineupMember[];
+}
+
+/**
+ * One officer pick in PUT /api/events/:eventId/lineup
+ */
+export interface LineupAssignment {
+  subscriptionId: number;
+  selection: LineupSelection | null;
+  groupNumber: number | null;
+}
+
+/**
+ * Body of PUT /api/events/:eventId/lineup. Sign-ups left out keep their pick.
+ */
+export interface SaveLineupRequest {
+  assignments: LineupAssignment[];
+}
@@ -0,0 +1,49 @@
+/**
+ * API types for the guild member history
+ */
+
+/**
+ * Roster changes recorded by the guild member sync
+ */
+export type GuildMemberEventType =
+  | 'joined'
+  | 'left'
+  | 'rejoined'
+  | 'rank_changed'
+  | 'renamed'
+  | 'level_milestone';
+
+/**
+ * One entry of a guild or character member timeline
+ */
+export interface GuildMemberEvent {
+  id: number;
+  guildId: number;
+  characterId: number | null;
+  characterName: string;
+  realm: string | null;
+  eventType: GuildMemberEventType;
+  oldValue: string | null; // Rank ID, name or level before the change
+  newValue: string | null; // Rank ID, name or level after the change
+  occurredAt: string;
+}
+
+/**
+ * Returned by the member timeline endpoints, newest first
+ */
+export interface GuildMemberEventPage {
+  events: GuildMemberEvent[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/**
+ * Query of the member timeline endpoints
+ */
+export interface GuildMemberEventQuery {
+  page?: number;
+  limit?: number;
+  eventType?: GuildMemberEventType;
+}
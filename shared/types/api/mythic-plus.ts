@@ -0,0 +1,49 @@
+/**
+ * API types for the Mythic+ dashboard
+ */
+
+/**
+ * Highest key a character timed in one dungeon
+ */
+export interface MythicPlusDungeonBest {
+  dungeonId: number;
+  dungeonName: string;
+  keystoneLevel: number;
+  completedAt: string; // ISO 8601
+}
+
+/**
+ * Mythic+ summary of one character, from its last synced keystone profile
+ */
+export interface CharacterMythicPlus {
+  characterId: number;
+  characterName: string;
+  characterClass: string;
+  realm: string;
+  isMain: boolean;
+  rating: number;                    // 0 without a rating this season
+  bestTimedRuns: MythicPlusDungeonBest[];          // One per dungeon this season, highest key first
+  bestTimedRunsThisReset: MythicPlusDungeonBest[]; // One per dungeon since the weekly reset, highest key first
+  dungeonsThisReset: number;         // Dungeons completed since the weekly reset; repeat runs are not counted
+  highestKeyThisReset: number | null; // Timed or not, as the Great Vault counts it
+}
+
+/**
+ * Returned by GET /api/guilds/:guildId/mythic-plus, highest rating first
+ */
+export interface GuildMythicPlusLeaderboard {
+  guildId: number;
+  weeklyResetAt: string; // Start of the current reset in the guild's region, ISO 8601
+  characters: CharacterMythicPlus[]; // Only characters with a rating or a timed key this season
+}
+
+/**
+ * Returned by GET /api/guilds/:guildId/mythic-plus/vault
+ */
+export interface GuildMythicPlusVault {
+  guildId: number;
+  weeklyResetAt: string;
+  vaultKeyLevel: number;             // Key level that unlocks the best vault reward
+  ready: CharacterMythicPlus[];      // Mains with a high enough key this reset
+  missing: CharacterMythicPlus[];    // Mains without one, highest rating first
+}
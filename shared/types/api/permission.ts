@@ -0,0 +1,36 @@
+/**
+ * API types for per-guild rank permissions
+ */
+
+import type { GuildCapability } from '../enums/guild';
+
+/**
+ * The capabilities granted to one Battle.net rank of a guild
+ */
+export interface RankPermissions {
+  rankId: number;
+  rankName: string;
+  isGuildMaster: boolean;            // Rank 0 always has every capability
+  capabilities: GuildCapability[];
+}
+
+/**
+ * Returned by GET /api/guilds/:guildId/permissions
+ */
+export interface GuildPermissions {
+  guildId: number;
+  ranks: RankPermissions[];
+  myCapabilities: GuildCapability[]; // What the current user may manage in this guild
+  isGuildMaster: boolean;            // Whether the current user may edit the mapping
+}
+
+/**
+ * Body of PUT /api/guilds/:guildId/permissions.
+ * Ranks that are left out lose all their capabilities.
+ */
+export interface UpdateGuildPermissionsRequest {
+  ranks: {
+    rankId: number;
+    capabilities: GuildCapability[];
+  }[];
+}
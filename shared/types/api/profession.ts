@@ -0,0 +1,49 @@
+/**
+ * API types for the guild crafting directory
+ */
+
+/**
+ * A profession known by at least one member, for the directory filters
+ */
+export interface ProfessionOption {
+  professionId: number;
+  professionName: string;
+}
+
+/**
+ * One profession tier of one guild member
+ */
+export interface CharacterProfessionEntry {
+  characterId: number;
+  characterName: string;
+  characterClass: string;
+  realm: string;
+  professionId: number;
+  professionName: string;
+  tierId: number;
+  tierName: string;            // e.g. "Khaz Algar Blacksmithing"
+  expansion: string;           // e.g. "Khaz Algar", or "Classic"
+  skillPoints: number;
+  maxSkillPoints: number;
+  knownRecipeCount: number;
+  matchingRecipes: string[];   // Known recipes matching the search; empty without one
+}
+
+/**
+ * Query of GET /api/guilds/:guildId/professions
+ */
+export interface GuildProfessionQuery {
+  search?: string;       // Matches character, profession and recipe names
+  professionId?: number;
+  expansion?: string;
+}
+
+/**
+ * Returned by GET /api/guilds/:guildId/professions
+ */
+export interface GuildProfessionDirectory {
+  guildId: number;
+  professions: ProfessionOption[]; // Every profession in the guild, ignoring the filters
+  expansions: string[];            // Every expansion tier in the guild, ignoring the filters
+  entries: CharacterProfessionEntry[]; // By profession, then highest skill first
+}
@@ -0,0 +1,39 @@
+/**
+ * API types for raid progression
+ */
+
+/**
+ * Raid difficulties as reported by Battle.net, easiest first
+ */
+export type RaidDifficulty = 'LFR' | 'NORMAL' | 'HEROIC' | 'MYTHIC';
+
+/**
+ * Progress of the guild's mains on one difficulty of a raid
+ */
+export interface RaidDifficultyProgress {
+  difficulty: RaidDifficulty;
+  bossesKilled: number; // Bosses killed by at least one main
+  totalBosses: number;
+  summary: string;      // e.g. "8/8 H"
+}
+
+/**
+ * Progress of the guild's mains in one raid
+ */
+export interface RaidInstanceProgress {
+  instanceId: number;
+  instanceName: string;
+  difficulties: RaidDifficultyProgress[]; // Easiest first; difficulties nobody killed a boss on are left out
+}
+
+/**
+ * Returned by GET /api/guilds/:guildId/raid-progression
+ */
+export interface GuildRaidProgression {
+  guildId: number;
+  expansionId: number | null;
+  expansionName: string | null;
+  mainsWithKills: number; // Mains still in the guild with at least one kill in the expansion
+  instances: RaidInstanceProgress[]; // Newest raid first
+  summary: string | null; // Best difficulties of the newest raid, e.g. "8/8 H, 3/8 M"
+}
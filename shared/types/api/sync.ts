@@ -0,0 +1,67 @@
+/**
+ * API types for guild sync status reporting
+ */
+
+import type {
+  SyncRunStatus,
+  SyncRunTrigger,
+  SyncStepName,
+} from '../db/models/sync';
+
+/**
+ * A single stage of a guild sync run.
+ */
+export interface SyncRunStep {
+  step: SyncStepName;
+  status: SyncRunStatus;
+  startedAt: string;                 // ISO 8601
+  finishedAt: string | null;         // ISO 8601, null while running
+  durationMs: number | null;
+  error: string | null;
+  details: Record<string, number>;   // Step counters, e.g. queued/succeeded/failed characters
+}
+
+/**
+ * One execution of the guild sync pipeline.
+ */
+export interface SyncRun {
+  id: number;
+  guildId: number;
+  trigger: SyncRunTrigger;
+  triggeredBy: number | null;        // User ID for manual runs
+  status: SyncRunStatus;
+  startedAt: string;                 // ISO 8601
+  finishedAt: string | null;         // ISO 8601, null while running
+  durationMs: number | null;
+  error: string | null;
+  steps: SyncRunStep[];
+}
+
+/**
+ * Character sync jobs still queued or dead-lettered for a guild.
+ */
+export interface GuildSyncQueueSummary {
+  pending: number;
+  running: number;
+  dead: number;
+}
+
+/**
+ * Sync health overview returned by GET /api/guilds/:guildId/sync-status
+ */
+export interface GuildSyncStatus {
+  guildId: number;
+  lastRosterSync: string | null;     // ISO 8601 of the last completed guild sync
+  lastRun: SyncRun | null;
+  recentRuns: SyncRun[];             // Most recent first, includes lastRun
+  queue: GuildSyncQueueSummary;
+}
+
+/**
+ * Response of POST /api/guilds/:guildId/sync
+ */
+export interface GuildSyncRequestResult {
+  syncRunId: number;
+  startedAt: string;                 // ISO 8601
+  nextAllowedAt: string;             // ISO 8601, earliest time another manual sync is accepted
+}
@@ -0,0 +1,39 @@
+/**
+ * API types for per-guild event templates
+ */
+
+import type { EventType } from '../enums/event';
+import type { EventDetails } from '../models/event';
+
+/**
+ * Returned by GET /api/guilds/:guildId/event-templates
+ */
+export interface EventTemplate {
+  id: number;
+  guildId: number;
+  name: string;
+  title: string;
+  description: string;
+  eventType: EventType;
+  durationMinutes: number;
+  maxParticipants: number | null;
+  eventDetails: EventDetails;
+  reminderOffsetsMinutes: number[] | null;
+  isDefault: boolean;                // Preselected when creating an event of this type
+  updatedAt: string | null;
+}
+
+/**
+ * Body of POST /api/guilds/:guildId/event-templates and PUT .../event-templates/:templateId
+ */
+export interface SaveEventTemplateRequest {
+  name: string;
+  title: string;
+  description?: string;
+  eventType: EventType;
+  durationMinutes: number;
+  maxParticipants?: number | null;
+  eventDetails?: EventDetails;
+  reminderOffsetsMinutes?: number[] | null;
+  isDefault: boolean;
+}
@@ -0,0 +1,20 @@
+/**
+ * Database model types for the guild audit log
+ */
+
+/**
+ * Database model for one recorded officer action. A NULL guild_id is an
+ * account-wide action such as a role change.
+ */
+export interface DbAuditLogEntry {
+  id: number;
+  guild_id: number | null;
+  actor_id: number | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  target_label: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
@@ -0,0 +1,33 @@
+/**
+ * Database model types for iCalendar feeds
+ */
+
+/**
+ * Database model for a calendar feed token. A NULL guild_id is the user's
+ * personal feed of the events they signed up for.
+ */
+export interface DbCalendarFeedToken {
+  id: number;
+  user_id: number;
+  guild_id: number | null;
+  token_hash: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+/**
+ * Database model for a deleted event, kept so feeds can publish the cancellation
+ */
+export interface DbEventCancellation {
+  id: number;
+  event_id: number;
+  guild_id: number;
+  title: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  ical_sequence: number;
+  subscriber_user_ids: number[];
+  event_created_at: string | null;
+  cancelled_at: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * Database model types for Discord integration entities
+ */
+
+/**
+ * Auto-archive durations (in minutes) Discord accepts for threads
+ */
+export type ThreadAutoArchiveMinutes = 60 | 1440 | 4320 | 10080;
+
+/**
+ * Database model for the Discord configuration of a WoW guild
+ */
+export interface DbGuildDiscordSettings {
+  id: number;
+  guild_id: number;
+  discord_guild_id: string | null;
+  event_channel_id: string | null;
+  reminder_lead_times_minutes: number[];
+  thread_auto_archive_minutes: ThreadAutoArchiveMinutes;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Kinds of reminder DMs the reminder engine sends
+ */
+export type ReminderKind = 'signup_reminder' | 'starting_soon';
+
+/**
+ * Delivery states of a reminder
+ */
+export type ReminderDeliveryStatus = 'sending' | 'sent' | 'failed';
+
+/**
+ * Database model for a claimed or delivered reminder
+ */
+export interface DbReminderDelivery {
+  id: number;
+  event_id: number;
+  user_id: number;
+  kind: ReminderKind;
+  offset_minutes: number;
+  status: ReminderDeliveryStatus;
+  error: string | null;
+  created_at?: string;
+  sent_at: string | null;
+}
+
+/**
+ * Database model for a user's reminder opt-outs
+ */
+export interface DbUserReminderPreferences {
+  user_id: number;
+  signup_reminders: boolean;
+  starting_soon: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
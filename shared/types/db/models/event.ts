@@ -20,6 +20,58 @@ export interface DbEvent {
   event_details?: unknown; // Will contain EventDetails serialized as JSON
   discord_thread_id?: string | null;
   discord_message_id?: string | null;
+  reminder_offsets_minutes?: number[] | null;
+  series_id?: number | null;
+  series_occurrence_start?: string | null;
+  is_series_exception?: boolean;
+  ical_sequence?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Database model for a recurring event series
+ */
+export interface DbEventSeries {
+  id: number;
+  guild_id: number;
+  created_by: number | null;
+  title: string;
+  description: string | null;
+  event_type: EventType;
+  max_participants: number | null;
+  event_details?: unknown;
+  reminder_offsets_minutes: number[] | null;
+  timezone: string;
+  start_date: string; // YYYY-MM-DD
+  start_time_local: string; // HH:MM
+  duration_minutes: number;
+  weekdays: number[];
+  interval_weeks: number;
+  until_date: string | null; // YYYY-MM-DD
+  occurrence_count: number | null;
+  generated_until: string | null;
+  template_id?: number | null; // Template whose edits the series follows
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Database model for a reusable per-guild event template
+ */
+export interface DbEventTemplate {
+  id: number;
+  guild_id: number;
+  name: string;
+  title: string;
+  description: string | null;
+  event_type: EventType;
+  duration_minutes: number;
+  max_participants: number | null;
+  event_details?: unknown;
+  reminder_offsets_minutes: number[] | null;
+  is_default: boolean;
+  created_by: number | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -34,6 +86,48 @@ export interface DbEventSubscription {
   character_id: number;
   status: string; // Enum value as string: 'Confirmed', 'Tentative', 'Declined'
   notes?: string;
+  waitlisted_at?: string | null;
   created_at?: string;
   updated_at?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Database model for the publication state of an event's lineup
+ */
+export interface DbEventLineup {
+  event_id: number;
+  published_at: string | null;
+  published_by: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Database model for an officer's lineup pick for one sign-up
+ */
+export interface DbEventLineupEntry {
+  id: number;
+  event_id: number;
+  subscription_id: number;
+  selection: string | null; // 'In', 'Bench' or 'Standby'
+  group_number: number | null; // 1-8, only for 'In'
+  published_selection: string | null;
+  published_group_number: number | null;
+  updated_by: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Database model for an officer's attendance record of one character at an event
+ */
+export interface DbEventAttendance {
+  id: number;
+  event_id: number;
+  character_id: number;
+  status: string; // 'present', 'late', 'absent', 'excused' or 'benched'
+  note: string | null;
+  recorded_by: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
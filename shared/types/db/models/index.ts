@@ -6,3 +6,12 @@ export * from './character';
 export * from './member';
 export * from './event';
 export * from './rank';
+export * from './sync';
+export * from './discord';
+export * from './calendar';
+export * from './audit';
+export * from './member-event';
+export * from './raid';
+export * from './profession';
+export * from './snapshot';
+export * from './mythic-plus';
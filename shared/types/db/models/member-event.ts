@@ -0,0 +1,18 @@
+/**
+ * Database model types for the guild member history
+ */
+
+/**
+ * Database model for one roster change seen by the guild member sync
+ */
+export interface DbGuildMemberEvent {
+  id: number;
+  guild_id: number;
+  character_id: number | null;
+  character_name: string;
+  realm: string | null;
+  event_type: string;
+  old_value: string | null;
+  new_value: string | null;
+  occurred_at: string;
+}
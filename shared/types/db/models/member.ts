@@ -19,4 +19,16 @@ export interface DbGuildMember {
   joined_at?: string | null; // Added for tracking join date
   left_at?: string | null; // Added for tracking leave date (nullable for soft delete)
   consecutive_update_failures?: number; // Added for tracking update failures
-}
\ No newline at end of file
+}
+/**
+ * Database model for a date range a player is away
+ */
+export interface DbMemberAbsence {
+  id: number;
+  user_id: number;
+  start_date: string; // YYYY-MM-DD, first day away
+  end_date: string; // YYYY-MM-DD, last day away
+  reason: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
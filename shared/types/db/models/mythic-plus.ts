@@ -0,0 +1,17 @@
+/**
+ * Database model types for Mythic+
+ */
+
+/**
+ * Database model for the highest key a character timed in one dungeon this season
+ */
+export interface DbCharacterMythicBest {
+  id: number;
+  character_id: number;
+  season_id: number;
+  dungeon_id: number;
+  dungeon_name: string;
+  keystone_level: number;
+  completed_at: string;
+  synced_at: string;
+}
@@ -0,0 +1,28 @@
+/**
+ * Database model types for character professions
+ */
+
+/**
+ * A recipe a character knows in one profession tier
+ */
+export interface DbKnownRecipe {
+  id: number;
+  name: string;
+}
+
+/**
+ * Database model for one primary profession tier of a character
+ */
+export interface DbCharacterProfession {
+  id: number;
+  character_id: number;
+  profession_id: number;
+  profession_name: string;
+  tier_id: number;
+  tier_name: string;
+  expansion: string;
+  skill_points: number;
+  max_skill_points: number;
+  known_recipes: DbKnownRecipe[];
+  synced_at: string;
+}
@@ -0,0 +1,22 @@
+/**
+ * Database model types for raid progression
+ */
+
+/**
+ * Database model for one raid boss killed by a character on one difficulty
+ */
+export interface DbCharacterRaidKill {
+  id: number;
+  character_id: number;
+  expansion_id: number;
+  expansion_name: string;
+  instance_id: number;
+  instance_name: string;
+  difficulty: string;
+  encounter_id: number;
+  encounter_name: string;
+  instance_encounter_count: number;
+  completed_count: number;
+  last_kill_at: string | null;
+  synced_at: string;
+}
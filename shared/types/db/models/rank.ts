@@ -14,4 +14,17 @@ export interface DbGuildRank {
   member_count: number;
   created_at?: string;
   updated_at?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Database model for the capabilities granted to one rank of a guild
+ */
+export interface DbGuildRankPermission {
+  id: number;
+  guild_id: number;
+  rank_id: number;
+  capabilities: string[];
+  updated_by: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
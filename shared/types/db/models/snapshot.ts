@@ -0,0 +1,18 @@
+/**
+ * Database model types for character progression snapshots
+ */
+
+/**
+ * Database model for the key metrics of a character on one day
+ */
+export interface DbCharacterSnapshot {
+  id: number;
+  character_id: number;
+  snapshot_date: string; // YYYY-MM-DD (UTC)
+  level: number | null;
+  equipped_item_level: number | null;
+  average_item_level: number | null;
+  mythic_rating: string | null; // NUMERIC comes back as a string
+  achievement_points: number | null;
+  recorded_at: string;
+}
@@ -0,0 +1,105 @@
+/**
+ * Database model types for background sync entities
+ */
+
+/**
+ * Lifecycle states of a queued sync job
+ */
+export type SyncJobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+/**
+ * Kinds of work the sync queue knows how to process
+ */
+export type SyncJobType = 'character_sync';
+
+/**
+ * Database model for Sync Job
+ */
+export interface DbSyncJob {
+  id: number;
+  job_type: SyncJobType;
+  payload: Record<string, unknown>;
+  dedupe_key: string | null;
+  status: SyncJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_at: string | null;
+  locked_by: string | null;
+  last_error: string | null;
+  completed_at: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Count of jobs per type and status, used to report queue depth
+ */
+export interface SyncQueueDepth {
+  job_type: SyncJobType;
+  status: SyncJobStatus;
+  count: number;
+}
+
+/**
+ * What started a guild sync run
+ */
+export type SyncRunTrigger = 'scheduled' | 'manual';
+
+/**
+ * Outcome of a sync run or one of its steps
+ */
+export type SyncRunStatus = 'running' | 'succeeded' | 'failed';
+
+/**
+ * Stages of a guild sync, in execution order
+ */
+export type SyncStepName = 'core' | 'members' | 'ranks' | 'characters';
+
+/**
+ * Database model for Sync Run
+ */
+export interface DbSyncRun {
+  id: number;
+  guild_id: number;
+  trigger: SyncRunTrigger;
+  triggered_by: number | null;
+  status: SyncRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  error: string | null;
+}
+
+/**
+ * Database model for Sync Run Step
+ */
+export interface DbSyncRunStep {
+  id: number;
+  sync_run_id: number;
+  step: SyncStepName;
+  status: SyncRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  error: string | null;
+  details: Record<string, number>;
+}
+
+/**
+ * Battle.net resources whose HTTP validators are kept for conditional requests
+ */
+export type BattleNetResourceType = 'character' | 'guild' | 'guild_roster';
+
+/**
+ * Database model for Battle.net Resource Validator (ETag / Last-Modified)
+ */
+export interface DbBattleNetResourceValidator {
+  id: number;
+  resource_type: BattleNetResourceType;
+  resource_key: string;
+  etag: string | null;
+  last_modified: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
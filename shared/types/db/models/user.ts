@@ -22,4 +22,16 @@ export interface DbUser {
   user_data?: unknown | null; // Will be strictly typed in enhanced models
   discord_id?: string | null;
   discord_username?: string | null;
-}
\ No newline at end of file
+}
+
+/**
+ * Database model for a pending Discord account link token
+ */
+export interface DbDiscordLinkToken {
+  id: number;
+  token_hash: string;
+  discord_id: string;
+  discord_username: string;
+  expires_at: string;
+  created_at?: string;
+}
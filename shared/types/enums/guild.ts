@@ -10,4 +10,14 @@ export type CharacterRole = 'Tank' | 'Healer' | 'DPS' | 'Support';
 /**
  * Character classification types
  */
-export type CharacterClassification = 'Main' | 'Alt';
\ No newline at end of file
+export type CharacterClassification = 'Main' | 'Alt';
+
+/**
+ * What a guild rank may manage in the app
+ */
+export enum GuildCapability {
+  MANAGE_EVENTS = 'manage_events',
+  MANAGE_ROSTERS = 'manage_rosters',
+  MANAGE_RANKS = 'manage_ranks',
+  MANAGE_ATTENDANCE = 'manage_attendance'
+}
@@ -290,6 +290,7 @@ export interface BattleNetItem {
         name?: string;
     };
     sockets?: BattleNetSocket[];
+    enchantments?: BattleNetEnchantment[];
     slot: {
         type: string;
         name: string;
@@ -422,6 +423,20 @@ export interface BattleNetSocket {
     }
 }
 
+export interface BattleNetEnchantment {
+    display_string: string;
+    source_item?: {
+        key: KeyReference;
+        name: string;
+        id: number;
+    };
+    enchantment_id: number;
+    enchantment_slot: {
+        id: number;
+        type: string;
+    };
+}
+
 export interface BattleNetStat {
     type: {
         type: string;
@@ -635,6 +650,7 @@ export interface Item {
         name?: string;
     };
     sockets?: BattleNetSocket[];
+    enchantments?: BattleNetEnchantment[];
     slot: {
         type: string;
         name: string;
@@ -42,6 +42,13 @@ export interface Event {
   event_details?: EventDetails;
   discord_thread_id?: string | null;
   discord_message_id?: string | null;
+  reminder_offsets_minutes?: number[] | null; // Overrides the guild's reminder lead times
+  series_id?: number | null; // Recurring series this event is an occurrence of
+  series_occurrence_start?: string | null; // Start time the series rule generated
+  is_series_exception?: boolean; // Edited on its own; series-wide edits skip it
+  ical_sequence?: number; // Bumped when the title, description or times change
+  created_at?: string;
+  updated_at?: string;
 }
 
 /**
@@ -56,6 +63,7 @@ export interface EventSubscription {
   created_at?: string;
   battletag?: string;
   notes?: string;
+  waitlisted_at?: string | null; // Set while a Confirmed sign-up waits for a free slot
 }
 
 /**
@@ -84,6 +92,22 @@ export interface EventParticipant extends EventSubscription {
   character_item_level?: number;
 }
 
+/**
+ * Weekly recurrence rule of an event series
+ */
+export interface RecurrenceRule {
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  interval_weeks: number; // 1 = every week, 2 = every other week, ...
+  until_date?: string | null; // YYYY-MM-DD, last day an occurrence can fall on
+  occurrence_count?: number | null; // Total number of occurrences
+  timezone: string; // IANA timezone the start time is repeated in
+}
+
+/**
+ * Which occurrences of a series an edit applies to
+ */
+export type EventEditScope = 'this' | 'following' | 'all';
+
 /**
  * Form values for event creation/editing
  */
@@ -96,4 +120,7 @@ export interface EventFormValues {
   max_participants: number;
   guild_id: number;
   event_details?: EventDetails;
+  reminder_offsets_minutes?: number[] | null;
+  recurrence?: RecurrenceRule | null; // Only used when creating an event
+  template_id?: number | null; // Template the event was created from; a recurring series keeps following it
 }
\ No newline at end of file
@@ -20,8 +20,8 @@ export interface User {
   user_data?: BattleNetUserProfile | null;
   tokens_valid_since?: string; // Added for token revocation
   discord_id?: string | null;
+  discord_username?: string | null;
   // Optionally add these if backend provides them:
-  // discord_username?: string | null;
   // discord_avatar?: string | null;
 }
 